@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
 import { adminAction } from "@/lib/adminApi";
 
 type Profile = {
@@ -40,7 +41,7 @@ export default function AdminApprovePlayersPage() {
       return false;
     }
 
-    if (me?.role !== "admin" || me?.status !== "active") {
+    if (!hasScope(me?.role, "people") || me?.status !== "active") {
       router.replace("/app");
       return false;
     }
@@ -0,0 +1,373 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { STAFF_ROLES, hasScope } from "@/lib/adminRoles";
+import { adminActionSchemas } from "@/lib/adminActions";
+
+type Row = Record<string, unknown>;
+
+type RowChange = {
+  table: string;
+  op: "insert" | "update" | "delete";
+  before: Row[];
+  after: Row[];
+};
+
+type AuditEntry = {
+  id: number;
+  created_at: string;
+  admin_id: string | null;
+  action_type: string;
+  payload: Row;
+  changes: RowChange[];
+  error: string | null;
+};
+
+type AdminProfile = { id: string; name: string | null };
+
+const PAGE_SIZE = 50;
+
+const ACTION_TYPES = Object.keys(adminActionSchemas).sort();
+
+// Noise we don't show in diffs
+const HIDDEN_FIELDS = new Set(["created_at", "updated_at"]);
+
+function fmtDate(iso: string) {
+  try {
+    return new Date(iso).toLocaleString();
+  } catch {
+    return iso;
+  }
+}
+
+function fmtValue(v: unknown) {
+  if (v == null) return "—";
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+/** "field: old → new" lines for an update, "field: value" for insert/delete. */
+function describeRow(before: Row | undefined, after: Row | undefined) {
+  const keys = Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})])).filter(
+    (k) => !HIDDEN_FIELDS.has(k)
+  );
+
+  if (before && after) {
+    return keys
+      .filter((k) => fmtValue(before[k]) !== fmtValue(after[k]))
+      .map((k) => `${k}: ${fmtValue(before[k])} → ${fmtValue(after[k])}`);
+  }
+
+  const row = (before || after)!;
+  return keys.map((k) => `${k}: ${fmtValue(row[k])}`);
+}
+
+export default function AdminAuditPage() {
+  const router = useRouter();
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [admins, setAdmins] = useState<AdminProfile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [err, setErr] = useState("");
+
+  // Filters
+  const [actionType, setActionType] = useState("");
+  const [adminId, setAdminId] = useState("");
+  const [entityId, setEntityId] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  const [openId, setOpenId] = useState<number | null>(null);
+
+  async function requireAdmin() {
+    const { data } = await supabase.auth.getUser();
+    if (!data.user) {
+      router.replace("/register");
+      return false;
+    }
+
+    const { data: me, error } = await supabase
+      .from("profiles")
+      .select("role,status")
+      .eq("id", data.user.id)
+      .single();
+
+    if (error) {
+      setErr(error.message);
+      return false;
+    }
+
+    if (!hasScope(me?.role, "oversight") || me?.status !== "active") {
+      router.replace("/app");
+      return false;
+    }
+
+    return true;
+  }
+
+  async function loadAdmins() {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("id,name")
+      .in("role", STAFF_ROLES)
+      .order("name");
+    if (error) return setErr(error.message);
+    setAdmins((data as AdminProfile[]) || []);
+  }
+
+  async function load(offset = 0) {
+    setErr("");
+    setBusy(true);
+
+    let q = supabase
+      .from("admin_audit_log")
+      .select("id,created_at,admin_id,action_type,payload,changes,error")
+      .order("created_at", { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (actionType) q = q.eq("action_type", actionType);
+    if (adminId) q = q.eq("admin_id", adminId);
+    if (entityId.trim()) q = q.contains("entity_ids", [entityId.trim()]);
+    if (fromDate) q = q.gte("created_at", new Date(fromDate).toISOString());
+    if (toDate) q = q.lte("created_at", new Date(toDate).toISOString());
+
+    const { data, error } = await q;
+
+    if (error) {
+      setErr(error.message);
+    } else {
+      const rows = (data as AuditEntry[]) || [];
+      setEntries((prev) => (offset === 0 ? rows : [...prev, ...rows]));
+      setHasMore(rows.length === PAGE_SIZE);
+    }
+
+    setBusy(false);
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    (async () => {
+      const ok = await requireAdmin();
+      if (!ok) return;
+      await loadAdmins();
+      await load();
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const adminName = useMemo(() => {
+    const m = new Map<string, string>();
+    admins.forEach((a) => m.set(a.id, a.name || "Unnamed admin"));
+    return m;
+  }, [admins]);
+
+  function clearFilters() {
+    setActionType("");
+    setAdminId("");
+    setEntityId("");
+    setFromDate("");
+    setToDate("");
+  }
+
+  if (loading) {
+    return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading…</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0b1530] text-white p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-3">
+          <Link href="/admin" className="text-white/80 hover:text-white underline">
+            ← Back to Admin
+          </Link>
+          <button
+            disabled={busy}
+            onClick={() => load()}
+            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+          >
+            Refresh
+          </button>
+        </div>
+
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
+          <div className="text-2xl font-bold">Admin • Audit Log</div>
+          <div className="text-white/70">
+            Every admin change with who did it and the data before / after.
+          </div>
+        </div>
+
+        {err && <div className="text-red-400 whitespace-pre-wrap">{err}</div>}
+
+        {/* Filters */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+          <div className="text-xl font-bold">Filter</div>
+
+          <div className="grid md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <div className="text-white/70 text-sm">Action</div>
+              <select
+                className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+                value={actionType}
+                onChange={(e) => setActionType(e.target.value)}
+              >
+                <option value="">All actions</option>
+                {ACTION_TYPES.map((t) => (
+                  <option key={t} value={t}>
+                    {t}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-white/70 text-sm">Admin</div>
+              <select
+                className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+                value={adminId}
+                onChange={(e) => setAdminId(e.target.value)}
+              >
+                <option value="">All admins</option>
+                {admins.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name || "Unnamed admin"}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-white/70 text-sm">Row id (match / team / player…)</div>
+              <input
+                value={entityId}
+                onChange={(e) => setEntityId(e.target.value)}
+                placeholder="Paste an id"
+                className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-white/70 text-sm">From</div>
+              <input
+                type="datetime-local"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-white/70 text-sm">To</div>
+              <input
+                type="datetime-local"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2 flex-wrap">
+            <button
+              disabled={busy}
+              onClick={() => load()}
+              className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+            >
+              Apply
+            </button>
+            <button
+              disabled={busy}
+              onClick={clearFilters}
+              className="bg-[#0b1530] border border-[#1f2a60] disabled:opacity-60 px-5 py-3 rounded-xl font-bold"
+            >
+              Clear
+            </button>
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
+          <div className="text-xl font-bold mb-3">Entries</div>
+
+          {entries.length === 0 ? (
+            <div className="text-white/70">No audit entries match these filters.</div>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((e) => {
+                const open = openId === e.id;
+                const who = e.admin_id ? adminName.get(e.admin_id) || e.admin_id : "—";
+                const rowsChanged = e.changes.reduce((n, c) => n + Math.max(c.before.length, c.after.length), 0);
+
+                return (
+                  <div key={e.id} className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3">
+                    <button onClick={() => setOpenId(open ? null : e.id)} className="w-full text-left">
+                      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+                        <div>
+                          <div className="font-bold">
+                            {e.action_type}
+                            {e.error ? <span className="text-red-300 font-normal"> • failed</span> : null}
+                          </div>
+                          <div className="text-white/60 text-xs">
+                            {fmtDate(e.created_at)} • by <b className="text-white">{who}</b> • {rowsChanged} row(s)
+                          </div>
+                        </div>
+                        <div className="text-white/60 text-sm">{open ? "▲" : "▼"}</div>
+                      </div>
+                    </button>
+
+                    {open ? (
+                      <div className="mt-3 space-y-2 text-sm">
+                        {e.error ? <div className="text-red-300">Error: {e.error}</div> : null}
+
+                        <div className="text-white/60 text-xs">Payload</div>
+                        <pre className="bg-[#111c44] border border-white/10 rounded-xl p-3 text-xs whitespace-pre-wrap break-all">
+                          {JSON.stringify(e.payload, null, 2)}
+                        </pre>
+
+                        {e.changes.map((c, i) => {
+                          const n = Math.max(c.before.length, c.after.length);
+                          return (
+                            <div key={i} className="bg-[#111c44] border border-white/10 rounded-xl p-3 space-y-2">
+                              <div className="font-bold">
+                                {c.table} <span className="text-white/60 font-normal">• {c.op}</span>
+                              </div>
+                              {Array.from({ length: n }).map((_, j) => (
+                                <div key={j} className="text-xs text-white/80 font-mono space-y-0.5">
+                                  {describeRow(c.before[j], c.after[j]).map((line) => (
+                                    <div key={line}>{line}</div>
+                                  ))}
+                                </div>
+                              ))}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {hasMore ? (
+            <button
+              disabled={busy}
+              onClick={() => load(entries.length)}
+              className="mt-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+            >
+              Load more
+            </button>
+          ) : null}
+        </div>
+
+        <div className="text-white/50 text-xs">
+          Entries are written by the server for every action on /api/admin/action. They cannot be edited.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
 import { adminAction } from "@/lib/adminApi";
 
 type Profile = {
@@ -30,7 +31,7 @@ export default function AdminFansPage() {
       return false;
     }
     const { data: me } = await supabase.from("profiles").select("role,status").eq("id", data.user.id).single();
-    if (me?.role !== "admin" || me?.status !== "active") {
+    if (!hasScope(me?.role, "people") || me?.status !== "active") {
       router.replace("/app");
       return false;
     }
@@ -3,19 +3,51 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
 import { adminAction } from "@/lib/adminApi";
-
-type Team = { id: string; name: string };
+import { batchStep } from "@/lib/adminActions";
+import type { DrawStep } from "@/lib/draw";
+import {
+  DEFAULT_TIEBREAKERS,
+  GroupStandings,
+  SEPARATION_LABELS,
+  TIEBREAKERS,
+  Tiebreaker,
+  normalizeTiebreakers,
+} from "@/lib/standings";
+import { fetchStandings } from "@/lib/standingsApi";
+import { ExistingFixture, planFixtures } from "@/lib/fixtures";
+import { useTournament } from "@/components/TournamentContext";
+import GroupDraw from "@/components/GroupDraw";
+
+type Team = { id: string; name: string; university: string | null };
 type Group = { id: string; name: string };
 type TeamGroupRow = { team_id: string; group_id: string };
+type LotRow = { group_id: string; team_id: string; position: number };
 
 export default function AdminGroupsPage() {
   const router = useRouter();
+  const { tournament } = useTournament();
 
   const [teams, setTeams] = useState<Team[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
   const [teamGroups, setTeamGroups] = useState<TeamGroupRow[]>([]);
 
+  // tiebreakers: the enabled rules, in order
+  const [rules, setRules] = useState<Tiebreaker[]>([...DEFAULT_TIEBREAKERS]);
+  const [lotDraft, setLotDraft] = useState<Record<string, Record<string, string>>>({});
+  const [tables, setTables] = useState<GroupStandings[]>([]);
+  const [msg, setMsg] = useState("");
+
+  // fixture generator
+  const [groupMatches, setGroupMatches] = useState<ExistingFixture[]>([]);
+  const [fixtureGroupIds, setFixtureGroupIds] = useState<string[]>([]);
+  const [doubleRound, setDoubleRound] = useState(false);
+  const [slots, setSlots] = useState<string[]>([]);
+  const [slotStart, setSlotStart] = useState("");
+  const [slotCount, setSlotCount] = useState("1");
+  const [slotEvery, setSlotEvery] = useState("60");
+
   const [newGroupName, setNewGroupName] = useState("");
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(true);
@@ -34,7 +66,7 @@ export default function AdminGroupsPage() {
       .eq("id", data.user.id)
       .single();
 
-    if (me?.role !== "admin" || me?.status !== "active") {
+    if (!hasScope(me?.role, "tournament") || me?.status !== "active") {
       router.replace("/app");
       return false;
     }
@@ -48,6 +80,8 @@ export default function AdminGroupsPage() {
     const { data: g, error: gErr } = await supabase
       .from("groups")
       .select("id,name")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
       .order("name");
     if (gErr) {
       setError(gErr.message);
@@ -58,7 +92,9 @@ export default function AdminGroupsPage() {
 
     const { data: t, error: tErr } = await supabase
       .from("teams")
-      .select("id,name")
+      .select("id,name,university")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
       .order("name");
     if (tErr) {
       setError(tErr.message);
@@ -69,7 +105,8 @@ export default function AdminGroupsPage() {
 
     const { data: tg, error: tgErr } = await supabase
       .from("team_groups")
-      .select("team_id,group_id");
+      .select("team_id,group_id")
+      .is("archived_at", null);
     if (tgErr) {
       setError(tgErr.message);
       setLoading(false);
@@ -77,6 +114,52 @@ export default function AdminGroupsPage() {
     }
     setTeamGroups((tg as TeamGroupRow[]) || []);
 
+    const { data: st, error: stErr } = await supabase
+      .from("standings_settings")
+      .select("tiebreakers")
+      .eq("tournament_id", tournament.id)
+      .maybeSingle();
+    if (stErr) {
+      setError(stErr.message);
+      setLoading(false);
+      return;
+    }
+    setRules(normalizeTiebreakers(st?.tiebreakers));
+
+    const { data: lt, error: ltErr } = await supabase.from("group_lots").select("group_id,team_id,position");
+    if (ltErr) {
+      setError(ltErr.message);
+      setLoading(false);
+      return;
+    }
+    const draft: Record<string, Record<string, string>> = {};
+    ((lt as LotRow[]) || []).forEach((l) => {
+      draft[l.group_id] = { ...(draft[l.group_id] || {}), [l.team_id]: String(l.position) };
+    });
+    setLotDraft(draft);
+
+    // existing matches, so generated fixtures skip them and their kick-off slots
+    const { data: gm, error: gmErr } = await supabase
+      .from("matches")
+      .select("group_id,home_team_id,away_team_id,start_time")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null);
+    if (gmErr) {
+      setError(gmErr.message);
+      setLoading(false);
+      return;
+    }
+    setGroupMatches((gm as ExistingFixture[]) || []);
+
+    // current tables, only to point out teams that need a drawing of lots
+    try {
+      setTables((await fetchStandings(tournament.id)).groups);
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to load standings");
+      setLoading(false);
+      return;
+    }
+
     setLoading(false);
   }
 
@@ -87,7 +170,7 @@ export default function AdminGroupsPage() {
       await load();
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
 
   const groupNameById = useMemo(() => {
     const m = new Map<string, string>();
@@ -101,6 +184,151 @@ export default function AdminGroupsPage() {
     return m;
   }, [teamGroups]);
 
+  /** Teams per group that the saved rules leave level (or that lots already decided). */
+  const levelTeams = useMemo(() => {
+    const m = new Map<string, Set<string>>();
+    for (const g of tables) {
+      const level = new Set<string>();
+      g.rows.forEach((r, i) => {
+        if (r.separated_by === "unresolved" || r.separated_by === "lots") {
+          level.add(r.team_id);
+          level.add(g.rows[i - 1].team_id);
+        }
+      });
+      m.set(g.group_id, level);
+    }
+    return m;
+  }, [tables]);
+
+  // same inputs (and order) as the generateFixtures action, so the preview is what gets created
+  const fixturePlan = useMemo(
+    () =>
+      planFixtures({
+        groups: groups
+          .filter((g) => fixtureGroupIds.includes(g.id))
+          .map((g) => ({
+            group_id: g.id,
+            team_ids: teamGroups
+              .filter((tg) => tg.group_id === g.id)
+              .map((tg) => tg.team_id)
+              .sort(),
+          })),
+        existing: groupMatches,
+        double: doubleRound,
+        slots,
+      }),
+    [groups, fixtureGroupIds, teamGroups, groupMatches, doubleRound, slots]
+  );
+
+  const teamNameById = useMemo(() => {
+    const m = new Map<string, string>();
+    teams.forEach((t) => m.set(t.id, t.name));
+    return m;
+  }, [teams]);
+
+  function toggleFixtureGroup(id: string) {
+    setFixtureGroupIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  }
+
+  function addSlots() {
+    setError("");
+    const start = new Date(slotStart).getTime();
+    const count = Number(slotCount);
+    const every = Number(slotEvery);
+    if (!slotStart || Number.isNaN(start)) return setError("Pick the first slot's date and time.");
+    if (!Number.isInteger(count) || count < 1 || count > 100) return setError("Slots to add must be 1–100.");
+    if (count > 1 && (!Number.isFinite(every) || every <= 0)) return setError("Minutes between slots must be more than 0.");
+
+    const added = Array.from({ length: count }, (_, i) => new Date(start + i * every * 60000).toISOString());
+    setSlots((prev) => [...prev, ...added].sort());
+  }
+
+  async function createFixtures() {
+    setError("");
+    setMsg("");
+    if (fixturePlan.fixtures.length === 0) return setError("Nothing to create.");
+
+    setBusy(true);
+    try {
+      const res = await adminAction("generateFixtures", {
+        group_ids: groups.filter((g) => fixtureGroupIds.includes(g.id)).map((g) => g.id),
+        double_round: doubleRound,
+        slots,
+      });
+      setMsg(
+        `✅ Created ${res.created} match(es).` +
+          (res.skipped ? ` ${res.skipped} already existed.` : "") +
+          (res.unscheduled ? ` ${res.unscheduled} have no kickoff time yet (not enough slots).` : "")
+      );
+      setSlots([]);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to create fixtures");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function moveRule(rule: Tiebreaker, delta: number) {
+    setRules((prev) => {
+      const i = prev.indexOf(rule);
+      const j = i + delta;
+      if (i < 0 || j < 0 || j >= prev.length) return prev;
+      const next = prev.slice();
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+  }
+
+  function toggleRule(rule: Tiebreaker) {
+    setRules((prev) => (prev.includes(rule) ? prev.filter((r) => r !== rule) : [...prev, rule]));
+  }
+
+  async function saveRules() {
+    setError("");
+    setMsg("");
+    setBusy(true);
+    try {
+      await adminAction("setTiebreakers", { tournament_id: tournament.id, tiebreakers: rules });
+      setMsg("✅ Tiebreakers saved.");
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to save tiebreakers");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveLots(group: Group) {
+    setError("");
+    setMsg("");
+
+    const entered = Object.entries(lotDraft[group.id] || {})
+      .filter(([, v]) => v.trim() !== "")
+      .map(([teamId, v]) => ({ teamId, pos: Number(v) }));
+    if (entered.some((e) => !Number.isInteger(e.pos) || e.pos < 1)) {
+      setError("Lot positions must be whole numbers from 1.");
+      return;
+    }
+    if (new Set(entered.map((e) => e.pos)).size !== entered.length) {
+      setError("Two teams can't share a lot position.");
+      return;
+    }
+
+    const team_ids = entered.sort((a, b) => a.pos - b.pos).map((e) => e.teamId);
+
+    setBusy(true);
+    try {
+      await adminAction("setGroupLots", { group_id: group.id, team_ids });
+      setMsg(team_ids.length ? `✅ Drawing of lots saved for ${group.name}.` : `Drawing of lots cleared for ${group.name}.`);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to save drawing of lots");
+    } finally {
+      setBusy(false);
+    }
+  }
+
   async function createGroup() {
     setError("");
     const name = newGroupName.trim();
@@ -111,7 +339,7 @@ export default function AdminGroupsPage() {
 
     setBusy(true);
     try {
-      await adminAction("createGroup", { name });
+      await adminAction("createGroup", { tournament_id: tournament.id, name });
       setNewGroupName("");
       await load();
     } catch (e: any) {
@@ -147,6 +375,23 @@ export default function AdminGroupsPage() {
     }
   }
 
+  async function saveDraw(steps: DrawStep[]) {
+    setError("");
+    setMsg("");
+    setBusy(true);
+    try {
+      await adminAction("batch", {
+        steps: steps.map((s) => batchStep("assignTeamGroup", { teamId: s.team_id, groupId: s.group_id })),
+      });
+      setMsg(`✅ Draw saved: ${steps.length} team(s) placed.`);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to save the draw");
+    } finally {
+      setBusy(false);
+    }
+  }
+
   async function logout() {
     await supabase.auth.signOut();
     router.replace("/register");
@@ -184,6 +429,7 @@ export default function AdminGroupsPage() {
         </div>
 
         {error && <div className="text-red-400 whitespace-pre-wrap">{error}</div>}
+        {msg && <div className="text-green-300">{msg}</div>}
 
         {/* Create group */}
         <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
@@ -277,6 +523,299 @@ export default function AdminGroupsPage() {
             Tip: standings will be calculated per group using matches where stage = <b>group</b> and group_id matches.
           </div>
         </div>
+
+        {/* Group draw */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-4">
+          <div>
+            <div className="text-xl font-bold">Group Draw</div>
+            <div className="text-white/70 text-sm">
+              Put teams in seeding pots, set the rules and draw them into groups. Preview it, run it live on the big
+              screen, then save.
+            </div>
+          </div>
+
+          {groups.length === 0 || teams.length === 0 ? (
+            <div className="text-white/70">Create groups and teams first.</div>
+          ) : (
+            <GroupDraw teams={teams} groups={groups} teamGroups={teamGroups} disabled={busy} onSave={saveDraw} />
+          )}
+        </div>
+
+        {/* Generate fixtures */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-4">
+          <div>
+            <div className="text-xl font-bold">Generate Fixtures</div>
+            <div className="text-white/70 text-sm">
+              Round-robin group matches with balanced home/away, spread over your time slots. Matches that already
+              exist are skipped.
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {groups.map((g) => (
+              <label
+                key={g.id}
+                className="bg-[#0b1530] border border-[#1f2a60] rounded-xl px-3 py-2 flex items-center gap-2"
+              >
+                <input
+                  type="checkbox"
+                  checked={fixtureGroupIds.includes(g.id)}
+                  onChange={() => toggleFixtureGroup(g.id)}
+                />
+                <span className="font-bold">{g.name}</span>
+              </label>
+            ))}
+            <button
+              onClick={() =>
+                setFixtureGroupIds(fixtureGroupIds.length === groups.length ? [] : groups.map((g) => g.id))
+              }
+              className="bg-white/10 hover:bg-white/20 transition px-3 py-2 rounded-xl font-bold"
+            >
+              {fixtureGroupIds.length === groups.length ? "None" : "All groups"}
+            </button>
+          </div>
+
+          <div className="flex gap-4">
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={!doubleRound} onChange={() => setDoubleRound(false)} />
+              Single round-robin
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="radio" checked={doubleRound} onChange={() => setDoubleRound(true)} />
+              Double (home &amp; away)
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-white/70 text-sm">Time slots (one match per slot; add the same time twice for two pitches)</div>
+            <div className="grid md:grid-cols-4 gap-2">
+              <input
+                type="datetime-local"
+                value={slotStart}
+                onChange={(e) => setSlotStart(e.target.value)}
+                className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+              />
+              <input
+                value={slotCount}
+                onChange={(e) => setSlotCount(e.target.value)}
+                inputMode="numeric"
+                placeholder="How many"
+                className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+              />
+              <input
+                value={slotEvery}
+                onChange={(e) => setSlotEvery(e.target.value)}
+                inputMode="numeric"
+                placeholder="Minutes apart"
+                className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+              />
+              <button
+                onClick={addSlots}
+                className="bg-blue-600 hover:bg-blue-500 transition px-4 py-2 rounded-xl font-bold"
+              >
+                Add slots
+              </button>
+            </div>
+            <div className="text-white/50 text-xs">First slot • how many • minutes between them.</div>
+
+            {slots.length ? (
+              <div className="flex flex-wrap gap-2">
+                {slots.map((iso, i) => (
+                  <button
+                    key={`${iso}-${i}`}
+                    onClick={() => setSlots((prev) => prev.filter((_, j) => j !== i))}
+                    title="Remove slot"
+                    className="bg-[#0b1530] border border-[#1f2a60] hover:border-red-400 rounded-lg px-2 py-1 text-xs"
+                  >
+                    {new Date(iso).toLocaleString()} ✕
+                  </button>
+                ))}
+                <button onClick={() => setSlots([])} className="text-white/60 hover:text-white text-xs underline">
+                  Clear slots
+                </button>
+              </div>
+            ) : null}
+          </div>
+
+          {fixtureGroupIds.length ? (
+            <div className="space-y-2">
+              <div className="font-bold">
+                Preview: {fixturePlan.fixtures.length} new match(es)
+                {fixturePlan.existing.length ? (
+                  <span className="text-white/60 font-normal"> • {fixturePlan.existing.length} already exist</span>
+                ) : null}
+              </div>
+
+              {fixturePlan.fixtures.length ? (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="text-white/60">
+                      <tr>
+                        <th className="text-left py-2">Rd</th>
+                        <th className="text-left py-2">Group</th>
+                        <th className="text-left py-2">Home</th>
+                        <th className="text-left py-2">Away</th>
+                        <th className="text-left py-2">Kickoff</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {fixturePlan.fixtures.map((f, i) => (
+                        <tr key={i} className="border-t border-white/10">
+                          <td className="py-2">{f.round}</td>
+                          <td className="py-2">{groupNameById.get(f.group_id) || "—"}</td>
+                          <td className="py-2 font-bold">{teamNameById.get(f.home_team_id) || "—"}</td>
+                          <td className="py-2 font-bold">{teamNameById.get(f.away_team_id) || "—"}</td>
+                          <td className={`py-2 ${f.start_time ? "" : "text-yellow-200"}`}>
+                            {f.start_time ? new Date(f.start_time).toLocaleString() : "No slot left"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <div className="text-white/70 text-sm">Every pairing already has a match.</div>
+              )}
+
+              <button
+                onClick={createFixtures}
+                disabled={busy || fixturePlan.fixtures.length === 0}
+                className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+              >
+                Create {fixturePlan.fixtures.length} match(es)
+              </button>
+            </div>
+          ) : (
+            <div className="text-white/60 text-sm">Pick one or more groups to see the fixtures.</div>
+          )}
+        </div>
+
+        {/* Tiebreakers */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+          <div>
+            <div className="text-xl font-bold">Tiebreakers</div>
+            <div className="text-white/70 text-sm">
+              Teams level on points are separated by these rules, top to bottom. Head-to-head rules only count
+              matches between the tied teams.
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {[...rules, ...TIEBREAKERS.filter((r) => !rules.includes(r))].map((r) => {
+              const on = rules.includes(r);
+              const i = rules.indexOf(r);
+              return (
+                <div
+                  key={r}
+                  className={`bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 flex items-center justify-between gap-3 ${
+                    on ? "" : "opacity-60"
+                  }`}
+                >
+                  <label className="flex items-center gap-3">
+                    <input type="checkbox" checked={on} disabled={busy} onChange={() => toggleRule(r)} />
+                    <span className="font-bold">
+                      {on ? `${i + 1}. ` : ""}
+                      {SEPARATION_LABELS[r]}
+                    </span>
+                    {r === "fair_play" ? <span className="text-white/50 text-xs">(fewest penalty points)</span> : null}
+                  </label>
+
+                  {on ? (
+                    <div className="flex gap-2">
+                      <button
+                        disabled={busy || i === 0}
+                        onClick={() => moveRule(r, -1)}
+                        className="bg-white/10 hover:bg-white/20 disabled:opacity-40 transition px-3 py-1 rounded-lg font-bold"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        disabled={busy || i === rules.length - 1}
+                        onClick={() => moveRule(r, 1)}
+                        className="bg-white/10 hover:bg-white/20 disabled:opacity-40 transition px-3 py-1 rounded-lg font-bold"
+                      >
+                        ↓
+                      </button>
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              onClick={saveRules}
+              disabled={busy}
+              className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+            >
+              Save order
+            </button>
+            <button
+              onClick={() => setRules([...DEFAULT_TIEBREAKERS])}
+              disabled={busy}
+              className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+            >
+              Reset to default
+            </button>
+          </div>
+        </div>
+
+        {/* Drawing of lots */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+          <div>
+            <div className="text-xl font-bold">Drawing of Lots</div>
+            <div className="text-white/70 text-sm">
+              Enter the result of a drawing of lots (1 = best). It only counts while the &quot;Drawing of lots&quot;
+              tiebreaker is enabled and the teams are still level after the rules above it.
+            </div>
+          </div>
+
+          {groups.map((g) => {
+            const members = teams.filter((t) => teamToGroupId.get(t.id) === g.id);
+            const level = levelTeams.get(g.id) || new Set<string>();
+            if (members.length === 0) return null;
+
+            return (
+              <div key={g.id} className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 space-y-2">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="font-bold">{g.name}</div>
+                  <button
+                    onClick={() => saveLots(g)}
+                    disabled={busy}
+                    className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+                  >
+                    Save lots
+                  </button>
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-2">
+                  {members.map((t) => (
+                    <div key={t.id} className="flex items-center justify-between gap-3">
+                      <div>
+                        {t.name}
+                        {level.has(t.id) ? (
+                          <span className="text-yellow-200 text-xs ml-2">
+                            {lotDraft[g.id]?.[t.id] ? "level — decided by lots" : "level — lots needed"}
+                          </span>
+                        ) : null}
+                      </div>
+                      <input
+                        value={lotDraft[g.id]?.[t.id] ?? ""}
+                        onChange={(e) =>
+                          setLotDraft((prev) => ({ ...prev, [g.id]: { ...(prev[g.id] || {}), [t.id]: e.target.value } }))
+                        }
+                        placeholder="—"
+                        inputMode="numeric"
+                        className="w-20 rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none text-center"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
       </div>
     </div>
   );
@@ -4,25 +4,65 @@ import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
 import { adminAction } from "@/lib/adminApi";
+import type { KnockoutRound, MatchPatch } from "@/lib/adminActions";
+import type { GroupStandings } from "@/lib/standings";
+import { fetchStandings } from "@/lib/standingsApi";
+import { formatScore } from "@/lib/matchResult";
+import KnockoutResultEditor, { NO_KICKS, PenaltyKick } from "@/components/KnockoutResultEditor";
+import { useTournament } from "@/components/TournamentContext";
+import {
+  FIRST_ROUND_BY_SIZE,
+  Pairing,
+  qualifiers,
+  seedFirstRound,
+  slotCode,
+  slotPlaceholder,
+} from "@/lib/bracket";
 
 type Team = { id: string; name: string };
 
 type MatchRow = {
   id: string;
   stage: "group" | "knockout";
-  home_team_id: string;
-  away_team_id: string;
+  home_team_id: string | null;
+  away_team_id: string | null;
   start_time: string | null;
   home_score: number | null;
   away_score: number | null;
+  et_home_score: number | null;
+  et_away_score: number | null;
+  home_pens: number | null;
+  away_pens: number | null;
   status: "scheduled" | "finished";
-  knockout_round: string | null;
+  knockout_round: KnockoutRound | null;
   knockout_order: number | null;
   knockout_label: string | null;
+  home_source_match_id: string | null;
+  home_source: "winner" | "loser" | null;
+  away_source_match_id: string | null;
+  away_source: "winner" | "loser" | null;
 };
 
-const ROUND_OPTIONS = [
+type Side = "home" | "away";
+
+// slot select values: a team id, or "winner:<match id>" / "loser:<match id>"
+function slotValue(m: MatchRow, side: Side) {
+  const source = m[`${side}_source_match_id`];
+  if (source) return `${m[`${side}_source`] || "winner"}:${source}`;
+  return m[`${side}_team_id`] || "";
+}
+
+function slotPatch(side: Side, value: string): MatchPatch {
+  const [kind, id] = value.split(":");
+  if (id) {
+    return { [`${side}_source_match_id`]: id, [`${side}_source`]: kind as "winner" | "loser" };
+  }
+  return { [`${side}_team_id`]: value || null };
+}
+
+const ROUND_OPTIONS: { code: KnockoutRound; name: string }[] = [
   { code: "R16", name: "Round of 16" },
   { code: "QF", name: "Quarterfinal" },
   { code: "SF", name: "Semifinal" },
@@ -37,28 +77,80 @@ function roundName(code: string | null) {
 
 export default function AdminKnockoutPage() {
   const router = useRouter();
+  const { tournament } = useTournament();
 
   const [teams, setTeams] = useState<Team[]>([]);
   const [matches, setMatches] = useState<MatchRow[]>([]);
+  const [kicks, setKicks] = useState<(PenaltyKick & { match_id: string })[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
 
   const [busy, setBusy] = useState(false);
 
   // Create knockout match form
-  const [round, setRound] = useState("QF");
+  const [round, setRound] = useState<KnockoutRound>("QF");
   const [label, setLabel] = useState("");
   const [order, setOrder] = useState("1");
-  const [homeId, setHomeId] = useState("");
+  const [homeId, setHomeId] = useState(""); // team id or "winner:<match id>"
   const [awayId, setAwayId] = useState("");
   const [startLocal, setStartLocal] = useState("");
 
+  // Bracket generator (from the group tables)
+  const [tables, setTables] = useState<GroupStandings[]>([]);
+  const [unfinishedGroupMatches, setUnfinishedGroupMatches] = useState(0);
+  const [perGroup, setPerGroup] = useState("2");
+  const [bestNext, setBestNext] = useState("0");
+  const [draft, setDraft] = useState<Pairing[] | null>(null);
+  const [draftTimes, setDraftTimes] = useState<string[]>([]);
+  const [picked, setPicked] = useState<{ i: number; side: "home" | "away" } | null>(null);
+  const [laterRounds, setLaterRounds] = useState(true);
+  const [thirdPlace, setThirdPlace] = useState(true);
+  const [msg, setMsg] = useState("");
+
   const teamNameById = useMemo(() => {
     const m = new Map<string, string>();
     teams.forEach((t) => m.set(t.id, t.name));
     return m;
   }, [teams]);
 
+  const kicksByMatch = useMemo(() => {
+    const map = new Map<string, PenaltyKick[]>();
+    kicks.forEach(({ match_id, ...k }) => map.set(match_id, [...(map.get(match_id) || []), k]));
+    return map;
+  }, [kicks]);
+
+  function teamLabel(m: MatchRow, side: Side) {
+    const id = m[`${side}_team_id`];
+    return (id && teamNameById.get(id)) || slotPlaceholder(m, side, matches);
+  }
+
+  // teams, then "Winner / Loser of" every other knockout match
+  function slotOptions(exceptMatchId?: string) {
+    const sources = matches.filter((x) => x.id !== exceptMatchId && slotCode(x));
+    return (
+      <>
+        <optgroup label="Team">
+          {teams.map((t) => (
+            <option key={t.id} value={t.id}>
+              {t.name}
+            </option>
+          ))}
+        </optgroup>
+        {sources.length ? (
+          <optgroup label="From another match">
+            {sources.flatMap((x) =>
+              (["winner", "loser"] as const).map((kind) => (
+                <option key={`${kind}:${x.id}`} value={`${kind}:${x.id}`}>
+                  {kind === "winner" ? "Winner" : "Loser"} {slotCode(x)}
+                </option>
+              ))
+            )}
+          </optgroup>
+        ) : null}
+      </>
+    );
+  }
+
   async function requireAdmin() {
     const { data } = await supabase.auth.getUser();
     if (!data.user) {
@@ -76,7 +168,7 @@ export default function AdminKnockoutPage() {
       return false;
     }
 
-    if (me?.role !== "admin" || me?.status !== "active") {
+    if (!hasScope(me?.role, "tournament") || me?.status !== "active") {
       router.replace("/app");
       return false;
     }
@@ -87,14 +179,23 @@ export default function AdminKnockoutPage() {
     setLoading(true);
     setError("");
 
-    const { data: t, error: tErr } = await supabase.from("teams").select("id,name").order("name");
+    const { data: t, error: tErr } = await supabase
+      .from("teams")
+      .select("id,name")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
+      .order("name");
     if (tErr) return fail(tErr.message);
     setTeams((t as Team[]) || []);
 
     const { data: m, error: mErr } = await supabase
       .from("matches")
-      .select("id,stage,home_team_id,away_team_id,start_time,home_score,away_score,status,knockout_round,knockout_order,knockout_label")
+      .select(
+        "id,stage,home_team_id,away_team_id,start_time,home_score,away_score,status,knockout_round,knockout_order,knockout_label,et_home_score,et_away_score,home_pens,away_pens,home_source_match_id,home_source,away_source_match_id,away_source"
+      )
+      .eq("tournament_id", tournament.id)
       .eq("stage", "knockout")
+      .is("archived_at", null)
       .order("knockout_round", { ascending: true })
       .order("knockout_order", { ascending: true })
       .order("start_time", { ascending: true, nullsFirst: false });
@@ -102,6 +203,29 @@ export default function AdminKnockoutPage() {
     if (mErr) return fail(mErr.message);
     setMatches((m as MatchRow[]) || []);
 
+    const { data: k, error: kErr } = await supabase
+      .from("match_penalty_kicks")
+      .select("match_id,team_id,player_id,scored")
+      .order("kick_order", { ascending: true });
+    if (kErr) return fail(kErr.message);
+    setKicks((k as (PenaltyKick & { match_id: string })[]) || []);
+
+    try {
+      setTables((await fetchStandings(tournament.id)).groups);
+    } catch (e: unknown) {
+      return fail(e instanceof Error ? e.message : "Failed to load standings");
+    }
+
+    const { count, error: cErr } = await supabase
+      .from("matches")
+      .select("id", { count: "exact", head: true })
+      .eq("tournament_id", tournament.id)
+      .eq("stage", "group")
+      .neq("status", "finished")
+      .is("archived_at", null);
+    if (cErr) return fail(cErr.message);
+    setUnfinishedGroupMatches(count || 0);
+
     setLoading(false);
   }
 
@@ -117,12 +241,77 @@ export default function AdminKnockoutPage() {
       await load();
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
+
+  const qualified = useMemo(
+    () => qualifiers(tables, { per_group: Number(perGroup) || 1, best_next: Math.max(0, Number(bestNext) || 0) }),
+    [tables, perGroup, bestNext]
+  );
+  const draftRound: KnockoutRound | undefined = FIRST_ROUND_BY_SIZE[qualified.length];
+
+  function previewBracket() {
+    setError("");
+    setMsg("");
+    setPicked(null);
+    try {
+      const pairs = seedFirstRound(qualified);
+      setDraft(pairs);
+      setDraftTimes(pairs.map(() => ""));
+    } catch (e: unknown) {
+      setDraft(null);
+      setError(e instanceof Error ? e.message : "Could not build the bracket");
+    }
+  }
+
+  // click one team, then another: they swap places (same match = swap home/away)
+  function pickSlot(i: number, side: "home" | "away") {
+    if (!draft) return;
+    if (!picked) {
+      setPicked({ i, side });
+      return;
+    }
+
+    const next = draft.map((p) => ({ ...p }));
+    const a = next[picked.i][picked.side];
+    next[picked.i][picked.side] = next[i][side];
+    next[i][side] = a;
+    setDraft(next);
+    setPicked(null);
+  }
+
+  async function createBracket() {
+    if (!draft || !draftRound) return;
+    setError("");
+    setMsg("");
+    setBusy(true);
+    try {
+      await adminAction("createKnockoutRound", {
+        tournament_id: tournament.id,
+        round: draftRound,
+        pairings: draft.map((p, i) => ({
+          home_team_id: p.home.team_id,
+          away_team_id: p.away.team_id,
+          start_time: draftTimes[i] ? new Date(draftTimes[i]).toISOString() : null,
+        })),
+        later_rounds: laterRounds,
+        third_place: laterRounds && thirdPlace,
+      });
+      setMsg(
+        `✅ Created ${draft.length} ${roundName(draftRound)} match(es)${laterRounds ? " and the rest of the bracket" : ""}.`
+      );
+      setDraft(null);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to create the round");
+    } finally {
+      setBusy(false);
+    }
+  }
 
   async function createKnockoutMatch() {
     setError("");
 
-    if (!homeId || !awayId) return setError("Choose home and away teams.");
+    if (!homeId || !awayId) return setError("Choose home and away teams (or the matches they come from).");
     if (homeId === awayId) return setError("Home and away must be different.");
 
     const start_time = startLocal ? new Date(startLocal).toISOString() : null;
@@ -132,13 +321,15 @@ export default function AdminKnockoutPage() {
     setBusy(true);
     try {
       await adminAction("createMatch", {
+        tournament_id: tournament.id,
         match: {
           stage: "knockout",
           group_id: null,
-          home_team_id: homeId,
-          away_team_id: awayId,
+          home_team_id: null,
+          away_team_id: null,
+          ...slotPatch("home", homeId),
+          ...slotPatch("away", awayId),
           start_time,
-          status: "scheduled",
           home_score: 0,
           away_score: 0,
           knockout_round: round,
@@ -162,7 +353,7 @@ export default function AdminKnockoutPage() {
     }
   }
 
-  async function updateMeta(matchId: string, patch: Partial<MatchRow>) {
+  async function updateMeta(matchId: string, patch: MatchPatch) {
     setError("");
     setBusy(true);
     try {
@@ -175,6 +366,19 @@ export default function AdminKnockoutPage() {
     }
   }
 
+  async function savePenaltyKicks(matchId: string, list: PenaltyKick[]) {
+    setError("");
+    setBusy(true);
+    try {
+      await adminAction("setPenaltyShootout", { match_id: matchId, kicks: list });
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to save the shootout");
+    } finally {
+      setBusy(false);
+    }
+  }
+
   async function deleteMatch(matchId: string) {
     setError("");
     setBusy(true);
@@ -214,6 +418,153 @@ export default function AdminKnockoutPage() {
         </div>
 
         {error && <div className="text-red-400 whitespace-pre-wrap">{error}</div>}
+        {msg && <div className="text-green-300">{msg}</div>}
+
+        {/* Generate from group standings */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+          <div>
+            <div className="text-xl font-bold">Generate From Group Standings</div>
+            <div className="text-white/70 text-sm">
+              Builds the first knockout round from the current tables with cross-group seeding (A1 vs B2, …).
+            </div>
+          </div>
+
+          {unfinishedGroupMatches > 0 ? (
+            <div className="text-yellow-200 text-sm">
+              {unfinishedGroupMatches} group match(es) are not finished yet, so the tables can still change.
+            </div>
+          ) : null}
+
+          <div className="grid md:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <div className="text-white/70 text-sm">Qualify per group</div>
+              <select
+                disabled={busy}
+                value={perGroup}
+                onChange={(e) => {
+                  setPerGroup(e.target.value);
+                  setDraft(null);
+                }}
+                className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+              >
+                {[1, 2, 3, 4].map((n) => (
+                  <option key={n} value={n}>
+                    Top {n}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="space-y-1">
+              <div className="text-white/70 text-sm">Plus best {Number(perGroup) + 1}-placed teams</div>
+              <input
+                disabled={busy}
+                value={bestNext}
+                onChange={(e) => {
+                  setBestNext(e.target.value);
+                  setDraft(null);
+                }}
+                inputMode="numeric"
+                className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+                placeholder="0"
+              />
+            </div>
+
+            <div className="flex items-end">
+              <button
+                disabled={busy}
+                onClick={previewBracket}
+                className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-3 rounded-xl font-bold"
+              >
+                Preview {qualified.length} team(s){draftRound ? ` • ${roundName(draftRound)}` : ""}
+              </button>
+            </div>
+          </div>
+
+          {draft && draftRound ? (
+            <div className="space-y-2">
+              <div className="text-white/60 text-xs">
+                Click a team, then another one, to swap them. Clicking both teams of a match swaps home and away.
+              </div>
+
+              {draft.map((p, i) => (
+                <div
+                  key={i}
+                  className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 grid md:grid-cols-[60px_1fr_auto_1fr_220px] items-center gap-2"
+                >
+                  <div className="text-white/60 text-sm font-bold">
+                    {draftRound}
+                    {i + 1}
+                  </div>
+                  {(["home", "away"] as const).map((side, k) => (
+                    <div key={side} className={k === 1 ? "md:order-4" : ""}>
+                      <button
+                        disabled={busy}
+                        onClick={() => pickSlot(i, side)}
+                        className={`w-full text-left rounded-lg px-3 py-2 border transition ${
+                          picked?.i === i && picked.side === side
+                            ? "border-yellow-300 bg-yellow-500/10"
+                            : "border-white/10 hover:border-white/30"
+                        }`}
+                      >
+                        <span className="text-white/50 text-xs mr-2">{p[side].label}</span>
+                        <span className="font-bold">{p[side].team_name}</span>
+                      </button>
+                    </div>
+                  ))}
+                  <div className="text-white/60 text-center md:order-3">vs</div>
+                  <input
+                    disabled={busy}
+                    type="datetime-local"
+                    value={draftTimes[i] || ""}
+                    onChange={(e) => setDraftTimes((prev) => prev.map((v, j) => (j === i ? e.target.value : v)))}
+                    className="md:order-5 rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                  />
+                </div>
+              ))}
+
+              {draftRound !== "F" ? (
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      disabled={busy}
+                      checked={laterRounds}
+                      onChange={(e) => setLaterRounds(e.target.checked)}
+                    />
+                    Also create the later rounds (Winner {draftRound}1 vs Winner {draftRound}2, …)
+                  </label>
+                  <label className={`flex items-center gap-2 ${laterRounds ? "" : "opacity-50"}`}>
+                    <input
+                      type="checkbox"
+                      disabled={busy || !laterRounds}
+                      checked={thirdPlace}
+                      onChange={(e) => setThirdPlace(e.target.checked)}
+                    />
+                    3rd place match for the semifinal losers
+                  </label>
+                </div>
+              ) : null}
+
+              <div className="flex gap-2">
+                <button
+                  disabled={busy}
+                  onClick={createBracket}
+                  className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+                >
+                  Create {roundName(draftRound)} matches
+                </button>
+                <button
+                  disabled={busy}
+                  onClick={() => setDraft(null)}
+                  className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : null}
+        </div>
 
         {/* Create knockout match */}
         <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
@@ -226,7 +577,7 @@ export default function AdminKnockoutPage() {
                 disabled={busy}
                 className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
                 value={round}
-                onChange={(e) => setRound(e.target.value)}
+                onChange={(e) => setRound(e.target.value as KnockoutRound)}
               >
                 {ROUND_OPTIONS.map((r) => (
                   <option key={r.code} value={r.code}>
@@ -267,11 +618,7 @@ export default function AdminKnockoutPage() {
                 onChange={(e) => setHomeId(e.target.value)}
               >
                 <option value="">Select home</option>
-                {teams.map((t) => (
-                  <option key={t.id} value={t.id}>
-                    {t.name}
-                  </option>
-                ))}
+                {slotOptions()}
               </select>
             </div>
 
@@ -284,11 +631,7 @@ export default function AdminKnockoutPage() {
                 onChange={(e) => setAwayId(e.target.value)}
               >
                 <option value="">Select away</option>
-                {teams.map((t) => (
-                  <option key={t.id} value={t.id}>
-                    {t.name}
-                  </option>
-                ))}
+                {slotOptions()}
               </select>
             </div>
 
@@ -329,15 +672,15 @@ export default function AdminKnockoutPage() {
                         {roundName(m.knockout_round)} {m.knockout_label ? `• ${m.knockout_label}` : ""}
                       </div>
                       <div className="text-lg font-bold">
-                        {teamNameById.get(m.home_team_id) || "Home"} vs {teamNameById.get(m.away_team_id) || "Away"}
+                        {teamLabel(m, "home")} vs {teamLabel(m, "away")}
                       </div>
                       <div className="text-white/60 text-sm">
                         Start: {m.start_time ? new Date(m.start_time).toLocaleString() : "TBD"} • Status:{" "}
                         <b>{m.status}</b> • Score:{" "}
-                        <b>{m.home_score == null || m.away_score == null ? "—" : `${m.home_score}-${m.away_score}`}</b>
+                        <b>{formatScore(m)}</b>
                       </div>
                       <div className="text-white/50 text-xs mt-1">
-                        Edit score/goals/MOTM from:{" "}
+                        Edit score/goals/MOTM (and finalize) from:{" "}
                         <Link className="underline" href="/admin/matches">
                           /admin/matches
                         </Link>
@@ -353,13 +696,41 @@ export default function AdminKnockoutPage() {
                     </button>
                   </div>
 
+                  {m.home_team_id && m.away_team_id ? (
+                    <KnockoutResultEditor
+                      match={m}
+                      homeName={teamLabel(m, "home")}
+                      awayName={teamLabel(m, "away")}
+                      kicks={kicksByMatch.get(m.id) ?? NO_KICKS}
+                      disabled={busy || m.status === "finished"}
+                      onUpdateMatch={(patch) => updateMeta(m.id, patch)}
+                      onSaveKicks={(list) => savePenaltyKicks(m.id, list)}
+                    />
+                  ) : null}
+
+                  {/* who plays: a team, or the winner / loser of another match */}
+                  <div className="grid md:grid-cols-2 gap-2">
+                    {(["home", "away"] as const).map((side) => (
+                      <select
+                        key={side}
+                        disabled={busy || m.status === "finished"}
+                        className="w-full rounded-xl bg-[#111c44] border border-white/10 p-3 outline-none"
+                        value={slotValue(m, side)}
+                        onChange={(e) => updateMeta(m.id, slotPatch(side, e.target.value))}
+                      >
+                        <option value="">{side === "home" ? "Home" : "Away"}: (none)</option>
+                        {slotOptions(m.id)}
+                      </select>
+                    ))}
+                  </div>
+
                   {/* edit round / label / order */}
                   <div className="grid md:grid-cols-3 gap-2">
                     <select
                       disabled={busy}
                       className="w-full rounded-xl bg-[#111c44] border border-white/10 p-3 outline-none"
                       value={m.knockout_round || ""}
-                      onChange={(e) => updateMeta(m.id, { knockout_round: e.target.value || null })}
+                      onChange={(e) => updateMeta(m.id, { knockout_round: (e.target.value as KnockoutRound) || null })}
                     >
                       <option value="">(No round)</option>
                       {ROUND_OPTIONS.map((r) => (
@@ -396,6 +767,8 @@ export default function AdminKnockoutPage() {
 
         <div className="text-white/50 text-xs">
           The round/label will be shown to users in the knockout section so they understand: R16, QF, SF, Final, etc.
+          A slot set to &quot;Winner QF1&quot; is filled in automatically when QF1 is finalized (and emptied again if it is
+          reopened).
         </div>
       </div>
     </div>
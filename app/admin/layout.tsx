@@ -1,6 +1,10 @@
 "use client";
 
-import { ReactNode } from "react";
+import { ReactNode, useEffect, useState } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { canOpenAdminPage, isStaffRole } from "@/lib/adminRoles";
+import { TournamentProvider, TournamentSwitcher, tournamentLabel, useTournament } from "@/components/TournamentContext";
 
 function DawraLikBackground() {
   return (
@@ -44,13 +48,74 @@ function DawraLikBackground() {
   );
 }
 
+/** Season switcher; an archived season gets a read-only banner. */
+function TournamentBar() {
+  const { tournament, readOnly } = useTournament();
+
+  return (
+    <div className="max-w-6xl mx-auto px-6 pt-4 space-y-3">
+      <div className="flex justify-end">
+        <TournamentSwitcher />
+      </div>
+      {readOnly ? (
+        <div className="bg-yellow-500/10 border border-yellow-400/30 text-yellow-200 rounded-2xl px-4 py-3 text-sm">
+          <b>{tournamentLabel(tournament)}</b> is archived: you can look around, but nothing can be changed. Reopen
+          it on the Tournaments page to edit it.
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
 export default function AppLayout({ children }: { children: ReactNode }) {
+  const pathname = usePathname();
+  const router = useRouter();
+  const [allowed, setAllowed] = useState(false);
+
+  // ✅ role gate: staff only, and only the pages their role covers
+  useEffect(() => {
+    (async () => {
+      const { data } = await supabase.auth.getUser();
+      if (!data.user) {
+        router.replace("/register");
+        return;
+      }
+
+      const { data: prof } = await supabase
+        .from("profiles")
+        .select("role,status")
+        .eq("id", data.user.id)
+        .maybeSingle();
+
+      if (!prof || !isStaffRole(prof.role) || prof.status !== "active") {
+        router.replace("/app");
+        return;
+      }
+
+      if (!canOpenAdminPage(prof, pathname)) {
+        router.replace("/admin");
+        return;
+      }
+
+      setAllowed(true);
+    })();
+  }, [router, pathname]);
+
   return (
     <div className="min-h-screen text-white relative overflow-hidden bg-[#07102a]">
       <DawraLikBackground />
 
       {/* App content above background */}
-      <div className="relative z-10 min-h-screen">{children}</div>
+      <div className="relative z-10 min-h-screen">
+        {allowed ? (
+          <TournamentProvider>
+            <TournamentBar />
+            {children}
+          </TournamentProvider>
+        ) : (
+          <div className="p-8">Loading…</div>
+        )}
+      </div>
     </div>
   );
 }
@@ -3,6 +3,8 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
+import { adminAction } from "@/lib/adminApi";
 
 type Profile = {
   id: string;
@@ -24,6 +26,7 @@ export default function AdminLinkPlayerPage() {
   const [players, setPlayers] = useState<Player[]>([]);
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
 
   // Linking UI state
   const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
@@ -42,7 +45,7 @@ export default function AdminLinkPlayerPage() {
       .eq("id", data.user.id)
       .single();
 
-    if (me?.role !== "admin" || me?.status !== "active") {
+    if (!hasScope(me?.role, "people") || me?.status !== "active") {
       router.push("/app");
       return false;
     }
@@ -67,6 +70,7 @@ export default function AdminLinkPlayerPage() {
     const { data: rData, error: rErr } = await supabase
       .from("players")
       .select("id,full_name,university,linked_profile_id")
+      .is("archived_at", null)
       .order("full_name");
 
     if (rErr) {
@@ -82,10 +86,11 @@ export default function AdminLinkPlayerPage() {
     return players.filter((p) => !p.linked_profile_id);
   }, [players]);
 
+  // normally one roster player per account; more than one is a conflict to clean up
   const linkedByProfile = useMemo(() => {
-    const map = new Map<string, Player>();
+    const map = new Map<string, Player[]>();
     players.forEach((pl) => {
-      if (pl.linked_profile_id) map.set(pl.linked_profile_id, pl);
+      if (pl.linked_profile_id) map.set(pl.linked_profile_id, [...(map.get(pl.linked_profile_id) || []), pl]);
     });
     return map;
   }, [players]);
@@ -98,35 +103,36 @@ export default function AdminLinkPlayerPage() {
     }
 
     setError("");
+    setBusy(true);
 
-    // Link roster player -> profile
-    const { error } = await supabase
-      .from("players")
-      .update({ linked_profile_id: selectedProfileId })
-      .eq("id", selectedRosterId);
-
-    if (error) {
-      setError(error.message);
-      return;
-    }
+    try {
+      // Link roster player -> profile (server checks one-to-one + active player account)
+      await adminAction("linkPlayerProfile", { player_id: selectedRosterId, profile_id: selectedProfileId });
 
-    // Reset modal state
-    setSelectedProfileId(null);
-    setSelectedRosterId("");
+      // Reset modal state
+      setSelectedProfileId(null);
+      setSelectedRosterId("");
 
-    await loadData();
+      await loadData();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to link");
+    } finally {
+      setBusy(false);
+    }
   }
 
   async function unlinkRoster(rosterId: string) {
     setError("");
+    setBusy(true);
 
-    const { error } = await supabase
-      .from("players")
-      .update({ linked_profile_id: null })
-      .eq("id", rosterId);
-
-    if (error) setError(error.message);
-    else await loadData();
+    try {
+      await adminAction("unlinkPlayerProfile", { player_id: rosterId });
+      await loadData();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to unlink");
+    } finally {
+      setBusy(false);
+    }
   }
 
   async function logout() {
@@ -192,7 +198,8 @@ export default function AdminLinkPlayerPage() {
             ) : (
               <div className="space-y-2">
                 {profiles.map((p) => {
-                  const linked = linkedByProfile.get(p.id);
+                  const links = linkedByProfile.get(p.id) || [];
+                  const linked = links[0];
                   return (
                     <div
                       key={p.id}
@@ -205,28 +212,40 @@ export default function AdminLinkPlayerPage() {
                         </div>
                         <div className="text-xs text-white/60 mt-1">
                           {linked
-                            ? `Linked ✅ → ${linked.full_name}`
+                            ? `Linked ✅ → ${links.map((l) => l.full_name).join(", ")}`
                             : "Not linked"}
                         </div>
+                        {links.length > 1 ? (
+                          <div className="text-xs text-yellow-300 mt-1">
+                            ⚠ Linked to {links.length} roster players. Unlink the wrong one(s).
+                          </div>
+                        ) : null}
                       </div>
 
                       {!linked ? (
                         <button
+                          disabled={busy}
                           onClick={() => {
                             setSelectedProfileId(p.id);
                             setSelectedRosterId("");
                           }}
-                          className="bg-green-600 hover:bg-green-500 px-4 py-2 rounded-xl font-bold"
+                          className="bg-green-600 hover:bg-green-500 disabled:opacity-60 px-4 py-2 rounded-xl font-bold"
                         >
                           Link
                         </button>
                       ) : (
-                        <button
-                          onClick={() => unlinkRoster(linked.id)}
-                          className="bg-red-600 hover:bg-red-500 px-4 py-2 rounded-xl font-bold"
-                        >
-                          Unlink
-                        </button>
+                        <div className="flex flex-col gap-2">
+                          {links.map((l) => (
+                            <button
+                              key={l.id}
+                              disabled={busy}
+                              onClick={() => unlinkRoster(l.id)}
+                              className="bg-red-600 hover:bg-red-500 disabled:opacity-60 px-4 py-2 rounded-xl font-bold"
+                            >
+                              {links.length > 1 ? `Unlink ${l.full_name}` : "Unlink"}
+                            </button>
+                          ))}
+                        </div>
                       )}
                     </div>
                   );
@@ -306,8 +325,9 @@ export default function AdminLinkPlayerPage() {
 
               <div className="flex gap-2">
                 <button
+                  disabled={busy}
                   onClick={confirmLink}
-                  className="flex-1 bg-green-600 hover:bg-green-500 py-3 rounded-xl font-bold"
+                  className="flex-1 bg-green-600 hover:bg-green-500 disabled:opacity-60 py-3 rounded-xl font-bold"
                 >
                   Confirm Link
                 </button>
@@ -4,9 +4,42 @@ import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
-import { adminAction } from "@/lib/adminApi";
-
-type Team = { id: string; name: string };
+import { hasScope } from "@/lib/adminRoles";
+import { adminAction, AdminActionError } from "@/lib/adminApi";
+import {
+  KnockoutRound,
+  LivePhase,
+  MATCH_EVENT_KINDS,
+  MatchEventInput,
+  MatchEventKind,
+  MatchInsert,
+  MatchPatch,
+  ReportIncident,
+} from "@/lib/adminActions";
+import { slotPlaceholder } from "@/lib/bracket";
+import { computeDiscipline, suspendedFor, suspensionRuleOf } from "@/lib/discipline";
+import { MatchLengths, clockMinute } from "@/lib/matchClock";
+import {
+  MATCH_EVENT_ICONS,
+  MATCH_EVENT_LABELS,
+  MatchEvent,
+  eventPlayerLabel,
+  playerTeamOf,
+  relatedPlayerRole,
+  sortTimeline,
+} from "@/lib/matchEvents";
+import { formatScore } from "@/lib/matchResult";
+import { MatchOfficial, OFFICIAL_CONFLICT_LABELS, Official, findOfficialConflicts } from "@/lib/officials";
+import { ScheduleSlot } from "@/lib/schedule";
+import KnockoutResultEditor, { NO_KICKS, PenaltyKick } from "@/components/KnockoutResultEditor";
+import LineupEditor, { LineupEntry } from "@/components/LineupEditor";
+import MatchClock, { useNow } from "@/components/MatchClock";
+import MatchLiveControls from "@/components/MatchLiveControls";
+import MatchOfficialsEditor from "@/components/MatchOfficialsEditor";
+import RefereeReportForm, { RefereeReport } from "@/components/RefereeReportForm";
+import { useTournament } from "@/components/TournamentContext";
+
+type Team = { id: string; name: string; university: string | null };
 type Group = { id: string; name: string };
 
 type Player = {
@@ -26,29 +59,36 @@ type MatchRow = {
   stage: "group" | "knockout";
   group_id: string | null;
 
+  // "" while a bracket slot waits for its source match ("Winner QF1")
   home_team_id: string;
   away_team_id: string;
+  home_source_match_id: string | null;
+  home_source: string | null;
+  away_source_match_id: string | null;
+  away_source: string | null;
 
   start_time: string | null;
+  venue_id: string | null;
   status: "scheduled" | "finished";
   home_score: number;
   away_score: number;
+  // knockout only (null = not played)
+  et_home_score: number | null;
+  et_away_score: number | null;
+  home_pens: number | null;
+  away_pens: number | null;
 
   knockout_round: string | null;
   knockout_order: number | null;
   knockout_label: string | null;
 
   motm_player_id: string | null;
-};
+  reopen_reason: string | null;
 
-type GoalRow = {
-  id: string;
-  match_id: string;
-  scoring_team_id: string;
-  scorer_player_id: string;
-  assist_player_id: string | null;
-  minute: number | null;
-  created_at: string | null;
+  // live state (lib/matchClock.ts)
+  live_phase: LivePhase | null;
+  clock_started_at: string | null;
+  clock_seconds: number;
 };
 
 function fmtKickoff(iso: string | null) {
@@ -60,53 +100,34 @@ function fmtKickoff(iso: string | null) {
   }
 }
 
-/**
- * ✅ Robust action caller:
- * Some projects name actions slightly differently.
- * This tries multiple action names until one works.
- */
-async function adminActionTry(names: string[], payload: any) {
-  let lastErr: any = null;
-
-  for (const name of names) {
-    try {
-      return await adminAction(name as any, payload);
-    } catch (e: any) {
-      lastErr = e;
-
-      // if your API throws "Unknown action" or similar, try next.
-      const msg = String(e?.message || "");
-      if (
-        msg.toLowerCase().includes("unknown action") ||
-        msg.toLowerCase().includes("invalid action") ||
-        msg.toLowerCase().includes("action not supported")
-      ) {
-        continue;
-      }
-
-      // If it's a real error (not unknown action), stop immediately.
-      throw e;
-    }
-  }
-
-  // If none matched:
-  throw lastErr || new Error("No matching admin action found for this operation.");
+function lineupPlayer(p: Player) {
+  return { id: p.id, name: p.display_name || p.full_name || "Unnamed" };
 }
 
 export default function AdminMatchesPage() {
   const router = useRouter();
+  const { tournament } = useTournament();
 
   const [teams, setTeams] = useState<Team[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
   const [teamPlayers, setTeamPlayers] = useState<TeamPlayer[]>([]);
   const [matches, setMatches] = useState<MatchRow[]>([]);
-  const [goals, setGoals] = useState<GoalRow[]>([]);
+  const [events, setEvents] = useState<MatchEvent[]>([]);
+  const [kicks, setKicks] = useState<(PenaltyKick & { match_id: string })[]>([]);
+  const [lineups, setLineups] = useState<(LineupEntry & { match_id: string })[]>([]);
+  const [officials, setOfficials] = useState<Official[]>([]);
+  const [matchOfficials, setMatchOfficials] = useState<MatchOfficial[]>([]);
+  const [reports, setReports] = useState<RefereeReport[]>([]);
+  const [slots, setSlots] = useState<ScheduleSlot[]>([]);
 
   const [loading, setLoading] = useState(true);
   const [busy, setBusy] = useState(false);
   const [err, setErr] = useState("");
 
+  // scorekeepers only enter results; creating / deleting fixtures needs "tournament"
+  const [canEditFixtures, setCanEditFixtures] = useState(false);
+
   // Create match form
   const [stage, setStage] = useState<"group" | "knockout">("group");
   const [groupId, setGroupId] = useState<string>("");
@@ -116,7 +137,7 @@ export default function AdminMatchesPage() {
 
   const [startLocal, setStartLocal] = useState<string>("");
 
-  const [kRound, setKRound] = useState<string>("QF"); // keep consistent with your knockout page
+  const [kRound, setKRound] = useState<KnockoutRound>("QF"); // keep consistent with your knockout page
   const [kOrder, setKOrder] = useState<string>("1");
   const [kLabel, setKLabel] = useState<string>("");
 
@@ -138,11 +159,12 @@ export default function AdminMatchesPage() {
       return false;
     }
 
-    if (me?.role !== "admin" || me?.status !== "active") {
+    if (!hasScope(me?.role, "scores") || me?.status !== "active") {
       router.replace("/app");
       return false;
     }
 
+    setCanEditFixtures(hasScope(me?.role, "tournament"));
     return true;
   }
 
@@ -180,26 +202,71 @@ export default function AdminMatchesPage() {
     return map;
   }, [teamPlayers, playerById]);
 
-  const goalsByMatch = useMemo(() => {
-    const map = new Map<string, GoalRow[]>();
-    goals.forEach((g) => {
-      if (!map.has(g.match_id)) map.set(g.match_id, []);
-      map.get(g.match_id)!.push(g);
-    });
+  const kicksByMatch = useMemo(() => {
+    const map = new Map<string, PenaltyKick[]>();
+    kicks.forEach(({ match_id, ...k }) => map.set(match_id, [...(map.get(match_id) || []), k]));
+    return map;
+  }, [kicks]);
 
-    for (const [k, arr] of map.entries()) {
-      arr.sort((a, b) => {
-        const ma = a.minute ?? 10_000;
-        const mb = b.minute ?? 10_000;
-        if (ma !== mb) return ma - mb;
-        const ta = a.created_at ? new Date(a.created_at).getTime() : 0;
-        const tb = b.created_at ? new Date(b.created_at).getTime() : 0;
-        return ta - tb;
-      });
-      map.set(k, arr);
-    }
+  const lineupsByMatch = useMemo(() => {
+    const map = new Map<string, LineupEntry[]>();
+    lineups.forEach(({ match_id, ...l }) => map.set(match_id, [...(map.get(match_id) || []), l]));
+    return map;
+  }, [lineups]);
+
+  // who is suspended for which match, from every card of the tournament
+  const discipline = useMemo(
+    () =>
+      computeDiscipline(
+        matches.map((m) => ({ ...m, created_at: m.created_at || "" })),
+        events,
+        suspensionRuleOf(tournament)
+      ),
+    [matches, events, tournament]
+  );
+
+  const officialsByMatch = useMemo(() => {
+    const map = new Map<string, MatchOfficial[]>();
+    matchOfficials.forEach((a) => map.set(a.match_id, [...(map.get(a.match_id) || []), a]));
+    return map;
+  }, [matchOfficials]);
+
+  // clashes as they stand now (a match may have moved since its officials were picked)
+  const officialConflicts = useMemo(
+    () =>
+      findOfficialConflicts({
+        matches: matches.map((m) => ({
+          ...m,
+          home_team_id: m.home_team_id || null,
+          away_team_id: m.away_team_id || null,
+        })),
+        slots,
+        teams,
+        officials,
+        assignments: matchOfficials,
+      }),
+    [matches, slots, teams, officials, matchOfficials]
+  );
+
+  function officialClashes(matchId: string) {
+    const name = (id: string) => officials.find((o) => o.id === id)?.full_name || "Official";
+    const other = (ids: string[]) => {
+      const m = matches.find((x) => ids.includes(x.id) && x.id !== matchId);
+      return m ? ` (${teamNameById.get(m.home_team_id) || "TBD"} vs ${teamNameById.get(m.away_team_id) || "TBD"})` : "";
+    };
+    return officialConflicts
+      .filter((c) => c.match_ids.includes(matchId))
+      .map((c) => `${name(c.official_id)}: ${OFFICIAL_CONFLICT_LABELS[c.kind]}${other(c.match_ids)}`);
+  }
+
+  const eventsByMatch = useMemo(() => {
+    const map = new Map<string, MatchEvent[]>();
+    sortTimeline(events).forEach((e) => {
+      if (!map.has(e.match_id)) map.set(e.match_id, []);
+      map.get(e.match_id)!.push(e);
+    });
     return map;
-  }, [goals]);
+  }, [events]);
 
   function safePlayerName(p: Player | undefined | null) {
     if (!p) return "Unnamed";
@@ -212,12 +279,22 @@ export default function AdminMatchesPage() {
 
     try {
       // 1) Teams
-      const { data: t, error: tErr } = await supabase.from("teams").select("id,name").order("name");
+      const { data: t, error: tErr } = await supabase
+        .from("teams")
+        .select("id,name,university")
+        .eq("tournament_id", tournament.id)
+        .is("archived_at", null)
+        .order("name");
       if (tErr) throw new Error(`teams: ${tErr.message}`);
       setTeams((t as Team[]) || []);
 
       // 2) Groups
-      const { data: g, error: gErr } = await supabase.from("groups").select("id,name").order("name");
+      const { data: g, error: gErr } = await supabase
+        .from("groups")
+        .select("id,name")
+        .eq("tournament_id", tournament.id)
+        .is("archived_at", null)
+        .order("name");
       if (gErr) throw new Error(`groups: ${gErr.message}`);
       setGroups((g as Group[]) || []);
 
@@ -239,7 +316,11 @@ export default function AdminMatchesPage() {
       setPlayers(pFixed);
 
       // 4) Team players
-      const { data: tp, error: tpErr } = await supabase.from("team_players").select("team_id,player_id");
+      const { data: tp, error: tpErr } = await supabase
+        .from("team_players")
+        .select("team_id,player_id")
+        .eq("tournament_id", tournament.id)
+        .is("archived_at", null);
       if (tpErr) throw new Error(`team_players: ${tpErr.message}`);
       setTeamPlayers((tp as TeamPlayer[]) || []);
 
@@ -247,8 +328,10 @@ export default function AdminMatchesPage() {
       const { data: m, error: mErr } = await supabase
         .from("matches")
         .select(
-          "id,created_at,stage,group_id,home_team_id,away_team_id,start_time,status,home_score,away_score,knockout_round,knockout_order,knockout_label,motm_player_id"
+          "id,created_at,stage,group_id,home_team_id,away_team_id,start_time,venue_id,status,home_score,away_score,knockout_round,knockout_order,knockout_label,motm_player_id,reopen_reason,et_home_score,et_away_score,home_pens,away_pens,home_source_match_id,home_source,away_source_match_id,away_source,live_phase,clock_started_at,clock_seconds"
         )
+        .eq("tournament_id", tournament.id)
+        .is("archived_at", null)
         .order("start_time", { ascending: true, nullsFirst: false });
 
       if (mErr) throw new Error(`matches: ${mErr.message}`);
@@ -258,37 +341,88 @@ export default function AdminMatchesPage() {
         created_at: r.created_at ?? null,
         stage: (r.stage === "knockout" ? "knockout" : "group") as any,
         group_id: r.group_id ?? null,
-        home_team_id: String(r.home_team_id),
-        away_team_id: String(r.away_team_id),
+        home_team_id: r.home_team_id ? String(r.home_team_id) : "",
+        away_team_id: r.away_team_id ? String(r.away_team_id) : "",
+        home_source_match_id: r.home_source_match_id ?? null,
+        home_source: r.home_source ?? null,
+        away_source_match_id: r.away_source_match_id ?? null,
+        away_source: r.away_source ?? null,
         start_time: r.start_time ?? null,
+        venue_id: r.venue_id ?? null,
         status: (r.status === "finished" ? "finished" : "scheduled") as any,
         home_score: Number.isFinite(Number(r.home_score)) ? Number(r.home_score) : 0,
         away_score: Number.isFinite(Number(r.away_score)) ? Number(r.away_score) : 0,
+        et_home_score: r.et_home_score ?? null,
+        et_away_score: r.et_away_score ?? null,
+        home_pens: r.home_pens ?? null,
+        away_pens: r.away_pens ?? null,
         knockout_round: r.knockout_round ?? null,
         knockout_order: r.knockout_order ?? null,
         knockout_label: r.knockout_label ?? null,
         motm_player_id: r.motm_player_id ?? null,
+        reopen_reason: r.reopen_reason ?? null,
+        live_phase: r.live_phase ?? null,
+        clock_started_at: r.clock_started_at ?? null,
+        clock_seconds: Number(r.clock_seconds) || 0,
       }));
       setMatches(mFixed);
-
-      // 6) Goals
-      const { data: goalData, error: goalErr } = await supabase
-        .from("match_goals")
-        .select("id,match_id,scoring_team_id,scorer_player_id,assist_player_id,minute,created_at")
+      const matchIds = mFixed.map((x) => x.id);
+
+      // 6) Match events (goals, cards, substitutions…)
+      const { data: eventData, error: eventErr } = await supabase
+        .from("match_events")
+        .select("id,match_id,kind,team_id,player_id,related_player_id,minute,note,created_at")
+        .in("match_id", matchIds)
+        .is("archived_at", null)
         .order("created_at", { ascending: true });
 
-      if (goalErr) throw new Error(`match_goals: ${goalErr.message}`);
-
-      const gFixed: GoalRow[] = ((goalData as any[]) || []).map((r) => ({
-        id: String(r.id),
-        match_id: String(r.match_id),
-        scoring_team_id: String(r.scoring_team_id),
-        scorer_player_id: String(r.scorer_player_id),
-        assist_player_id: r.assist_player_id ? String(r.assist_player_id) : null,
-        minute: r.minute == null ? null : Number(r.minute),
-        created_at: r.created_at ?? null,
-      }));
-      setGoals(gFixed);
+      if (eventErr) throw new Error(`match_events: ${eventErr.message}`);
+      setEvents((eventData as MatchEvent[]) || []);
+
+      // 7) Penalty shootouts (kick by kick)
+      const { data: kickData, error: kickErr } = await supabase
+        .from("match_penalty_kicks")
+        .select("match_id,team_id,player_id,scored")
+        .in("match_id", matchIds)
+        .order("kick_order", { ascending: true });
+
+      if (kickErr) throw new Error(`match_penalty_kicks: ${kickErr.message}`);
+      setKicks((kickData as (PenaltyKick & { match_id: string })[]) || []);
+
+      // 8) Lineups
+      const { data: lineupData, error: lineupErr } = await supabase
+        .from("match_lineups")
+        .select("match_id,team_id,player_id,role,shirt_number")
+        .in("match_id", matchIds)
+        .is("archived_at", null)
+        .order("shirt_number", { ascending: true, nullsFirst: false });
+
+      if (lineupErr) throw new Error(`match_lineups: ${lineupErr.message}`);
+      setLineups((lineupData as (LineupEntry & { match_id: string })[]) || []);
+
+      // 9) Officials, their assignments and reports (+ slots: how long each match lasts)
+      const [o, mo, rr, sl] = await Promise.all([
+        supabase
+          .from("officials")
+          .select("id,full_name,university,phone")
+          .eq("tournament_id", tournament.id)
+          .order("full_name"),
+        supabase.from("match_officials").select("match_id,official_id,role").in("match_id", matchIds),
+        supabase
+          .from("referee_reports")
+          .select("match_id,official_id,incidents,notes,filed_at")
+          .in("match_id", matchIds),
+        supabase
+          .from("schedule_slots")
+          .select("id,venue_id,starts_at,duration_minutes")
+          .eq("tournament_id", tournament.id),
+      ]);
+      const failed = [o, mo, rr, sl].find((x) => x.error);
+      if (failed?.error) throw new Error(`officials: ${failed.error.message}`);
+      setOfficials((o.data as Official[]) || []);
+      setMatchOfficials((mo.data as MatchOfficial[]) || []);
+      setReports((rr.data as RefereeReport[]) || []);
+      setSlots((sl.data as ScheduleSlot[]) || []);
     } catch (e: any) {
       setErr(e?.message ? String(e.message) : String(e));
     } finally {
@@ -303,7 +437,7 @@ export default function AdminMatchesPage() {
       await loadAll();
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
 
   // ✅ WRITE OPERATIONS (ALL VIA API)
 
@@ -321,13 +455,12 @@ export default function AdminMatchesPage() {
         ? Math.max(1, Number.isFinite(Number(kOrder)) ? Number(kOrder) : 1)
         : null;
 
-    const payload: any = {
+    const payload: MatchInsert = {
       stage,
       group_id: stage === "group" ? groupId : null,
       home_team_id: homeId,
       away_team_id: awayId,
       start_time,
-      status: "scheduled",
       home_score: 0,
       away_score: 0,
       knockout_round: stage === "knockout" ? kRound : null,
@@ -338,7 +471,7 @@ export default function AdminMatchesPage() {
 
     setBusy(true);
     try {
-      await adminActionTry(["createMatch", "matchesCreate", "adminCreateMatch"], { match: payload });
+      await adminAction("createMatch", { tournament_id: tournament.id, match: payload });
       setHomeId("");
       setAwayId("");
       setStartLocal("");
@@ -351,11 +484,11 @@ export default function AdminMatchesPage() {
     }
   }
 
-  async function updateMatch(matchId: string, patch: Partial<MatchRow>) {
+  async function updateMatch(matchId: string, patch: MatchPatch) {
     setErr("");
     setBusy(true);
     try {
-      await adminActionTry(["updateMatch", "matchesUpdate", "adminUpdateMatch"], { id: matchId, patch });
+      await adminAction("updateMatch", { id: matchId, patch });
       await loadAll();
     } catch (e: any) {
       setErr(e.message || "Failed to update match");
@@ -364,21 +497,126 @@ export default function AdminMatchesPage() {
     }
   }
 
-  async function deleteMatch(matchId: string) {
+  async function setMatchPhase(matchId: string, phase: LivePhase | null) {
+    setErr("");
+    setBusy(true);
+    try {
+      await adminAction("setMatchPhase", { id: matchId, phase });
+      await loadAll();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to change the live state");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function setMatchClock(matchId: string, running: boolean, minute?: number) {
+    setErr("");
+    setBusy(true);
+    try {
+      await adminAction("setMatchClock", { id: matchId, running, minute });
+      await loadAll();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to change the clock");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveLineup(matchId: string, teamId: string, list: Omit<LineupEntry, "team_id">[]) {
+    setErr("");
+    setBusy(true);
+    try {
+      await adminAction("setMatchLineup", { match_id: matchId, team_id: teamId, players: list });
+      await loadAll();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to save the lineup");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveOfficials(matchId: string, refereeId: string | null, assistantIds: string[]) {
+    setErr("");
+    setBusy(true);
+    try {
+      await adminAction("setMatchOfficials", { match_id: matchId, referee_id: refereeId, assistant_ids: assistantIds });
+      await loadAll();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to save the officials");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveReport(matchId: string, incidents: ReportIncident[], notes: string | null) {
+    setErr("");
+    setBusy(true);
+    try {
+      await adminAction("saveRefereeReport", { match_id: matchId, incidents, notes });
+      await loadAll();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to save the report");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function savePenaltyKicks(matchId: string, list: PenaltyKick[]) {
+    setErr("");
+    setBusy(true);
+    try {
+      await adminAction("setPenaltyShootout", { match_id: matchId, kicks: list });
+      await loadAll();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to save the shootout");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function finalizeMatch(matchId: string) {
     setErr("");
     setBusy(true);
     try {
-      // One action should delete match + dependent goals.
-      // If your API doesn't cascade, we try a safe two-step fallback.
       try {
-        await adminActionTry(["deleteMatch", "matchesDelete", "adminDeleteMatch"], { id: matchId });
-      } catch (e: any) {
-        // fallback: delete goals then delete match
-        await adminActionTry(["deleteGoalsByMatch", "matchGoalsDeleteByMatch", "adminDeleteGoalsByMatch"], {
-          match_id: matchId,
-        });
-        await adminActionTry(["deleteMatch", "matchesDelete", "adminDeleteMatch"], { id: matchId });
+        await adminAction("finalizeMatch", { id: matchId });
+      } catch (e: unknown) {
+        // warnings only (e.g. no MOTM): ask, then finalize anyway
+        if (!(e instanceof AdminActionError) || !e.details.needs_acknowledge) throw e;
+        if (!confirm(`${e.message}\n\nFinalize anyway?`)) return;
+        await adminAction("finalizeMatch", { id: matchId, acknowledge_warnings: true });
       }
+      await loadAll();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to finalize match");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function reopenMatch(matchId: string) {
+    const reason = prompt("Why does this result need to change? (saved with the match)");
+    if (!reason?.trim()) return;
+
+    setErr("");
+    setBusy(true);
+    try {
+      await adminAction("reopenMatch", { id: matchId, reason: reason.trim() });
+      await loadAll();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to reopen match");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function deleteMatch(matchId: string) {
+    setErr("");
+    setBusy(true);
+    try {
+      // deleteMatch moves the match + its events to the Recycle Bin (all-or-nothing)
+      await adminAction("deleteMatch", { id: matchId });
 
       await loadAll();
     } catch (e: any) {
@@ -388,39 +626,33 @@ export default function AdminMatchesPage() {
     }
   }
 
-  async function addGoal(payload: {
-    match_id: string;
-    scoring_team_id: string;
-    scorer_player_id: string;
-    assist_player_id: string | null;
-    minute: number | null;
-  }) {
+  async function addEvent(event: MatchEventInput) {
     setErr("");
 
-    if (!payload.scorer_player_id) {
-      setErr("Choose a scorer first.");
+    if (!event.player_id) {
+      setErr("Choose a player first.");
       return;
     }
 
     setBusy(true);
     try {
-      await adminActionTry(["addGoal", "createGoal", "matchGoalsCreate", "adminAddGoal"], { goal: payload });
+      await adminAction("addMatchEvent", { event });
       await loadAll();
-    } catch (e: any) {
-      setErr(e.message || "Failed to add goal");
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to add the event");
     } finally {
       setBusy(false);
     }
   }
 
-  async function deleteGoal(goalId: string) {
+  async function deleteEvent(eventId: string) {
     setErr("");
     setBusy(true);
     try {
-      await adminActionTry(["deleteGoal", "matchGoalsDelete", "adminDeleteGoal"], { id: goalId });
+      await adminAction("deleteMatchEvent", { id: eventId });
       await loadAll();
-    } catch (e: any) {
-      setErr(e.message || "Failed to delete goal");
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to delete the event");
     } finally {
       setBusy(false);
     }
@@ -468,84 +700,85 @@ export default function AdminMatchesPage() {
         )}
 
         {/* CREATE MATCH */}
-        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
-          <div className="text-xl font-bold">Create Match</div>
-
-          <div className="grid md:grid-cols-2 gap-3">
-            <div className="space-y-1">
-              <div className="text-white/70 text-sm">Stage</div>
-              <select
-                className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
-                value={stage}
-                onChange={(e) => {
-                  const v = e.target.value as "group" | "knockout";
-                  setStage(v);
-                  if (v === "knockout") setGroupId("");
-                }}
-                disabled={busy}
-              >
-                <option value="group">Group</option>
-                <option value="knockout">Knockout</option>
-              </select>
-            </div>
-
-            <div className="space-y-1">
-              <div className="text-white/70 text-sm">Group (only for Group stage)</div>
-              <select
-                className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
-                value={groupId}
-                onChange={(e) => setGroupId(e.target.value)}
-                disabled={busy || stage !== "group"}
-              >
-                <option value="">{stage === "group" ? "Select group" : "Disabled"}</option>
-                {groups.map((g) => (
-                  <option key={g.id} value={g.id}>
-                    {g.name}
-                  </option>
-                ))}
-              </select>
-            </div>
-
-            {stage === "knockout" ? (
-              <>
-                <div className="space-y-1">
-                  <div className="text-white/70 text-sm">Knockout Round</div>
-                  <select
-                    className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
-                    value={kRound}
-                    onChange={(e) => setKRound(e.target.value)}
-                    disabled={busy}
-                  >
-                    <option value="R16">Round of 16</option>
-                    <option value="QF">Quarterfinal</option>
-                    <option value="SF">Semifinal</option>
-                    <option value="F">Final</option>
-                    <option value="3P">3rd Place</option>
-                  </select>
-                </div>
+        {canEditFixtures ? (
+          <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+            <div className="text-xl font-bold">Create Match</div>
+
+            <div className="grid md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <div className="text-white/70 text-sm">Stage</div>
+                <select
+                  className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+                  value={stage}
+                  onChange={(e) => {
+                    const v = e.target.value as "group" | "knockout";
+                    setStage(v);
+                    if (v === "knockout") setGroupId("");
+                  }}
+                  disabled={busy}
+                >
+                  <option value="group">Group</option>
+                  <option value="knockout">Knockout</option>
+                </select>
+              </div>
+
+              <div className="space-y-1">
+                <div className="text-white/70 text-sm">Group (only for Group stage)</div>
+                <select
+                  className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+                  value={groupId}
+                  onChange={(e) => setGroupId(e.target.value)}
+                  disabled={busy || stage !== "group"}
+                >
+                  <option value="">{stage === "group" ? "Select group" : "Disabled"}</option>
+                  {groups.map((g) => (
+                    <option key={g.id} value={g.id}>
+                      {g.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {stage === "knockout" ? (
+                <>
+                  <div className="space-y-1">
+                    <div className="text-white/70 text-sm">Knockout Round</div>
+                    <select
+                      className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+                      value={kRound}
+                      onChange={(e) => setKRound(e.target.value as KnockoutRound)}
+                      disabled={busy}
+                    >
+                      <option value="R16">Round of 16</option>
+                      <option value="QF">Quarterfinal</option>
+                      <option value="SF">Semifinal</option>
+                      <option value="F">Final</option>
+                      <option value="3P">3rd Place</option>
+                    </select>
+                  </div>
 
-                <div className="space-y-1">
-                  <div className="text-white/70 text-sm">Knockout Order (1,2,3…)</div>
-                  <input
-                    value={kOrder}
-                    onChange={(e) => setKOrder(e.target.value)}
-                    className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
-                    placeholder="1"
-                    disabled={busy}
-                  />
-                </div>
+                  <div className="space-y-1">
+                    <div className="text-white/70 text-sm">Knockout Order (1,2,3…)</div>
+                    <input
+                      value={kOrder}
+                      onChange={(e) => setKOrder(e.target.value)}
+                      className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+                      placeholder="1"
+                      disabled={busy}
+                    />
+                  </div>
 
-                <div className="space-y-1 md:col-span-2">
-                  <div className="text-white/70 text-sm">Label (optional)</div>
-                  <input
-                    value={kLabel}
-                    onChange={(e) => setKLabel(e.target.value)}
-                    className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
-                    placeholder='e.g. "QF1"'
-                    disabled={busy}
-                  />
-                </div>
-              </>
+                  <div className="space-y-1 md:col-span-2">
+                    <div className="text-white/70 text-sm">Label (optional)</div>
+                    <input
+                      value={kLabel}
+                      onChange={(e) => setKLabel(e.target.value)}
+                      className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+                      placeholder='e.g. "QF1"'
+                      disabled={busy}
+                    />
+                  </div>
+                </>
             ) : null}
 
             <div className="space-y-1">
@@ -602,6 +835,7 @@ export default function AdminMatchesPage() {
             Create Match
           </button>
         </div>
+        ) : null}
 
         {/* MATCHES LIST */}
         <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
@@ -615,16 +849,36 @@ export default function AdminMatchesPage() {
                 <MatchCard
                   key={m.id}
                   match={m}
+                  allMatches={matches}
                   teamNameById={teamNameById}
                   groupNameById={groupNameById}
                   playersByTeam={playersByTeam}
                   playerById={playerById}
-                  goals={goalsByMatch.get(m.id) || []}
+                  events={eventsByMatch.get(m.id) || []}
+                  kicks={kicksByMatch.get(m.id) ?? NO_KICKS}
+                  lineup={lineupsByMatch.get(m.id) || []}
+                  suspended={suspendedFor(discipline, m.id)}
+                  officials={officials}
+                  assignedOfficials={officialsByMatch.get(m.id) || []}
+                  officialClashes={officialClashes(m.id)}
+                  report={reports.find((x) => x.match_id === m.id) || null}
+                  universities={[m.home_team_id, m.away_team_id].map(
+                    (id) => teams.find((x) => x.id === id)?.university ?? null
+                  )}
+                  lengths={tournament}
                   busy={busy}
                   onUpdateMatch={updateMatch}
-                  onDeleteMatch={deleteMatch}
-                  onAddGoal={addGoal}
-                  onDeleteGoal={deleteGoal}
+                  onSetPhase={setMatchPhase}
+                  onSetClock={setMatchClock}
+                  onSavePenaltyKicks={savePenaltyKicks}
+                  onSaveLineup={saveLineup}
+                  onSaveOfficials={canEditFixtures ? saveOfficials : undefined}
+                  onSaveReport={saveReport}
+                  onFinalize={finalizeMatch}
+                  onReopen={reopenMatch}
+                  onDeleteMatch={canEditFixtures ? deleteMatch : undefined}
+                  onAddEvent={addEvent}
+                  onDeleteEvent={deleteEvent}
                 />
               ))}
             </div>
@@ -642,37 +896,68 @@ export default function AdminMatchesPage() {
 
 function MatchCard({
   match,
+  allMatches,
   teamNameById,
   groupNameById,
   playersByTeam,
   playerById,
-  goals,
+  events,
+  kicks,
+  lineup,
+  suspended,
+  officials,
+  assignedOfficials,
+  officialClashes,
+  report,
+  universities,
+  lengths,
   busy,
   onUpdateMatch,
+  onSetPhase,
+  onSetClock,
+  onSavePenaltyKicks,
+  onSaveLineup,
+  onSaveOfficials,
+  onSaveReport,
+  onFinalize,
+  onReopen,
   onDeleteMatch,
-  onAddGoal,
-  onDeleteGoal,
+  onAddEvent,
+  onDeleteEvent,
 }: {
   match: MatchRow;
+  allMatches: MatchRow[];
   teamNameById: Map<string, string>;
   groupNameById: Map<string, string>;
   playersByTeam: Map<string, Player[]>;
   playerById: Map<string, Player>;
-  goals: GoalRow[];
+  events: MatchEvent[];
+  kicks: PenaltyKick[];
+  lineup: LineupEntry[];
+  suspended: Set<string>;
+  officials: Official[];
+  assignedOfficials: MatchOfficial[];
+  officialClashes: string[];
+  report: RefereeReport | null;
+  universities: (string | null)[];
+  lengths: MatchLengths;
   busy: boolean;
-  onUpdateMatch: (matchId: string, patch: Partial<MatchRow>) => Promise<void>;
-  onDeleteMatch: (matchId: string) => Promise<void>;
-  onAddGoal: (payload: {
-    match_id: string;
-    scoring_team_id: string;
-    scorer_player_id: string;
-    assist_player_id: string | null;
-    minute: number | null;
-  }) => Promise<void>;
-  onDeleteGoal: (goalId: string) => Promise<void>;
+  onUpdateMatch: (matchId: string, patch: MatchPatch) => Promise<void>;
+  onSetPhase: (matchId: string, phase: LivePhase | null) => Promise<void>;
+  onSetClock: (matchId: string, running: boolean, minute?: number) => Promise<void>;
+  onSavePenaltyKicks: (matchId: string, kicks: PenaltyKick[]) => Promise<void>;
+  onSaveLineup: (matchId: string, teamId: string, players: Omit<LineupEntry, "team_id">[]) => Promise<void>;
+  /** Missing without the "tournament" scope (assigning officials is fixture setup). */
+  onSaveOfficials?: (matchId: string, refereeId: string | null, assistantIds: string[]) => Promise<void>;
+  onSaveReport: (matchId: string, incidents: ReportIncident[], notes: string | null) => Promise<void>;
+  onFinalize: (matchId: string) => Promise<void>;
+  onReopen: (matchId: string) => Promise<void>;
+  onDeleteMatch?: (matchId: string) => Promise<void>;
+  onAddEvent: (event: MatchEventInput) => Promise<void>;
+  onDeleteEvent: (eventId: string) => Promise<void>;
 }) {
-  const homeTeam = teamNameById.get(match.home_team_id) || "Home";
-  const awayTeam = teamNameById.get(match.away_team_id) || "Away";
+  const homeTeam = teamNameById.get(match.home_team_id) || slotPlaceholder(match, "home", allMatches);
+  const awayTeam = teamNameById.get(match.away_team_id) || slotPlaceholder(match, "away", allMatches);
 
   const meta =
     match.stage === "group"
@@ -683,10 +968,17 @@ function MatchCard({
 
   const kickoff = fmtKickoff(match.start_time);
 
+  // finished results are frozen until reopened; bracket slots wait for both teams
+  const waiting = !match.home_team_id || !match.away_team_id;
+  const locked = busy || match.status === "finished" || waiting;
+
   const homePlayers = playersByTeam.get(match.home_team_id) || [];
   const awayPlayers = playersByTeam.get(match.away_team_id) || [];
   const selectablePlayers = [...homePlayers, ...awayPlayers];
 
+  const referee = assignedOfficials.find((a) => a.role === "referee");
+  const refereeName = referee ? officials.find((o) => o.id === referee.official_id)?.full_name || "Referee" : null;
+
   const [homeScoreInput, setHomeScoreInput] = useState<string>(String(match.home_score ?? 0));
   const [awayScoreInput, setAwayScoreInput] = useState<string>(String(match.away_score ?? 0));
 
@@ -701,20 +993,56 @@ function MatchCard({
     await onUpdateMatch(match.id, { home_score: h, away_score: a });
   }
 
-  // Add goal form
-  const [goalTeamId, setGoalTeamId] = useState<string>(match.home_team_id);
-  const [scorerId, setScorerId] = useState<string>("");
-  const [assistId, setAssistId] = useState<string>("");
+  // Add event form
+  const [eventKind, setEventKind] = useState<MatchEventKind>("goal");
+  const [eventTeamId, setEventTeamId] = useState<string>(match.home_team_id);
+  const [playerId, setPlayerId] = useState<string>("");
+  const [relatedId, setRelatedId] = useState<string>("");
   const [minuteStr, setMinuteStr] = useState<string>("");
+  const [note, setNote] = useState<string>("");
 
   useEffect(() => {
-    setGoalTeamId(match.home_team_id);
-    setScorerId("");
-    setAssistId("");
+    setEventKind("goal");
+    setEventTeamId(match.home_team_id);
+    setPlayerId("");
+    setRelatedId("");
     setMinuteStr("");
+    setNote("");
   }, [match.id, match.home_team_id]);
 
-  const playersForGoalTeam = goalTeamId === match.home_team_id ? homePlayers : awayPlayers;
+  // an event without a minute gets the one on the live clock
+  const now = useNow(match.clock_started_at != null && match.status !== "finished");
+  const liveMinute = match.status !== "finished" ? clockMinute(match, now) : null;
+
+  // an own goal's player comes from the other side; assists and substitutes from the player's team
+  const playerTeamId = playerTeamOf({ kind: eventKind, team_id: eventTeamId }, match);
+  // once a team's lineup is saved, only players in it
+  const rosterForEvent = playerTeamId === match.home_team_id ? homePlayers : awayPlayers;
+  const lineupForEvent = lineup.filter((l) => l.team_id === playerTeamId).map((l) => l.player_id);
+  const playersForEvent = lineupForEvent.length
+    ? rosterForEvent.filter((p) => lineupForEvent.includes(p.id))
+    : rosterForEvent;
+  const relatedRole = relatedPlayerRole(eventKind);
+  const isGoalKind = eventKind === "goal" || eventKind === "penalty_goal" || eventKind === "own_goal";
+
+  async function addEvent() {
+    const minute = minuteStr.trim() === "" ? null : Number(minuteStr.trim());
+
+    await onAddEvent({
+      match_id: match.id,
+      kind: eventKind,
+      team_id: eventTeamId,
+      player_id: playerId,
+      related_player_id: relatedRole ? relatedId || null : null,
+      minute: minute == null || Number.isNaN(minute) ? null : minute,
+      note: note.trim() || null,
+    });
+
+    setPlayerId("");
+    setRelatedId("");
+    setMinuteStr("");
+    setNote("");
+  }
 
   const motmValueOk =
     match.motm_player_id == null || selectablePlayers.some((p) => p.id === match.motm_player_id);
@@ -728,68 +1056,86 @@ function MatchCard({
             {homeTeam} <span className="text-white/60 font-normal">vs</span> {awayTeam}
           </div>
           <div className="text-white/60 text-sm">
-            {meta} • Start: {kickoff} • Status: <b>{match.status}</b>
+            {meta} • Start: {kickoff} • Status: <b>{match.status}</b>{" "}
+            <MatchClock match={match} lengths={lengths} />
           </div>
+          {match.reopen_reason ? (
+            <div className="text-yellow-200/80 text-xs mt-1">Last reopened: {match.reopen_reason}</div>
+          ) : null}
+          {waiting ? (
+            <div className="text-white/50 text-xs mt-1">Teams are filled in when the earlier matches are finalized.</div>
+          ) : null}
         </div>
 
         <div className="flex flex-wrap gap-2">
           {match.status !== "finished" ? (
             <button
-              disabled={busy}
-              onClick={() => onUpdateMatch(match.id, { status: "finished" })}
+              disabled={busy || waiting}
+              onClick={() => onFinalize(match.id)}
               className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
             >
-              Mark finished
+              Finalize
             </button>
           ) : (
             <button
               disabled={busy}
-              onClick={() => onUpdateMatch(match.id, { status: "scheduled" })}
+              onClick={() => onReopen(match.id)}
               className="bg-yellow-600 hover:bg-yellow-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
             >
               Re-open
             </button>
           )}
 
-          <button
-            disabled={busy}
-            onClick={() => onDeleteMatch(match.id)}
-            className="bg-red-600 hover:bg-red-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
-          >
-            Delete
-          </button>
+          {onDeleteMatch ? (
+            <button
+              disabled={busy}
+              onClick={() => onDeleteMatch(match.id)}
+              className="bg-red-600 hover:bg-red-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+            >
+              Delete
+            </button>
+          ) : null}
         </div>
       </div>
 
+      {match.status !== "finished" && !waiting ? (
+        <MatchLiveControls
+          match={match}
+          lengths={lengths}
+          knockout={match.stage === "knockout"}
+          disabled={busy}
+          onSetPhase={(phase) => onSetPhase(match.id, phase)}
+          onSetClock={(running, minute) => onSetClock(match.id, running, minute)}
+        />
+      ) : null}
+
       {/* Score */}
       <div className="bg-[#111c44] border border-white/10 rounded-2xl p-4 space-y-2">
         <div className="flex items-center justify-between flex-wrap gap-2">
           <div className="font-bold">Score</div>
           <div className="text-white/60 text-sm">
             Current:{" "}
-            <b className="text-white">
-              {match.home_score} - {match.away_score}
-            </b>
+            <b className="text-white">{formatScore(match, " - ")}</b>
           </div>
         </div>
 
         <div className="flex items-center gap-3 flex-wrap">
           <input
-            disabled={busy}
+            disabled={locked}
             value={homeScoreInput}
             onChange={(e) => setHomeScoreInput(e.target.value)}
             className="w-20 text-center rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
           />
           <div className="text-white/70 font-bold">-</div>
           <input
-            disabled={busy}
+            disabled={locked}
             value={awayScoreInput}
             onChange={(e) => setAwayScoreInput(e.target.value)}
             className="w-20 text-center rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
           />
 
           <button
-            disabled={busy}
+            disabled={locked}
             onClick={saveScore}
             className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
           >
@@ -798,6 +1144,22 @@ function MatchCard({
         </div>
       </div>
 
+      {match.stage === "knockout" ? (
+        <KnockoutResultEditor
+          match={match}
+          homeName={homeTeam}
+          awayName={awayTeam}
+          kicks={kicks}
+          players={{
+            home: homePlayers.map((p) => ({ id: p.id, name: p.display_name || p.full_name || "Unnamed" })),
+            away: awayPlayers.map((p) => ({ id: p.id, name: p.display_name || p.full_name || "Unnamed" })),
+          }}
+          disabled={locked}
+          onUpdateMatch={(patch) => onUpdateMatch(match.id, patch)}
+          onSaveKicks={(list) => onSavePenaltyKicks(match.id, list)}
+        />
+      ) : null}
+
       {/* MOTM */}
       <div className="bg-[#111c44] border border-white/10 rounded-2xl p-4 space-y-2">
         <div className="font-bold">Man of the Match (MOTM)</div>
@@ -809,7 +1171,7 @@ function MatchCard({
           </div>
         ) : (
           <select
-            disabled={busy}
+            disabled={locked}
             className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
             value={motmValueOk ? match.motm_player_id || "" : ""}
             onChange={(e) => onUpdateMatch(match.id, { motm_player_id: e.target.value || null })}
@@ -824,134 +1186,217 @@ function MatchCard({
         )}
       </div>
 
-      {/* GOALS */}
+      {!waiting ? (
+        <LineupEditor
+          teams={[
+            { id: match.home_team_id, name: homeTeam, players: homePlayers.map(lineupPlayer) },
+            { id: match.away_team_id, name: awayTeam, players: awayPlayers.map(lineupPlayer) },
+          ]}
+          lineup={lineup}
+          suspended={suspended}
+          disabled={locked}
+          onSave={(teamId, list) => onSaveLineup(match.id, teamId, list)}
+        />
+      ) : null}
+
+      <MatchOfficialsEditor
+        officials={officials}
+        assigned={assignedOfficials}
+        universities={universities}
+        clashes={officialClashes}
+        disabled={busy || match.status === "finished" || !onSaveOfficials}
+        onSave={async (refereeId, assistantIds) => {
+          await onSaveOfficials?.(match.id, refereeId, assistantIds);
+        }}
+      />
+
+      {match.status === "finished" || match.live_phase === "full_time" ? (
+        <RefereeReportForm
+          report={report}
+          refereeName={refereeName}
+          teams={[
+            { id: match.home_team_id, name: homeTeam },
+            { id: match.away_team_id, name: awayTeam },
+          ]}
+          disabled={busy}
+          onSave={(incidents, notes) => onSaveReport(match.id, incidents, notes)}
+        />
+      ) : null}
+
+      {/* EVENTS */}
       <div className="bg-[#111c44] border border-white/10 rounded-2xl p-4 space-y-3">
-        <div className="font-bold">Goals & Assists</div>
+        <div className="font-bold">Match Events</div>
 
-        <div className="grid md:grid-cols-4 gap-2">
+        <div className="grid md:grid-cols-3 gap-2">
           <div className="space-y-1">
-            <div className="text-white/70 text-xs">Team</div>
+            <div className="text-white/70 text-xs">Event</div>
             <select
-              disabled={busy}
+              disabled={locked}
               className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
-              value={goalTeamId}
+              value={eventKind === "own_goal" ? "goal" : eventKind}
               onChange={(e) => {
-                setGoalTeamId(e.target.value);
-                setScorerId("");
-                setAssistId("");
+                setEventKind(e.target.value as MatchEventKind);
+                setPlayerId("");
+                setRelatedId("");
               }}
             >
-              <option value={match.home_team_id}>{homeTeam}</option>
-              <option value={match.away_team_id}>{awayTeam}</option>
+              {/* own goals: the OG flag on a goal */}
+              {MATCH_EVENT_KINDS.filter((k) => k !== "own_goal").map((k) => (
+                <option key={k} value={k}>
+                  {MATCH_EVENT_ICONS[k]} {MATCH_EVENT_LABELS[k]}
+                </option>
+              ))}
             </select>
           </div>
 
           <div className="space-y-1">
-            <div className="text-white/70 text-xs">Scorer</div>
+            <div className="text-white/70 text-xs">{isGoalKind ? "Goal for" : "Team"}</div>
             <select
-              disabled={busy || playersForGoalTeam.length === 0}
+              disabled={locked}
               className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
-              value={scorerId}
-              onChange={(e) => setScorerId(e.target.value)}
+              value={eventTeamId}
+              onChange={(e) => {
+                setEventTeamId(e.target.value);
+                setPlayerId("");
+                setRelatedId("");
+              }}
             >
-              <option value="">Select scorer</option>
-              {playersForGoalTeam.map((p) => (
-                <option key={p.id} value={p.id}>
-                  {(p.display_name || p.full_name || "Unnamed")}
-                </option>
-              ))}
+              <option value={match.home_team_id}>{homeTeam}</option>
+              <option value={match.away_team_id}>{awayTeam}</option>
             </select>
+            {eventKind === "goal" || eventKind === "own_goal" ? (
+              <label className="flex items-center gap-2 text-xs text-white/70">
+                <input
+                  type="checkbox"
+                  disabled={locked}
+                  checked={eventKind === "own_goal"}
+                  onChange={(e) => {
+                    setEventKind(e.target.checked ? "own_goal" : "goal");
+                    setPlayerId("");
+                    setRelatedId("");
+                  }}
+                />
+                Own goal (scored by a {eventTeamId === match.home_team_id ? awayTeam : homeTeam} player)
+              </label>
+            ) : null}
+          </div>
+
+          <div className="space-y-1">
+            <div className="text-white/70 text-xs">
+              Minute {liveMinute != null ? "(blank = live clock)" : "(optional)"}
+            </div>
+            <input
+              disabled={locked}
+              value={minuteStr}
+              onChange={(e) => setMinuteStr(e.target.value)}
+              placeholder={liveMinute != null ? String(liveMinute) : "e.g. 27"}
+              className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+            />
           </div>
 
           <div className="space-y-1">
-            <div className="text-white/70 text-xs">Assist (optional)</div>
+            <div className="text-white/70 text-xs">
+              {eventKind === "substitution" ? "Player off" : isGoalKind ? "Scorer" : "Player"}
+              {eventKind === "own_goal" ? ` (${playerTeamId === match.home_team_id ? homeTeam : awayTeam}, OG)` : ""}
+            </div>
             <select
-              disabled={busy || playersForGoalTeam.length === 0}
+              disabled={locked || playersForEvent.length === 0}
               className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
-              value={assistId}
-              onChange={(e) => setAssistId(e.target.value)}
+              value={playerId}
+              onChange={(e) => setPlayerId(e.target.value)}
             >
-              <option value="">(No assist)</option>
-              {playersForGoalTeam
-                .filter((p) => p.id !== scorerId)
-                .map((p) => (
-                  <option key={p.id} value={p.id}>
-                    {(p.display_name || p.full_name || "Unnamed")}
-                  </option>
-                ))}
+              <option value="">Select player</option>
+              {playersForEvent.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {(p.display_name || p.full_name || "Unnamed")}
+                </option>
+              ))}
             </select>
           </div>
 
+          {relatedRole ? (
+            <div className="space-y-1">
+              <div className="text-white/70 text-xs">{relatedRole === "assist" ? "Assist (optional)" : "Player on"}</div>
+              <select
+                disabled={locked || playersForEvent.length === 0}
+                className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+                value={relatedId}
+                onChange={(e) => setRelatedId(e.target.value)}
+              >
+                <option value="">{relatedRole === "assist" ? "(No assist)" : "Select player"}</option>
+                {playersForEvent
+                  .filter((p) => p.id !== playerId)
+                  .map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {(p.display_name || p.full_name || "Unnamed")}
+                    </option>
+                  ))}
+              </select>
+            </div>
+          ) : null}
+
           <div className="space-y-1">
-            <div className="text-white/70 text-xs">Minute (optional)</div>
+            <div className="text-white/70 text-xs">Note (optional)</div>
             <input
-              disabled={busy}
-              value={minuteStr}
-              onChange={(e) => setMinuteStr(e.target.value)}
-              placeholder="e.g. 27"
+              disabled={locked}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={eventKind === "injury" ? "e.g. ankle, stretchered off" : ""}
               className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
             />
           </div>
         </div>
 
+        {playerId && suspended.has(playerId) ? (
+          <div className="text-yellow-200 text-sm">
+            ⚠️ {playerById.get(playerId)?.display_name || playerById.get(playerId)?.full_name || "This player"} is
+            suspended for this match.
+          </div>
+        ) : null}
+
         <button
-          disabled={busy || !scorerId}
-          onClick={async () => {
-            const minute = minuteStr.trim() === "" ? null : Number(minuteStr.trim());
-            const safeMinute = minute == null || Number.isNaN(minute) ? null : minute;
-
-            await onAddGoal({
-              match_id: match.id,
-              scoring_team_id: goalTeamId,
-              scorer_player_id: scorerId,
-              assist_player_id: assistId || null,
-              minute: safeMinute,
-            });
-
-            setScorerId("");
-            setAssistId("");
-            setMinuteStr("");
-          }}
+          disabled={locked || !playerId || (relatedRole === "coming_on" && !relatedId)}
+          onClick={addEvent}
           className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
         >
-          Add Goal
+          Add {MATCH_EVENT_LABELS[eventKind]}
         </button>
 
-        {goals.length === 0 ? (
-          <div className="text-white/70 text-sm">No goals recorded yet.</div>
+        {events.length === 0 ? (
+          <div className="text-white/70 text-sm">No events recorded yet.</div>
         ) : (
           <div className="space-y-2">
-            {goals.map((g) => {
-              const scorer = (playerById.get(g.scorer_player_id)?.display_name ||
-                playerById.get(g.scorer_player_id)?.full_name ||
-                "Unknown") as string;
-
-              const assist = g.assist_player_id
-                ? (playerById.get(g.assist_player_id)?.display_name ||
-                    playerById.get(g.assist_player_id)?.full_name ||
-                    "Unknown")
-                : null;
-
-              const team = teamNameById.get(g.scoring_team_id) || "Team";
-              const min = g.minute != null ? `${g.minute}'` : "";
+            {events.map((ev) => {
+              const name = (id: string) =>
+                playerById.get(id)?.display_name || playerById.get(id)?.full_name || "Unknown";
+              const team = teamNameById.get(ev.team_id) || "Team";
+              const role = relatedPlayerRole(ev.kind);
 
               return (
                 <div
-                  key={g.id}
+                  key={ev.id}
                   className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
                 >
                   <div className="text-sm">
                     <div className="text-white/60 text-xs">
-                      {team} {min ? `• ${min}` : ""}
+                      {ev.minute != null ? `${ev.minute}' • ` : ""}
+                      {MATCH_EVENT_LABELS[ev.kind]} • {team}
                     </div>
                     <div className="font-bold">
-                      ⚽ {scorer}
-                      {assist ? <span className="text-white/60 font-normal"> (assist: {assist})</span> : null}
+                      {MATCH_EVENT_ICONS[ev.kind]} {eventPlayerLabel(ev, name(ev.player_id))}
+                      {role && ev.related_player_id ? (
+                        <span className="text-white/60 font-normal">
+                          {role === "assist" ? " (assist: " : " → "}
+                          {name(ev.related_player_id)}
+                          {role === "assist" ? ")" : ""}
+                        </span>
+                      ) : null}
                     </div>
+                    {ev.note ? <div className="text-white/60 text-xs">{ev.note}</div> : null}
                   </div>
                   <button
-                    disabled={busy}
-                    onClick={() => onDeleteGoal(g.id)}
+                    disabled={locked}
+                    onClick={() => onDeleteEvent(ev.id)}
                     className="bg-red-600 hover:bg-red-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
                   >
                     Delete
@@ -963,7 +1408,9 @@ function MatchCard({
         )}
 
         <div className="text-white/50 text-xs">
-          ✅ All edits here go through the server API, so RLS won’t block you anymore.
+          ✅ All edits here go through the server API, so RLS won’t block you anymore. Finalize checks the score
+          against the goal events and scores predictions; a finished match can only change after Re-open. Own goals
+          count for the team picked under &quot;Goal for&quot; but not in the scorer&apos;s tally.
         </div>
       </div>
     </div>
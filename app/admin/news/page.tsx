@@ -3,14 +3,29 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
+import { adminAction } from "@/lib/adminApi";
+import type { NewsMediaType, NewsStatus } from "@/lib/adminActions";
+import { useTournament } from "@/components/TournamentContext";
 
 type NewsPost = {
   id: string;
   created_at: string;
   title: string | null;
   body: string;
-  media_type: "none" | "image" | "video";
+  media_type: NewsMediaType;
   media_url: string | null;
+  status: NewsStatus;
+  publish_at: string | null;
+  updated_at: string | null;
+};
+
+type Revision = {
+  id: string;
+  title: string | null;
+  body: string | null;
+  media_type: NewsMediaType | null;
+  edited_at: string;
 };
 
 function fmtDate(iso: string) {
@@ -21,17 +36,51 @@ function fmtDate(iso: string) {
   }
 }
 
+// ISO -> value for <input type="datetime-local"> (local time)
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function isFuture(iso: string | null) {
+  return !!iso && new Date(iso).getTime() > Date.now();
+}
+
+function stateLabel(p: NewsPost) {
+  if (p.status === "draft") return p.publish_at && isFuture(p.publish_at) ? `Draft • planned for ${fmtDate(p.publish_at)}` : "Draft";
+  if (isFuture(p.publish_at)) return `Scheduled • goes live ${fmtDate(p.publish_at!)}`;
+  return `Published • ${fmtDate(p.publish_at || p.created_at)}`;
+}
+
+function stateClass(p: NewsPost) {
+  if (p.status === "draft") return "bg-white/10 text-white/70";
+  if (isFuture(p.publish_at)) return "bg-yellow-500/20 text-yellow-200";
+  return "bg-green-500/20 text-green-200";
+}
+
 export default function AdminNewsPage() {
   const router = useRouter();
+  const { tournament } = useTournament();
 
   const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
   const [err, setErr] = useState("");
+  const [msg, setMsg] = useState("");
   const [posts, setPosts] = useState<NewsPost[]>([]);
 
+  // form (create, or edit when editing is set)
+  const [editing, setEditing] = useState<NewsPost | null>(null);
   const [title, setTitle] = useState("");
   const [body, setBody] = useState("");
-  const [mediaType, setMediaType] = useState<"none" | "image" | "video">("none");
+  const [mediaType, setMediaType] = useState<NewsMediaType>("none");
   const [file, setFile] = useState<File | null>(null);
+  const [publishLocal, setPublishLocal] = useState("");
+
+  // edit history
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
 
   async function requireAdmin() {
     const { data } = await supabase.auth.getUser();
@@ -46,7 +95,7 @@ export default function AdminNewsPage() {
       .eq("id", data.user.id)
       .single();
 
-    if (me?.role !== "admin" || me?.status !== "active") {
+    if (!hasScope(me?.role, "news") || me?.status !== "active") {
       router.replace("/app");
       return false;
     }
@@ -59,7 +108,8 @@ export default function AdminNewsPage() {
 
     const { data, error } = await supabase
       .from("news_posts")
-      .select("id,created_at,title,body,media_type,media_url")
+      .select("id,created_at,title,body,media_type,media_url,status,publish_at,updated_at")
+      .eq("tournament_id", tournament.id)
       .order("created_at", { ascending: false });
 
     if (error) {
@@ -86,47 +136,124 @@ export default function AdminNewsPage() {
     return data.publicUrl;
   }
 
-  async function createPost() {
+  function resetForm() {
+    setEditing(null);
+    setTitle("");
+    setBody("");
+    setMediaType("none");
+    setFile(null);
+    setPublishLocal("");
+  }
+
+  function startEdit(p: NewsPost) {
     setErr("");
+    setMsg("");
+    setEditing(p);
+    setTitle(p.title || "");
+    setBody(p.body);
+    setMediaType(p.media_type);
+    setFile(null);
+    setPublishLocal(toLocalInput(p.publish_at));
+  }
 
-    if (!body.trim()) return setErr("Write something in the post body.");
+  // uploads a newly chosen file, or keeps the post's current one
+  async function resolveMedia(): Promise<string | null> {
+    if (mediaType === "none") return null;
+    if (file) return uploadToBucket(file);
+    if (editing && editing.media_type === mediaType && editing.media_url) return editing.media_url;
+    throw new Error("Choose a file (image/video) to upload.");
+  }
 
-    let media_url: string | null = null;
+  async function savePost(status: NewsStatus) {
+    setErr("");
+    setMsg("");
+
+    if (!body.trim()) return setErr("Write something in the post body.");
 
-    if (mediaType !== "none") {
-      if (!file) return setErr("Choose a file (image/video) to upload.");
-      try {
-        media_url = await uploadToBucket(file);
-      } catch (e: any) {
-        return setErr(e?.message || "Upload failed.");
+    setBusy(true);
+    try {
+      const media_url = await resolveMedia();
+      const post = {
+        title: title.trim() ? title.trim() : null,
+        body: body.trim(),
+        media_type: mediaType,
+        media_url,
+        publish_at: publishLocal ? new Date(publishLocal).toISOString() : null,
+      };
+
+      if (editing) {
+        await adminAction("updateNewsPost", { id: editing.id, patch: post });
+        setMsg("✅ Changes saved.");
+      } else {
+        await adminAction("createNewsPost", { tournament_id: tournament.id, post, status });
+        setMsg(
+          status === "draft"
+            ? "✅ Draft saved."
+            : isFuture(post.publish_at)
+            ? `✅ Scheduled for ${fmtDate(post.publish_at!)}.`
+            : "✅ Published."
+        );
       }
-    }
 
-    const { data: u } = await supabase.auth.getUser();
+      resetForm();
+      await load();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to save post");
+    } finally {
+      setBusy(false);
+    }
+  }
 
-    const { error } = await supabase.from("news_posts").insert({
-      title: title.trim() ? title.trim() : null,
-      body: body.trim(),
-      media_type: mediaType,
-      media_url,
-      created_by: u.user?.id ?? null,
-    });
+  async function runPostAction(action: () => Promise<unknown>, done: string) {
+    setErr("");
+    setMsg("");
+    setBusy(true);
+    try {
+      await action();
+      setMsg(done);
+      await load();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Action failed");
+    } finally {
+      setBusy(false);
+    }
+  }
 
-    if (error) return setErr(error.message);
+  function publishPost(p: NewsPost, now: boolean) {
+    // a draft keeps its planned time unless that has already passed
+    const publish_at = !now && isFuture(p.publish_at) ? p.publish_at : null;
+    return runPostAction(
+      () => adminAction("publishNewsPost", { id: p.id, publish_at }),
+      publish_at ? `✅ Scheduled for ${fmtDate(publish_at)}.` : "✅ Published."
+    );
+  }
 
-    setTitle("");
-    setBody("");
-    setMediaType("none");
-    setFile(null);
+  function unpublishPost(p: NewsPost) {
+    return runPostAction(() => adminAction("unpublishNewsPost", { id: p.id }), "Moved back to drafts.");
+  }
 
-    await load();
+  function deletePost(p: NewsPost) {
+    if (!confirm(`Delete "${p.title || "this post"}" and its edit history? This cannot be undone.`)) return;
+    if (editing?.id === p.id) resetForm();
+    return runPostAction(() => adminAction("deleteNewsPost", { id: p.id }), "Post deleted.");
   }
 
-  async function deletePost(id: string) {
+  async function toggleHistory(id: string) {
     setErr("");
-    const { error } = await supabase.from("news_posts").delete().eq("id", id);
+    if (historyFor === id) {
+      setHistoryFor(null);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from("news_post_revisions")
+      .select("id,title,body,media_type,edited_at")
+      .eq("post_id", id)
+      .order("edited_at", { ascending: false });
+
     if (error) return setErr(error.message);
-    await load();
+    setRevisions((data as Revision[]) || []);
+    setHistoryFor(id);
   }
 
   async function logout() {
@@ -141,7 +268,7 @@ export default function AdminNewsPage() {
       await load();
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
 
   if (loading) return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading…</div>;
 
@@ -151,7 +278,7 @@ export default function AdminNewsPage() {
         <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 flex items-start justify-between gap-3">
           <div>
             <h1 className="text-2xl font-bold">Admin • News</h1>
-            <p className="text-white/60 text-sm">Post updates that instantly appear to everyone.</p>
+            <p className="text-white/60 text-sm">Write drafts, publish now or schedule posts for later.</p>
           </div>
           <div className="flex gap-2">
             <button
@@ -170,10 +297,11 @@ export default function AdminNewsPage() {
         </div>
 
         {err && <div className="text-red-400">{err}</div>}
+        {msg && <div className="text-green-300">{msg}</div>}
 
-        {/* Create */}
+        {/* Create / edit */}
         <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
-          <div className="text-xl font-bold">Create Post</div>
+          <div className="text-xl font-bold">{editing ? "Edit Post" : "Create Post"}</div>
 
           <input
             value={title}
@@ -195,8 +323,7 @@ export default function AdminNewsPage() {
               <select
                 value={mediaType}
                 onChange={(e) => {
-                  const v = e.target.value as any;
-                  setMediaType(v);
+                  setMediaType(e.target.value as NewsMediaType);
                   setFile(null);
                 }}
                 className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
@@ -217,17 +344,60 @@ export default function AdminNewsPage() {
                 className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
               />
               <div className="text-white/50 text-xs">
+                {editing && editing.media_url && editing.media_type === mediaType
+                  ? "Leave empty to keep the current file. "
+                  : ""}
                 Tip: keep videos short (storage is limited on free tier).
               </div>
             </div>
           </div>
 
-          <button
-            onClick={createPost}
-            className="bg-green-600 hover:bg-green-500 transition px-5 py-3 rounded-xl font-bold"
-          >
-            Publish
-          </button>
+          <div className="space-y-1 md:w-1/3">
+            <div className="text-white/70 text-sm">Publish at (optional)</div>
+            <input
+              type="datetime-local"
+              value={publishLocal}
+              onChange={(e) => setPublishLocal(e.target.value)}
+              className="w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+            />
+            <div className="text-white/50 text-xs">Empty = as soon as it is published.</div>
+          </div>
+
+          {editing ? (
+            <div className="flex flex-wrap gap-2">
+              <button
+                disabled={busy}
+                onClick={() => savePost(editing.status)}
+                className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+              >
+                Save changes
+              </button>
+              <button
+                disabled={busy}
+                onClick={resetForm}
+                className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              <button
+                disabled={busy}
+                onClick={() => savePost("published")}
+                className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+              >
+                {publishLocal && isFuture(new Date(publishLocal).toISOString()) ? "Schedule" : "Publish"}
+              </button>
+              <button
+                disabled={busy}
+                onClick={() => savePost("draft")}
+                className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+              >
+                Save draft
+              </button>
+            </div>
+          )}
         </div>
 
         {/* List */}
@@ -240,14 +410,69 @@ export default function AdminNewsPage() {
             <div className="space-y-3">
               {posts.map((p) => (
                 <div key={p.id} className="bg-[#0b1530] border border-[#1f2a60] rounded-2xl p-4 space-y-2">
-                  <div className="flex items-start justify-between gap-3">
-                    <div className="text-white/50 text-xs">{fmtDate(p.created_at)}</div>
-                    <button
-                      onClick={() => deletePost(p.id)}
-                      className="bg-red-600 hover:bg-red-500 transition px-3 py-2 rounded-xl font-bold"
-                    >
-                      Delete
-                    </button>
+                  <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+                    <div className="space-y-1">
+                      <span className={`inline-block text-xs font-bold px-2 py-1 rounded-lg ${stateClass(p)}`}>
+                        {stateLabel(p)}
+                      </span>
+                      <div className="text-white/50 text-xs">
+                        Created {fmtDate(p.created_at)}
+                        {p.updated_at ? ` • Edited ${fmtDate(p.updated_at)}` : ""}
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        disabled={busy}
+                        onClick={() => startEdit(p)}
+                        className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                      >
+                        Edit
+                      </button>
+                      {p.status === "draft" ? (
+                        <button
+                          disabled={busy}
+                          onClick={() => publishPost(p, false)}
+                          className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                        >
+                          {isFuture(p.publish_at) ? "Schedule" : "Publish"}
+                        </button>
+                      ) : (
+                        <>
+                          {isFuture(p.publish_at) ? (
+                            <button
+                              disabled={busy}
+                              onClick={() => publishPost(p, true)}
+                              className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                            >
+                              Publish now
+                            </button>
+                          ) : null}
+                          <button
+                            disabled={busy}
+                            onClick={() => unpublishPost(p)}
+                            className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                          >
+                            Unpublish
+                          </button>
+                        </>
+                      )}
+                      {p.updated_at ? (
+                        <button
+                          onClick={() => toggleHistory(p.id)}
+                          className="bg-white/10 hover:bg-white/20 transition px-3 py-2 rounded-xl font-bold"
+                        >
+                          {historyFor === p.id ? "Hide history" : "History"}
+                        </button>
+                      ) : null}
+                      <button
+                        disabled={busy}
+                        onClick={() => deletePost(p)}
+                        className="bg-red-600 hover:bg-red-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                      >
+                        Delete
+                      </button>
+                    </div>
                   </div>
 
                   {p.title ? <div className="text-lg font-bold">{p.title}</div> : null}
@@ -261,6 +486,26 @@ export default function AdminNewsPage() {
                   {p.media_type === "video" && p.media_url ? (
                     <video src={p.media_url} controls className="w-full rounded-2xl border border-white/10" />
                   ) : null}
+
+                  {historyFor === p.id ? (
+                    <div className="border-t border-white/10 pt-3 space-y-2">
+                      <div className="text-white/70 text-sm font-bold">Earlier versions</div>
+                      {revisions.length === 0 ? (
+                        <div className="text-white/50 text-sm">No earlier versions.</div>
+                      ) : (
+                        revisions.map((r) => (
+                          <div key={r.id} className="bg-[#111c44] border border-white/10 rounded-xl p-3 space-y-1">
+                            <div className="text-white/50 text-xs">
+                              Replaced {fmtDate(r.edited_at)}
+                              {r.media_type && r.media_type !== "none" ? ` • with ${r.media_type}` : ""}
+                            </div>
+                            {r.title ? <div className="font-bold">{r.title}</div> : null}
+                            <div className="text-white/70 text-sm whitespace-pre-wrap">{r.body}</div>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  ) : null}
                 </div>
               ))}
             </div>
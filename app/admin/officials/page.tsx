@@ -0,0 +1,370 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
+import { adminAction } from "@/lib/adminApi";
+import {
+  MatchOfficial,
+  OFFICIAL_CONFLICT_LABELS,
+  OFFICIAL_ROLE_LABELS,
+  Official,
+  OfficialConflict,
+  findOfficialConflicts,
+} from "@/lib/officials";
+import { ScheduleSlot } from "@/lib/schedule";
+import { tournamentLabel, useTournament } from "@/components/TournamentContext";
+
+type Team = { id: string; name: string; university: string | null };
+
+type MatchRow = {
+  id: string;
+  status: string;
+  home_team_id: string | null;
+  away_team_id: string | null;
+  start_time: string | null;
+  venue_id: string | null;
+};
+
+type Draft = { full_name: string; university: string; phone: string };
+
+const EMPTY_DRAFT: Draft = { full_name: "", university: "", phone: "" };
+
+function fmt(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" }) : "no time";
+}
+
+function toInput(d: Draft) {
+  return { full_name: d.full_name.trim(), university: d.university.trim() || null, phone: d.phone.trim() || null };
+}
+
+export default function AdminOfficialsPage() {
+  const router = useRouter();
+  const { tournament } = useTournament();
+
+  const [officials, setOfficials] = useState<Official[]>([]);
+  const [assignments, setAssignments] = useState<MatchOfficial[]>([]);
+  const [matches, setMatches] = useState<MatchRow[]>([]);
+  const [slots, setSlots] = useState<ScheduleSlot[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [msg, setMsg] = useState("");
+
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<Draft>(EMPTY_DRAFT);
+
+  async function requireAdmin() {
+    const { data } = await supabase.auth.getUser();
+    if (!data.user) {
+      router.replace("/register");
+      return false;
+    }
+
+    const { data: me } = await supabase.from("profiles").select("role,status").eq("id", data.user.id).single();
+
+    if (!hasScope(me?.role, "tournament") || me?.status !== "active") {
+      router.replace("/app");
+      return false;
+    }
+    return true;
+  }
+
+  async function load() {
+    setError("");
+
+    const [o, m, sl, t] = await Promise.all([
+      supabase
+        .from("officials")
+        .select("id,full_name,university,phone")
+        .eq("tournament_id", tournament.id)
+        .order("full_name"),
+      supabase
+        .from("matches")
+        .select("id,status,home_team_id,away_team_id,start_time,venue_id")
+        .eq("tournament_id", tournament.id)
+        .is("archived_at", null),
+      supabase
+        .from("schedule_slots")
+        .select("id,venue_id,starts_at,duration_minutes")
+        .eq("tournament_id", tournament.id),
+      supabase.from("teams").select("id,name,university").eq("tournament_id", tournament.id).is("archived_at", null),
+    ]);
+
+    const failed = [o, m, sl, t].find((r) => r.error);
+    if (failed?.error) {
+      setError(failed.error.message);
+      setLoading(false);
+      return;
+    }
+
+    const ms = (m.data as MatchRow[]) || [];
+    const { data: a, error: aErr } = await supabase
+      .from("match_officials")
+      .select("match_id,official_id,role")
+      .in("match_id", ms.map((x) => x.id));
+    if (aErr) {
+      setError(aErr.message);
+      setLoading(false);
+      return;
+    }
+
+    setOfficials((o.data as Official[]) || []);
+    setMatches(ms);
+    setSlots((sl.data as ScheduleSlot[]) || []);
+    setTeams((t.data as Team[]) || []);
+    setAssignments((a as MatchOfficial[]) || []);
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    (async () => {
+      const ok = await requireAdmin();
+      if (!ok) return;
+      await load();
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournament.id]);
+
+  async function run(work: () => Promise<string>) {
+    setError("");
+    setMsg("");
+    setBusy(true);
+    try {
+      setMsg(await work());
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const teamName = useMemo(() => new Map(teams.map((t) => [t.id, t.name])), [teams]);
+  const matchById = useMemo(() => new Map(matches.map((m) => [m.id, m])), [matches]);
+  const officialName = useMemo(() => new Map(officials.map((o) => [o.id, o.full_name])), [officials]);
+
+  const conflicts = useMemo(
+    () => findOfficialConflicts({ matches, slots, teams, officials, assignments }),
+    [matches, slots, teams, officials, assignments]
+  );
+
+  function matchLabel(id: string) {
+    const m = matchById.get(id);
+    if (!m) return "—";
+    const side = (teamId: string | null) => (teamId && teamName.get(teamId)) || "TBD";
+    return `${side(m.home_team_id)} vs ${side(m.away_team_id)} (${fmt(m.start_time)})`;
+  }
+
+  function conflictText(c: OfficialConflict) {
+    const team = c.team_id ? ` — ${teamName.get(c.team_id) || "team"}` : "";
+    const which = c.match_ids.map(matchLabel).join(" • ");
+    return `${officialName.get(c.official_id) || "Official"}: ${OFFICIAL_CONFLICT_LABELS[c.kind]}${team} • ${which}`;
+  }
+
+  function createOfficial(e: React.FormEvent) {
+    e.preventDefault();
+    if (!draft.full_name.trim()) return setError("Give the official a name.");
+    run(async () => {
+      await adminAction("createOfficial", { tournament_id: tournament.id, official: toInput(draft) });
+      setDraft(EMPTY_DRAFT);
+      return `✅ ${draft.full_name.trim()} added.`;
+    });
+  }
+
+  function saveEdit(id: string) {
+    if (!editDraft.full_name.trim()) return setError("The name can't be empty.");
+    run(async () => {
+      await adminAction("updateOfficial", { id, patch: toInput(editDraft) });
+      setEditingId(null);
+      return "✅ Saved.";
+    });
+  }
+
+  function deleteOfficial(o: Official) {
+    if (!confirm(`Delete ${o.full_name}? They come off every match they are assigned to.`)) return;
+    run(async () => {
+      await adminAction("deleteOfficial", { id: o.id });
+      return `✅ ${o.full_name} deleted.`;
+    });
+  }
+
+  if (loading) {
+    return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading officials…</div>;
+  }
+
+  const inputClass = "rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none";
+  const editClass = "rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none";
+
+  return (
+    <div className="min-h-screen bg-[#0b1530] text-white p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Admin • Officials</h1>
+            <p className="text-white/70">
+              Referees and assistants for {tournamentLabel(tournament)}. Assign them to matches on Admin • Matches.
+            </p>
+          </div>
+          <button
+            onClick={load}
+            disabled={busy}
+            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {error && <div className="text-red-400 whitespace-pre-wrap">{error}</div>}
+        {msg && <div className="text-green-300">{msg}</div>}
+
+        {conflicts.length ? (
+          <div className="bg-red-600/10 border border-red-500/30 rounded-2xl p-5 space-y-2">
+            <div className="text-xl font-bold text-red-200">Clashes ({conflicts.length})</div>
+            {conflicts.map((c, i) => (
+              <div key={i} className="text-sm text-red-100">
+                {conflictText(c)}
+              </div>
+            ))}
+            <div className="text-white/50 text-xs">
+              Usually a match moved or a university changed after the assignment; reassign on Admin • Matches.
+            </div>
+          </div>
+        ) : null}
+
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+          <div className="text-xl font-bold">Officials</div>
+          <form onSubmit={createOfficial} className="flex gap-2 flex-wrap">
+            <input
+              value={draft.full_name}
+              onChange={(e) => setDraft({ ...draft, full_name: e.target.value })}
+              placeholder="Full name"
+              className={`${inputClass} flex-1 min-w-[180px]`}
+            />
+            <input
+              value={draft.university}
+              onChange={(e) => setDraft({ ...draft, university: e.target.value })}
+              placeholder="University (optional)"
+              className={`${inputClass} w-56`}
+            />
+            <input
+              value={draft.phone}
+              onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+              placeholder="Phone (optional)"
+              className={`${inputClass} w-44`}
+            />
+            <button
+              disabled={busy}
+              className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+            >
+              Add
+            </button>
+          </form>
+
+          {officials.length === 0 ? (
+            <div className="text-white/70">No officials yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {officials.map((o) => {
+                const mine = assignments.filter((a) => a.official_id === o.id);
+                const upcoming = mine.filter((a) => matchById.get(a.match_id)?.status !== "finished");
+
+                return (
+                  <div key={o.id} className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 space-y-2">
+                    {editingId === o.id ? (
+                      <div className="flex gap-2 flex-wrap">
+                        <input
+                          value={editDraft.full_name}
+                          onChange={(e) => setEditDraft({ ...editDraft, full_name: e.target.value })}
+                          className={`${editClass} flex-1 min-w-[160px]`}
+                        />
+                        <input
+                          value={editDraft.university}
+                          onChange={(e) => setEditDraft({ ...editDraft, university: e.target.value })}
+                          placeholder="University"
+                          className={`${editClass} w-48`}
+                        />
+                        <input
+                          value={editDraft.phone}
+                          onChange={(e) => setEditDraft({ ...editDraft, phone: e.target.value })}
+                          placeholder="Phone"
+                          className={`${editClass} w-40`}
+                        />
+                        <button
+                          disabled={busy}
+                          onClick={() => saveEdit(o.id)}
+                          className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="bg-white/10 hover:bg-white/20 transition px-3 py-2 rounded-xl font-bold"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-between gap-3">
+                        <div>
+                          <div className="font-bold">{o.full_name}</div>
+                          <div className="text-white/60 text-sm">
+                            {o.university || "No university set"}
+                            {o.phone ? ` • ${o.phone}` : ""} • {mine.length - upcoming.length} played •{" "}
+                            {upcoming.length} upcoming
+                          </div>
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            disabled={busy}
+                            onClick={() => {
+                              setEditingId(o.id);
+                              setEditDraft({
+                                full_name: o.full_name,
+                                university: o.university || "",
+                                phone: o.phone || "",
+                              });
+                            }}
+                            className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            disabled={busy}
+                            onClick={() => deleteOfficial(o)}
+                            className="bg-red-600 hover:bg-red-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    )}
+
+                    {upcoming.length ? (
+                      <div className="text-white/70 text-xs space-y-0.5">
+                        {upcoming.map((a) => (
+                          <div key={a.match_id}>
+                            {OFFICIAL_ROLE_LABELS[a.role]}: {matchLabel(a.match_id)}
+                          </div>
+                        ))}
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="text-white/50 text-xs">
+            An official can&apos;t take two matches at once, or a match of a team from their own university (same name
+            as on Admin • Teams). Officials of finished matches can&apos;t be deleted.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { ROLE_LABELS, StaffRole, canOpenAdminPage, isStaffRole } from "@/lib/adminRoles";
 
 type MeProfile = {
   role: string;
@@ -14,6 +15,7 @@ export default function AdminHomePage() {
   const router = useRouter();
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
+  const [me, setMe] = useState<MeProfile | null>(null);
 
   async function requireAdmin() {
     const { data } = await supabase.auth.getUser();
@@ -36,11 +38,12 @@ export default function AdminHomePage() {
 
     const prof = me as MeProfile;
 
-    if (prof.role !== "admin" || prof.status !== "active") {
+    if (!isStaffRole(prof.role) || prof.status !== "active") {
       router.replace("/app");
       return false;
     }
 
+    setMe(prof);
     return true;
   }
 
@@ -75,7 +78,7 @@ export default function AdminHomePage() {
         {
           href: "/admin/players",
           name: "Roster Players",
-          desc: "Create roster players + edit stats (goals/assists/MOTM)",
+          desc: "Create roster players + override stats (goals/assists/MOTM)",
         },
         {
           href: "/admin/team-players",
@@ -92,8 +95,11 @@ export default function AdminHomePage() {
     {
       title: "Tournament Setup",
       items: [
+        { href: "/admin/tournaments", name: "Tournaments", desc: "Seasons: create, switch the current one, archive" },
         { href: "/admin/teams", name: "Teams", desc: "Create / delete teams" },
-        { href: "/admin/groups", name: "Groups", desc: "Create groups and assign teams" },
+        { href: "/admin/groups", name: "Groups", desc: "Create groups, assign teams, fixtures, tiebreakers" },
+        { href: "/admin/schedule", name: "Schedule", desc: "Pitches, time slots, rest and blackouts, scheduler" },
+        { href: "/admin/officials", name: "Officials", desc: "Referees and assistants, their clashes" },
       ],
     },
     {
@@ -106,12 +112,24 @@ export default function AdminHomePage() {
     {
       title: "Engagement",
       items: [
-        { href: "/admin/news", name: "News", desc: "Post text, images, and videos for all users" },
+        { href: "/admin/news", name: "News", desc: "Draft, schedule and edit posts with images and videos" },
         { href: "/admin/fans", name: "Fans", desc: "Kick / reactivate fans" },
       ],
     },
+    {
+      title: "Oversight",
+      items: [
+        { href: "/admin/audit", name: "Audit Log", desc: "Who changed what (before / after)" },
+        { href: "/admin/recycle-bin", name: "Recycle Bin", desc: "Restore or purge deleted items" },
+      ],
+    },
   ];
 
+  // only what this role can open (see ADMIN_PAGE_SCOPES in lib/adminRoles.ts)
+  const visibleSections = sections
+    .map((s) => ({ ...s, items: s.items.filter((it) => canOpenAdminPage(me, it.href)) }))
+    .filter((s) => s.items.length > 0);
+
   if (loading) {
     return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading…</div>;
   }
@@ -125,6 +143,11 @@ export default function AdminHomePage() {
             <p className="text-white/70">
               Manage DawraLik (teams, players, matches, fans).
             </p>
+            {me ? (
+              <p className="text-white/50 text-sm mt-1">
+                Signed in as <b className="text-white">{ROLE_LABELS[me.role as StaffRole]}</b>
+              </p>
+            ) : null}
           </div>
 
           {/* ✅ WORKING LOGOUT */}
@@ -139,7 +162,7 @@ export default function AdminHomePage() {
         {err && <div className="text-red-400">{err}</div>}
 
         <div className="grid md:grid-cols-2 gap-4">
-          {sections.map((s) => (
+          {visibleSections.map((s) => (
             <div
               key={s.title}
               className="bg-[#111c44] border border-white/10 rounded-2xl p-5"
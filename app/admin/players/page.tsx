@@ -3,7 +3,10 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
 import { adminAction } from "@/lib/adminApi";
+import { batchStep, PlayerStatOverrides } from "@/lib/adminActions";
+import { tournamentLabel, useTournament } from "@/components/TournamentContext";
 
 type PlayerRow = {
   id: string;
@@ -23,11 +26,25 @@ type StatsRow = {
   motm: number;
 };
 
+type StatKey = "matches_played" | "goals" | "assists" | "motm";
+
+// Hand-set values that win over the numbers derived from matches (null = automatic)
+type OverrideRow = { player_id: string } & Record<StatKey, number | null>;
+
+const STAT_INPUTS: { key: StatKey; label: string }[] = [
+  { key: "matches_played", label: "Matches" },
+  { key: "goals", label: "Goals" },
+  { key: "assists", label: "Assists" },
+  { key: "motm", label: "MOTM" },
+];
+
 export default function AdminPlayersPage() {
   const router = useRouter();
+  const { tournament } = useTournament();
 
   const [players, setPlayers] = useState<PlayerRow[]>([]);
   const [stats, setStats] = useState<Record<string, StatsRow>>({});
+  const [overrides, setOverrides] = useState<Record<string, OverrideRow>>({});
   const [loading, setLoading] = useState(true);
   const [busy, setBusy] = useState(false);
   const [error, setError] = useState("");
@@ -40,6 +57,10 @@ export default function AdminPlayersPage() {
   // Optional: quick search
   const [q, setQ] = useState("");
 
+  // Override edits are kept locally and saved together (one batch)
+  const [edits, setEdits] = useState<Record<string, PlayerStatOverrides>>({});
+  const [msg, setMsg] = useState("");
+
   async function requireAdmin() {
     const { data } = await supabase.auth.getUser();
     if (!data.user) {
@@ -58,7 +79,7 @@ export default function AdminPlayersPage() {
       return false;
     }
 
-    if (me?.role !== "admin" || me?.status !== "active") {
+    if (!hasScope(me?.role, "roster") || me?.status !== "active") {
       router.replace("/app");
       return false;
     }
@@ -74,6 +95,7 @@ export default function AdminPlayersPage() {
       const { data: p, error: pErr } = await supabase
         .from("players")
         .select("id,full_name,display_name,university,position,linked_profile_id,created_at")
+        .is("archived_at", null)
         .order("created_at", { ascending: true });
 
       if (pErr) throw new Error(pErr.message);
@@ -81,13 +103,25 @@ export default function AdminPlayersPage() {
 
       const { data: s, error: sErr } = await supabase
         .from("player_stats")
-        .select("player_id,matches_played,goals,assists,motm");
+        .select("player_id,matches_played,goals,assists,motm")
+        .eq("tournament_id", tournament.id);
 
       if (sErr) throw new Error(sErr.message);
 
       const map: Record<string, StatsRow> = {};
       ((s as StatsRow[]) || []).forEach((r) => (map[r.player_id] = r));
       setStats(map);
+
+      const { data: o, error: oErr } = await supabase
+        .from("player_stat_overrides")
+        .select("player_id,matches_played,goals,assists,motm")
+        .eq("tournament_id", tournament.id);
+
+      if (oErr) throw new Error(oErr.message);
+
+      const oMap: Record<string, OverrideRow> = {};
+      ((o as OverrideRow[]) || []).forEach((r) => (oMap[r.player_id] = r));
+      setOverrides(oMap);
     } catch (e: any) {
       setError(e?.message ? String(e.message) : String(e));
     } finally {
@@ -126,7 +160,7 @@ export default function AdminPlayersPage() {
 
   async function deletePlayer(id: string) {
     setError("");
-    const ok = confirm("Delete this roster player? (Goals/MOTM may also be removed/cleared based on your DB rules)");
+    const ok = confirm("Move this roster player to the Recycle Bin? (You can restore them from there)");
     if (!ok) return;
 
     setBusy(true);
@@ -140,11 +174,24 @@ export default function AdminPlayersPage() {
     }
   }
 
-  async function updateStat(playerId: string, patch: Partial<StatsRow>) {
+  function editStat(playerId: string, patch: PlayerStatOverrides) {
+    setEdits((prev) => ({ ...prev, [playerId]: { ...prev[playerId], ...patch } }));
+  }
+
+  async function saveStats() {
+    const entries = Object.entries(edits);
+    if (entries.length === 0) return;
+
     setError("");
     setBusy(true);
     try {
-      await adminAction("updatePlayerStats", { player_id: playerId, patch });
+      // all rows save, or none do
+      await adminAction("batch", {
+        steps: entries.map(([player_id, patch]) =>
+          batchStep("overridePlayerStats", { player_id, tournament_id: tournament.id, patch })
+        ),
+      });
+      setEdits({});
       await load();
     } catch (e: any) {
       setError(e?.message ? String(e.message) : String(e));
@@ -153,6 +200,21 @@ export default function AdminPlayersPage() {
     }
   }
 
+  async function rebuildStats() {
+    setError("");
+    setMsg("");
+    setBusy(true);
+    try {
+      const res = await adminAction("rebuildPlayerStats", {});
+      setMsg(`✅ Stats rebuilt from match data (${res.updated} player(s) changed).`);
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
   async function logout() {
     await supabase.auth.signOut();
     router.replace("/register");
@@ -165,7 +227,7 @@ export default function AdminPlayersPage() {
       await load();
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
 
   const filtered = useMemo(() => {
     const s = q.trim().toLowerCase();
@@ -195,11 +257,19 @@ export default function AdminPlayersPage() {
             </p>
             <div className="text-white/50 text-xs mt-2">
               Total players: <b className="text-white">{players.length}</b>
+              <span className="ml-2">• Stats for {tournamentLabel(tournament)}</span>
               {busy ? <span className="ml-2 text-white/60">• Working…</span> : null}
             </div>
           </div>
 
           <div className="flex gap-2">
+            <button
+              onClick={rebuildStats}
+              className="bg-green-600 hover:bg-green-500 transition px-4 py-2 rounded-xl font-bold"
+              disabled={busy}
+            >
+              Rebuild stats
+            </button>
             <button
               onClick={load}
               className="bg-blue-600 hover:bg-blue-500 transition px-4 py-2 rounded-xl font-bold"
@@ -224,6 +294,8 @@ export default function AdminPlayersPage() {
           </div>
         )}
 
+        {msg && <div className="text-green-300 whitespace-pre-wrap">{msg}</div>}
+
         {/* Create player */}
         <form onSubmit={createPlayer} className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
           <div className="text-xl font-bold">Add roster player</div>
@@ -289,19 +361,47 @@ export default function AdminPlayersPage() {
           </div>
         </div>
 
+        {/* Pending stat edits */}
+        {Object.keys(edits).length > 0 ? (
+          <div className="bg-[#111c44] border border-yellow-400/30 rounded-2xl p-4 flex flex-wrap gap-3 items-center justify-between">
+            <div className="text-white/80 text-sm">
+              Unsaved stat overrides for <b className="text-white">{Object.keys(edits).length}</b> player(s).
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setEdits({})}
+                className="bg-[#0b1530] border border-[#1f2a60] px-4 py-2 rounded-xl font-bold"
+                disabled={busy}
+              >
+                Discard
+              </button>
+              <button
+                onClick={saveStats}
+                className="bg-green-600 hover:bg-green-500 transition px-4 py-2 rounded-xl font-bold"
+                disabled={busy}
+              >
+                Save all
+              </button>
+            </div>
+          </div>
+        ) : null}
+
         {/* Players list */}
         <div className="space-y-3">
           {filtered.length === 0 ? (
             <div className="text-white/70">No players found.</div>
           ) : (
             filtered.map((p) => {
-              const s = stats[p.id] || {
-                player_id: p.id,
-                matches_played: 0,
-                goals: 0,
-                assists: 0,
-                motm: 0,
-              };
+              const s =
+                stats[p.id] || {
+                  player_id: p.id,
+                  matches_played: 0,
+                  goals: 0,
+                  assists: 0,
+                  motm: 0,
+                };
+              const edit = edits[p.id] || {};
+              const saved = overrides[p.id];
 
               const name = (p.display_name || p.full_name || "Unnamed").trim();
 
@@ -327,30 +427,22 @@ export default function AdminPlayersPage() {
                   </div>
 
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                    <StatInput
-                      label="Matches"
-                      value={s.matches_played}
-                      disabled={busy}
-                      onChange={(v) => updateStat(p.id, { matches_played: v })}
-                    />
-                    <StatInput
-                      label="Goals"
-                      value={s.goals}
-                      disabled={busy}
-                      onChange={(v) => updateStat(p.id, { goals: v })}
-                    />
-                    <StatInput
-                      label="Assists"
-                      value={s.assists}
-                      disabled={busy}
-                      onChange={(v) => updateStat(p.id, { assists: v })}
-                    />
-                    <StatInput
-                      label="MOTM"
-                      value={s.motm}
-                      disabled={busy}
-                      onChange={(v) => updateStat(p.id, { motm: v })}
-                    />
+                    {STAT_INPUTS.map(({ key, label }) => {
+                      const edited = key in edit;
+                      const overridden = edited ? edit[key] != null : saved?.[key] != null;
+
+                      return (
+                        <StatInput
+                          key={key}
+                          label={label}
+                          value={edit[key] ?? s[key]}
+                          overridden={overridden}
+                          disabled={busy}
+                          onChange={(v) => editStat(p.id, { [key]: v })}
+                          onReset={() => editStat(p.id, { [key]: null })}
+                        />
+                      );
+                    })}
                   </div>
                 </div>
               );
@@ -359,7 +451,9 @@ export default function AdminPlayersPage() {
         </div>
 
         <div className="text-white/60 text-sm">
-          Next step: assign roster players to teams at <b>/admin/team-players</b>.
+          Stats are computed from match goals, MOTM and finished matches. Typing a number sets a manual
+          override; “Auto” hands the stat back to the match data. Next step: assign roster players to teams
+          at <b>/admin/team-players</b>.
         </div>
       </div>
     </div>
@@ -369,17 +463,38 @@ export default function AdminPlayersPage() {
 function StatInput({
   label,
   value,
+  overridden,
   disabled,
   onChange,
+  onReset,
 }: {
   label: string;
   value: number;
+  overridden: boolean;
   disabled?: boolean;
   onChange: (v: number) => void;
+  onReset: () => void;
 }) {
   return (
-    <div className="bg-[#0b1530] border border-[#1f2a60] rounded-2xl p-4">
-      <div className="text-sm text-white/70 mb-2">{label}</div>
+    <div
+      className={`bg-[#0b1530] border rounded-2xl p-4 ${overridden ? "border-yellow-400/50" : "border-[#1f2a60]"}`}
+    >
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="text-sm text-white/70">{label}</div>
+        {overridden ? (
+          <button
+            type="button"
+            onClick={onReset}
+            disabled={disabled}
+            className="text-xs text-yellow-300 hover:text-yellow-200 underline"
+            title="Use the value computed from matches"
+          >
+            Manual • Auto
+          </button>
+        ) : (
+          <div className="text-xs text-white/40">Auto</div>
+        )}
+      </div>
       <input
         type="number"
         min={0}
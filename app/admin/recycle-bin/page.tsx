@@ -0,0 +1,294 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
+import { adminAction } from "@/lib/adminApi";
+import type { ArchiveKind } from "@/lib/adminActions";
+
+type Named = { id: string; name: string; archived_at: string | null };
+
+type ArchivedPlayer = {
+  id: string;
+  full_name: string | null;
+  display_name: string | null;
+  archived_at: string;
+};
+
+type ArchivedMatch = {
+  id: string;
+  stage: string;
+  home_team_id: string;
+  away_team_id: string;
+  start_time: string | null;
+  home_score: number;
+  away_score: number;
+  archived_at: string;
+};
+
+type BinItem = {
+  kind: ArchiveKind;
+  id: string;
+  label: string;
+  archived_at: string;
+};
+
+const KIND_LABEL: Record<ArchiveKind, string> = {
+  team: "Team",
+  player: "Player",
+  group: "Group",
+  match: "Match",
+};
+
+function fmtDate(iso: string | null) {
+  if (!iso) return "—";
+  try {
+    return new Date(iso).toLocaleString();
+  } catch {
+    return iso;
+  }
+}
+
+export default function AdminRecycleBinPage() {
+  const router = useRouter();
+
+  // all teams (archived too) so archived matches still show names
+  const [teams, setTeams] = useState<Named[]>([]);
+  const [groups, setGroups] = useState<Named[]>([]);
+  const [players, setPlayers] = useState<ArchivedPlayer[]>([]);
+  const [matches, setMatches] = useState<ArchivedMatch[]>([]);
+
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+  const [msg, setMsg] = useState("");
+
+  async function requireAdmin() {
+    const { data } = await supabase.auth.getUser();
+    if (!data.user) {
+      router.replace("/register");
+      return false;
+    }
+
+    const { data: me, error } = await supabase
+      .from("profiles")
+      .select("role,status")
+      .eq("id", data.user.id)
+      .single();
+
+    if (error) {
+      setErr(error.message);
+      return false;
+    }
+
+    if (!hasScope(me?.role, "oversight") || me?.status !== "active") {
+      router.replace("/app");
+      return false;
+    }
+
+    return true;
+  }
+
+  async function load() {
+    setErr("");
+
+    try {
+      const { data: t, error: tErr } = await supabase.from("teams").select("id,name,archived_at").order("name");
+      if (tErr) throw new Error(`teams: ${tErr.message}`);
+      setTeams((t as Named[]) || []);
+
+      const { data: g, error: gErr } = await supabase
+        .from("groups")
+        .select("id,name,archived_at")
+        .not("archived_at", "is", null)
+        .order("archived_at", { ascending: false });
+      if (gErr) throw new Error(`groups: ${gErr.message}`);
+      setGroups((g as Named[]) || []);
+
+      const { data: p, error: pErr } = await supabase
+        .from("players")
+        .select("id,full_name,display_name,archived_at")
+        .not("archived_at", "is", null)
+        .order("archived_at", { ascending: false });
+      if (pErr) throw new Error(`players: ${pErr.message}`);
+      setPlayers((p as ArchivedPlayer[]) || []);
+
+      const { data: m, error: mErr } = await supabase
+        .from("matches")
+        .select("id,stage,home_team_id,away_team_id,start_time,home_score,away_score,archived_at")
+        .not("archived_at", "is", null)
+        .order("archived_at", { ascending: false });
+      if (mErr) throw new Error(`matches: ${mErr.message}`);
+      setMatches((m as ArchivedMatch[]) || []);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : String(e));
+    }
+
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    (async () => {
+      const ok = await requireAdmin();
+      if (!ok) return;
+      await load();
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const teamName = useMemo(() => {
+    const m = new Map<string, string>();
+    teams.forEach((t) => m.set(t.id, t.name));
+    return m;
+  }, [teams]);
+
+  const items = useMemo(() => {
+    const out: BinItem[] = [];
+
+    teams.forEach((t) => {
+      if (t.archived_at) out.push({ kind: "team", id: t.id, label: t.name, archived_at: t.archived_at });
+    });
+    groups.forEach((g) => out.push({ kind: "group", id: g.id, label: g.name, archived_at: g.archived_at || "" }));
+    players.forEach((p) =>
+      out.push({
+        kind: "player",
+        id: p.id,
+        label: p.display_name || p.full_name || "Unnamed player",
+        archived_at: p.archived_at,
+      })
+    );
+    matches.forEach((m) =>
+      out.push({
+        kind: "match",
+        id: m.id,
+        label: `${teamName.get(m.home_team_id) || "TBD"} ${m.home_score}-${m.away_score} ${
+          teamName.get(m.away_team_id) || "TBD"
+        } • ${m.stage} • ${fmtDate(m.start_time)}`,
+        archived_at: m.archived_at,
+      })
+    );
+
+    return out.sort((a, b) => b.archived_at.localeCompare(a.archived_at));
+  }, [teams, groups, players, matches, teamName]);
+
+  async function restore(item: BinItem) {
+    setErr("");
+    setMsg("");
+    setBusy(true);
+    try {
+      const res = await adminAction("restoreArchived", { kind: item.kind, id: item.id });
+      setMsg(
+        res.skipped
+          ? `✅ Restored "${item.label}". ${res.skipped} linked row(s) stayed in the bin (their team / group / player is still deleted, or the player joined another team).`
+          : `✅ Restored "${item.label}".`
+      );
+      await load();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to restore");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function purge(item: BinItem) {
+    const ok = confirm(
+      `Permanently delete ${KIND_LABEL[item.kind].toLowerCase()} "${item.label}" and everything deleted with it? This cannot be undone.`
+    );
+    if (!ok) return;
+
+    setErr("");
+    setMsg("");
+    setBusy(true);
+    try {
+      await adminAction("purgeArchived", { kind: item.kind, id: item.id });
+      setMsg(`Purged "${item.label}".`);
+      await load();
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "Failed to purge");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (loading) {
+    return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading…</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0b1530] text-white p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-3">
+          <Link href="/admin" className="text-white/80 hover:text-white underline">
+            ← Back to Admin
+          </Link>
+          <button
+            disabled={busy}
+            onClick={load}
+            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+          >
+            Refresh
+          </button>
+        </div>
+
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
+          <div className="text-2xl font-bold">Admin • Recycle Bin</div>
+          <div className="text-white/70">
+            Deleted teams, players, groups and matches. Restoring brings back their match events, group
+            assignments and roster links too.
+          </div>
+        </div>
+
+        {err && <div className="text-red-400 whitespace-pre-wrap">{err}</div>}
+        {msg && <div className="text-green-300 whitespace-pre-wrap">{msg}</div>}
+
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
+          <div className="text-xl font-bold mb-3">Deleted items</div>
+
+          {items.length === 0 ? (
+            <div className="text-white/70">The recycle bin is empty.</div>
+          ) : (
+            <div className="space-y-2">
+              {items.map((it) => (
+                <div
+                  key={`${it.kind}:${it.id}`}
+                  className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3"
+                >
+                  <div>
+                    <div className="font-bold">
+                      <span className="text-white/60 font-normal">{KIND_LABEL[it.kind]} • </span>
+                      {it.label}
+                    </div>
+                    <div className="text-white/60 text-xs">Deleted {fmtDate(it.archived_at)}</div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <button
+                      disabled={busy}
+                      onClick={() => restore(it)}
+                      className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+                    >
+                      Restore
+                    </button>
+                    <button
+                      disabled={busy}
+                      onClick={() => purge(it)}
+                      className="bg-red-600 hover:bg-red-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+                    >
+                      Purge
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="text-white/50 text-xs">
+          Deleted items are hidden from the app (standings, matches, teams). Purge removes them for good.
+        </div>
+      </div>
+    </div>
+  );
+}
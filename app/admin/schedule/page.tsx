@@ -0,0 +1,914 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
+import { adminAction } from "@/lib/adminApi";
+import { batchStep } from "@/lib/adminActions";
+import {
+  CONFLICT_LABELS,
+  ScheduleConflict,
+  ScheduleSlot,
+  TeamScheduleRule,
+  applyPlan,
+  findConflicts,
+  planSchedule,
+  toScheduleMatch,
+} from "@/lib/schedule";
+import { slotCode, slotPlaceholder } from "@/lib/bracket";
+import { tournamentLabel, useTournament } from "@/components/TournamentContext";
+
+type Venue = { id: string; name: string };
+type Team = { id: string; name: string; min_rest_minutes: number | null };
+type Group = { id: string; name: string };
+type BlackoutRow = { id: string; team_id: string; starts_at: string; ends_at: string; note: string | null };
+
+type MatchRow = {
+  id: string;
+  created_at: string;
+  stage: string;
+  status: string;
+  group_id: string | null;
+  knockout_round: string | null;
+  knockout_order: number | null;
+  knockout_label: string | null;
+  home_team_id: string | null;
+  away_team_id: string | null;
+  start_time: string | null;
+  venue_id: string | null;
+  schedule_locked: boolean;
+  live_phase: string | null;
+  home_source_match_id: string | null;
+  home_source: string | null;
+  away_source_match_id: string | null;
+  away_source: string | null;
+};
+
+// ISO -> value for <input type="datetime-local"> (local time)
+function toLocalInput(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+function fmt(iso: string | null) {
+  return iso ? new Date(iso).toLocaleString([], { weekday: "short", hour: "2-digit", minute: "2-digit" }) : "—";
+}
+
+export default function AdminSchedulePage() {
+  const router = useRouter();
+  const { tournament } = useTournament();
+
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [slots, setSlots] = useState<ScheduleSlot[]>([]);
+  const [teams, setTeams] = useState<Team[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [blackouts, setBlackouts] = useState<BlackoutRow[]>([]);
+  const [matches, setMatches] = useState<MatchRow[]>([]);
+
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [msg, setMsg] = useState("");
+
+  // pitches
+  const [newVenue, setNewVenue] = useState("");
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameTo, setRenameTo] = useState("");
+
+  // slot generator
+  const [slotVenueIds, setSlotVenueIds] = useState<string[]>([]);
+  const [slotStart, setSlotStart] = useState("");
+  const [slotCount, setSlotCount] = useState("4");
+  const [slotEvery, setSlotEvery] = useState("75");
+  const [slotMinutes, setSlotMinutes] = useState("60");
+
+  // team constraints
+  const [restDraft, setRestDraft] = useState<Record<string, string>>({});
+  const [restForAll, setRestForAll] = useState("");
+  const [blackoutTeamId, setBlackoutTeamId] = useState("");
+  const [blackoutFrom, setBlackoutFrom] = useState("");
+  const [blackoutTo, setBlackoutTo] = useState("");
+  const [blackoutNote, setBlackoutNote] = useState("");
+
+  // scheduler + manual placement
+  const [keepScheduled, setKeepScheduled] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editVenue, setEditVenue] = useState("");
+  const [editStart, setEditStart] = useState("");
+
+  async function requireAdmin() {
+    const { data } = await supabase.auth.getUser();
+    if (!data.user) {
+      router.replace("/register");
+      return false;
+    }
+
+    const { data: me } = await supabase.from("profiles").select("role,status").eq("id", data.user.id).single();
+
+    if (!hasScope(me?.role, "tournament") || me?.status !== "active") {
+      router.replace("/app");
+      return false;
+    }
+    return true;
+  }
+
+  async function load() {
+    setError("");
+
+    const [v, sl, t, g, b, m] = await Promise.all([
+      supabase.from("venues").select("id,name").eq("tournament_id", tournament.id).order("created_at"),
+      supabase
+        .from("schedule_slots")
+        .select("id,venue_id,starts_at,duration_minutes")
+        .eq("tournament_id", tournament.id)
+        .order("starts_at"),
+      supabase
+        .from("teams")
+        .select("id,name,min_rest_minutes")
+        .eq("tournament_id", tournament.id)
+        .is("archived_at", null)
+        .order("name"),
+      supabase.from("groups").select("id,name").eq("tournament_id", tournament.id).is("archived_at", null),
+      supabase
+        .from("team_blackouts")
+        .select("id,team_id,starts_at,ends_at,note")
+        .eq("tournament_id", tournament.id)
+        .order("starts_at"),
+      supabase
+        .from("matches")
+        .select(
+          "id,created_at,stage,status,group_id,knockout_round,knockout_order,knockout_label,home_team_id,away_team_id,start_time,venue_id,schedule_locked,live_phase,home_source_match_id,home_source,away_source_match_id,away_source"
+        )
+        .eq("tournament_id", tournament.id)
+        .is("archived_at", null),
+    ]);
+
+    const failed = [v, sl, t, g, b, m].find((r) => r.error);
+    if (failed?.error) {
+      setError(failed.error.message);
+      setLoading(false);
+      return;
+    }
+
+    setVenues((v.data as Venue[]) || []);
+    setSlots((sl.data as ScheduleSlot[]) || []);
+    setTeams((t.data as Team[]) || []);
+    setGroups((g.data as Group[]) || []);
+    setBlackouts((b.data as BlackoutRow[]) || []);
+    setMatches((m.data as MatchRow[]) || []);
+    setRestDraft(
+      Object.fromEntries(((t.data as Team[]) || []).map((team) => [team.id, String(team.min_rest_minutes ?? "")]))
+    );
+    setLoading(false);
+  }
+
+  useEffect(() => {
+    (async () => {
+      const ok = await requireAdmin();
+      if (!ok) return;
+      await load();
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournament.id]);
+
+  async function run(work: () => Promise<string>) {
+    setError("");
+    setMsg("");
+    setBusy(true);
+    try {
+      setMsg(await work());
+      await load();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const venueName = useMemo(() => new Map(venues.map((v) => [v.id, v.name])), [venues]);
+  const teamName = useMemo(() => new Map(teams.map((t) => [t.id, t.name])), [teams]);
+  const groupName = useMemo(() => new Map(groups.map((g) => [g.id, g.name])), [groups]);
+
+  // saved rules (not the drafts): what the runScheduler action will use
+  const rules: TeamScheduleRule[] = useMemo(
+    () =>
+      teams.map((t) => ({
+        team_id: t.id,
+        min_rest_minutes: t.min_rest_minutes || 0,
+        blackouts: blackouts.filter((b) => b.team_id === t.id),
+      })),
+    [teams, blackouts]
+  );
+
+  const scheduleMatches = useMemo(() => matches.map(toScheduleMatch), [matches]);
+  const conflicts = useMemo(() => findConflicts(scheduleMatches, slots, rules), [scheduleMatches, slots, rules]);
+
+  const plan = useMemo(
+    () => planSchedule({ matches: scheduleMatches, slots, rules, keep_scheduled: keepScheduled }),
+    [scheduleMatches, slots, rules, keepScheduled]
+  );
+  const conflictsAfter = useMemo(
+    () => findConflicts(applyPlan(scheduleMatches, plan), slots, rules),
+    [scheduleMatches, plan, slots, rules]
+  );
+
+  const conflictsByMatch = useMemo(() => {
+    const m = new Map<string, ScheduleConflict[]>();
+    for (const c of conflicts) for (const id of c.match_ids) m.set(id, [...(m.get(id) || []), c]);
+    return m;
+  }, [conflicts]);
+
+  const sortedMatches = useMemo(
+    () =>
+      matches.slice().sort((a, b) => {
+        if (!a.start_time || !b.start_time) return a.start_time ? -1 : b.start_time ? 1 : 0;
+        return (
+          new Date(a.start_time).getTime() - new Date(b.start_time).getTime() ||
+          (venueName.get(a.venue_id || "") || "").localeCompare(venueName.get(b.venue_id || "") || "")
+        );
+      }),
+    [matches, venueName]
+  );
+
+  function matchLabel(m: MatchRow) {
+    const side = (s: "home" | "away") => {
+      const id = s === "home" ? m.home_team_id : m.away_team_id;
+      return id ? teamName.get(id) || "—" : slotPlaceholder(m, s, matches);
+    };
+    return `${side("home")} vs ${side("away")}`;
+  }
+
+  function stageLabel(m: MatchRow) {
+    if (m.stage === "knockout") return m.knockout_label || slotCode(m) || "Knockout";
+    return groupName.get(m.group_id || "") || "Group";
+  }
+
+  function conflictText(c: ScheduleConflict) {
+    const who = c.team_id ? teamName.get(c.team_id) : c.venue_id ? venueName.get(c.venue_id) : null;
+    const which = c.match_ids
+      .map((id) => matches.find((x) => x.id === id))
+      .filter((x): x is MatchRow => !!x)
+      .map((x) => `${matchLabel(x)} (${fmt(x.start_time)})`)
+      .join(" • ");
+    return `${CONFLICT_LABELS[c.kind]}${who ? ` — ${who}` : ""}: ${which}`;
+  }
+
+  /* ---------- pitches ---------- */
+
+  function createVenue(e: React.FormEvent) {
+    e.preventDefault();
+    const name = newVenue.trim();
+    if (!name) return setError("Give the pitch a name.");
+    run(async () => {
+      await adminAction("createVenue", { tournament_id: tournament.id, name });
+      setNewVenue("");
+      return `✅ ${name} added.`;
+    });
+  }
+
+  function renameVenue(id: string) {
+    const name = renameTo.trim();
+    if (!name) return setError("The name can't be empty.");
+    run(async () => {
+      await adminAction("updateVenue", { id, patch: { name } });
+      setRenamingId(null);
+      return "✅ Pitch renamed.";
+    });
+  }
+
+  function deleteVenue(v: Venue) {
+    if (!confirm(`Delete ${v.name}? Its slots go too; matches on it keep their time but lose the pitch.`)) return;
+    run(async () => {
+      await adminAction("deleteVenue", { id: v.id });
+      return `✅ ${v.name} deleted.`;
+    });
+  }
+
+  /* ---------- slots ---------- */
+
+  function addSlots() {
+    setError("");
+    const start = new Date(slotStart).getTime();
+    const count = Number(slotCount);
+    const every = Number(slotEvery);
+    const minutes = Number(slotMinutes);
+    if (slotVenueIds.length === 0) return setError("Pick at least one pitch.");
+    if (!slotStart || Number.isNaN(start)) return setError("Pick the first slot's date and time.");
+    if (!Number.isInteger(count) || count < 1 || count > 200) return setError("Slots to add must be 1–200.");
+    if (!Number.isInteger(minutes) || minutes < 10 || minutes > 300) return setError("Match length must be 10–300 minutes.");
+    if (count > 1 && (!Number.isFinite(every) || every < minutes)) {
+      return setError("Minutes between slots must be at least the match length.");
+    }
+
+    const starts_at = Array.from({ length: count }, (_, i) => new Date(start + i * every * 60000).toISOString());
+    run(async () => {
+      const res = await adminAction("addScheduleSlots", {
+        venue_ids: slotVenueIds,
+        starts_at,
+        duration_minutes: minutes,
+      });
+      return `✅ Added ${res.created} slot(s).` + (res.skipped ? ` ${res.skipped} already existed.` : "");
+    });
+  }
+
+  function deleteSlots(ids: string[]) {
+    if (ids.length > 1 && !confirm(`Remove ${ids.length} slots?`)) return;
+    run(async () => {
+      await adminAction("deleteScheduleSlots", { ids });
+      return `✅ Removed ${ids.length} slot(s).`;
+    });
+  }
+
+  /* ---------- team constraints ---------- */
+
+  function teamBlackouts(teamId: string) {
+    return blackouts
+      .filter((b) => b.team_id === teamId)
+      .map((b) => ({ starts_at: b.starts_at, ends_at: b.ends_at, note: b.note }));
+  }
+
+  function restValue(raw: string) {
+    if (raw.trim() === "") return null;
+    const n = Number(raw);
+    return Number.isInteger(n) && n >= 0 ? n : NaN;
+  }
+
+  function saveRest(team: Team) {
+    const rest = restValue(restDraft[team.id] ?? "");
+    if (Number.isNaN(rest)) return setError("Rest must be whole minutes (or blank for none).");
+    run(async () => {
+      await adminAction("setTeamScheduleRules", {
+        team_id: team.id,
+        min_rest_minutes: rest,
+        blackouts: teamBlackouts(team.id),
+      });
+      return `✅ Saved ${team.name}'s rest time.`;
+    });
+  }
+
+  function applyRestToAll() {
+    const rest = restValue(restForAll);
+    if (Number.isNaN(rest)) return setError("Rest must be whole minutes (or blank for none).");
+    if (teams.length === 0) return;
+    run(async () => {
+      await adminAction("batch", {
+        steps: teams.map((t) =>
+          batchStep("setTeamScheduleRules", { team_id: t.id, min_rest_minutes: rest, blackouts: teamBlackouts(t.id) })
+        ),
+      });
+      return `✅ Rest time set for all ${teams.length} teams.`;
+    });
+  }
+
+  function addBlackout(e: React.FormEvent) {
+    e.preventDefault();
+    const team = teams.find((t) => t.id === blackoutTeamId);
+    if (!team) return setError("Pick a team.");
+    if (!blackoutFrom || !blackoutTo) return setError("Pick when the blackout starts and ends.");
+    const starts_at = new Date(blackoutFrom).toISOString();
+    const ends_at = new Date(blackoutTo).toISOString();
+    if (ends_at <= starts_at) return setError("A blackout must end after it starts.");
+
+    run(async () => {
+      await adminAction("setTeamScheduleRules", {
+        team_id: team.id,
+        min_rest_minutes: team.min_rest_minutes,
+        blackouts: [...teamBlackouts(team.id), { starts_at, ends_at, note: blackoutNote.trim() || null }],
+      });
+      setBlackoutFrom("");
+      setBlackoutTo("");
+      setBlackoutNote("");
+      return `✅ Blackout added for ${team.name}.`;
+    });
+  }
+
+  function removeBlackout(team: Team, id: string) {
+    run(async () => {
+      await adminAction("setTeamScheduleRules", {
+        team_id: team.id,
+        min_rest_minutes: team.min_rest_minutes,
+        blackouts: blackouts
+          .filter((b) => b.team_id === team.id && b.id !== id)
+          .map((b) => ({ starts_at: b.starts_at, ends_at: b.ends_at, note: b.note })),
+      });
+      return `✅ Blackout removed for ${team.name}.`;
+    });
+  }
+
+  /* ---------- scheduler + matches ---------- */
+
+  function runScheduler() {
+    const moving = plan.assignments.length + plan.unplaced.length;
+    if (!confirm(`Place ${moving} match(es)? Locked and played matches stay where they are.`)) return;
+    run(async () => {
+      const res = await adminAction("runScheduler", { tournament_id: tournament.id, keep_scheduled: keepScheduled });
+      return (
+        `✅ Scheduled ${res.scheduled} match(es).` +
+        (res.unplaced ? ` ${res.unplaced} didn't fit any slot and have no time now.` : "")
+      );
+    });
+  }
+
+  function toggleLock(m: MatchRow) {
+    run(async () => {
+      await adminAction("setMatchSchedule", { id: m.id, patch: { schedule_locked: !m.schedule_locked } });
+      return m.schedule_locked ? "✅ Unlocked; the scheduler may move it." : "✅ Locked in place.";
+    });
+  }
+
+  function startEdit(m: MatchRow) {
+    setEditingId(m.id);
+    setEditVenue(m.venue_id || "");
+    setEditStart(toLocalInput(m.start_time));
+  }
+
+  function saveEdit(m: MatchRow) {
+    run(async () => {
+      await adminAction("setMatchSchedule", {
+        id: m.id,
+        patch: {
+          venue_id: editVenue || null,
+          start_time: editStart ? new Date(editStart).toISOString() : null,
+          schedule_locked: true,
+        },
+      });
+      setEditingId(null);
+      return "✅ Saved and locked.";
+    });
+  }
+
+  if (loading) {
+    return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading schedule…</div>;
+  }
+
+  // a match under way counts as played: it stays where it is
+  const played = (m: MatchRow) => m.status !== "scheduled" || m.live_phase != null;
+
+  return (
+    <div className="min-h-screen bg-[#0b1530] text-white p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">Admin • Schedule</h1>
+            <p className="text-white/70">
+              Pitches, time slots and team constraints for {tournamentLabel(tournament)}; the scheduler puts matches
+              into slots without breaking them.
+            </p>
+          </div>
+          <button
+            onClick={load}
+            disabled={busy}
+            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+          >
+            Refresh
+          </button>
+        </div>
+
+        {error && <div className="text-red-400 whitespace-pre-wrap">{error}</div>}
+        {msg && <div className="text-green-300">{msg}</div>}
+
+        {/* Pitches */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+          <div className="text-xl font-bold">Pitches</div>
+          <form onSubmit={createVenue} className="flex gap-2">
+            <input
+              value={newVenue}
+              onChange={(e) => setNewVenue(e.target.value)}
+              placeholder="Pitch name (e.g. Main Field)"
+              className="flex-1 rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+            />
+            <button
+              disabled={busy}
+              className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+            >
+              Add
+            </button>
+          </form>
+
+          {venues.length === 0 ? (
+            <div className="text-white/70">No pitches yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {venues.map((v) => (
+                <div
+                  key={v.id}
+                  className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 flex items-center justify-between gap-3"
+                >
+                  {renamingId === v.id ? (
+                    <div className="flex gap-2 flex-1">
+                      <input
+                        value={renameTo}
+                        onChange={(e) => setRenameTo(e.target.value)}
+                        className="flex-1 rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                      />
+                      <button
+                        disabled={busy}
+                        onClick={() => renameVenue(v.id)}
+                        className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setRenamingId(null)}
+                        className="bg-white/10 hover:bg-white/20 transition px-3 py-2 rounded-xl font-bold"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <>
+                      <div>
+                        <div className="font-bold">{v.name}</div>
+                        <div className="text-white/60 text-sm">
+                          {slots.filter((s) => s.venue_id === v.id).length} slot(s)
+                        </div>
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          disabled={busy}
+                          onClick={() => {
+                            setRenamingId(v.id);
+                            setRenameTo(v.name);
+                          }}
+                          className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                        >
+                          Rename
+                        </button>
+                        <button
+                          disabled={busy}
+                          onClick={() => deleteVenue(v)}
+                          className="bg-red-600 hover:bg-red-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Slots */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+          <div>
+            <div className="text-xl font-bold">Time Slots</div>
+            <div className="text-white/70 text-sm">When each pitch is free for a match.</div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {venues.map((v) => (
+              <label
+                key={v.id}
+                className="bg-[#0b1530] border border-[#1f2a60] rounded-xl px-3 py-2 flex items-center gap-2"
+              >
+                <input
+                  type="checkbox"
+                  checked={slotVenueIds.includes(v.id)}
+                  onChange={() =>
+                    setSlotVenueIds((prev) => (prev.includes(v.id) ? prev.filter((x) => x !== v.id) : [...prev, v.id]))
+                  }
+                />
+                <span className="font-bold">{v.name}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="grid md:grid-cols-5 gap-2">
+            <input
+              type="datetime-local"
+              value={slotStart}
+              onChange={(e) => setSlotStart(e.target.value)}
+              className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+            />
+            <input
+              value={slotCount}
+              onChange={(e) => setSlotCount(e.target.value)}
+              inputMode="numeric"
+              placeholder="How many"
+              className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+            />
+            <input
+              value={slotEvery}
+              onChange={(e) => setSlotEvery(e.target.value)}
+              inputMode="numeric"
+              placeholder="Minutes apart"
+              className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+            />
+            <input
+              value={slotMinutes}
+              onChange={(e) => setSlotMinutes(e.target.value)}
+              inputMode="numeric"
+              placeholder="Match length"
+              className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+            />
+            <button
+              onClick={addSlots}
+              disabled={busy}
+              className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+            >
+              Add slots
+            </button>
+          </div>
+          <div className="text-white/50 text-xs">
+            First slot • how many • minutes between them • match length (minutes), on every ticked pitch.
+          </div>
+
+          {venues.map((v) => {
+            const own = slots.filter((s) => s.venue_id === v.id);
+            if (own.length === 0) return null;
+            return (
+              <div key={v.id} className="space-y-1">
+                <div className="flex items-center gap-3">
+                  <div className="font-bold">{v.name}</div>
+                  <button
+                    disabled={busy}
+                    onClick={() => deleteSlots(own.map((s) => s.id))}
+                    className="text-white/60 hover:text-white text-xs underline"
+                  >
+                    Remove all
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {own.map((s) => (
+                    <button
+                      key={s.id}
+                      disabled={busy}
+                      onClick={() => deleteSlots([s.id])}
+                      title="Remove slot"
+                      className="bg-[#0b1530] border border-[#1f2a60] hover:border-red-400 rounded-lg px-2 py-1 text-xs"
+                    >
+                      {fmt(s.starts_at)} • {s.duration_minutes}′ ✕
+                    </button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Team constraints */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+          <div>
+            <div className="text-xl font-bold">Team Constraints</div>
+            <div className="text-white/70 text-sm">
+              Minimum rest between a team&apos;s matches (end of one to the start of the next) and times it can&apos;t
+              play.
+            </div>
+          </div>
+
+          <div className="flex gap-2 items-center flex-wrap">
+            <input
+              value={restForAll}
+              onChange={(e) => setRestForAll(e.target.value)}
+              inputMode="numeric"
+              placeholder="Rest (minutes)"
+              className="w-40 rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+            />
+            <button
+              onClick={applyRestToAll}
+              disabled={busy}
+              className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+            >
+              Set for every team
+            </button>
+          </div>
+
+          <form onSubmit={addBlackout} className="grid md:grid-cols-5 gap-2">
+            <select
+              value={blackoutTeamId}
+              onChange={(e) => setBlackoutTeamId(e.target.value)}
+              className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+            >
+              <option value="">Team…</option>
+              {teams.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
+            <input
+              type="datetime-local"
+              value={blackoutFrom}
+              onChange={(e) => setBlackoutFrom(e.target.value)}
+              className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+            />
+            <input
+              type="datetime-local"
+              value={blackoutTo}
+              onChange={(e) => setBlackoutTo(e.target.value)}
+              className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+            />
+            <input
+              value={blackoutNote}
+              onChange={(e) => setBlackoutNote(e.target.value)}
+              placeholder="Note (e.g. exams)"
+              className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+            />
+            <button
+              disabled={busy}
+              className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+            >
+              Add blackout
+            </button>
+          </form>
+
+          <div className="space-y-2">
+            {teams.map((t) => {
+              const own = blackouts.filter((b) => b.team_id === t.id);
+              return (
+                <div key={t.id} className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-3 flex-wrap">
+                    <div className="font-bold">{t.name}</div>
+                    <div className="flex items-center gap-2">
+                      <input
+                        value={restDraft[t.id] ?? ""}
+                        onChange={(e) => setRestDraft((prev) => ({ ...prev, [t.id]: e.target.value }))}
+                        inputMode="numeric"
+                        placeholder="No minimum"
+                        className="w-32 rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none text-center"
+                      />
+                      <span className="text-white/60 text-sm">min rest</span>
+                      <button
+                        disabled={busy || (restDraft[t.id] ?? "") === String(t.min_rest_minutes ?? "")}
+                        onClick={() => saveRest(t)}
+                        className="bg-blue-600 hover:bg-blue-500 disabled:opacity-40 transition px-3 py-2 rounded-xl font-bold"
+                      >
+                        Save
+                      </button>
+                    </div>
+                  </div>
+                  {own.length ? (
+                    <div className="flex flex-wrap gap-2">
+                      {own.map((b) => (
+                        <button
+                          key={b.id}
+                          disabled={busy}
+                          onClick={() => removeBlackout(t, b.id)}
+                          title="Remove blackout"
+                          className="bg-[#111c44] border border-white/10 hover:border-red-400 rounded-lg px-2 py-1 text-xs"
+                        >
+                          ⛔ {fmt(b.starts_at)} – {fmt(b.ends_at)}
+                          {b.note ? ` (${b.note})` : ""} ✕
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Scheduler */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+          <div>
+            <div className="text-xl font-bold">Scheduler</div>
+            <div className="text-white/70 text-sm">
+              Every unlocked match that hasn&apos;t been played goes to the earliest slot where its pitch is free and
+              neither team is playing, resting or blacked out. Knockout matches wait for the matches that feed them.
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm">
+            <input type="checkbox" checked={keepScheduled} onChange={(e) => setKeepScheduled(e.target.checked)} />
+            Only place matches that don&apos;t have a time yet
+          </label>
+
+          <div className="text-sm space-y-1">
+            <div>
+              <b>{plan.assignments.length}</b> match(es) get a slot
+              {plan.unplaced.length ? (
+                <span className="text-yellow-200"> • {plan.unplaced.length} don&apos;t fit any slot</span>
+              ) : null}
+            </div>
+            <div className={conflictsAfter.length ? "text-yellow-200" : "text-white/60"}>
+              {conflictsAfter.length
+                ? `${conflictsAfter.length} conflict(s) would remain (between locked or played matches).`
+                : "No conflicts afterwards."}
+            </div>
+          </div>
+
+          <button
+            onClick={runScheduler}
+            disabled={busy || slots.length === 0 || plan.assignments.length + plan.unplaced.length === 0}
+            className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+          >
+            Run scheduler
+          </button>
+        </div>
+
+        {/* Conflicts */}
+        {conflicts.length ? (
+          <div className="bg-[#111c44] border border-yellow-500/40 rounded-2xl p-5 space-y-2">
+            <div className="text-xl font-bold text-yellow-200">Conflicts ({conflicts.length})</div>
+            {conflicts.map((c, i) => (
+              <div key={i} className="text-sm text-yellow-100">
+                ⚠️ {conflictText(c)}
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        {/* Schedule */}
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
+          <div className="text-xl font-bold mb-3">Schedule</div>
+
+          {sortedMatches.length === 0 ? (
+            <div className="text-white/70">No matches yet.</div>
+          ) : (
+            <div className="space-y-2">
+              {sortedMatches.map((m) => {
+                const issues = conflictsByMatch.get(m.id) || [];
+                return (
+                  <div
+                    key={m.id}
+                    className={`bg-[#0b1530] border rounded-xl p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3 ${
+                      issues.length ? "border-yellow-500/50" : "border-[#1f2a60]"
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <div className="text-white/60 text-xs">
+                        {stageLabel(m)} • {fmt(m.start_time)} • {m.venue_id ? venueName.get(m.venue_id) : "No pitch"}
+                        {m.schedule_locked ? " • 🔒 locked" : ""}
+                        {played(m) ? (m.status === "scheduled" ? " • live" : " • played") : ""}
+                      </div>
+                      <div className="font-bold">{matchLabel(m)}</div>
+                      {issues.map((c, i) => (
+                        <div key={i} className="text-yellow-200 text-xs">
+                          ⚠️ {CONFLICT_LABELS[c.kind]}
+                          {c.team_id ? ` — ${teamName.get(c.team_id)}` : ""}
+                        </div>
+                      ))}
+                    </div>
+
+                    {editingId === m.id ? (
+                      <div className="flex gap-2 flex-wrap">
+                        <select
+                          value={editVenue}
+                          onChange={(e) => setEditVenue(e.target.value)}
+                          className="rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                        >
+                          <option value="">(No pitch)</option>
+                          {venues.map((v) => (
+                            <option key={v.id} value={v.id}>
+                              {v.name}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          type="datetime-local"
+                          value={editStart}
+                          onChange={(e) => setEditStart(e.target.value)}
+                          className="rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                        />
+                        <button
+                          disabled={busy}
+                          onClick={() => saveEdit(m)}
+                          className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="bg-white/10 hover:bg-white/20 transition px-3 py-2 rounded-xl font-bold"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    ) : played(m) ? null : (
+                      <div className="flex gap-2">
+                        <button
+                          disabled={busy}
+                          onClick={() => startEdit(m)}
+                          className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                        >
+                          Move
+                        </button>
+                        <button
+                          disabled={busy}
+                          onClick={() => toggleLock(m)}
+                          className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                        >
+                          {m.schedule_locked ? "Unlock" : "Lock"}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="text-white/50 text-xs mt-4">
+            Moving a match by hand locks it, so the next scheduler run leaves it where you put it.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
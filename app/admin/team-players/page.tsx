@@ -3,7 +3,9 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
 import { adminAction } from "@/lib/adminApi";
+import { useTournament } from "@/components/TournamentContext";
 
 type Team = { id: string; name: string };
 
@@ -17,6 +19,7 @@ type TeamPlayerRow = { team_id: string; player_id: string };
 
 export default function AdminTeamPlayersPage() {
   const router = useRouter();
+  const { tournament } = useTournament();
 
   const [teams, setTeams] = useState<Team[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
@@ -47,7 +50,7 @@ export default function AdminTeamPlayersPage() {
       return false;
     }
 
-    if (me?.role !== "admin" || me?.status !== "active") {
+    if (!hasScope(me?.role, "roster") || me?.status !== "active") {
       router.replace("/app");
       return false;
     }
@@ -63,6 +66,8 @@ export default function AdminTeamPlayersPage() {
       const { data: t, error: tErr } = await supabase
         .from("teams")
         .select("id,name")
+        .eq("tournament_id", tournament.id)
+        .is("archived_at", null)
         .order("name", { ascending: true });
 
       if (tErr) throw new Error(tErr.message);
@@ -71,6 +76,7 @@ export default function AdminTeamPlayersPage() {
       const { data: p, error: pErr } = await supabase
         .from("players")
         .select("id,full_name,display_name")
+        .is("archived_at", null)
         .order("full_name", { ascending: true });
 
       if (pErr) throw new Error(pErr.message);
@@ -79,7 +85,9 @@ export default function AdminTeamPlayersPage() {
       // IMPORTANT: load the mapping so we can show "current team" for each player
       const { data: tp, error: tpErr } = await supabase
         .from("team_players")
-        .select("team_id,player_id");
+        .select("team_id,player_id")
+        .eq("tournament_id", tournament.id)
+        .is("archived_at", null);
 
       if (tpErr) throw new Error(tpErr.message);
       setTeamPlayers((tp as TeamPlayerRow[]) || []);
@@ -145,9 +153,12 @@ export default function AdminTeamPlayersPage() {
       } else if (currentTeam === selectedTeam) {
         // already in this team, nothing
       } else {
-        // move: remove from old team first, then add to new team
-        await adminAction("removeTeamPlayer", { team_id: currentTeam, player_id: playerId });
-        await adminAction("addTeamPlayer", { team_id: selectedTeam, player_id: playerId });
+        // move: one transaction, so it either fully happens or the player stays where they were
+        await adminAction("moveTeamPlayer", {
+          player_id: playerId,
+          from_team_id: currentTeam,
+          to_team_id: selectedTeam,
+        });
       }
 
       await loadAll();
@@ -180,7 +191,7 @@ export default function AdminTeamPlayersPage() {
       await loadAll();
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
 
   if (loading) {
     return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading…</div>;
@@ -352,8 +363,8 @@ export default function AdminTeamPlayersPage() {
               </div>
 
               <div className="text-white/50 text-xs">
-                If a player already belongs to another team, click <b>Move here</b> (it automatically removes from the
-                old team then adds to this team).
+                If a player already belongs to another team, click <b>Move here</b> (it removes from the old team and adds
+                to this team in one step — if either part fails, nothing changes).
               </div>
             </div>
           </div>
@@ -3,20 +3,28 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
 import { adminAction } from "@/lib/adminApi";
+import { tournamentLabel, useTournament } from "@/components/TournamentContext";
 
 type Team = {
   id: string;
   name: string;
+  university: string | null;
   created_at: string;
 };
 
 export default function AdminTeamsPage() {
   const router = useRouter();
+  const { tournament } = useTournament();
 
   const [loading, setLoading] = useState(true);
   const [teams, setTeams] = useState<Team[]>([]);
   const [newTeam, setNewTeam] = useState("");
+  const [newUniversity, setNewUniversity] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editUniversity, setEditUniversity] = useState("");
   const [error, setError] = useState("");
   const [busy, setBusy] = useState(false);
 
@@ -38,7 +46,7 @@ export default function AdminTeamsPage() {
       return false;
     }
 
-    if (me?.role !== "admin" || me?.status !== "active") {
+    if (!hasScope(me?.role, "tournament") || me?.status !== "active") {
       router.push("/app");
       return false;
     }
@@ -50,7 +58,9 @@ export default function AdminTeamsPage() {
     setError("");
     const { data, error } = await supabase
       .from("teams")
-      .select("id,name,created_at")
+      .select("id,name,university,created_at")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
       .order("created_at", { ascending: true });
 
     if (error) {
@@ -71,8 +81,13 @@ export default function AdminTeamsPage() {
 
     setBusy(true);
     try {
-      await adminAction("createTeam", { name });
+      await adminAction("createTeam", {
+        tournament_id: tournament.id,
+        name,
+        university: newUniversity.trim() || null,
+      });
       setNewTeam("");
+      setNewUniversity("");
       await loadTeams();
     } catch (e: any) {
       setError(e.message || "Failed to create team");
@@ -81,6 +96,29 @@ export default function AdminTeamsPage() {
     }
   }
 
+  function startEdit(team: Team) {
+    setEditingId(team.id);
+    setEditName(team.name);
+    setEditUniversity(team.university || "");
+  }
+
+  async function saveEdit(id: string) {
+    setError("");
+    const name = editName.trim();
+    if (!name) return setError("The team name can't be empty.");
+
+    setBusy(true);
+    try {
+      await adminAction("updateTeam", { id, patch: { name, university: editUniversity.trim() || null } });
+      setEditingId(null);
+      await loadTeams();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Failed to update team");
+    } finally {
+      setBusy(false);
+    }
+  }
+
   async function deleteTeam(id: string) {
     setError("");
     setBusy(true);
@@ -102,7 +140,7 @@ export default function AdminTeamsPage() {
       setLoading(false);
     })();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
 
   if (loading) {
     return (
@@ -117,19 +155,25 @@ export default function AdminTeamsPage() {
       <div className="max-w-3xl mx-auto space-y-4">
         <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
           <h1 className="text-2xl font-bold">Admin • Teams</h1>
-          <p className="text-white/70">Create and manage tournament teams.</p>
+          <p className="text-white/70">Create and manage the teams of {tournamentLabel(tournament)}.</p>
         </div>
 
         <form
           onSubmit={createTeam}
-          className="bg-[#111c44] border border-white/10 rounded-2xl p-5 flex gap-2"
+          className="bg-[#111c44] border border-white/10 rounded-2xl p-5 flex gap-2 flex-wrap"
         >
           <input
-            className="flex-1 rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+            className="flex-1 min-w-[200px] rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
             placeholder="Team name (e.g. AUC Titans)"
             value={newTeam}
             onChange={(e) => setNewTeam(e.target.value)}
           />
+          <input
+            className="w-48 rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+            placeholder="University (optional)"
+            value={newUniversity}
+            onChange={(e) => setNewUniversity(e.target.value)}
+          />
           <button
             disabled={busy}
             className="px-4 py-3 rounded-xl bg-blue-600 hover:bg-blue-500 disabled:opacity-60 font-bold"
@@ -150,16 +194,60 @@ export default function AdminTeamsPage() {
               {teams.map((team) => (
                 <div
                   key={team.id}
-                  className="flex items-center justify-between bg-[#0b1530] border border-[#1f2a60] rounded-2xl p-4"
+                  className="flex items-center justify-between gap-2 flex-wrap bg-[#0b1530] border border-[#1f2a60] rounded-2xl p-4"
                 >
-                  <div className="font-bold">{team.name}</div>
-                  <button
-                    disabled={busy}
-                    onClick={() => deleteTeam(team.id)}
-                    className="px-3 py-2 rounded-xl bg-red-600 hover:bg-red-500 disabled:opacity-60 font-bold"
-                  >
-                    Delete
-                  </button>
+                  {editingId === team.id ? (
+                    <div className="flex gap-2 flex-wrap flex-1">
+                      <input
+                        className="flex-1 min-w-[160px] rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                        value={editName}
+                        onChange={(e) => setEditName(e.target.value)}
+                      />
+                      <input
+                        className="w-44 rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                        placeholder="University"
+                        value={editUniversity}
+                        onChange={(e) => setEditUniversity(e.target.value)}
+                      />
+                      <button
+                        disabled={busy}
+                        onClick={() => saveEdit(team.id)}
+                        className="px-3 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 disabled:opacity-60 font-bold"
+                      >
+                        Save
+                      </button>
+                      <button
+                        disabled={busy}
+                        onClick={() => setEditingId(null)}
+                        className="px-3 py-2 rounded-xl bg-white/10 hover:bg-white/20 disabled:opacity-60 font-bold"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  ) : (
+                    <>
+                      <div>
+                        <div className="font-bold">{team.name}</div>
+                        <div className="text-white/60 text-sm">{team.university || "No university set"}</div>
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          disabled={busy}
+                          onClick={() => startEdit(team)}
+                          className="px-3 py-2 rounded-xl bg-white/10 hover:bg-white/20 disabled:opacity-60 font-bold"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          disabled={busy}
+                          onClick={() => deleteTeam(team.id)}
+                          className="px-3 py-2 rounded-xl bg-red-600 hover:bg-red-500 disabled:opacity-60 font-bold"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </>
+                  )}
                 </div>
               ))}
             </div>
@@ -0,0 +1,417 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabaseClient";
+import { hasScope } from "@/lib/adminRoles";
+import { adminAction } from "@/lib/adminApi";
+import { SuspensionRule } from "@/lib/discipline";
+import { Tournament, tournamentLabel, useTournament } from "@/components/TournamentContext";
+
+const RULE_INPUTS: { key: keyof SuspensionRule; title: string }[] = [
+  { key: "red_card_ban_matches", title: "Matches banned for a sending off" },
+  { key: "yellow_card_limit", title: "Matches with a yellow card before a ban (0 = off)" },
+  { key: "yellow_card_ban_matches", title: "Matches banned for yellow cards" },
+];
+
+function ruleSummary(t: Tournament) {
+  const red = t.red_card_ban_matches ? `red card: ${t.red_card_ban_matches}-match ban` : "no red card ban";
+  const yellow =
+    t.yellow_card_limit && t.yellow_card_ban_matches
+      ? `${t.yellow_card_limit} yellows: ${t.yellow_card_ban_matches}-match ban`
+      : "no yellow card ban";
+  return `${red}, ${yellow}`;
+}
+
+export default function AdminTournamentsPage() {
+  const router = useRouter();
+  const { tournaments, tournament: selected, setTournamentId, reload } = useTournament();
+
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const [msg, setMsg] = useState("");
+
+  // new tournament
+  const [name, setName] = useState("");
+  const [season, setSeason] = useState("");
+  const [halfMinutes, setHalfMinutes] = useState("45");
+  const [extraMinutes, setExtraMinutes] = useState("30");
+  const [makeCurrent, setMakeCurrent] = useState(true);
+  const [copyFrom, setCopyFrom] = useState("");
+
+  // edit (name, season, period lengths, suspension rule)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editSeason, setEditSeason] = useState("");
+  const [editHalf, setEditHalf] = useState("");
+  const [editExtra, setEditExtra] = useState("");
+  const [editRule, setEditRule] = useState<Record<keyof SuspensionRule, string>>({
+    red_card_ban_matches: "",
+    yellow_card_limit: "",
+    yellow_card_ban_matches: "",
+  });
+
+  async function requireAdmin() {
+    const { data } = await supabase.auth.getUser();
+    if (!data.user) {
+      router.replace("/register");
+      return false;
+    }
+
+    const { data: me, error: meErr } = await supabase
+      .from("profiles")
+      .select("role,status")
+      .eq("id", data.user.id)
+      .single();
+
+    if (meErr) {
+      setError(meErr.message);
+      return false;
+    }
+
+    if (!hasScope(me?.role, "tournament") || me?.status !== "active") {
+      router.replace("/app");
+      return false;
+    }
+    return true;
+  }
+
+  useEffect(() => {
+    (async () => {
+      const ok = await requireAdmin();
+      if (!ok) return;
+      setLoading(false);
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  async function run(work: () => Promise<string>) {
+    setError("");
+    setMsg("");
+    setBusy(true);
+    try {
+      setMsg(await work());
+      await reload();
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : "Something went wrong");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // "" = leave the length as it is (new tournaments: 45' halves, 30' extra time)
+  function periodLengths(half: string, extra: string) {
+    return {
+      half_minutes: half.trim() ? Number(half) : undefined,
+      extra_time_minutes: extra.trim() ? Number(extra) : undefined,
+    };
+  }
+
+  function createTournament(e: React.FormEvent) {
+    e.preventDefault();
+    if (!name.trim()) return setError("Give the tournament a name.");
+
+    run(async () => {
+      const res = await adminAction("createTournament", {
+        tournament: { name: name.trim(), season: season.trim() || null, ...periodLengths(halfMinutes, extraMinutes) },
+        make_current: makeCurrent,
+        copy_teams_from: copyFrom || null,
+      });
+      setName("");
+      setSeason("");
+      setCopyFrom("");
+      setTournamentId(res.tournament_id);
+      return `✅ Tournament created${copyFrom ? ` with ${res.teams} team(s) and their rosters` : ""}.`;
+    });
+  }
+
+  function startEdit(t: Tournament) {
+    setEditingId(t.id);
+    setEditName(t.name);
+    setEditSeason(t.season || "");
+    setEditHalf(String(t.half_minutes));
+    setEditExtra(String(t.extra_time_minutes));
+    setEditRule({
+      red_card_ban_matches: String(t.red_card_ban_matches),
+      yellow_card_limit: String(t.yellow_card_limit),
+      yellow_card_ban_matches: String(t.yellow_card_ban_matches),
+    });
+  }
+
+  function saveEdit(id: string) {
+    if (!editName.trim()) return setError("The name can't be empty.");
+    run(async () => {
+      await adminAction("updateTournament", {
+        id,
+        patch: {
+          name: editName.trim(),
+          season: editSeason.trim() || null,
+          ...periodLengths(editHalf, editExtra),
+          ...Object.fromEntries(
+            RULE_INPUTS.filter((i) => editRule[i.key].trim()).map((i) => [i.key, Number(editRule[i.key])])
+          ),
+        },
+      });
+      setEditingId(null);
+      return "✅ Saved.";
+    });
+  }
+
+  function makeCurrentTournament(t: Tournament) {
+    run(async () => {
+      await adminAction("setCurrentTournament", { id: t.id });
+      return `✅ ${tournamentLabel(t)} is now the current tournament.`;
+    });
+  }
+
+  function archive(t: Tournament) {
+    if (!confirm(`Archive ${tournamentLabel(t)}? It stays readable but nothing in it can be changed.`)) return;
+    run(async () => {
+      await adminAction("archiveTournament", { id: t.id });
+      return `✅ ${tournamentLabel(t)} archived.`;
+    });
+  }
+
+  function reopen(t: Tournament) {
+    run(async () => {
+      await adminAction("reopenTournament", { id: t.id });
+      return `✅ ${tournamentLabel(t)} can be edited again.`;
+    });
+  }
+
+  if (loading) {
+    return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading tournaments…</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-[#0b1530] text-white p-6">
+      <div className="max-w-3xl mx-auto space-y-4">
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
+          <h1 className="text-2xl font-bold">Admin • Tournaments</h1>
+          <p className="text-white/70">
+            Every season has its own teams, groups, matches, predictions, news and stats. Players and their linked
+            accounts carry over.
+          </p>
+        </div>
+
+        <form onSubmit={createTournament} className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
+          <h2 className="text-xl font-bold">New Tournament</h2>
+          <div className="flex gap-2 flex-wrap">
+            <input
+              className="flex-1 min-w-[200px] rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+              placeholder="Name (e.g. DawraLik Cup)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <input
+              className="w-40 rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none"
+              placeholder="Season (e.g. 2027)"
+              value={season}
+              onChange={(e) => setSeason(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center gap-4 flex-wrap text-sm">
+            <label className="flex items-center gap-2">
+              <span className="text-white/70">Half length (min)</span>
+              <input
+                type="number"
+                min={1}
+                max={90}
+                className="w-20 rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+                value={halfMinutes}
+                onChange={(e) => setHalfMinutes(e.target.value)}
+              />
+            </label>
+            <label className="flex items-center gap-2">
+              <span className="text-white/70">Extra time (min)</span>
+              <input
+                type="number"
+                min={0}
+                max={60}
+                className="w-20 rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+                value={extraMinutes}
+                onChange={(e) => setExtraMinutes(e.target.value)}
+              />
+            </label>
+          </div>
+
+          <div className="flex items-center gap-4 flex-wrap">
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={makeCurrent} onChange={(e) => setMakeCurrent(e.target.checked)} />
+              Make it the current tournament
+            </label>
+
+            <label className="flex items-center gap-2 text-sm">
+              <span className="text-white/70">Copy teams from</span>
+              <select
+                value={copyFrom}
+                onChange={(e) => setCopyFrom(e.target.value)}
+                className="rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+              >
+                <option value="">(Start empty)</option>
+                {tournaments.map((t) => (
+                  <option key={t.id} value={t.id}>
+                    {tournamentLabel(t)}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <button
+            disabled={busy}
+            className="px-4 py-3 rounded-xl bg-green-600 hover:bg-green-500 disabled:opacity-60 font-bold"
+          >
+            Create
+          </button>
+          <div className="text-white/50 text-xs">
+            Copying brings over team names and rosters only; groups, matches and stats start empty.
+          </div>
+        </form>
+
+        {error && <div className="text-red-400 whitespace-pre-wrap">{error}</div>}
+        {msg && <div className="text-green-300">{msg}</div>}
+
+        <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-2">
+          <h2 className="text-xl font-bold mb-1">Tournaments</h2>
+
+          {tournaments.map((t) => (
+            <div key={t.id} className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-4 space-y-3">
+              {editingId === t.id ? (
+                <div className="flex gap-2 flex-wrap">
+                  <input
+                    className="flex-1 min-w-[160px] rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                    value={editName}
+                    onChange={(e) => setEditName(e.target.value)}
+                  />
+                  <input
+                    className="w-32 rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                    placeholder="Season"
+                    value={editSeason}
+                    onChange={(e) => setEditSeason(e.target.value)}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    max={90}
+                    title="Half length (min)"
+                    className="w-20 rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                    value={editHalf}
+                    onChange={(e) => setEditHalf(e.target.value)}
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={60}
+                    title="Extra time (min)"
+                    className="w-20 rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                    value={editExtra}
+                    onChange={(e) => setEditExtra(e.target.value)}
+                  />
+                  {RULE_INPUTS.map((i) => (
+                    <input
+                      key={i.key}
+                      type="number"
+                      min={0}
+                      max={10}
+                      title={i.title}
+                      className="w-20 rounded-xl bg-[#111c44] border border-white/10 p-2 outline-none"
+                      value={editRule[i.key]}
+                      onChange={(e) => setEditRule((prev) => ({ ...prev, [i.key]: e.target.value }))}
+                    />
+                  ))}
+                  <button
+                    disabled={busy}
+                    onClick={() => saveEdit(t.id)}
+                    className="px-3 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 disabled:opacity-60 font-bold"
+                  >
+                    Save
+                  </button>
+                  <button
+                    disabled={busy}
+                    onClick={() => setEditingId(null)}
+                    className="px-3 py-2 rounded-xl bg-white/10 hover:bg-white/20 disabled:opacity-60 font-bold"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 flex-wrap">
+                  <div className="font-bold">{tournamentLabel(t)}</div>
+                  {t.is_current ? (
+                    <span className="text-xs font-bold text-green-300 bg-green-500/10 rounded-full px-2 py-0.5">
+                      Current
+                    </span>
+                  ) : null}
+                  {t.status === "archived" ? (
+                    <span className="text-xs font-bold text-yellow-200 bg-yellow-500/10 rounded-full px-2 py-0.5">
+                      Archived
+                    </span>
+                  ) : null}
+                  <span className="text-white/50 text-xs">
+                    • {t.half_minutes}&apos; halves, {t.extra_time_minutes}&apos; extra time • {ruleSummary(t)}
+                  </span>
+                  {t.id === selected.id ? <span className="text-white/50 text-xs">• viewing</span> : null}
+                </div>
+              )}
+
+              <div className="flex gap-2 flex-wrap">
+                {t.id !== selected.id ? (
+                  <button
+                    onClick={() => setTournamentId(t.id)}
+                    className="px-3 py-2 rounded-xl bg-white/10 hover:bg-white/20 text-sm font-bold"
+                  >
+                    View
+                  </button>
+                ) : null}
+                {editingId !== t.id ? (
+                  <button
+                    disabled={busy}
+                    onClick={() => startEdit(t)}
+                    className="px-3 py-2 rounded-xl bg-white/10 hover:bg-white/20 disabled:opacity-60 text-sm font-bold"
+                  >
+                    Edit
+                  </button>
+                ) : null}
+                {!t.is_current && t.status === "active" ? (
+                  <button
+                    disabled={busy}
+                    onClick={() => makeCurrentTournament(t)}
+                    className="px-3 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 disabled:opacity-60 text-sm font-bold"
+                  >
+                    Make Current
+                  </button>
+                ) : null}
+                {t.status === "active" ? (
+                  <button
+                    disabled={busy || t.is_current}
+                    onClick={() => archive(t)}
+                    className="px-3 py-2 rounded-xl bg-red-600 hover:bg-red-500 disabled:opacity-60 text-sm font-bold"
+                  >
+                    Archive
+                  </button>
+                ) : (
+                  <button
+                    disabled={busy}
+                    onClick={() => reopen(t)}
+                    className="px-3 py-2 rounded-xl bg-white/10 hover:bg-white/20 disabled:opacity-60 text-sm font-bold"
+                  >
+                    Reopen
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <div className="text-white/50 text-xs">
+            The current tournament is what the app opens with. It can&apos;t be archived; make another one current first.
+            Suspensions: a sending off (red, or two yellows in a match) bans the player for the next matches of their
+            team; so do yellow cards once they have had one in enough matches. Hover an input to see which is which.
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { ArchiveKind } from "@/lib/adminActions";
+import { ActionError, ChangeSet, Filter, Row } from "./changes";
+
+/**
+ * Recycle bin. Deleting a team / player / group / match stamps `archived_at`
+ * on it and on the rows that hang off it, all with the same timestamp, so a
+ * restore brings back exactly what that delete took away.
+ */
+
+const TABLES: Record<ArchiveKind, string> = {
+  team: "teams",
+  player: "players",
+  group: "groups",
+  match: "matches",
+};
+
+// Rows that point at other archivable rows: [column, table]
+const PARENTS: Record<string, [string, string][]> = {
+  matches: [
+    ["home_team_id", "teams"],
+    ["away_team_id", "teams"],
+    ["group_id", "groups"],
+  ],
+  match_events: [["match_id", "matches"]],
+  match_lineups: [["match_id", "matches"]],
+  team_groups: [
+    ["team_id", "teams"],
+    ["group_id", "groups"],
+  ],
+  team_players: [
+    ["team_id", "teams"],
+    ["player_id", "players"],
+  ],
+};
+
+type Dependent = { table: string; filter: Filter };
+
+/**
+ * Rows that go with an entity, children before parents (FK-safe delete order).
+ * `archivedAt`: null = live rows, a timestamp = rows archived together,
+ * undefined = every row (purge).
+ */
+async function dependentsOf(
+  db: ChangeSet,
+  kind: ArchiveKind,
+  id: string,
+  archivedAt: string | null | undefined
+): Promise<Dependent[]> {
+  const state: Filter = archivedAt === undefined ? {} : { archived_at: archivedAt };
+
+  async function matchIds(filters: Filter[]) {
+    const ids = new Set<string>();
+    for (const f of filters) {
+      for (const m of await db.select("matches", { ...f, ...state })) ids.add(String(m.id));
+    }
+    return Array.from(ids);
+  }
+
+  if (kind === "team") {
+    const ids = await matchIds([{ home_team_id: id }, { away_team_id: id }]);
+    return [
+      { table: "match_events", filter: { match_id: ids, ...state } },
+      { table: "match_lineups", filter: { match_id: ids, ...state } },
+      { table: "matches", filter: { id: ids, ...state } },
+      { table: "team_groups", filter: { team_id: id, ...state } },
+      { table: "team_players", filter: { team_id: id, ...state } },
+    ];
+  }
+
+  if (kind === "group") {
+    const ids = await matchIds([{ group_id: id }]);
+    return [
+      { table: "match_events", filter: { match_id: ids, ...state } },
+      { table: "match_lineups", filter: { match_id: ids, ...state } },
+      { table: "matches", filter: { id: ids, ...state } },
+      { table: "team_groups", filter: { group_id: id, ...state } },
+    ];
+  }
+
+  if (kind === "player") {
+    return [{ table: "team_players", filter: { player_id: id, ...state } }];
+  }
+
+  return [
+    { table: "match_events", filter: { match_id: id, ...state } },
+    { table: "match_lineups", filter: { match_id: id, ...state } },
+  ];
+}
+
+async function getRow(db: ChangeSet, kind: ArchiveKind, id: string) {
+  const [row] = await db.select(TABLES[kind], { id });
+  if (!row) throw new ActionError(`${kind} not found`, 404);
+  return row;
+}
+
+/** True when every row this one points at (teams, group, match…) is live. */
+async function parentsLive(db: ChangeSet, table: string, row: Row) {
+  for (const [column, parentTable] of PARENTS[table] || []) {
+    const parentId = row[column];
+    if (parentId == null) continue;
+    const [parent] = await db.select(parentTable, { id: String(parentId) });
+    if (parent?.archived_at) return false;
+  }
+  return true;
+}
+
+/** Key for one row of a dependent table (link tables have no id). */
+function keyFor(table: string, row: Row): Filter {
+  if (row.id != null) return { id: String(row.id) };
+  const key: Filter = {};
+  for (const [column] of PARENTS[table] || []) key[column] = String(row[column]);
+  return key;
+}
+
+/** Moves the entity and its dependents to the bin. Reads come before any write, so it runs inside db.atomic(). */
+export async function archiveEntity(db: ChangeSet, kind: ArchiveKind, id: string) {
+  const row = await getRow(db, kind, id);
+  if (row.archived_at) throw new ActionError(`This ${kind} is already in the recycle bin`);
+
+  const archived_at = new Date().toISOString();
+
+  for (const dep of await dependentsOf(db, kind, id, null)) {
+    await db.update(dep.table, dep.filter, { archived_at });
+  }
+  await db.update(TABLES[kind], { id }, { archived_at });
+}
+
+/**
+ * Un-archives the entity and the rows archived with it. Dependent rows whose
+ * other parent is still archived stay in the bin, and so do roster links of
+ * players who joined another team of that tournament in the meantime.
+ */
+export async function restoreEntity(db: ChangeSet, kind: ArchiveKind, id: string) {
+  const table = TABLES[kind];
+  const row = await getRow(db, kind, id);
+  if (!row.archived_at) throw new ActionError(`This ${kind} is not in the recycle bin`);
+
+  if (!(await parentsLive(db, table, row))) {
+    throw new ActionError(`Restore the teams / group of this ${kind} first`);
+  }
+
+  await db.update(table, { id }, { archived_at: null });
+
+  // parents first, so match events see their match as live again
+  const deps = (await dependentsOf(db, kind, id, String(row.archived_at))).reverse();
+  let skipped = 0;
+
+  for (const dep of deps) {
+    for (const depRow of await db.select(dep.table, dep.filter)) {
+      let ok = await parentsLive(db, dep.table, depRow);
+
+      if (ok && dep.table === "team_players") {
+        const live = await db.select("team_players", {
+          player_id: String(depRow.player_id),
+          tournament_id: String(depRow.tournament_id),
+          archived_at: null,
+        });
+        ok = live.length === 0;
+      }
+
+      if (!ok) {
+        skipped++;
+        continue;
+      }
+      await db.update(dep.table, keyFor(dep.table, depRow), { archived_at: null });
+    }
+  }
+
+  return { skipped };
+}
+
+/** Hard delete of an archived entity and everything that references it. */
+export async function purgeEntity(db: ChangeSet, kind: ArchiveKind, id: string) {
+  const row = await getRow(db, kind, id);
+  if (!row.archived_at) throw new ActionError(`Move this ${kind} to the recycle bin before purging it`);
+
+  for (const dep of await dependentsOf(db, kind, id, undefined)) {
+    await db.remove(dep.table, dep.filter);
+  }
+  await db.remove(TABLES[kind], { id });
+}
@@ -0,0 +1,168 @@
+import type { KnockoutRound } from "@/lib/adminActions";
+import { MatchScore, winnerSide } from "@/lib/matchResult";
+import { ActionError, ChangeSet, Row } from "./changes";
+
+/**
+ * Bracket progression: a knockout slot (home / away) can take the winner or
+ * loser of another match. Finalizing that match fills the slot; reopening it
+ * empties the slot again (unless the next match is already finished).
+ */
+
+const SIDES = ["home", "away"] as const;
+
+/**
+ * Home / away must differ; a group match needs both teams, a knockout slot
+ * needs a team or a source match ("Winner QF1") to take it from.
+ */
+export function assertSlots(match: Record<string, unknown>) {
+  if (match.home_team_id && match.home_team_id === match.away_team_id) {
+    throw new ActionError("Home and away must be different");
+  }
+  for (const side of SIDES) {
+    if (match[`${side}_team_id`]) continue;
+    if (match.stage !== "knockout") throw new ActionError("Group matches need both teams");
+    if (!match[`${side}_source_match_id`]) {
+      throw new ActionError(`Pick a ${side} team or the match its team comes from`);
+    }
+  }
+}
+
+// QF1, SF2, … (what the app shows as "Winner QF1")
+export function matchCode(match: Row) {
+  return `${match.knockout_round ?? "KO"}${match.knockout_order ?? ""}`;
+}
+
+/** Winner / loser of a finished match (after extra time / penalties), or null while level. */
+export function matchOutcome(match: Row): { winner: string; loser: string } | null {
+  const side = winnerSide(match as MatchScore);
+  if (!side) return null;
+  const [winner, loser] =
+    side === "home" ? [match.home_team_id, match.away_team_id] : [match.away_team_id, match.home_team_id];
+  return { winner: String(winner), loser: String(loser) };
+}
+
+/** Live matches with a slot fed by this match, per side. */
+async function dependents(db: ChangeSet, matchId: string) {
+  const out: { match: Row; side: (typeof SIDES)[number] }[] = [];
+  for (const side of SIDES) {
+    for (const match of await db.select("matches", { [`${side}_source_match_id`]: matchId, archived_at: null })) {
+      out.push({ match, side });
+    }
+  }
+  return out;
+}
+
+/** Puts the winner / loser of a just-finished match into the slots it feeds. Returns how many. */
+export async function advanceFrom(db: ChangeSet, match: Row) {
+  const next = await dependents(db, String(match.id));
+  if (next.length === 0) return 0;
+
+  const outcome = matchOutcome(match);
+  if (!outcome) throw new ActionError(`${matchCode(match)} needs a winner before the bracket can move on`, 409);
+
+  for (const { match: m, side } of next) {
+    const team = m[`${side}_source`] === "loser" ? outcome.loser : outcome.winner;
+    await db.update("matches", { id: String(m.id) }, { [`${side}_team_id`]: team });
+  }
+  return next.length;
+}
+
+/** Empties the slots a reopened match had filled. */
+export async function retractFrom(db: ChangeSet, match: Row) {
+  const next = await dependents(db, String(match.id));
+
+  const played = next.find(({ match: m }) => m.status === "finished");
+  if (played) {
+    throw new ActionError(`Reopen ${matchCode(played.match)} first; it was played with this result`, 409);
+  }
+
+  for (const { match: m, side } of next) {
+    await db.update("matches", { id: String(m.id) }, { [`${side}_team_id`]: null });
+  }
+}
+
+/**
+ * Checks a match's source slots and fills any whose source is already
+ * finished (used after a slot is created or re-pointed by hand).
+ */
+export async function fillSlots(db: ChangeSet, match: Row) {
+  for (const side of SIDES) {
+    const sourceId = match[`${side}_source_match_id`];
+    if (!sourceId) continue;
+
+    if (String(sourceId) === String(match.id)) throw new ActionError("A match can't feed itself");
+    const [source] = await db.select("matches", { id: String(sourceId), archived_at: null });
+    if (!source || source.stage !== "knockout") throw new ActionError("The source must be a knockout match", 400);
+    if (String(source.tournament_id) !== String(match.tournament_id)) {
+      throw new ActionError("The source match must be in the same tournament");
+    }
+
+    if (source.status !== "finished") continue;
+    const outcome = matchOutcome(source);
+    if (!outcome) continue;
+
+    const team = match[`${side}_source`] === "loser" ? outcome.loser : outcome.winner;
+    await db.update("matches", { id: String(match.id) }, { [`${side}_team_id`]: team });
+  }
+}
+
+const NEXT_ROUND: Partial<Record<KnockoutRound, KnockoutRound>> = { R16: "QF", QF: "SF", SF: "F" };
+
+function slotMatch(round: KnockoutRound, order: number, home: Row, away: Row, source: "winner" | "loser") {
+  return {
+    tournament_id: home.tournament_id,
+    stage: "knockout",
+    group_id: null,
+    home_team_id: null,
+    away_team_id: null,
+    home_score: 0,
+    away_score: 0,
+    status: "scheduled",
+    knockout_round: round,
+    knockout_order: order,
+    home_source_match_id: home.id,
+    home_source: source,
+    away_source_match_id: away.id,
+    away_source: source,
+  };
+}
+
+/**
+ * Creates every round after `first` (winners of 1+2, 3+4, …) and, when
+ * asked, the 3rd place match from the semifinal losers.
+ */
+export async function createLaterRounds(db: ChangeSet, first: Row[], thirdPlace: boolean) {
+  let round = first[0]?.knockout_round as KnockoutRound;
+  const tournament_id = String(first[0]?.tournament_id);
+  let prev = first.slice().sort((a, b) => Number(a.knockout_order) - Number(b.knockout_order));
+
+  while (NEXT_ROUND[round] && prev.length >= 2) {
+    const next = NEXT_ROUND[round]!;
+    const [taken] = await db.select("matches", {
+      tournament_id,
+      stage: "knockout",
+      knockout_round: next,
+      archived_at: null,
+    });
+    if (taken) throw new ActionError(`${next} already has matches; delete them first to regenerate`, 409);
+
+    if (next === "F" && thirdPlace) {
+      const [third] = await db.select("matches", {
+        tournament_id,
+        stage: "knockout",
+        knockout_round: "3P",
+        archived_at: null,
+      });
+      if (third) throw new ActionError("3P already has a match; delete it first to regenerate", 409);
+      await db.insert("matches", slotMatch("3P", 1, prev[0], prev[1], "loser"));
+    }
+
+    const rows = [];
+    for (let i = 0; i + 1 < prev.length; i += 2) {
+      rows.push(slotMatch(next, i / 2 + 1, prev[i], prev[i + 1], "winner"));
+    }
+    prev = await db.insert("matches", rows);
+    prev.sort((a, b) => Number(a.knockout_order) - Number(b.knockout_order));
+    round = next;
+  }
+}
@@ -0,0 +1,308 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+/** Thrown by handlers; becomes `{ error, ...details }` with the given HTTP status. */
+export class ActionError extends Error {
+  constructor(message: string, public status = 400, public details?: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+/** Supabase result -> data, or ActionError with the DB message (and Postgres error code). */
+export function check<T>(res: { data: T; error: { message: string; code?: string } | null }): T {
+  if (res.error) throw new ActionError(res.error.message, 400, res.error.code ? { code: res.error.code } : undefined);
+  return res.data;
+}
+
+/** A unique index refused the write (Postgres 23505). */
+export function isUniqueViolation(e: unknown) {
+  return e instanceof ActionError && e.details?.code === "23505";
+}
+
+/** Like check(), for `.single()` queries that must return a row. */
+export function checkRow<T>(res: { data: T; error: { message: string } | null }): NonNullable<T> {
+  const row = check(res);
+  if (row == null) throw new ActionError("Row not found", 404);
+  return row;
+}
+
+export type Row = Record<string, unknown>;
+
+type Scalar = string | number | boolean;
+
+/**
+ * Every key must match (e.g. { team_id, player_id }).
+ * A list means "any of these", null means "is null".
+ */
+export type Filter = Record<string, Scalar | Scalar[] | null>;
+
+type Filterable = {
+  eq(column: string, value: Scalar): Filterable;
+  in(column: string, values: Scalar[]): Filterable;
+  is(column: string, value: null): Filterable;
+};
+
+type RowsResult = { data: Row[] | null; error: { message: string } | null };
+
+/** Applies a Filter to a query builder (typed loosely: supabase-js generics get too deep here). */
+function where<Q>(query: Q, filter: Filter): Q {
+  let q = query as unknown as Filterable;
+  for (const [k, v] of Object.entries(filter)) {
+    if (v === null) q = q.is(k, null);
+    else if (Array.isArray(v)) q = q.in(k, v);
+    else q = q.eq(k, v);
+  }
+  return q as unknown as Q;
+}
+
+// PostgREST returns at most this many rows per request
+const PAGE_SIZE = 1000;
+// long "any of these" lists are split so the request URL stays short
+export const IN_CHUNK = 200;
+
+/** An empty list can't match anything; skip the round trip. */
+function matchesNothing(filter: Filter) {
+  return Object.values(filter).some((v) => Array.isArray(v) && v.length === 0);
+}
+
+export type RowChange = {
+  table: string;
+  op: "insert" | "update" | "delete";
+  before: Row[];
+  after: Row[];
+};
+
+/** Primary key columns of the tables not keyed on `id`. */
+const TABLE_KEYS: Record<string, string[]> = {
+  player_stats: ["player_id", "tournament_id"],
+  player_stat_overrides: ["player_id", "tournament_id"],
+  standings_settings: ["tournament_id"],
+  group_lots: ["group_id", "team_id"],
+  team_groups: ["team_id", "group_id"],
+  team_players: ["team_id", "player_id"],
+  predictions: ["match_id", "user_id"],
+};
+
+/** Primary key filter for a row: `id` when present, else the table's key columns (else every scalar column). */
+function keyOf(table: string, row: Row): Filter {
+  if (row.id != null) return { id: row.id as string };
+  const key: Filter = {};
+  const columns = TABLE_KEYS[table];
+  if (columns) {
+    for (const k of columns) key[k] = row[k] as Scalar;
+    return key;
+  }
+  for (const [k, v] of Object.entries(row)) {
+    if (typeof v === "string" || typeof v === "number" || typeof v === "boolean") key[k] = v;
+  }
+  return key;
+}
+
+/** A write held back by ChangeSet.atomic(), as admin_apply_writes (SQL) takes it. */
+type PendingWrite = {
+  op: "insert" | "update" | "delete" | "upsert";
+  table: string;
+  filter?: Filter;
+  rows?: Row[];
+  patch?: Row;
+  on_conflict?: string;
+};
+
+/**
+ * All admin writes go through a ChangeSet so we keep the row state
+ * before and after every statement (audit log), and can undo them.
+ *
+ * Writes run one by one; a failed action is undone with compensating writes
+ * (rollback), which other readers may see half-way. Work that must never be
+ * seen half-done goes through atomic() instead.
+ */
+export type ChangeSet = ReturnType<typeof createWrites> & {
+  /**
+   * Runs `work` with its writes held back, then applies them all in one
+   * Postgres transaction (admin_apply_writes): nobody sees them half-done,
+   * and a failure leaves nothing behind. Reads inside `work` see the data
+   * as it was before, and writes return no rows, so only use it for work
+   * that doesn't read its own writes.
+   */
+  atomic<T>(work: (tx: ChangeSet) => Promise<T>): Promise<T>;
+};
+
+/** `pending`: hold writes back there instead of running them (see atomic()). */
+export function createChangeSet(pending?: PendingWrite[]): ChangeSet {
+  const writes = createWrites(pending);
+
+  async function atomic<T>(work: (tx: ChangeSet) => Promise<T>): Promise<T> {
+    if (pending) return work(set);
+
+    const held: PendingWrite[] = [];
+    const result = await work(createChangeSet(held));
+    if (held.length) {
+      const applied = check(await supabaseAdmin.rpc("admin_apply_writes", { writes: held })) as RowChange[] | null;
+      writes.changes.push(...(applied || []));
+    }
+    return result;
+  }
+
+  const set: ChangeSet = { ...writes, atomic };
+  return set;
+}
+
+/** Everything a ChangeSet does but atomic(). */
+function createWrites(pending?: PendingWrite[]) {
+  const changes: RowChange[] = [];
+
+  function record(change: RowChange) {
+    if (change.before.length || change.after.length) changes.push(change);
+  }
+
+  async function select(table: string, filter: Filter): Promise<Row[]> {
+    if (matchesNothing(filter)) return [];
+    const res: RowsResult = await where(supabaseAdmin.from(table).select("*"), filter);
+    return check(res) || [];
+  }
+
+  /** Like select(), for reads that can pass the row cap: pages through the rows in key order. */
+  async function selectAll(table: string, filter: Filter): Promise<Row[]> {
+    if (matchesNothing(filter)) return [];
+
+    const long = Object.entries(filter).find(([, v]) => Array.isArray(v) && v.length > IN_CHUNK);
+    if (long) {
+      const values = Array.from(new Set(long[1] as Scalar[]));
+      const out: Row[] = [];
+      for (let i = 0; i < values.length; i += IN_CHUNK) {
+        out.push(...(await selectAll(table, { ...filter, [long[0]]: values.slice(i, i + IN_CHUNK) })));
+      }
+      return out;
+    }
+
+    const out: Row[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = supabaseAdmin.from(table).select("*");
+      for (const column of TABLE_KEYS[table] || ["id"]) query = query.order(column);
+      const res: RowsResult = await where(query, filter).range(from, from + PAGE_SIZE - 1);
+      const rows = check(res) || [];
+      out.push(...rows);
+      if (rows.length < PAGE_SIZE) return out;
+    }
+  }
+
+  const api = {
+    changes,
+    select,
+    selectAll,
+
+    async insert(table: string, rows: Row | Row[]): Promise<Row[]> {
+      if (pending) {
+        const list = Array.isArray(rows) ? rows : [rows];
+        if (list.length) pending.push({ op: "insert", table, rows: list });
+        return [];
+      }
+      const after: Row[] = check(await supabaseAdmin.from(table).insert(rows).select("*")) || [];
+      record({ table, op: "insert", before: [], after });
+      return after;
+    },
+
+    async update(table: string, filter: Filter, patch: Row): Promise<Row[]> {
+      if (pending) {
+        if (!matchesNothing(filter)) pending.push({ op: "update", table, filter, patch });
+        return [];
+      }
+      // all of them, past the row cap: they are what a rollback puts back
+      const before = await selectAll(table, filter);
+      if (before.length === 0) return [];
+
+      const res: RowsResult = await where(supabaseAdmin.from(table).update(patch), filter).select("*");
+      const after = check(res) || [];
+      record({ table, op: "update", before, after });
+      return after;
+    },
+
+    /** Insert or update by the conflict columns (e.g. "team_id"). */
+    async upsert(table: string, row: Row, onConflict: string): Promise<Row[]> {
+      if (pending) {
+        pending.push({ op: "upsert", table, rows: [row], on_conflict: onConflict });
+        return [];
+      }
+      const key: Filter = {};
+      for (const col of onConflict.split(",")) key[col] = row[col] as string;
+      const before = await select(table, key);
+
+      const after: Row[] =
+        check(await supabaseAdmin.from(table).upsert(row, { onConflict }).select("*")) || [];
+      record({ table, op: before.length ? "update" : "insert", before, after });
+      return after;
+    },
+
+    async remove(table: string, filter: Filter): Promise<Row[]> {
+      if (matchesNothing(filter)) return [];
+      if (pending) {
+        pending.push({ op: "delete", table, filter });
+        return [];
+      }
+      const res: RowsResult = await where(supabaseAdmin.from(table).delete(), filter).select("*");
+      const before = check(res) || [];
+      record({ table, op: "delete", before, after: [] });
+      return before;
+    },
+
+    /**
+     * Undo every recorded change, newest first, with compensating writes
+     * (this is not a transaction: readers can see the state in between). A
+     * failed undo doesn't stop the rest; every one is reported at the end.
+     * The undo writes are recorded too, so the audit entry shows exactly
+     * what happened.
+     */
+    async rollback() {
+      const done = changes.slice().reverse();
+      const failed: string[] = [];
+
+      const undo = async (table: string, key: Filter, write: () => Promise<Row[]>) => {
+        try {
+          // an undo write that hits nothing means the row moved on; say so rather than "restore" nothing
+          if (!(await write()).length) failed.push(`${table} ${JSON.stringify(key)}: no row matched`);
+        } catch (e: unknown) {
+          failed.push(`${table} ${JSON.stringify(key)}: ${e instanceof Error ? e.message : "unknown error"}`);
+        }
+      };
+
+      for (const c of done) {
+        if (c.op === "insert") {
+          for (const row of c.after) {
+            const key = keyOf(c.table, row);
+            await undo(c.table, key, () => api.remove(c.table, key));
+          }
+        } else if (c.op === "delete") {
+          for (const row of c.before) {
+            await undo(c.table, keyOf(c.table, row), () => api.insert(c.table, row));
+          }
+        } else {
+          for (const row of c.before) {
+            const key = keyOf(c.table, row);
+            const restore = { ...row };
+            delete restore.id;
+            await undo(c.table, key, () => api.update(c.table, key, restore));
+          }
+        }
+      }
+
+      if (failed.length) {
+        throw new ActionError(`${failed.length} change(s) could not be undone`, 500, { undo_failures: failed });
+      }
+      return done.length;
+    },
+  };
+
+  return api;
+}
+
+/** Ids a change touched: `id` plus any `*_id` columns (match_id, team_id, …). */
+export function touchedIds(changes: RowChange[]) {
+  const ids = new Set<string>();
+  for (const c of changes) {
+    for (const row of [...c.before, ...c.after]) {
+      for (const [k, v] of Object.entries(row)) {
+        if ((k === "id" || k.endsWith("_id")) && v != null && v !== "") ids.add(String(v));
+      }
+    }
+  }
+  return Array.from(ids);
+}
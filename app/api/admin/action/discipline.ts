@@ -0,0 +1,22 @@
+import { CardEvent, DisciplineMatch, computeDiscipline, suspendedFor, suspensionRuleOf } from "@/lib/discipline";
+import { ChangeSet, Row } from "./changes";
+import { getTournament } from "./tournaments";
+
+/** Suspensions as lib/discipline.ts works them out, from the tournament's matches and cards. */
+
+export async function suspendedPlayers(db: ChangeSet, match: Row) {
+  const tournament = await getTournament(db, String(match.tournament_id));
+  const matches = await db.select("matches", { tournament_id: String(match.tournament_id), archived_at: null });
+  const cards = await db.select("match_events", {
+    match_id: matches.map((m) => String(m.id)),
+    kind: ["yellow_card", "red_card"],
+    archived_at: null,
+  });
+
+  const discipline = computeDiscipline(
+    matches as DisciplineMatch[],
+    cards as CardEvent[],
+    suspensionRuleOf(tournament)
+  );
+  return suspendedFor(discipline, String(match.id));
+}
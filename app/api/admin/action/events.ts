@@ -0,0 +1,35 @@
+import type { MatchEventInput } from "@/lib/adminActions";
+import { MATCH_EVENT_LABELS, relatedPlayerRole } from "@/lib/matchEvents";
+import { ActionError, ChangeSet, Row } from "./changes";
+
+/**
+ * Match events (lib/matchEvents.ts). Whether the players are on the right
+ * rosters is only a warning when the match is finalized, like it was for
+ * goals; the shape of an event is checked here, and an own goal can't be
+ * credited to a player of the team it counts for.
+ */
+
+export async function assertMatchEvent(db: ChangeSet, match: Row, event: MatchEventInput) {
+  if (event.team_id !== match.home_team_id && event.team_id !== match.away_team_id) {
+    throw new ActionError("The event must be for one of the two teams");
+  }
+
+  const label = MATCH_EVENT_LABELS[event.kind];
+  const role = relatedPlayerRole(event.kind);
+  if (!role && event.related_player_id) throw new ActionError(`A ${label.toLowerCase()} has no second player`);
+  if (role === "coming_on" && !event.related_player_id) {
+    throw new ActionError("A substitution needs the player coming on");
+  }
+  if (event.related_player_id && event.related_player_id === event.player_id) {
+    throw new ActionError(
+      role === "assist" ? "A player can't assist their own goal" : "The players going off and coming on must differ"
+    );
+  }
+
+  // an own goal counts for team_id but is scored by the other side
+  if (event.kind === "own_goal") {
+    const links = { team_id: event.team_id, player_id: event.player_id, archived_at: null };
+    const [own] = await db.select("team_players", links);
+    if (own) throw new ActionError("An own goal is scored by a player of the other team");
+  }
+}
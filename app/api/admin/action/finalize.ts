@@ -0,0 +1,197 @@
+import type { MatchIssue } from "@/lib/adminActions";
+import { MatchEvent, goalsFor, isGoal, playerTeamOf } from "@/lib/matchEvents";
+import { MatchScore, finalScore, hasExtraTime, hasPenalties, winnerSide } from "@/lib/matchResult";
+import { ActionError, ChangeSet, IN_CHUNK, Row } from "./changes";
+import { suspendedPlayers } from "./discipline";
+import { getOpenTournament } from "./tournaments";
+
+/**
+ * Finishing a match: result checks, the "finished = frozen" rule, and
+ * prediction scoring (+3 exact, +1 outcome, 0 otherwise) on the score after
+ * extra time; a shootout doesn't change the score predicted on.
+ */
+
+// Columns that make up a result; frozen once the match is finished
+export const RESULT_FIELDS = [
+  "home_team_id",
+  "away_team_id",
+  "home_score",
+  "away_score",
+  "et_home_score",
+  "et_away_score",
+  "home_pens",
+  "away_pens",
+  "motm_player_id",
+];
+
+/** A live match of a tournament that can still be changed. */
+export async function getMatch(db: ChangeSet, id: string) {
+  const [match] = await db.select("matches", { id });
+  if (!match || match.archived_at) throw new ActionError("Match not found", 404);
+  await getOpenTournament(db, String(match.tournament_id));
+  return match;
+}
+
+/** Throws if the match is finished (results only change through reopenMatch). */
+export function assertNotFinished(match: Row, what: string) {
+  if (match.status === "finished") {
+    throw new ActionError(`This match is finished; reopen it before you ${what}`, 409);
+  }
+}
+
+/** Everything that is off about a match result, worst first. */
+export async function checkMatchResult(db: ChangeSet, match: Row): Promise<MatchIssue[]> {
+  const issues: MatchIssue[] = [];
+  if (!match.home_team_id || !match.away_team_id) {
+    // bracket slot still waiting for its source match
+    return [{ level: "error", message: "Both teams must be known before the match can be finalized" }];
+  }
+
+  const home = String(match.home_team_id);
+  const away = String(match.away_team_id);
+
+  const events = (await db.select("match_events", { match_id: String(match.id), archived_at: null })) as MatchEvent[];
+  const goals = events.filter(isGoal);
+  const homeGoals = goalsFor(goals, home);
+  const awayGoals = goalsFor(goals, away);
+  const strayEvents = events.filter((e) => e.team_id !== home && e.team_id !== away).length;
+
+  if (strayEvents > 0) {
+    issues.push({ level: "error", message: `${strayEvents} event(s) are credited to a team not playing this match` });
+  }
+  const score = match as MatchScore;
+  const [homeTotal, awayTotal] = finalScore(score);
+  if (homeGoals !== homeTotal || awayGoals !== awayTotal) {
+    issues.push({
+      level: "error",
+      message: `Score is ${homeTotal}-${awayTotal} but the recorded goals add up to ${homeGoals}-${awayGoals}`,
+    });
+  }
+
+  issues.push(...(await checkExtraTime(db, match)));
+
+  const links = await db.select("team_players", { team_id: [home, away], archived_at: null });
+  const teamOf = new Map(links.map((l) => [String(l.player_id), String(l.team_id)]));
+
+  // an own goal's player is on the other side; a substitute comes on for the same team
+  const misplaced = events.filter((e) => {
+    const team = playerTeamOf(e, { home_team_id: home, away_team_id: away });
+    if (teamOf.get(e.player_id) !== team) return true;
+    return e.kind === "substitution" && e.related_player_id != null && teamOf.get(e.related_player_id) !== team;
+  }).length;
+  if (misplaced > 0) {
+    issues.push({ level: "warning", message: `${misplaced} event(s) name a player who is not on that team's roster` });
+  }
+
+  // with a lineup, everyone in the timeline should be in it
+  const lineup = await db.select("match_lineups", { match_id: String(match.id), archived_at: null });
+  const lineupTeams = new Set(lineup.map((l) => String(l.team_id)));
+  const inLineup = new Set(lineup.map((l) => String(l.player_id)));
+  const outside = events.filter((e) => {
+    const team = playerTeamOf(e, { home_team_id: home, away_team_id: away });
+    if (!team || !lineupTeams.has(team)) return false;
+    return !inLineup.has(e.player_id) || (e.related_player_id != null && !inLineup.has(e.related_player_id));
+  }).length;
+  if (outside > 0) {
+    issues.push({ level: "warning", message: `${outside} event(s) name a player who is not in the lineup` });
+  }
+
+  const suspended = await suspendedPlayers(db, match);
+  const bannedInLineup = lineup.filter((l) => suspended.has(String(l.player_id))).length;
+  const bannedScorers = goals.filter((g) => g.kind !== "own_goal" && suspended.has(g.player_id)).length;
+  if (bannedInLineup > 0) {
+    issues.push({ level: "warning", message: `${bannedInLineup} suspended player(s) are in the lineup` });
+  }
+  if (bannedScorers > 0) {
+    issues.push({ level: "warning", message: `${bannedScorers} goal(s) are credited to a suspended player` });
+  }
+
+  if (!match.motm_player_id) {
+    issues.push({ level: "warning", message: "No Man of the Match chosen" });
+  } else if (!teamOf.has(String(match.motm_player_id))) {
+    issues.push({ level: "warning", message: "The Man of the Match is not on either team's roster" });
+  }
+
+  return issues;
+}
+
+/** Extra time / shootout rules, and a knockout match needs a winner. */
+async function checkExtraTime(db: ChangeSet, match: Row): Promise<MatchIssue[]> {
+  const score = match as MatchScore;
+  const et = hasExtraTime(score);
+  const pens = hasPenalties(score);
+
+  if (match.stage !== "knockout") {
+    return et || pens ? [{ level: "error", message: "Only knockout matches have extra time or penalties" }] : [];
+  }
+
+  const issues: MatchIssue[] = [];
+  if (et && (score.et_home_score == null || score.et_away_score == null)) {
+    issues.push({ level: "error", message: "Extra time needs a score for both teams" });
+  }
+  if (et && score.home_score !== score.away_score) {
+    issues.push({ level: "error", message: "Extra time is only played after a draw in regular time" });
+  }
+
+  const [home, away] = finalScore(score);
+  if (pens) {
+    if (score.home_pens == null || score.away_pens == null) {
+      issues.push({ level: "error", message: "The shootout needs a score for both teams" });
+    } else if (score.home_pens === score.away_pens) {
+      issues.push({ level: "error", message: "A penalty shootout can't end level" });
+    }
+    if (home !== away) issues.push({ level: "error", message: "Penalties are only taken when the match is level" });
+
+    const kicks = await db.select("match_penalty_kicks", { match_id: String(match.id) });
+    if (kicks.length) {
+      const scored = (teamId: unknown) => kicks.filter((k) => k.team_id === teamId && k.scored).length;
+      const h = scored(match.home_team_id);
+      const a = scored(match.away_team_id);
+      if (h !== score.home_pens || a !== score.away_pens) {
+        issues.push({
+          level: "error",
+          message: `Shootout is ${score.home_pens}-${score.away_pens} but the recorded kicks add up to ${h}-${a}`,
+        });
+      }
+    }
+  }
+
+  if (!issues.length && !winnerSide(score)) {
+    issues.push({ level: "error", message: "A knockout match needs a winner: record extra time or a penalty shootout" });
+  }
+  return issues;
+}
+
+function predictionPoints(pred: Row, home: number, away: number) {
+  const ph = Number(pred.home_pred);
+  const pa = Number(pred.away_pred);
+  if (ph === home && pa === away) return 3;
+  return Math.sign(ph - pa) === Math.sign(home - away) ? 1 : 0;
+}
+
+/** Writes `points` on every prediction for the match. Returns how many were scored. */
+export async function scorePredictions(db: ChangeSet, match: Row) {
+  const [home, away] = finalScore(match as MatchScore);
+  const preds = await db.selectAll("predictions", { match_id: String(match.id) });
+
+  // one update per distinct score line (and per IN_CHUNK fans), not per fan
+  const byPoints = new Map<number, string[]>();
+  for (const p of preds) {
+    const pts = predictionPoints(p, home, away);
+    byPoints.set(pts, [...(byPoints.get(pts) || []), String(p.user_id)]);
+  }
+
+  const scored_at = new Date().toISOString();
+  for (const [points, userIds] of byPoints) {
+    for (let i = 0; i < userIds.length; i += IN_CHUNK) {
+      const user_id = userIds.slice(i, i + IN_CHUNK);
+      await db.update("predictions", { match_id: String(match.id), user_id }, { points, scored_at });
+    }
+  }
+
+  return preds.length;
+}
+
+export async function clearPredictionScores(db: ChangeSet, matchId: string) {
+  await db.update("predictions", { match_id: matchId }, { points: null, scored_at: null });
+}
@@ -0,0 +1,27 @@
+import type { AdminActionPayload } from "@/lib/adminActions";
+import { ActionError, ChangeSet, Row } from "./changes";
+
+/**
+ * Match lineups: picked from the team's roster, one line per player, shirt
+ * numbers unique within the team. Appearances are derived from them in
+ * stats.ts.
+ */
+
+type LineupInput = AdminActionPayload<"setMatchLineup">;
+
+export async function assertLineup(db: ChangeSet, match: Row, { team_id, players }: LineupInput) {
+  if (team_id !== match.home_team_id && team_id !== match.away_team_id) {
+    throw new ActionError("The lineup must be for one of the two teams");
+  }
+
+  const ids = players.map((p) => p.player_id);
+  if (new Set(ids).size !== ids.length) throw new ActionError("Each player can only be in the lineup once");
+
+  const numbers = players.map((p) => p.shirt_number).filter((n) => n != null);
+  if (new Set(numbers).size !== numbers.length) throw new ActionError("Two players in the lineup share a shirt number");
+
+  if (ids.length) {
+    const roster = await db.select("team_players", { team_id, player_id: ids, archived_at: null });
+    if (roster.length !== ids.length) throw new ActionError("Lineup players must be on the team's roster");
+  }
+}
@@ -0,0 +1,25 @@
+import type { LivePhase } from "@/lib/adminActions";
+import { MatchClockState, MatchLengths } from "@/lib/matchClock";
+import { ChangeSet, Row } from "./changes";
+import { getTournament } from "./tournaments";
+
+/**
+ * Live matches: the clock columns of a matches row and the period lengths
+ * of its tournament. The clock maths is in lib/matchClock.ts.
+ */
+
+export function clockState(match: Row): MatchClockState {
+  return {
+    live_phase: (match.live_phase as LivePhase | null) ?? null,
+    clock_started_at: (match.clock_started_at as string | null) ?? null,
+    clock_seconds: Number(match.clock_seconds) || 0,
+  };
+}
+
+export async function matchLengths(db: ChangeSet, match: Row): Promise<MatchLengths> {
+  const tournament = await getTournament(db, String(match.tournament_id));
+  return {
+    half_minutes: Number(tournament.half_minutes) || 45,
+    extra_time_minutes: Number(tournament.extra_time_minutes) || 0,
+  };
+}
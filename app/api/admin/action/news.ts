@@ -0,0 +1,33 @@
+import type { NewsPostInput } from "@/lib/adminActions";
+import { ActionError, ChangeSet, Row } from "./changes";
+import { getOpenTournament } from "./tournaments";
+
+/**
+ * News posts: drafts, scheduled publishing and edit history.
+ * Readers see a post once status = 'published' and publish_at has passed
+ * (RLS on news_posts); every edit keeps the old version in news_post_revisions.
+ */
+
+// Columns copied into a revision
+const REVISION_FIELDS = ["title", "body", "media_type", "media_url", "status", "publish_at"];
+
+export async function getNewsPost(db: ChangeSet, id: string) {
+  const [post] = await db.select("news_posts", { id });
+  if (!post) throw new ActionError("Post not found", 404);
+  await getOpenTournament(db, String(post.tournament_id));
+  return post;
+}
+
+/** Media must come with a file URL; "none" drops any leftover URL. */
+export function checkMedia<P extends Pick<NewsPostInput, "media_type" | "media_url">>(post: P): P {
+  if (post.media_type === "none") return { ...post, media_url: null };
+  if (!post.media_url) throw new ActionError(`Upload a file for the ${post.media_type}`);
+  return post;
+}
+
+/** Stores the post as it is right now (before an edit). */
+export async function saveRevision(db: ChangeSet, post: Row, adminId: string) {
+  const revision: Row = { post_id: post.id, edited_by: adminId, edited_at: new Date().toISOString() };
+  for (const key of REVISION_FIELDS) revision[key] = post[key] ?? null;
+  await db.insert("news_post_revisions", revision);
+}
@@ -0,0 +1,58 @@
+import type { OfficialRole } from "@/lib/adminActions";
+import { MatchOfficial, OFFICIAL_CONFLICT_LABELS, findOfficialConflicts } from "@/lib/officials";
+import { ActionError, ChangeSet, Row } from "./changes";
+import { loadSchedule } from "./schedule";
+import { assertSameTournament } from "./tournaments";
+
+/**
+ * Match officials (lib/officials.ts). An assignment that clashes is refused
+ * here; clashes that come up later (a match rescheduled, a university
+ * edited) are only flagged on the admin pages.
+ */
+
+export async function getOfficial(db: ChangeSet, id: string) {
+  const [official] = await db.select("officials", { id });
+  if (!official) throw new ActionError("Official not found", 404);
+  return official;
+}
+
+export async function assertMatchOfficials(
+  db: ChangeSet,
+  match: Row,
+  wanted: { official_id: string; role: OfficialRole }[]
+) {
+  const ids = wanted.map((w) => w.official_id);
+  if (new Set(ids).size !== ids.length) throw new ActionError("An official can only take one role in a match");
+  if (!ids.length) return;
+
+  const tournamentId = String(match.tournament_id);
+  const officials = await db.select("officials", { id: ids });
+  if (officials.length !== ids.length) throw new ActionError("Official not found", 404);
+  assertSameTournament(officials, tournamentId, "official");
+
+  const { matches, slots } = await loadSchedule(db, tournamentId);
+  const teams = await db.select("teams", { tournament_id: tournamentId, archived_at: null });
+  const others = await db.select("match_officials", { official_id: ids });
+
+  const matchId = String(match.id);
+  const assignments: MatchOfficial[] = [
+    ...others
+      .filter((a) => String(a.match_id) !== matchId)
+      .map((a) => ({ match_id: String(a.match_id), official_id: String(a.official_id), role: a.role as OfficialRole })),
+    ...wanted.map((w) => ({ ...w, match_id: matchId })),
+  ];
+
+  const clashes = findOfficialConflicts({
+    matches,
+    slots,
+    teams: teams.map((t) => ({ id: String(t.id), university: (t.university as string | null) ?? null })),
+    officials: officials.map((o) => ({ id: String(o.id), university: (o.university as string | null) ?? null })),
+    assignments,
+  }).filter((c) => c.match_ids.includes(matchId));
+
+  if (clashes.length) {
+    const name = new Map(officials.map((o) => [String(o.id), String(o.full_name)]));
+    const lines = clashes.map((c) => `${name.get(c.official_id)}: ${OFFICIAL_CONFLICT_LABELS[c.kind].toLowerCase()}`);
+    throw new ActionError(`Can't assign: ${Array.from(new Set(lines)).join("; ")}`, 409);
+  }
+}
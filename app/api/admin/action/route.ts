@@ -1,12 +1,43 @@
 import { NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
+import {
+  AdminActionPayload,
+  AdminActionResult,
+  AdminActionType,
+  BatchStepResult,
+  NewsPostInput,
+  PayloadError,
+  adminActionScopes,
+  isAdminActionType,
+  parseAdminPayload,
+} from "@/lib/adminActions";
+import { AdminScope, ROLE_LABELS, StaffRole, hasScope, isStaffRole } from "@/lib/adminRoles";
+import { planFixtures } from "@/lib/fixtures";
+import { LIVE_PHASE_LABELS, clockForPhase, clockMinute, clockWith, isRunningPhase } from "@/lib/matchClock";
+import { planSchedule } from "@/lib/schedule";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { archiveEntity, purgeEntity, restoreEntity } from "./archive";
+import { advanceFrom, assertSlots, createLaterRounds, fillSlots, retractFrom } from "./bracket";
+import { ActionError, ChangeSet, Row, createChangeSet, isUniqueViolation, touchedIds } from "./changes";
+import {
+  RESULT_FIELDS,
+  assertNotFinished,
+  checkMatchResult,
+  clearPredictionScores,
+  getMatch,
+  scorePredictions,
+} from "./finalize";
+import { checkMedia, getNewsPost, saveRevision } from "./news";
+import { assertMatchEvent } from "./events";
+import { assertLineup } from "./lineups";
+import { clockState, matchLengths } from "./live";
+import { assertMatchOfficials, getOfficial } from "./officials";
+import { getVenue, loadSchedule } from "./schedule";
+import { playersAffectedBy, recomputePlayerStats } from "./stats";
+import { assertMatchLinks, assertSameTournament, copyTeams, getOpenTournament, getTournament } from "./tournaments";
 
-const supabaseAdmin = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-);
+type AuthResult = { ok: true; userId: string; role: StaffRole } | { ok: false; error: string };
 
-async function requireAdminFromToken(token: string | null) {
+async function requireStaffFromToken(token: string | null): Promise<AuthResult> {
   if (!token) return { ok: false, error: "Missing auth token" };
 
   const { data: userData, error: userErr } = await supabaseAdmin.auth.getUser(token);
@@ -21,196 +52,1008 @@ async function requireAdminFromToken(token: string | null) {
     .single();
 
   if (meErr) return { ok: false, error: meErr.message };
-  if (!me || me.role !== "admin" || me.status !== "active") return { ok: false, error: "Not admin" };
+  if (!me || !isStaffRole(me.role) || me.status !== "active") return { ok: false, error: "Not admin" };
 
-  return { ok: true, userId };
+  return { ok: true, userId, role: me.role };
 }
 
-export async function POST(req: Request) {
-  try {
-    const token = req.headers.get("authorization")?.replace("Bearer ", "") || null;
-    const auth = await requireAdminFromToken(token);
-    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 403 });
+// updateMatch with only these fields is score keeping; anything else edits the fixture
+const SCORE_FIELDS = new Set([
+  "home_score",
+  "away_score",
+  "et_home_score",
+  "et_away_score",
+  "home_pens",
+  "away_pens",
+  "motm_player_id",
+]);
 
-    const body = await req.json();
-    const { type, payload } = body;
+/**
+ * Bulk edits whose batch steps can share one transaction (db.atomic): they
+ * never read back what an earlier step wrote. A batch of only these is
+ * all-or-nothing; any other batch runs step by step.
+ */
+const ATOMIC_STEPS = new Set<AdminActionType>(["assignTeamGroup", "overridePlayerStats", "setTeamScheduleRules"]);
+
+/** Scopes needed to run an action (batch: every step's). */
+function scopesFor(type: string, payload: unknown): AdminScope[] {
+  // unknown types are rejected later with a proper message
+  if (!isAdminActionType(type)) return [];
+
+  if (type === "batch") {
+    const steps = (payload as { steps?: unknown } | null)?.steps;
+    if (!Array.isArray(steps)) return [];
+    return steps.flatMap((step) => scopesFor(String(step?.type), step?.payload));
+  }
+
+  if (type === "updateMatch") {
+    const patch = (payload as { patch?: unknown } | null)?.patch;
+    const keys = patch && typeof patch === "object" ? Object.keys(patch) : [];
+    if (keys.some((k) => !SCORE_FIELDS.has(k))) return ["tournament"];
+  }
+
+  return [adminActionScopes[type]];
+}
+
+function assertAllowed(role: StaffRole, type: AdminActionType, payload: unknown) {
+  const missing = scopesFor(type, payload).filter((scope) => !hasScope(role, scope));
+  if (missing.length) {
+    throw new ActionError(`Your role (${ROLE_LABELS[role]}) cannot run ${type}`, 403, { missing_scopes: missing });
+  }
+}
+
+type ActionContext = { db: ChangeSet; adminId: string };
+
+type Handler<T extends AdminActionType> = (
+  payload: AdminActionPayload<T>,
+  ctx: ActionContext
+) => Promise<AdminActionResult<T>>;
+
+const handlers: { [T in AdminActionType]: Handler<T> } = {
+  // ---------------- PROFILES (FANS) ----------------
+  async setProfileStatus({ id, status }, { db }) {
+    await db.update("profiles", { id }, { status });
+    return { ok: true };
+  },
+
+  // ---------------- TOURNAMENTS (SEASONS) ----------------
+  async createTournament({ tournament, make_current, copy_teams_from }, { db, adminId }) {
+    if (copy_teams_from) await getTournament(db, copy_teams_from);
+
+    // only one current tournament (unique index)
+    if (make_current) await db.update("tournaments", { is_current: true }, { is_current: false });
+    const [created] = await db.insert("tournaments", { ...tournament, is_current: make_current, created_by: adminId });
+    if (!created) throw new ActionError("Tournament was not created");
+
+    const tournament_id = String(created.id);
+    const teams = copy_teams_from ? await copyTeams(db, copy_teams_from, tournament_id) : 0;
+    return { ok: true, tournament_id, teams };
+  },
+
+  async updateTournament({ id, patch }, { db }) {
+    // names and match settings only, so archived seasons can still be relabelled
+    await getTournament(db, id);
+    await db.update("tournaments", { id }, patch);
+    return { ok: true };
+  },
+
+  async setCurrentTournament({ id }, { db }) {
+    const tournament = await getOpenTournament(db, id);
+    if (tournament.is_current) throw new ActionError(`${tournament.name} is already the current tournament`);
 
-    // ---------------- PROFILES (FANS) ----------------
-    if (type === "setProfileStatus") {
-      const { id, status } = payload;
-      const { error } = await supabaseAdmin.from("profiles").update({ status }).eq("id", id);
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
+    await db.update("tournaments", { is_current: true }, { is_current: false });
+    await db.update("tournaments", { id }, { is_current: true });
+    return { ok: true };
+  },
+
+  async archiveTournament({ id }, { db }) {
+    const tournament = await getTournament(db, id);
+    if (tournament.status === "archived") throw new ActionError(`${tournament.name} is already archived`);
+    if (tournament.is_current) {
+      throw new ActionError("Make another tournament current before archiving this one", 409);
     }
 
-    // ---------------- TEAMS ----------------
-    if (type === "createTeam") {
-      const { name } = payload;
-      const { error } = await supabaseAdmin.from("teams").insert({ name });
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
+    await db.update("tournaments", { id }, { status: "archived", archived_at: new Date().toISOString() });
+    return { ok: true };
+  },
+
+  async reopenTournament({ id }, { db }) {
+    const tournament = await getTournament(db, id);
+    if (tournament.status !== "archived") throw new ActionError(`${tournament.name} is not archived`);
+
+    await db.update("tournaments", { id }, { status: "active", archived_at: null });
+    return { ok: true };
+  },
+
+  // ---------------- TEAMS ----------------
+  async createTeam({ tournament_id, name, university }, { db }) {
+    await getOpenTournament(db, tournament_id);
+    await db.insert("teams", { tournament_id, name, university: university ?? null });
+    return { ok: true };
+  },
+
+  async updateTeam({ id, patch }, { db }) {
+    const [team] = await db.select("teams", { id, archived_at: null });
+    if (!team) throw new ActionError("Team not found", 404);
+    await getOpenTournament(db, String(team.tournament_id));
+
+    await db.update("teams", { id }, patch);
+    return { ok: true };
+  },
+
+  async deleteTeam({ id }, { db }) {
+    await db.atomic((tx) => archiveEntity(tx, "team", id));
+    return { ok: true };
+  },
+
+  // ---------------- GROUPS ----------------
+  async createGroup({ tournament_id, name }, { db }) {
+    await getOpenTournament(db, tournament_id);
+    await db.insert("groups", { tournament_id, name });
+    return { ok: true };
+  },
+
+  async deleteGroup({ id }, { db }) {
+    await db.atomic((tx) => archiveEntity(tx, "group", id));
+    return { ok: true };
+  },
+
+  async assignTeamGroup({ teamId, groupId }, { db }) {
+    const [team] = await db.select("teams", { id: teamId, archived_at: null });
+    if (!team) throw new ActionError("Team not found", 404);
+    await getOpenTournament(db, String(team.tournament_id));
+
+    if (groupId) {
+      const [group] = await db.select("groups", { id: groupId, archived_at: null });
+      if (!group) throw new ActionError("Group not found", 404);
+      assertSameTournament([group], String(team.tournament_id), "team and group");
     }
 
-    if (type === "deleteTeam") {
-      const { id } = payload;
-      const { error } = await supabaseAdmin.from("teams").delete().eq("id", id);
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
+    // one group per team: clear the old assignment, then add the new one
+    await db.remove("team_groups", { team_id: teamId });
+    if (groupId) await db.insert("team_groups", { team_id: teamId, group_id: groupId });
+    return { ok: true };
+  },
+
+  async setTiebreakers({ tournament_id, tiebreakers }, { db, adminId }) {
+    if (new Set(tiebreakers).size !== tiebreakers.length) throw new ActionError("Each tiebreaker can only be used once");
+    await getOpenTournament(db, tournament_id);
+
+    await db.upsert(
+      "standings_settings",
+      { tournament_id, tiebreakers, updated_by: adminId, updated_at: new Date().toISOString() },
+      "tournament_id"
+    );
+    return { ok: true };
+  },
+
+  async setGroupLots({ group_id, team_ids }, { db, adminId }) {
+    const [group] = await db.select("groups", { id: group_id, archived_at: null });
+    if (!group) throw new ActionError("Group not found", 404);
+    await getOpenTournament(db, String(group.tournament_id));
+    if (new Set(team_ids).size !== team_ids.length) throw new ActionError("A team can only be drawn once");
+
+    const members = new Set(
+      (await db.select("team_groups", { group_id, archived_at: null })).map((tg) => String(tg.team_id))
+    );
+    if (team_ids.some((id) => !members.has(id))) throw new ActionError(`Every team must be in ${group.name}`);
+
+    await db.remove("group_lots", { group_id });
+    if (team_ids.length) {
+      const drawn_at = new Date().toISOString();
+      await db.insert(
+        "group_lots",
+        team_ids.map((team_id, i) => ({ group_id, team_id, position: i + 1, drawn_by: adminId, drawn_at }))
+      );
     }
+    return { ok: true };
+  },
+
+  async generateFixtures({ group_ids, double_round, slots }, { db }) {
+    const groups = await db.select("groups", { id: group_ids, archived_at: null });
+    if (groups.length !== new Set(group_ids).size) throw new ActionError("Group not found", 404);
+    const tournament_id = String(groups[0].tournament_id);
+    assertSameTournament(groups, tournament_id, "group");
+    await getOpenTournament(db, tournament_id);
+
+    const links = await db.select("team_groups", { group_id: group_ids, archived_at: null });
+    // every match of the tournament: group matches are skipped, and all of them hold their kick-off slot
+    const existing = await db.select("matches", { tournament_id, archived_at: null });
 
-    // ---------------- GROUPS ----------------
-    if (type === "createGroup") {
-      const { name } = payload;
-      const { error } = await supabaseAdmin.from("groups").insert({ name });
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
+    // same inputs (and order) as the preview on /admin/groups
+    const plan = planFixtures({
+      groups: group_ids.map((group_id) => ({
+        group_id,
+        team_ids: links
+          .filter((l) => String(l.group_id) === group_id)
+          .map((l) => String(l.team_id))
+          .sort(),
+      })),
+      existing: existing.map((m) => ({
+        group_id: m.group_id != null ? String(m.group_id) : null,
+        home_team_id: String(m.home_team_id),
+        away_team_id: String(m.away_team_id),
+        start_time: (m.start_time as string | null) ?? null,
+      })),
+      double: double_round,
+      slots,
+    });
+
+    if (plan.fixtures.length) {
+      await db.insert(
+        "matches",
+        plan.fixtures.map((f) => ({
+          tournament_id,
+          stage: "group",
+          group_id: f.group_id,
+          home_team_id: f.home_team_id,
+          away_team_id: f.away_team_id,
+          start_time: f.start_time,
+          home_score: 0,
+          away_score: 0,
+          status: "scheduled",
+        }))
+      );
     }
 
-    if (type === "deleteGroup") {
-      const { id } = payload;
-      const { error } = await supabaseAdmin.from("groups").delete().eq("id", id);
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
+    return {
+      ok: true,
+      created: plan.fixtures.length,
+      skipped: plan.existing.length,
+      unscheduled: plan.fixtures.filter((f) => !f.start_time).length,
+    };
+  },
+
+  // ---------------- SCHEDULING ----------------
+  async createVenue({ tournament_id, name }, { db }) {
+    await getOpenTournament(db, tournament_id);
+    await db.insert("venues", { tournament_id, name });
+    return { ok: true };
+  },
+
+  async updateVenue({ id, patch }, { db }) {
+    const venue = await getVenue(db, id);
+    await getOpenTournament(db, String(venue.tournament_id));
+
+    await db.update("venues", { id }, patch);
+    return { ok: true };
+  },
+
+  async deleteVenue({ id }, { db }) {
+    const venue = await getVenue(db, id);
+    await getOpenTournament(db, String(venue.tournament_id));
+
+    // explicit (not ON DELETE) so a rollback puts the matches back on the pitch
+    await db.update("matches", { venue_id: id }, { venue_id: null });
+    await db.remove("schedule_slots", { venue_id: id });
+    await db.remove("venues", { id });
+    return { ok: true };
+  },
+
+  async addScheduleSlots({ venue_ids, starts_at, duration_minutes }, { db }) {
+    const venues = await db.select("venues", { id: venue_ids });
+    if (venues.length !== new Set(venue_ids).size) throw new ActionError("Pitch not found", 404);
+    const tournament_id = String(venues[0].tournament_id);
+    assertSameTournament(venues, tournament_id, "pitch");
+    await getOpenTournament(db, tournament_id);
+
+    const existing = await db.select("schedule_slots", { venue_id: venue_ids });
+    const taken = new Set(existing.map((s) => `${s.venue_id}|${new Date(String(s.starts_at)).getTime()}`));
+
+    const rows = [];
+    let skipped = 0;
+    for (const venue_id of new Set(venue_ids)) {
+      for (const iso of new Set(starts_at)) {
+        const key = `${venue_id}|${new Date(iso).getTime()}`;
+        if (taken.has(key)) {
+          skipped++;
+          continue;
+        }
+        taken.add(key);
+        rows.push({ tournament_id, venue_id, starts_at: iso, duration_minutes });
+      }
+    }
+    if (rows.length) await db.insert("schedule_slots", rows);
+
+    return { ok: true, created: rows.length, skipped };
+  },
+
+  async deleteScheduleSlots({ ids }, { db }) {
+    const slots = await db.select("schedule_slots", { id: ids });
+    if (slots.length === 0) throw new ActionError("Slot not found", 404);
+    const tournament_id = String(slots[0].tournament_id);
+    assertSameTournament(slots, tournament_id, "slot");
+    await getOpenTournament(db, tournament_id);
+
+    await db.remove("schedule_slots", { id: slots.map((s) => String(s.id)) });
+    return { ok: true };
+  },
+
+  async setTeamScheduleRules({ team_id, min_rest_minutes, blackouts }, { db }) {
+    const [team] = await db.select("teams", { id: team_id, archived_at: null });
+    if (!team) throw new ActionError("Team not found", 404);
+    const tournament_id = String(team.tournament_id);
+    await getOpenTournament(db, tournament_id);
+
+    if (blackouts.some((b) => new Date(b.ends_at) <= new Date(b.starts_at))) {
+      throw new ActionError("A blackout must end after it starts");
     }
 
-    if (type === "assignTeamGroup") {
-      // groupId can be null to remove assignment
-      const { teamId, groupId } = payload;
+    await db.update("teams", { id: team_id }, { min_rest_minutes });
+    await db.remove("team_blackouts", { team_id });
+    if (blackouts.length) {
+      await db.insert("team_blackouts", blackouts.map((b) => ({ ...b, team_id, tournament_id })));
+    }
+    return { ok: true };
+  },
 
-      if (!groupId) {
-        const { error } = await supabaseAdmin.from("team_groups").delete().eq("team_id", teamId);
-        if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-        return NextResponse.json({ ok: true });
+  async setMatchSchedule({ id, patch }, { db }) {
+    const match = await getMatch(db, id);
+    assertNotFinished(match, "reschedule it");
+    if (match.live_phase != null && (patch.start_time !== undefined || patch.venue_id !== undefined)) {
+      throw new ActionError("This match is under way; it can't be moved", 409);
+    }
+    if (patch.venue_id) {
+      const venue = await getVenue(db, patch.venue_id);
+      assertSameTournament([venue], String(match.tournament_id), "match and pitch");
+    }
+
+    await db.update("matches", { id }, patch);
+    return { ok: true };
+  },
+
+  async runScheduler({ tournament_id, keep_scheduled }, { db }) {
+    await getOpenTournament(db, tournament_id);
+
+    // same inputs as the preview on /admin/schedule
+    const { matches, slots, rules } = await loadSchedule(db, tournament_id);
+    if (slots.length === 0) throw new ActionError("Add pitches and time slots first");
+    const plan = planSchedule({ matches, slots, rules, keep_scheduled });
+
+    // only write what moves, so the audit log shows the real changes
+    const byId = new Map(matches.map((m) => [m.id, m]));
+    const moved = (id: string, start_time: string | null, venue_id: string | null) => {
+      const m = byId.get(id);
+      const before = m?.start_time ? new Date(m.start_time).getTime() : null;
+      const after = start_time ? new Date(start_time).getTime() : null;
+      return before !== after || (m?.venue_id ?? null) !== venue_id;
+    };
+
+    for (const a of plan.assignments) {
+      if (moved(a.match_id, a.start_time, a.venue_id)) {
+        await db.update("matches", { id: a.match_id }, { start_time: a.start_time, venue_id: a.venue_id });
       }
+    }
+    for (const id of plan.unplaced) {
+      if (moved(id, null, null)) await db.update("matches", { id }, { start_time: null, venue_id: null });
+    }
 
-      const { error } = await supabaseAdmin
-        .from("team_groups")
-        .upsert({ team_id: teamId, group_id: groupId });
-
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
-    }
-
-    // ---------------- TEAM PLAYERS (ROSTER LINKS) ----------------
-    if (type === "addTeamPlayer") {
-      const { team_id, player_id } = payload;
-      const { error } = await supabaseAdmin.from("team_players").insert({ team_id, player_id });
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
-    }
-
-    if (type === "removeTeamPlayer") {
-      const { team_id, player_id } = payload;
-      const { error } = await supabaseAdmin
-        .from("team_players")
-        .delete()
-        .eq("team_id", team_id)
-        .eq("player_id", player_id);
-
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
-    }
-
-    // ---------------- PLAYERS + PLAYER_STATS ----------------
-    if (type === "createPlayerWithStats") {
-      const { full_name, university, position } = payload;
-
-      const { data: created, error: cErr } = await supabaseAdmin
-        .from("players")
-        .insert({
-          full_name,
-          university: university || null,
-          position: position || null,
-        })
-        .select("id")
-        .single();
-
-      if (cErr) return NextResponse.json({ error: cErr.message }, { status: 400 });
-
-      // Create initial stats row (THIS used to fail under RLS)
-      const { error: sErr } = await supabaseAdmin.from("player_stats").insert({
-        player_id: created.id,
-        matches_played: 0,
-        goals: 0,
-        assists: 0,
-        motm: 0,
-      });
+    return { ok: true, scheduled: plan.assignments.length, unplaced: plan.unplaced.length };
+  },
+
+  // ---------------- OFFICIALS ----------------
+  async createOfficial({ tournament_id, official }, { db }) {
+    await getOpenTournament(db, tournament_id);
+    await db.insert("officials", { ...official, tournament_id });
+    return { ok: true };
+  },
+
+  async updateOfficial({ id, patch }, { db }) {
+    const official = await getOfficial(db, id);
+    await getOpenTournament(db, String(official.tournament_id));
+
+    await db.update("officials", { id }, patch);
+    return { ok: true };
+  },
+
+  async deleteOfficial({ id }, { db }) {
+    const official = await getOfficial(db, id);
+    await getOpenTournament(db, String(official.tournament_id));
+
+    // played matches and filed reports keep their officials
+    const reports = await db.select("referee_reports", { official_id: id });
+    const assigned = await db.select("match_officials", { official_id: id });
+    const finished = assigned.length
+      ? await db.select("matches", { id: assigned.map((a) => String(a.match_id)), status: "finished" })
+      : [];
+    if (reports.length || finished.length) {
+      throw new ActionError(`${official.full_name} has officiated finished matches; they stay on record`, 409);
+    }
+
+    // explicit (not ON DELETE) so a rollback puts the assignments back
+    await db.remove("match_officials", { official_id: id });
+    await db.remove("officials", { id });
+    return { ok: true };
+  },
+
+  // ---------------- TEAM PLAYERS (ROSTER LINKS) ----------------
+  async addTeamPlayer({ team_id, player_id }, { db }) {
+    const [team] = await db.select("teams", { id: team_id, archived_at: null });
+    if (!team) throw new ActionError("Team not found", 404);
+    const tournament_id = String(team.tournament_id);
+    await getOpenTournament(db, tournament_id);
+
+    // one team per player per tournament; earlier seasons keep their own links
+    const links = await db.select("team_players", { player_id, tournament_id });
+    if (links.some((l) => !l.archived_at)) throw new ActionError("This player is already on a team in this tournament", 409);
+
+    // links still sitting in the recycle bin (archived team) would block the new one
+    for (const link of links) await db.remove("team_players", { team_id: String(link.team_id), player_id });
+    await db.insert("team_players", { team_id, player_id, tournament_id });
+    return { ok: true };
+  },
+
+  async moveTeamPlayer({ player_id, from_team_id, to_team_id }, { db }) {
+    if (from_team_id === to_team_id) throw new ActionError("The player is already on this team");
+    const teams = await db.select("teams", { id: [from_team_id, to_team_id], archived_at: null });
+    const to = teams.find((t) => String(t.id) === to_team_id);
+    if (!to || teams.length !== 2) throw new ActionError("Team not found", 404);
+    const tournament_id = String(to.tournament_id);
+    assertSameTournament(teams, tournament_id, "team");
+    await getOpenTournament(db, tournament_id);
+
+    const links = await db.select("team_players", { player_id, tournament_id });
+    if (!links.some((l) => !l.archived_at && String(l.team_id) === from_team_id)) {
+      throw new ActionError("This player isn't on that team", 409);
+    }
+
+    // one transaction: the player is never on both teams, or on none
+    await db.atomic(async (tx) => {
+      for (const link of links) await tx.remove("team_players", { team_id: String(link.team_id), player_id });
+      await tx.insert("team_players", { team_id: to_team_id, player_id, tournament_id });
+    });
+    return { ok: true };
+  },
+
+  async removeTeamPlayer({ team_id, player_id }, { db }) {
+    const [team] = await db.select("teams", { id: team_id });
+    if (!team) throw new ActionError("Team not found", 404);
+    await getOpenTournament(db, String(team.tournament_id));
+
+    await db.remove("team_players", { team_id, player_id });
+    return { ok: true };
+  },
+
+  // ---------------- PLAYERS + PLAYER_STATS ----------------
+  async createPlayerWithStats({ full_name, university, position }, { db }) {
+    const [created] = await db.insert("players", { full_name, university, position });
+    if (!created) throw new ActionError("Player was not created");
+
+    // player_stats rows are per tournament; they appear once the player joins a team (see stats.ts)
+
+    return { ok: true, player_id: String(created.id) };
+  },
+
+  async deletePlayer({ id }, { db }) {
+    await db.atomic((tx) => archiveEntity(tx, "player", id));
+    return { ok: true };
+  },
+
+  async linkPlayerProfile({ player_id, profile_id }, { db }) {
+    const [player] = await db.select("players", { id: player_id, archived_at: null });
+    if (!player) throw new ActionError("Roster player not found", 404);
+
+    const [profile] = await db.select("profiles", { id: profile_id });
+    if (!profile) throw new ActionError("Account not found", 404);
+    if (profile.role !== "player" || profile.status !== "active") {
+      throw new ActionError("Only active player accounts can be linked to a roster player");
+    }
 
-      if (sErr) return NextResponse.json({ error: sErr.message }, { status: 400 });
+    if (player.linked_profile_id === profile_id) throw new ActionError("These two are already linked");
+    if (player.linked_profile_id) {
+      throw new ActionError(`${player.full_name} is already linked to another account; unlink it first`, 409);
+    }
+
+    const [taken] = await db.select("players", { linked_profile_id: profile_id });
+    if (taken) {
+      const where = taken.archived_at ? " (in the recycle bin)" : "";
+      throw new ActionError(`This account is already linked to ${taken.full_name}${where}; unlink it first`, 409);
+    }
+
+    // the unique index settles two links racing past the check above
+    try {
+      await db.update("players", { id: player_id }, { linked_profile_id: profile_id });
+    } catch (e: unknown) {
+      if (isUniqueViolation(e)) throw new ActionError("This account is already linked to a roster player", 409);
+      throw e;
+    }
+    return { ok: true };
+  },
+
+  async unlinkPlayerProfile({ player_id }, { db }) {
+    const [player] = await db.select("players", { id: player_id });
+    if (!player) throw new ActionError("Roster player not found", 404);
+    if (!player.linked_profile_id) throw new ActionError("This roster player is not linked");
+
+    await db.update("players", { id: player_id }, { linked_profile_id: null });
+    return { ok: true };
+  },
+
+  async overridePlayerStats({ player_id, tournament_id, patch }, { db, adminId }) {
+    await getOpenTournament(db, tournament_id);
+
+    // player_stats itself is recomputed after the action (see runAction)
+    await db.upsert(
+      "player_stat_overrides",
+      { player_id, tournament_id, ...patch, updated_by: adminId, updated_at: new Date().toISOString() },
+      "player_id,tournament_id"
+    );
+    return { ok: true };
+  },
+
+  async rebuildPlayerStats(_payload, { db }) {
+    const updated = await recomputePlayerStats(db, "all");
+    return { ok: true, updated };
+  },
+
+  // ---------------- MATCHES + GOALS ----------------
+  async createMatch({ tournament_id, match }, { db }) {
+    await getOpenTournament(db, tournament_id);
+    for (const side of ["home", "away"] as const) {
+      if (match[`${side}_source_match_id`] && !match[`${side}_source`]) match[`${side}_source`] = "winner";
+    }
+    assertSlots(match);
+    if (match.stage === "group" && !match.group_id) throw new ActionError("Group matches need a group");
+    await assertMatchLinks(db, { ...match, tournament_id });
+
+    const [created] = await db.insert("matches", { ...match, tournament_id, status: "scheduled" });
+    if (created) await fillSlots(db, created);
+    return { ok: true };
+  },
+
+  async createKnockoutRound({ tournament_id, round, pairings, later_rounds, third_place }, { db }) {
+    await getOpenTournament(db, tournament_id);
+
+    const [taken] = await db.select("matches", {
+      tournament_id,
+      stage: "knockout",
+      knockout_round: round,
+      archived_at: null,
+    });
+    if (taken) throw new ActionError(`${round} already has matches; delete them first to regenerate`, 409);
+
+    const teamIds = pairings.flatMap((p) => [p.home_team_id, p.away_team_id]);
+    if (new Set(teamIds).size !== teamIds.length) throw new ActionError("Each team can only appear once in a round");
+
+    const live = await db.select("teams", { id: teamIds, archived_at: null });
+    if (live.length !== teamIds.length) throw new ActionError("Team not found", 404);
+    assertSameTournament(live, tournament_id, "team");
+
+    const created = await db.insert(
+      "matches",
+      pairings.map((p, i) => ({
+        tournament_id,
+        stage: "knockout",
+        group_id: null,
+        home_team_id: p.home_team_id,
+        away_team_id: p.away_team_id,
+        start_time: p.start_time,
+        home_score: 0,
+        away_score: 0,
+        status: "scheduled",
+        knockout_round: round,
+        knockout_order: i + 1,
+      }))
+    );
+    if (later_rounds) await createLaterRounds(db, created, !!third_place);
+    return { ok: true };
+  },
+
+  async updateMatch({ id, patch }, { db }) {
+    const match = await getMatch(db, id);
+
+    // picking a team by hand drops the slot's source; a new source empties the slot until it is known
+    const slotPatch: Record<string, unknown> = {};
+    for (const side of ["home", "away"] as const) {
+      if (patch[`${side}_source_match_id`] !== undefined || patch[`${side}_source`] !== undefined) {
+        if (patch[`${side}_source_match_id`] && !patch[`${side}_source`]) slotPatch[`${side}_source`] = "winner";
+        if (patch[`${side}_source_match_id`] === null) slotPatch[`${side}_source`] = null;
+        if (patch[`${side}_team_id`] === undefined) slotPatch[`${side}_team_id`] = null;
+      } else if (patch[`${side}_team_id`] !== undefined) {
+        slotPatch[`${side}_source_match_id`] = null;
+        slotPatch[`${side}_source`] = null;
+      }
+    }
+
+    const changed = [...Object.keys(patch), ...Object.keys(slotPatch)];
+    if (changed.some((k) => RESULT_FIELDS.includes(k))) assertNotFinished(match, "change its result");
 
-      return NextResponse.json({ ok: true, player_id: created.id });
+    const next = { ...match, ...patch, ...slotPatch };
+    if (patch.home_team_id !== undefined || patch.away_team_id !== undefined || Object.keys(slotPatch).length) {
+      assertSlots(next);
     }
+    if (patch.home_team_id || patch.away_team_id || patch.group_id) await assertMatchLinks(db, next);
 
-    if (type === "deletePlayer") {
-      const { id } = payload;
-      const { error } = await supabaseAdmin.from("players").delete().eq("id", id);
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
+    const [updated] = await db.update("matches", { id }, { ...patch, ...slotPatch });
+    if (Object.keys(slotPatch).length) await fillSlots(db, updated || next);
+    return { ok: true };
+  },
+
+  async deleteMatch({ id }, { db }) {
+    // match events go to the recycle bin with the match, in one transaction
+    await db.atomic((tx) => archiveEntity(tx, "match", id));
+    return { ok: true };
+  },
+
+  async setMatchPhase({ id, phase }, { db }) {
+    const match = await getMatch(db, id);
+    assertNotFinished(match, "change its live state");
+    if ((phase === "extra_time" || phase === "penalties") && match.stage !== "knockout") {
+      throw new ActionError("Only knockout matches go to extra time or penalties");
+    }
+
+    const current = clockState(match);
+    if (phase === current.live_phase) {
+      throw new ActionError(
+        phase ? `The match is already at ${LIVE_PHASE_LABELS[phase]}` : "The match hasn't kicked off"
+      );
     }
 
-    if (type === "updatePlayerStats") {
-      const { player_id, patch } = payload;
+    const now = Date.now();
+    const patch: Row = clockForPhase(current, phase, await matchLengths(db, match), now);
+    if (phase === "first_half" && !match.kicked_off_at) patch.kicked_off_at = new Date(now).toISOString();
+    if (phase === null) patch.kicked_off_at = null;
+
+    await db.update("matches", { id }, patch);
+    return { ok: true };
+  },
 
-      const { error } = await supabaseAdmin
-        .from("player_stats")
-        .update(patch)
-        .eq("player_id", player_id);
+  async setMatchClock({ id, running, minute }, { db }) {
+    const match = await getMatch(db, id);
+    assertNotFinished(match, "change its clock");
 
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
+    const current = clockState(match);
+    if (!isRunningPhase(current.live_phase)) {
+      throw new ActionError("The clock only runs during a half or extra time");
     }
 
-    // ---------------- MATCHES + GOALS ----------------
-    if (type === "createMatch") {
-      const { match } = payload;
-      const { error } = await supabaseAdmin.from("matches").insert(match);
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
+    await db.update("matches", { id }, clockWith(current, running, minute, Date.now()));
+    return { ok: true };
+  },
+
+  async addMatchEvent({ event }, { db }) {
+    const match = await getMatch(db, event.match_id);
+    assertNotFinished(match, "add events");
+    await assertMatchEvent(db, match, event);
+
+    // no minute given: the minute on the live clock, if it is running
+    const minute = event.minute ?? clockMinute(clockState(match), Date.now());
+    await db.insert("match_events", { ...event, minute });
+    return { ok: true };
+  },
+
+  async deleteMatchEvent({ id }, { db }) {
+    const [event] = await db.select("match_events", { id });
+    if (!event || event.archived_at) throw new ActionError("Event not found", 404);
+    assertNotFinished(await getMatch(db, String(event.match_id)), "delete events");
+
+    await db.remove("match_events", { id });
+    return { ok: true };
+  },
+
+  async setMatchLineup(lineup, { db }) {
+    const { match_id, team_id, players } = lineup;
+    const match = await getMatch(db, match_id);
+    assertNotFinished(match, "change the lineup");
+    await assertLineup(db, match, lineup);
+
+    await db.remove("match_lineups", { match_id, team_id, archived_at: null });
+    if (players.length) await db.insert("match_lineups", players.map((p) => ({ ...p, match_id, team_id })));
+    return { ok: true };
+  },
+
+  async setMatchOfficials({ match_id, referee_id, assistant_ids }, { db }) {
+    const match = await getMatch(db, match_id);
+    assertNotFinished(match, "change its officials");
+
+    const wanted = [
+      ...(referee_id ? [{ official_id: referee_id, role: "referee" as const }] : []),
+      ...assistant_ids.map((official_id) => ({ official_id, role: "assistant" as const })),
+    ];
+    await assertMatchOfficials(db, match, wanted);
+
+    await db.remove("match_officials", { match_id });
+    if (wanted.length) await db.insert("match_officials", wanted.map((w) => ({ ...w, match_id })));
+    return { ok: true };
+  },
+
+  async saveRefereeReport({ match_id, incidents, notes }, { db, adminId }) {
+    const match = await getMatch(db, match_id);
+    if (match.status !== "finished" && match.live_phase !== "full_time") {
+      throw new ActionError("The referee report is filed after the final whistle");
     }
 
-    if (type === "updateMatch") {
-      const { id, patch } = payload;
-      const { error } = await supabaseAdmin.from("matches").update(patch).eq("id", id);
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
+    const [referee] = await db.select("match_officials", { match_id, role: "referee" });
+    if (!referee) throw new ActionError("Assign the match's referee before filing their report");
+
+    const sides = [match.home_team_id, match.away_team_id];
+    if (incidents.some((i) => i.team_id != null && !sides.includes(i.team_id))) {
+      throw new ActionError("An incident's team must be one of the two teams");
     }
 
-    if (type === "deleteMatch") {
-      const { id } = payload;
+    await db.upsert(
+      "referee_reports",
+      {
+        match_id,
+        official_id: referee.official_id,
+        incidents,
+        notes,
+        filed_by: adminId,
+        filed_at: new Date().toISOString(),
+      },
+      "match_id"
+    );
+    return { ok: true };
+  },
 
-      // delete goals first (avoid FK issues)
-      const { error: gErr } = await supabaseAdmin.from("match_goals").delete().eq("match_id", id);
-      if (gErr) return NextResponse.json({ error: gErr.message }, { status: 400 });
+  async setPenaltyShootout({ match_id, kicks }, { db }) {
+    const match = await getMatch(db, match_id);
+    assertNotFinished(match, "change the shootout");
+    if (match.stage !== "knockout") throw new ActionError("Only knockout matches have penalty shootouts");
 
-      const { error } = await supabaseAdmin.from("matches").delete().eq("id", id);
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    const sides = [String(match.home_team_id), String(match.away_team_id)];
+    if (kicks.some((k) => !sides.includes(k.team_id))) {
+      throw new ActionError("Every kick must be taken by one of the two teams");
+    }
 
-      return NextResponse.json({ ok: true });
+    await db.remove("match_penalty_kicks", { match_id });
+    if (kicks.length) {
+      await db.insert(
+        "match_penalty_kicks",
+        kicks.map((k, i) => ({ ...k, match_id, kick_order: i + 1 }))
+      );
     }
 
-    if (type === "addGoal") {
-      const { goal } = payload;
+    const scored = (teamId: string) => kicks.filter((k) => k.team_id === teamId && k.scored).length;
+    await db.update(
+      "matches",
+      { id: match_id },
+      kicks.length
+        ? { home_pens: scored(sides[0]), away_pens: scored(sides[1]) }
+        : { home_pens: null, away_pens: null }
+    );
+    return { ok: true };
+  },
+
+  async finalizeMatch({ id, acknowledge_warnings }, { db, adminId }) {
+    const match = await getMatch(db, id);
+    if (match.status === "finished") throw new ActionError("This match is already finished");
+
+    const issues = await checkMatchResult(db, match);
+    const errors = issues.filter((i) => i.level === "error");
+    const warnings = issues.filter((i) => i.level === "warning");
+
+    if (errors.length) {
+      throw new ActionError(`Can't finalize: ${errors.map((i) => i.message).join("; ")}`, 409, { issues });
+    }
+    if (warnings.length && !acknowledge_warnings) {
+      throw new ActionError(`Please confirm: ${warnings.map((i) => i.message).join("; ")}`, 409, {
+        issues,
+        needs_acknowledge: true,
+      });
+    }
 
-      // Your DB has scorer_player_id NOT NULL; this prevents the null error.
-      if (!goal?.scorer_player_id) {
-        return NextResponse.json({ error: "Scorer is required" }, { status: 400 });
+    // a match followed live stops its clock at full time
+    const now = Date.now();
+    const clock = match.live_phase
+      ? clockForPhase(clockState(match), "full_time", await matchLengths(db, match), now)
+      : {};
+    const [finished] = await db.update(
+      "matches",
+      { id },
+      { ...clock, status: "finished", finalized_at: new Date(now).toISOString(), finalized_by: adminId }
+    );
+
+    // player_stats follow in runAction (matches_played / MOTM)
+    const predictions_scored = await scorePredictions(db, finished || match);
+    const advanced = await advanceFrom(db, finished || match);
+    return { ok: true, issues, predictions_scored, advanced };
+  },
+
+  async reopenMatch({ id, reason }, { db, adminId }) {
+    const match = await getMatch(db, id);
+    if (match.status !== "finished") throw new ActionError("Only finished matches can be reopened");
+    await retractFrom(db, match);
+
+    await db.update(
+      "matches",
+      { id },
+      { status: "scheduled", reopened_at: new Date().toISOString(), reopened_by: adminId, reopen_reason: reason }
+    );
+    await clearPredictionScores(db, id);
+    return { ok: true };
+  },
+
+  // ---------------- NEWS ----------------
+  async createNewsPost({ tournament_id, post, status }, { db, adminId }) {
+    await getOpenTournament(db, tournament_id);
+    const publish_at = status === "published" ? post.publish_at ?? new Date().toISOString() : post.publish_at;
+
+    const [created] = await db.insert("news_posts", {
+      ...checkMedia(post),
+      tournament_id,
+      status,
+      publish_at,
+      created_by: adminId,
+    });
+    if (!created) throw new ActionError("Post was not created");
+    return { ok: true, post_id: String(created.id) };
+  },
+
+  async updateNewsPost({ id, patch }, { db, adminId }) {
+    const post = await getNewsPost(db, id);
+    if (post.status === "published" && patch.publish_at === null) {
+      throw new ActionError("A published post needs a publish time; unpublish it to make it a draft");
+    }
+
+    const media = checkMedia({
+      media_type: patch.media_type ?? (post.media_type as NewsPostInput["media_type"]),
+      media_url: patch.media_url !== undefined ? patch.media_url : (post.media_url as string | null),
+    });
+
+    await saveRevision(db, post, adminId);
+    await db.update(
+      "news_posts",
+      { id },
+      { ...patch, ...media, updated_at: new Date().toISOString(), updated_by: adminId }
+    );
+    return { ok: true };
+  },
+
+  async publishNewsPost({ id, publish_at }, { db }) {
+    const post = await getNewsPost(db, id);
+    if (post.status === "published" && new Date(String(post.publish_at)).getTime() <= Date.now()) {
+      throw new ActionError("This post is already live");
+    }
+
+    await db.update("news_posts", { id }, { status: "published", publish_at: publish_at ?? new Date().toISOString() });
+    return { ok: true };
+  },
+
+  async unpublishNewsPost({ id }, { db }) {
+    const post = await getNewsPost(db, id);
+    if (post.status === "draft") throw new ActionError("This post is already a draft");
+
+    await db.update("news_posts", { id }, { status: "draft" });
+    return { ok: true };
+  },
+
+  async deleteNewsPost({ id }, { db }) {
+    await getNewsPost(db, id);
+    // explicit, so a rollback brings the history back too
+    await db.remove("news_post_revisions", { post_id: id });
+    await db.remove("news_posts", { id });
+    return { ok: true };
+  },
+
+  // ---------------- RECYCLE BIN ----------------
+  async restoreArchived({ kind, id }, { db }) {
+    const { skipped } = await restoreEntity(db, kind, id);
+    return { ok: true, skipped };
+  },
+
+  async purgeArchived({ kind, id }, { db }) {
+    await purgeEntity(db, kind, id);
+    return { ok: true };
+  },
+
+  // ---------------- BATCH ----------------
+  async batch({ steps }, ctx) {
+    // validate every step before touching the DB
+    const parsed = steps.map((step, i) => {
+      if (!isAdminActionType(step.type) || step.type === "batch") {
+        throw new PayloadError(`payload.steps[${i}].type "${step.type}" is not a batch action`);
       }
+      return { type: step.type, payload: parseAdminPayload(step.type, step.payload) };
+    });
 
-      const { error } = await supabaseAdmin.from("match_goals").insert(goal);
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
+    const results: BatchStepResult[] = [];
 
-      return NextResponse.json({ ok: true });
+    async function runSteps(db: ChangeSet) {
+      for (const [i, step] of parsed.entries()) {
+        try {
+          const result = await runHandler(step.type, step.payload, { ...ctx, db });
+          results.push({ type: step.type, ok: true, result });
+        } catch (e: unknown) {
+          const message = e instanceof Error ? e.message : "Server error";
+          results.push({ type: step.type, ok: false, error: message });
+
+          // atomic: nothing was written; else runAction undoes what the earlier steps did
+          throw new ActionError(`Step ${i + 1} (${step.type}) failed: ${message}`, 400, { steps: results });
+        }
+      }
     }
 
-    if (type === "deleteGoal") {
-      const { id } = payload;
-      const { error } = await supabaseAdmin.from("match_goals").delete().eq("id", id);
-      if (error) return NextResponse.json({ error: error.message }, { status: 400 });
-      return NextResponse.json({ ok: true });
+    // bulk edits go in one transaction; anything else runs step by step
+    if (parsed.every((step) => ATOMIC_STEPS.has(step.type))) await ctx.db.atomic(runSteps);
+    else await runSteps(ctx.db);
+
+    return { ok: true, steps: results };
+  },
+};
+
+function runHandler(type: AdminActionType, payload: unknown, ctx: ActionContext) {
+  const handler = handlers[type] as (payload: unknown, ctx: ActionContext) => Promise<unknown>;
+  return handler(payload, ctx);
+}
+
+/**
+ * Runs one action and writes its audit entry. If the action fails halfway,
+ * everything it already wrote is undone (compensating writes, see
+ * ChangeSet.rollback) before the error is returned.
+ */
+async function runAction<T extends AdminActionType>(
+  type: T,
+  rawPayload: unknown,
+  { adminId, role }: { adminId: string; role: StaffRole }
+) {
+  const payload = parseAdminPayload(type, rawPayload);
+  assertAllowed(role, type, payload);
+
+  const db = createChangeSet();
+
+  let error: string | null = null;
+  try {
+    const result = await handlers[type](payload, { db, adminId });
+
+    // keep derived player_stats in step with goals / MOTM / results (same rollback unit)
+    await recomputePlayerStats(db, await playersAffectedBy(db, db.changes));
+
+    return result;
+  } catch (e: unknown) {
+    error = e instanceof Error ? e.message : "Server error";
+
+    try {
+      await db.rollback();
+    } catch (rbErr: unknown) {
+      const msg = rbErr instanceof Error ? rbErr.message : "unknown error";
+      error = `${error} (rollback failed: ${msg} — check the audit log)`;
+      throw new ActionError(error, 500, rbErr instanceof ActionError ? rbErr.details : undefined);
     }
 
-    return NextResponse.json({ error: "Unknown action" }, { status: 400 });
-  } catch (e: any) {
-    return NextResponse.json({ error: e.message || "Server error" }, { status: 500 });
+    throw e;
+  } finally {
+    await writeAudit({ adminId, type, payload, changes: db.changes, error });
+  }
+}
+
+async function writeAudit(entry: {
+  adminId: string;
+  type: AdminActionType;
+  payload: unknown;
+  changes: ChangeSet["changes"];
+  error: string | null;
+}) {
+  const { error } = await supabaseAdmin.from("admin_audit_log").insert({
+    admin_id: entry.adminId,
+    action_type: entry.type,
+    payload: entry.payload,
+    changes: entry.changes,
+    entity_ids: touchedIds(entry.changes),
+    error: entry.error,
+  });
+
+  // The action itself already ran; never turn a good write into an error response.
+  if (error) console.error("admin_audit_log insert failed:", error.message);
+}
+
+export async function POST(req: Request) {
+  try {
+    const token = req.headers.get("authorization")?.replace("Bearer ", "") || null;
+    const auth = await requireStaffFromToken(token);
+    if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: 403 });
+
+    const body = await req.json();
+    const { type, payload } = body ?? {};
+
+    if (!isAdminActionType(type)) return NextResponse.json({ error: "Unknown action" }, { status: 400 });
+
+    return NextResponse.json(await runAction(type, payload, { adminId: auth.userId, role: auth.role }));
+  } catch (e: unknown) {
+    if (e instanceof PayloadError) return NextResponse.json({ error: e.message }, { status: 400 });
+    if (e instanceof ActionError) {
+      return NextResponse.json({ error: e.message, ...e.details }, { status: e.status });
+    }
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
   }
 }
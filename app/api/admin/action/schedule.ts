@@ -0,0 +1,38 @@
+import { ScheduleMatch, ScheduleSlot, TeamScheduleRule, toScheduleMatch } from "@/lib/schedule";
+import { ActionError, ChangeSet } from "./changes";
+
+/**
+ * Scheduling: venues (pitches), their time slots, and each team's minimum
+ * rest and blackout times. Planning itself is in lib/schedule.ts.
+ */
+
+export async function getVenue(db: ChangeSet, id: string) {
+  const [venue] = await db.select("venues", { id });
+  if (!venue) throw new ActionError("Pitch not found", 404);
+  return venue;
+}
+
+/** Same inputs the /admin/schedule preview reads. */
+export async function loadSchedule(db: ChangeSet, tournamentId: string) {
+  const matchRows = await db.select("matches", { tournament_id: tournamentId, archived_at: null });
+  const slotRows = await db.select("schedule_slots", { tournament_id: tournamentId });
+  const teams = await db.select("teams", { tournament_id: tournamentId, archived_at: null });
+  const blackouts = await db.select("team_blackouts", { tournament_id: tournamentId });
+
+  const matches: ScheduleMatch[] = matchRows.map((m) => toScheduleMatch(m as Parameters<typeof toScheduleMatch>[0]));
+  const slots: ScheduleSlot[] = slotRows.map((s) => ({
+    id: String(s.id),
+    venue_id: String(s.venue_id),
+    starts_at: String(s.starts_at),
+    duration_minutes: Number(s.duration_minutes),
+  }));
+  const rules: TeamScheduleRule[] = teams.map((t) => ({
+    team_id: String(t.id),
+    min_rest_minutes: Number(t.min_rest_minutes) || 0,
+    blackouts: blackouts
+      .filter((b) => String(b.team_id) === String(t.id))
+      .map((b) => ({ starts_at: String(b.starts_at), ends_at: String(b.ends_at) })),
+  }));
+
+  return { matches, slots, rules };
+}
@@ -0,0 +1,193 @@
+import { SCORER_KINDS } from "@/lib/matchEvents";
+import { ChangeSet, Filter, Row, RowChange } from "./changes";
+
+/**
+ * player_stats is derived from match data:
+ *   goals / assists  – live match_events (goals and penalty goals; own goals don't count)
+ *   motm             – live matches with motm_player_id
+ *   matches_played   – finished live matches the player appeared in: a starter
+ *                      in the lineup, or a substitute brought on; matches
+ *                      without a lineup for the team count its whole roster
+ * A value in player_stat_overrides (set by hand on /admin/players) wins over
+ * the derived one until it is cleared. Both are kept per tournament, so every
+ * season has its own numbers while the player carries over.
+ */
+
+const STAT_KEYS = ["matches_played", "goals", "assists", "motm"] as const;
+type StatKey = (typeof STAT_KEYS)[number];
+type Stats = Record<StatKey, number>;
+
+const EMPTY: Stats = { matches_played: 0, goals: 0, assists: 0, motm: 0 };
+
+/** Tables whose rows feed player_stats. */
+const SOURCE_TABLES = new Set(["match_events", "match_lineups", "matches", "team_players", "player_stat_overrides"]);
+
+// player_stats / player_stat_overrides rows are per player per tournament
+const keyOf = (playerId: unknown, tournamentId: unknown) => `${playerId}|${tournamentId}`;
+
+/**
+ * Recomputes player_stats for the given players, or for every player ("all"),
+ * in every tournament they have a row or match data in. Only rows whose
+ * values actually change are written. Returns that count. Reads go through
+ * selectAll(), since "all" easily passes PostgREST's row cap.
+ */
+export async function recomputePlayerStats(db: ChangeSet, playerIds: string[] | "all") {
+  const all = playerIds === "all";
+  if (!all && playerIds.length === 0) return 0;
+
+  const only = (column: string): Filter => (all ? {} : { [column]: playerIds });
+
+  // (purged players drop out here)
+  const ids = new Set((await db.selectAll("players", all ? {} : { id: playerIds })).map((p) => String(p.id)));
+  const derived = new Map<string, Stats>();
+  const entry = (playerId: unknown, tournamentId: unknown) => {
+    if (!ids.has(String(playerId)) || tournamentId == null) return null;
+    const key = keyOf(playerId, tournamentId);
+    if (!derived.has(key)) derived.set(key, { ...EMPTY });
+    return derived.get(key) || null;
+  };
+  const bump = (playerId: unknown, tournamentId: unknown, key: StatKey) => {
+    const s = entry(playerId, tournamentId);
+    if (s) s[key]++;
+  };
+
+  const scored = await db.selectAll("match_events", {
+    ...only("player_id"),
+    kind: [...SCORER_KINDS],
+    archived_at: null,
+  });
+  const assisted = await db.selectAll("match_events", {
+    ...only("related_player_id"),
+    kind: "goal",
+    archived_at: null,
+  });
+
+  // goals count in their match's tournament
+  const goalMatchIds = Array.from(new Set([...scored, ...assisted].map((g) => String(g.match_id))));
+  const tournamentOf = new Map(
+    (await db.selectAll("matches", { id: goalMatchIds })).map((m) => [String(m.id), m.tournament_id])
+  );
+  for (const g of scored) bump(g.player_id, tournamentOf.get(String(g.match_id)), "goals");
+  for (const g of assisted) bump(g.related_player_id, tournamentOf.get(String(g.match_id)), "assists");
+
+  for (const m of await db.selectAll("matches", { ...only("motm_player_id"), archived_at: null })) {
+    bump(m.motm_player_id, m.tournament_id, "motm");
+  }
+
+  // matches_played: finished matches of the teams the player is on (a team is in one tournament)
+  const links = await db.selectAll("team_players", { ...only("player_id"), archived_at: null });
+  const playersByTeam = new Map<string, string[]>();
+  for (const l of links) {
+    entry(l.player_id, l.tournament_id); // on a roster = a row, even before any match
+    const list = playersByTeam.get(String(l.team_id)) || [];
+    list.push(String(l.player_id));
+    playersByTeam.set(String(l.team_id), list);
+  }
+
+  const teamIds = Array.from(playersByTeam.keys());
+  const finished: Filter = { status: "finished", archived_at: null };
+  const played = new Map<string, Row>();
+  for (const m of await db.selectAll("matches", { ...finished, home_team_id: teamIds })) played.set(String(m.id), m);
+  for (const m of await db.selectAll("matches", { ...finished, away_team_id: teamIds })) played.set(String(m.id), m);
+  // and matches in a lineup of a team the player has left since
+  const lineupMatchIds = (await db.selectAll("match_lineups", { ...only("player_id"), archived_at: null }))
+    .map((l) => String(l.match_id))
+    .filter((id) => !played.has(id));
+  if (lineupMatchIds.length) {
+    for (const m of await db.selectAll("matches", { ...finished, id: lineupMatchIds })) played.set(String(m.id), m);
+  }
+
+  const playedIds = Array.from(played.keys());
+  const lineups = await db.selectAll("match_lineups", { match_id: playedIds, archived_at: null });
+  const subbedOn = new Set(
+    (await db.selectAll("match_events", { match_id: playedIds, kind: "substitution", archived_at: null })).map(
+      (e) => `${e.match_id}|${e.related_player_id}`
+    )
+  );
+
+  for (const m of played.values()) {
+    const onPitch = new Set<string>();
+    for (const teamId of [String(m.home_team_id), String(m.away_team_id)]) {
+      const lineup = lineups.filter((l) => String(l.match_id) === String(m.id) && String(l.team_id) === teamId);
+      if (!lineup.length) {
+        (playersByTeam.get(teamId) || []).forEach((playerId) => onPitch.add(playerId));
+        continue;
+      }
+      for (const l of lineup) {
+        if (l.role === "starter" || subbedOn.has(`${m.id}|${l.player_id}`)) onPitch.add(String(l.player_id));
+      }
+    }
+    onPitch.forEach((playerId) => bump(playerId, m.tournament_id, "matches_played"));
+  }
+
+  // overrides + current rows
+  const overrides = new Map<string, Row>();
+  for (const o of await db.selectAll("player_stat_overrides", only("player_id"))) {
+    overrides.set(keyOf(o.player_id, o.tournament_id), o);
+    entry(o.player_id, o.tournament_id);
+  }
+
+  const current = new Map<string, Row>();
+  for (const r of await db.selectAll("player_stats", only("player_id"))) {
+    current.set(keyOf(r.player_id, r.tournament_id), r);
+    entry(r.player_id, r.tournament_id); // no longer derived = back to zero
+  }
+
+  let written = 0;
+  for (const [key, stats] of derived) {
+    const [player_id, tournament_id] = key.split("|");
+    const o = overrides.get(key);
+    const next: Stats = { ...stats };
+    for (const k of STAT_KEYS) {
+      if (o?.[k] != null) next[k] = Number(o[k]);
+    }
+
+    const row = current.get(key);
+    if (!row) {
+      await db.insert("player_stats", { player_id, tournament_id, ...next });
+      written++;
+    } else if (STAT_KEYS.some((k) => Number(row[k]) !== next[k])) {
+      await db.update("player_stats", { player_id, tournament_id }, next);
+      written++;
+    }
+  }
+
+  return written;
+}
+
+/**
+ * Players whose stats may have moved because of these changes: scorers,
+ * assisters, MOTMs, and everyone on a team whose match changed.
+ */
+export async function playersAffectedBy(db: ChangeSet, changes: RowChange[]) {
+  const players = new Set<string>();
+  const teams = new Set<string>();
+  const matches = new Set<string>();
+
+  for (const c of changes) {
+    if (!SOURCE_TABLES.has(c.table)) continue;
+
+    for (const row of [...c.before, ...c.after]) {
+      for (const col of ["player_id", "related_player_id", "motm_player_id"]) {
+        if (row[col] != null) players.add(String(row[col]));
+      }
+      if (c.table === "matches") {
+        matches.add(String(row.id));
+        if (row.home_team_id != null) teams.add(String(row.home_team_id));
+        if (row.away_team_id != null) teams.add(String(row.away_team_id));
+      }
+    }
+  }
+
+  if (teams.size) {
+    for (const l of await db.select("team_players", { team_id: Array.from(teams) })) players.add(String(l.player_id));
+  }
+  // lineup players who have left the roster since
+  if (matches.size) {
+    for (const l of await db.select("match_lineups", { match_id: Array.from(matches) })) {
+      players.add(String(l.player_id));
+    }
+  }
+
+  return Array.from(players);
+}
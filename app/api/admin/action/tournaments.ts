@@ -0,0 +1,75 @@
+import { ActionError, ChangeSet, Row } from "./changes";
+
+/**
+ * Tournaments (seasons). Teams, groups, matches, roster links, news and stats
+ * each belong to one; players are shared and carry over. An archived
+ * tournament is read only (also enforced by a trigger in the DB).
+ */
+
+export async function getTournament(db: ChangeSet, id: string) {
+  const [tournament] = await db.select("tournaments", { id });
+  if (!tournament) throw new ActionError("Tournament not found", 404);
+  return tournament;
+}
+
+/** The tournament, if it can still be changed. */
+export async function getOpenTournament(db: ChangeSet, id: string) {
+  const tournament = await getTournament(db, id);
+  if (tournament.status === "archived") {
+    throw new ActionError(`${tournament.name} is archived (read only); reopen it first`, 409);
+  }
+  return tournament;
+}
+
+/** Throws unless every row belongs to the tournament (teams picked for a match, a group…). */
+export function assertSameTournament(rows: Row[], tournamentId: string, what: string) {
+  if (rows.some((r) => String(r.tournament_id) !== tournamentId)) {
+    throw new ActionError(`Every ${what} must belong to the same tournament`);
+  }
+}
+
+/** A match's teams and group come from its own tournament. */
+export async function assertMatchLinks(db: ChangeSet, match: Row) {
+  const tournamentId = String(match.tournament_id);
+  const teamIds = [match.home_team_id, match.away_team_id].filter((id) => id != null).map(String);
+
+  const teams = await db.select("teams", { id: teamIds });
+  if (teams.length !== new Set(teamIds).size) throw new ActionError("Team not found", 404);
+  assertSameTournament(teams, tournamentId, "team");
+
+  if (match.group_id) {
+    const [group] = await db.select("groups", { id: String(match.group_id) });
+    if (!group) throw new ActionError("Group not found", 404);
+    assertSameTournament([group], tournamentId, "group");
+  }
+}
+
+/**
+ * New season's teams and rosters copied from an earlier one (names and
+ * players only; groups, matches and stats start empty). Returns the team count.
+ */
+export async function copyTeams(db: ChangeSet, fromId: string, toId: string) {
+  const teams = await db.select("teams", { tournament_id: fromId, archived_at: null });
+  if (!teams.length) return 0;
+
+  const newId = new Map<string, string>();
+  for (const t of teams) {
+    const [created] = await db.insert("teams", { name: t.name, university: t.university ?? null, tournament_id: toId });
+    if (created) newId.set(String(t.id), String(created.id));
+  }
+
+  const links = await db.select("team_players", { tournament_id: fromId, archived_at: null });
+  // players in the bin stay behind
+  const live = new Set(
+    (await db.select("players", { id: links.map((l) => String(l.player_id)), archived_at: null })).map((p) =>
+      String(p.id)
+    )
+  );
+
+  const rosters = links
+    .filter((l) => newId.has(String(l.team_id)) && live.has(String(l.player_id)))
+    .map((l) => ({ team_id: newId.get(String(l.team_id)), player_id: l.player_id, tournament_id: toId }));
+  if (rosters.length) await db.insert("team_players", rosters);
+
+  return newId.size;
+}
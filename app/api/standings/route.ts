@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+import { StandingsNotFound, loadStandings } from "@/lib/standingsData";
+
+/**
+ * Group tables of `?tournament_id=…` (default: the current tournament): every
+ * group, or `&group_id=…` for one. Public, like the tables themselves.
+ */
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const tournamentId = params.get("tournament_id");
+  const groupId = params.get("group_id");
+
+  try {
+    return NextResponse.json(await loadStandings({ tournamentId, groupId }));
+  } catch (e: unknown) {
+    if (e instanceof StandingsNotFound) return NextResponse.json({ error: e.message }, { status: 404 });
+    return NextResponse.json({ error: e instanceof Error ? e.message : "Server error" }, { status: 500 });
+  }
+}
@@ -4,8 +4,10 @@ import React, { ReactNode, useEffect, useMemo, useState } from "react";
 import { usePathname, useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { StaffRole, isStaffRole } from "@/lib/adminRoles";
+import { TournamentProvider, TournamentSwitcher, useTournament } from "@/components/TournamentContext";
 
-type Role = "player" | "fan" | "admin" | null;
+type Role = "player" | "fan" | StaffRole | null;
 
 /* ---------- Icons ---------- */
 function IconHome({ active }: { active: boolean }) {
@@ -161,7 +163,8 @@ export default function AppLayout({ children }: { children: ReactNode }) {
       setRole((prof?.role as Role) ?? null);
       setStatus(prof?.status ?? null);
 
-      if (prof?.role === "admin" && prof?.status === "active") {
+      // staff (admin, scorekeeper, …) live in /admin
+      if (isStaffRole(prof?.role) && prof?.status === "active") {
         if (pathname.startsWith("/app")) router.replace("/admin");
         return;
       }
@@ -189,14 +192,19 @@ export default function AppLayout({ children }: { children: ReactNode }) {
       const user = authData.user;
       if (!user) return setHasUnreadNews(false);
 
+      // a scheduled post counts from the moment it goes live, not when it was written;
+      // only the current tournament's news (past seasons don't light the dot)
       const { data: lastPost } = await supabase
         .from("news_posts")
-        .select("created_at")
-        .order("created_at", { ascending: false })
+        .select("publish_at,tournaments!inner(is_current)")
+        .eq("tournaments.is_current", true)
+        .eq("status", "published")
+        .lte("publish_at", new Date().toISOString())
+        .order("publish_at", { ascending: false })
         .limit(1)
         .maybeSingle();
 
-      if (!lastPost?.created_at) return setHasUnreadNews(false);
+      if (!lastPost?.publish_at) return setHasUnreadNews(false);
 
       const { data: readRow } = await supabase
         .from("news_reads")
@@ -205,16 +213,16 @@ export default function AppLayout({ children }: { children: ReactNode }) {
         .maybeSingle();
 
       const lastSeen = readRow?.last_seen_at ? new Date(readRow.last_seen_at).getTime() : 0;
-      const lastCreated = new Date(lastPost.created_at).getTime();
+      const lastPublished = new Date(lastPost.publish_at).getTime();
 
-      setHasUnreadNews(lastCreated > lastSeen);
+      setHasUnreadNews(lastPublished > lastSeen);
     }
 
     (async () => {
       await checkUnread();
       channel = supabase
         .channel("nav-news")
-        .on("postgres_changes", { event: "INSERT", schema: "public", table: "news_posts" }, () => checkUnread())
+        .on("postgres_changes", { event: "*", schema: "public", table: "news_posts" }, () => checkUnread())
         .subscribe();
       timer = setInterval(checkUnread, 8000);
     })();
@@ -230,12 +238,33 @@ export default function AppLayout({ children }: { children: ReactNode }) {
   return (
     <div className="min-h-screen text-white pb-24 relative overflow-hidden">
       <DawraLikPhotoBackground />
-      <div className="relative z-10">{children}</div>
+      <TournamentProvider>
+        <div className="relative z-10">
+          {!hideNav && <TournamentBar />}
+          {children}
+        </div>
+      </TournamentProvider>
       {!hideNav && <BottomNav role={role} status={status} pathname={pathname} hasUnreadNews={hasUnreadNews} />}
     </div>
   );
 }
 
+/** Season switcher above every page; past seasons are marked read only. */
+function TournamentBar() {
+  const { readOnly } = useTournament();
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 pt-4 flex items-center justify-end gap-3">
+      {readOnly ? (
+        <span className="text-xs font-bold text-yellow-200 bg-yellow-500/10 border border-yellow-400/30 rounded-full px-3 py-1">
+          Archived season
+        </span>
+      ) : null}
+      <TournamentSwitcher />
+    </div>
+  );
+}
+
 function BottomNav({
   role,
   status,
@@ -2,39 +2,71 @@
 
 import { useEffect, useMemo, useRef, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import type { LivePhase } from "@/lib/adminActions";
+import { slotPlaceholder } from "@/lib/bracket";
+import { MatchLengths, isLive } from "@/lib/matchClock";
+import {
+  MATCH_EVENT_ICONS,
+  MATCH_EVENT_LABELS,
+  MatchEvent,
+  eventPlayerLabel,
+  relatedPlayerRole,
+  sortTimeline,
+} from "@/lib/matchEvents";
+import { formatScore } from "@/lib/matchResult";
+import { MatchOfficial, OFFICIAL_ROLE_LABELS } from "@/lib/officials";
+import MatchClock from "@/components/MatchClock";
+import { useTournament } from "@/components/TournamentContext";
 
 type Team = { id: string; name: string };
 type Group = { id: string; name: string };
+type Venue = { id: string; name: string };
 
 type MatchRow = {
   id: string;
   stage: "group" | "knockout";
   group_id: string | null;
   knockout_round: string | null;
+  knockout_order: number | null;
 
-  home_team_id: string;
-  away_team_id: string;
+  // null until the source match ("Winner QF1") is finished
+  home_team_id: string | null;
+  away_team_id: string | null;
+  home_source_match_id: string | null;
+  home_source: string | null;
+  away_source_match_id: string | null;
+  away_source: string | null;
 
   start_time: string | null;
+  venue_id: string | null;
   status: "scheduled" | "finished";
   home_score: number | null;
   away_score: number | null;
+  et_home_score: number | null;
+  et_away_score: number | null;
+  home_pens: number | null;
+  away_pens: number | null;
 
   motm_player_id: string | null;
-};
 
-type Player = { id: string; display_name: string | null; full_name: string | null };
+  live_phase: LivePhase | null;
+  clock_started_at: string | null;
+  clock_seconds: number;
+};
 
-type GoalRow = {
-  id: string;
+type LineupRow = {
   match_id: string;
-  scoring_team_id: string;
-  scorer_player_id: string;
-  assist_player_id: string | null;
-  minute: number | null;
-  created_at: string;
+  team_id: string;
+  player_id: string;
+  role: "starter" | "substitute";
+  shirt_number: number | null;
 };
 
+type Player = { id: string; display_name: string | null; full_name: string | null };
+
+// referee first, then assistants
+type OfficialLine = MatchOfficial & { name: string };
+
 function fmtKickoff(iso: string | null) {
   if (!iso) return "—";
   try {
@@ -53,14 +85,18 @@ function safePlayerName(p: Player | null | undefined) {
 }
 
 export default function MatchesPage() {
+  const { tournament } = useTournament();
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
 
   const [teams, setTeams] = useState<Team[]>([]);
   const [groups, setGroups] = useState<Group[]>([]);
+  const [venues, setVenues] = useState<Venue[]>([]);
   const [players, setPlayers] = useState<Player[]>([]);
   const [matches, setMatches] = useState<MatchRow[]>([]);
-  const [goals, setGoals] = useState<GoalRow[]>([]);
+  const [events, setEvents] = useState<MatchEvent[]>([]);
+  const [lineups, setLineups] = useState<LineupRow[]>([]);
+  const [officials, setOfficials] = useState<OfficialLine[]>([]);
 
   // ✅ only one match open at a time
   const [openMatchId, setOpenMatchId] = useState<string | null>(null);
@@ -81,14 +117,28 @@ export default function MatchesPage() {
     // Only show full-page loader the first time
     setLoading((prev) => prev || matches.length === 0);
 
-    const { data: t, error: tErr } = await supabase.from("teams").select("id,name").order("name");
+    const { data: t, error: tErr } = await supabase
+      .from("teams")
+      .select("id,name")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
+      .order("name");
     if (tErr) return fail(tErr.message);
     setTeams((t as Team[]) || []);
 
-    const { data: g, error: gErr } = await supabase.from("groups").select("id,name").order("name");
+    const { data: g, error: gErr } = await supabase
+      .from("groups")
+      .select("id,name")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
+      .order("name");
     if (gErr) return fail(gErr.message);
     setGroups((g as Group[]) || []);
 
+    const { data: v, error: vErr } = await supabase.from("venues").select("id,name").eq("tournament_id", tournament.id);
+    if (vErr) return fail(vErr.message);
+    setVenues((v as Venue[]) || []);
+
     // ✅ FIX: fetch full_name too + don’t rely on display_name existing
     const { data: p, error: pErr } = await supabase
       .from("players")
@@ -100,20 +150,58 @@ export default function MatchesPage() {
     const { data: m, error: mErr } = await supabase
       .from("matches")
       .select(
-        "id,stage,group_id,knockout_round,home_team_id,away_team_id,start_time,status,home_score,away_score,motm_player_id"
+        "id,stage,group_id,knockout_round,knockout_order,home_team_id,away_team_id,start_time,venue_id,status,home_score,away_score,et_home_score,et_away_score,home_pens,away_pens,motm_player_id,home_source_match_id,home_source,away_source_match_id,away_source,live_phase,clock_started_at,clock_seconds"
       )
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
       .order("start_time", { ascending: true, nullsFirst: false });
 
     if (mErr) return fail(mErr.message);
     setMatches((m as MatchRow[]) || []);
 
     const { data: gl, error: glErr } = await supabase
-      .from("match_goals")
-      .select("id,match_id,scoring_team_id,scorer_player_id,assist_player_id,minute,created_at")
+      .from("match_events")
+      .select("id,match_id,kind,team_id,player_id,related_player_id,minute,note,created_at")
+      .in("match_id", ((m as MatchRow[]) || []).map((x) => x.id))
+      .is("archived_at", null)
       .order("created_at", { ascending: true });
 
     if (glErr) return fail(glErr.message);
-    setGoals((gl as GoalRow[]) || []);
+    setEvents((gl as MatchEvent[]) || []);
+
+    const { data: lu, error: luErr } = await supabase
+      .from("match_lineups")
+      .select("match_id,team_id,player_id,role,shirt_number")
+      .in("match_id", ((m as MatchRow[]) || []).map((x) => x.id))
+      .is("archived_at", null)
+      .order("shirt_number", { ascending: true, nullsFirst: false });
+
+    if (luErr) return fail(luErr.message);
+    setLineups((lu as LineupRow[]) || []);
+
+    const { data: mo, error: moErr } = await supabase
+      .from("match_officials")
+      .select("match_id,official_id,role")
+      .in("match_id", ((m as MatchRow[]) || []).map((x) => x.id));
+
+    if (moErr) return fail(moErr.message);
+    const assigned = (mo as MatchOfficial[]) || [];
+
+    // names only: the officials table (phone numbers) is staff-only
+    const { data: on, error: onErr } = assigned.length
+      ? await supabase
+          .from("official_names")
+          .select("id,full_name")
+          .in("id", Array.from(new Set(assigned.map((a) => a.official_id))))
+      : { data: [], error: null };
+
+    if (onErr) return fail(onErr.message);
+    const officialName = new Map(((on as { id: string; full_name: string }[]) || []).map((o) => [o.id, o.full_name]));
+    setOfficials(
+      assigned
+        .map((a) => ({ ...a, name: officialName.get(a.official_id) || "Official" }))
+        .sort((a, b) => (a.role === b.role ? a.name.localeCompare(b.name) : a.role === "referee" ? -1 : 1))
+    );
 
     setLoading(false);
   }
@@ -123,18 +211,33 @@ export default function MatchesPage() {
     setLoading(false);
   }
 
-  // initial load
+  // initial load (and on a season switch)
   useEffect(() => {
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournament.id]);
+
+  // ?match=<id> (links from the bracket): open that match
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get("match");
+    if (id) setOpenMatchId(id);
   }, []);
 
-  // ✅ LIVE SUBSCRIPTIONS: when admin changes matches/goals/teams/players => reload
+  useEffect(() => {
+    if (loading || !openMatchId) return;
+    document.getElementById(`match-${openMatchId}`)?.scrollIntoView({ block: "center" });
+    // only when the page first renders the list
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [loading]);
+
+  // ✅ LIVE SUBSCRIPTIONS: when admin changes matches/events/teams/players => reload
   useEffect(() => {
     const channel = supabase
       .channel("app_matches_live")
       .on("postgres_changes", { event: "*", schema: "public", table: "matches" }, () => scheduleReload())
-      .on("postgres_changes", { event: "*", schema: "public", table: "match_goals" }, () => scheduleReload())
+      .on("postgres_changes", { event: "*", schema: "public", table: "match_events" }, () => scheduleReload())
+      .on("postgres_changes", { event: "*", schema: "public", table: "match_lineups" }, () => scheduleReload())
+      .on("postgres_changes", { event: "*", schema: "public", table: "match_officials" }, () => scheduleReload())
       .on("postgres_changes", { event: "*", schema: "public", table: "teams" }, () => scheduleReload())
       .on("postgres_changes", { event: "*", schema: "public", table: "players" }, () => scheduleReload())
       .subscribe();
@@ -148,7 +251,7 @@ export default function MatchesPage() {
       if (reloadTimer.current) window.clearTimeout(reloadTimer.current);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
 
   const teamName = useMemo(() => {
     const m = new Map<string, string>();
@@ -162,6 +265,8 @@ export default function MatchesPage() {
     return m;
   }, [groups]);
 
+  const venueName = useMemo(() => new Map(venues.map((v) => [v.id, v.name])), [venues]);
+
   // ✅ FIX: map id -> (display_name || full_name)
   const playerName = useMemo(() => {
     const m = new Map<string, string>();
@@ -171,27 +276,29 @@ export default function MatchesPage() {
     return m;
   }, [players]);
 
-  const goalsByMatch = useMemo(() => {
-    const map = new Map<string, GoalRow[]>();
-    goals.forEach((g) => {
-      if (!map.has(g.match_id)) map.set(g.match_id, []);
-      map.get(g.match_id)!.push(g);
-    });
+  const lineupsByMatch = useMemo(() => {
+    const map = new Map<string, LineupRow[]>();
+    lineups.forEach((l) => map.set(l.match_id, [...(map.get(l.match_id) || []), l]));
+    return map;
+  }, [lineups]);
 
-    for (const [k, arr] of map.entries()) {
-      arr.sort((a, b) => {
-        const ma = a.minute ?? 10_000;
-        const mb = b.minute ?? 10_000;
-        if (ma !== mb) return ma - mb;
-        return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
-      });
-      map.set(k, arr);
-    }
+  const officialsByMatch = useMemo(() => {
+    const map = new Map<string, OfficialLine[]>();
+    officials.forEach((o) => map.set(o.match_id, [...(map.get(o.match_id) || []), o]));
+    return map;
+  }, [officials]);
 
+  const eventsByMatch = useMemo(() => {
+    const map = new Map<string, MatchEvent[]>();
+    sortTimeline(events).forEach((e) => {
+      if (!map.has(e.match_id)) map.set(e.match_id, []);
+      map.get(e.match_id)!.push(e);
+    });
     return map;
-  }, [goals]);
+  }, [events]);
 
-  const upcoming = useMemo(() => matches.filter((m) => m.status !== "finished"), [matches]);
+  const live = useMemo(() => matches.filter((m) => isLive(m)), [matches]);
+  const upcoming = useMemo(() => matches.filter((m) => m.status !== "finished" && !isLive(m)), [matches]);
   const finished = useMemo(() => matches.filter((m) => m.status === "finished"), [matches]);
 
   if (loading) return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading…</div>;
@@ -211,6 +318,31 @@ export default function MatchesPage() {
 
         {err && <div className="text-red-400">{err}</div>}
 
+        {/* LIVE */}
+        {live.length > 0 ? (
+          <Section title="Live Now">
+            <div className="space-y-3">
+              {live.map((m) => (
+                <MatchCard
+                  key={m.id}
+                  m={m}
+                  open={openMatchId === m.id}
+                  setOpen={(v) => setOpenMatchId(v ? m.id : null)}
+                  teamName={teamName}
+                  matches={matches}
+                  groupName={groupName}
+                  venueName={venueName}
+                  playerName={playerName}
+                  events={eventsByMatch.get(m.id) || []}
+                  lineup={lineupsByMatch.get(m.id) || []}
+                  officials={officialsByMatch.get(m.id) || []}
+                  lengths={tournament}
+                />
+              ))}
+            </div>
+          </Section>
+        ) : null}
+
         {/* UPCOMING */}
         <Section title="Upcoming Matches">
           {upcoming.length === 0 ? (
@@ -224,9 +356,14 @@ export default function MatchesPage() {
                   open={openMatchId === m.id}
                   setOpen={(v) => setOpenMatchId(v ? m.id : null)}
                   teamName={teamName}
+                  matches={matches}
                   groupName={groupName}
+                  venueName={venueName}
                   playerName={playerName}
-                  goals={goalsByMatch.get(m.id) || []}
+                  events={eventsByMatch.get(m.id) || []}
+                  lineup={lineupsByMatch.get(m.id) || []}
+                  officials={officialsByMatch.get(m.id) || []}
+                  lengths={tournament}
                 />
               ))}
             </div>
@@ -246,9 +383,14 @@ export default function MatchesPage() {
                   open={openMatchId === m.id}
                   setOpen={(v) => setOpenMatchId(v ? m.id : null)}
                   teamName={teamName}
+                  matches={matches}
                   groupName={groupName}
+                  venueName={venueName}
                   playerName={playerName}
-                  goals={goalsByMatch.get(m.id) || []}
+                  events={eventsByMatch.get(m.id) || []}
+                  lineup={lineupsByMatch.get(m.id) || []}
+                  officials={officialsByMatch.get(m.id) || []}
+                  lengths={tournament}
                 />
               ))}
             </div>
@@ -256,7 +398,7 @@ export default function MatchesPage() {
         </Section>
 
         <div className="text-white/40 text-xs">
-          Tip: If multiple changes happen quickly (score + goals + MOTM), the page auto-updates once after a short delay.
+          Tip: If multiple changes happen quickly (score + events + MOTM), the page auto-updates once after a short delay.
         </div>
       </div>
     </div>
@@ -277,32 +419,42 @@ function MatchCard({
   open,
   setOpen,
   teamName,
+  matches,
   groupName,
+  venueName,
   playerName,
-  goals,
+  events,
+  lineup,
+  officials,
+  lengths,
 }: {
   m: MatchRow;
   open: boolean;
   setOpen: (v: boolean) => void;
   teamName: Map<string, string>;
+  matches: MatchRow[];
   groupName: Map<string, string>;
+  venueName: Map<string, string>;
   playerName: Map<string, string>;
-  goals: GoalRow[];
+  events: MatchEvent[];
+  lineup: LineupRow[];
+  officials: OfficialLine[];
+  lengths: MatchLengths;
 }) {
-  const home = teamName.get(m.home_team_id) || "TBD";
-  const away = teamName.get(m.away_team_id) || "TBD";
+  const home = (m.home_team_id && teamName.get(m.home_team_id)) || slotPlaceholder(m, "home", matches);
+  const away = (m.away_team_id && teamName.get(m.away_team_id)) || slotPlaceholder(m, "away", matches);
 
   const meta =
     m.stage === "group"
       ? `Group • ${m.group_id ? groupName.get(m.group_id) || "—" : "—"}`
       : `Knockout${m.knockout_round ? ` • ${m.knockout_round}` : ""}`;
 
-  const score = m.home_score == null || m.away_score == null ? "—" : `${m.home_score} - ${m.away_score}`;
+  const score = formatScore(m, " - ");
 
   const motm = m.motm_player_id ? playerName.get(m.motm_player_id) || "Unknown" : null;
 
   return (
-    <div className="bg-[#0b1530] border border-[#1f2a60] rounded-2xl p-4">
+    <div id={`match-${m.id}`} className="bg-[#0b1530] border border-[#1f2a60] rounded-2xl p-4">
       <button onClick={() => setOpen(!open)} className="w-full text-left" title="Click to open match details">
         <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-2">
           <div>
@@ -310,8 +462,15 @@ function MatchCard({
               {home} <span className="text-white/60 font-normal">vs</span> {away}
             </div>
             <div className="text-white/60 text-sm">
-              {meta} • {fmtKickoff(m.start_time)} • <b>{m.status}</b>
+              {meta} • {fmtKickoff(m.start_time)}
+              {m.venue_id && venueName.get(m.venue_id) ? ` • ${venueName.get(m.venue_id)}` : ""} •{" "}
+              {isLive(m) ? <MatchClock match={m} lengths={lengths} /> : <b>{m.status}</b>}
             </div>
+            {officials.length ? (
+              <div className="text-white/50 text-xs mt-0.5">
+                {officials.map((o) => `${OFFICIAL_ROLE_LABELS[o.role]}: ${o.name}`).join(" • ")}
+              </div>
+            ) : null}
           </div>
 
           <div className="flex items-center gap-3">
@@ -331,26 +490,87 @@ function MatchCard({
           </div>
 
           <div className="bg-[#111c44] border border-white/10 rounded-xl p-3">
-            <div className="font-bold mb-2">Goals</div>
+            <div className="font-bold mb-2">Lineups</div>
 
-            {goals.length === 0 ? (
-              <div className="text-white/50 text-sm">No goals recorded for this match.</div>
+            {lineup.length === 0 ? (
+              <div className="text-white/50 text-sm">No lineups yet.</div>
+            ) : (
+              <div className="grid md:grid-cols-2 gap-3">
+                {[
+                  { id: m.home_team_id, name: home },
+                  { id: m.away_team_id, name: away },
+                ].map((side) => {
+                  const lines = lineup.filter((l) => l.team_id === side.id);
+                  const block = (role: LineupRow["role"], title: string) => {
+                    const list = lines.filter((l) => l.role === role);
+                    if (!list.length) return null;
+                    return (
+                      <div>
+                        <div className="text-white/60 text-xs mt-1">{title}</div>
+                        {list.map((l) => (
+                          <div key={l.player_id} className="text-sm">
+                            <span className="inline-block w-7 text-white/60">{l.shirt_number ?? ""}</span>
+                            {playerName.get(l.player_id) || "Unknown"}
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  };
+
+                  return (
+                    <div key={side.id || side.name} className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3">
+                      <div className="font-bold">{side.name}</div>
+                      {lines.length === 0 ? (
+                        <div className="text-white/50 text-sm">Not announced yet.</div>
+                      ) : (
+                        <>
+                          {block("starter", "Starting")}
+                          {block("substitute", "Substitutes")}
+                        </>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-[#111c44] border border-white/10 rounded-xl p-3">
+            <div className="font-bold mb-2">Timeline</div>
+
+            {events.length === 0 ? (
+              <div className="text-white/50 text-sm">Nothing recorded for this match yet.</div>
             ) : (
               <div className="space-y-2">
-                {goals.map((g) => {
-                  const scorer = playerName.get(g.scorer_player_id) || "Unknown";
-                  const assist = g.assist_player_id ? playerName.get(g.assist_player_id) || "Unknown" : null;
-                  const t = teamName.get(g.scoring_team_id) || "Team";
-                  const min = g.minute != null ? `${g.minute}'` : "";
+                {events.map((ev) => {
+                  const player = playerName.get(ev.player_id) || "Unknown";
+                  const related = ev.related_player_id ? playerName.get(ev.related_player_id) || "Unknown" : null;
+                  const role = relatedPlayerRole(ev.kind);
+                  const t = teamName.get(ev.team_id) || "Team";
+                  // home team's events on the left, away team's on the right
+                  const away = ev.team_id === m.away_team_id;
 
                   return (
-                    <div key={g.id} className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3">
-                      <div className="text-white/60 text-xs">
-                        {t} {min ? `• ${min}` : ""}
-                      </div>
-                      <div className="font-bold">
-                        ⚽ {scorer}
-                        {assist ? <span className="text-white/60 font-normal"> (assist: {assist})</span> : null}
+                    <div key={ev.id} className={`flex ${away ? "justify-end" : "justify-start"}`}>
+                      <div
+                        className={`bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 max-w-[85%] ${
+                          away ? "text-right" : ""
+                        }`}
+                      >
+                        <div className="text-white/60 text-xs">
+                          {ev.minute != null ? `${ev.minute}' • ` : ""}
+                          {MATCH_EVENT_LABELS[ev.kind]} • {t}
+                        </div>
+                        <div className="font-bold">
+                          {MATCH_EVENT_ICONS[ev.kind]} {eventPlayerLabel(ev, player)}
+                          {role === "assist" && related ? (
+                            <span className="text-white/60 font-normal"> (assist: {related})</span>
+                          ) : null}
+                          {role === "coming_on" && related ? (
+                            <span className="text-white/60 font-normal"> off, {related} on</span>
+                          ) : null}
+                        </div>
+                        {ev.note ? <div className="text-white/60 text-xs">{ev.note}</div> : null}
                       </div>
                     </div>
                   );
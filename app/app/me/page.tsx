@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { tournamentLabel, useTournament } from "@/components/TournamentContext";
 
 type Team = { id: string; name: string };
 type RosterPlayer = {
@@ -14,8 +15,12 @@ type RosterPlayer = {
   linked_profile_id: string | null;
 };
 
+type LinkState = "linked" | "unlinked" | "conflict";
+
+// one row per tournament the player has played in
 type PlayerStats = {
   player_id: string;
+  tournament_id: string;
   matches_played: number | null;
   goals: number | null;
   assists: number | null;
@@ -24,13 +29,23 @@ type PlayerStats = {
 
 export default function MePage() {
   const router = useRouter();
+  const { tournament, tournaments } = useTournament();
 
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
 
   const [meRoster, setMeRoster] = useState<RosterPlayer | null>(null);
+  const [linkState, setLinkState] = useState<LinkState>("unlinked");
+  const [conflicts, setConflicts] = useState<RosterPlayer[]>([]);
+  const [account, setAccount] = useState<{ role: string; status: string } | null>(null);
   const [team, setTeam] = useState<Team | null>(null);
-  const [stats, setStats] = useState<PlayerStats | null>(null);
+  const [seasonStats, setSeasonStats] = useState<PlayerStats[]>([]);
+
+  const stats = seasonStats.find((s) => s.tournament_id === tournament.id) || null;
+  const otherSeasons = tournaments.flatMap((tr) => {
+    const s = seasonStats.find((x) => x.tournament_id === tr.id);
+    return s && tr.id !== tournament.id ? [{ tournament: tr, stats: s }] : [];
+  });
 
   async function load() {
     setLoading(true);
@@ -44,12 +59,15 @@ export default function MePage() {
     }
     const uid = userData.user.id;
 
-    // 2) find roster player that is linked to this user
-    const { data: rp, error: rpErr } = await supabase
+    const { data: prof } = await supabase.from("profiles").select("role,status").eq("id", uid).maybeSingle();
+    setAccount(prof ?? null);
+
+    // 2) find roster player(s) linked to this user (should be exactly one)
+    const { data: rps, error: rpErr } = await supabase
       .from("players")
       .select("id,full_name,display_name,university,position,linked_profile_id")
       .eq("linked_profile_id", uid)
-      .maybeSingle();
+      .is("archived_at", null);
 
     if (rpErr) {
       setErr(`Roster lookup error: ${rpErr.message}`);
@@ -57,34 +75,42 @@ export default function MePage() {
       return;
     }
 
-    if (!rp) {
+    const linked = (rps as RosterPlayer[]) || [];
+
+    if (linked.length !== 1) {
+      setLinkState(linked.length > 1 ? "conflict" : "unlinked");
+      setConflicts(linked.length > 1 ? linked : []);
       setMeRoster(null);
       setTeam(null);
-      setStats(null);
+      setSeasonStats([]);
       setLoading(false);
       return;
     }
 
-    setMeRoster(rp as RosterPlayer);
+    const rp = linked[0];
+    setLinkState("linked");
+    setConflicts([]);
+    setMeRoster(rp);
 
-    // 3) stats row
+    // 3) stats rows, every season
     const { data: st, error: stErr } = await supabase
       .from("player_stats")
-      .select("player_id,matches_played,goals,assists,motm")
-      .eq("player_id", rp.id)
-      .maybeSingle();
+      .select("player_id,tournament_id,matches_played,goals,assists,motm")
+      .eq("player_id", rp.id);
 
     if (stErr) {
       setErr(`Stats error: ${stErr.message}`);
     } else {
-      setStats((st as PlayerStats) || null);
+      setSeasonStats((st as PlayerStats[]) || []);
     }
 
-    // 4) team assignment (team_players uses roster player id)
+    // 4) team assignment in this tournament (team_players uses roster player id)
     const { data: tp, error: tpErr } = await supabase
       .from("team_players")
       .select("team_id")
       .eq("player_id", rp.id)
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
       .maybeSingle();
 
     if (tpErr) {
@@ -120,7 +146,7 @@ export default function MePage() {
   useEffect(() => {
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
 
   if (loading) return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading…</div>;
 
@@ -138,12 +164,29 @@ export default function MePage() {
           </div>
         )}
 
-        {!meRoster ? (
+        {linkState === "conflict" ? (
+          <div className="bg-yellow-500/10 border border-yellow-400/40 rounded-2xl p-5">
+            <div className="font-bold text-lg text-yellow-200">Linked to more than one roster player</div>
+            <div className="text-white/70 text-sm">
+              Your account points at {conflicts.length} roster entries (
+              {conflicts.map((c) => c.display_name || c.full_name).join(", ")}). An admin needs to unlink the wrong
+              one(s) in <b>/admin/link-player</b> before your team and stats can show.
+            </div>
+          </div>
+        ) : !meRoster ? (
           <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
             <div className="font-bold text-lg">Not linked yet</div>
             <div className="text-white/70 text-sm">
-              Your account is not linked to a roster player.
-              Admin must link you in <b>/admin/link-player</b>.
+              {account?.role !== "player" ? (
+                <>Only player accounts are linked to a roster player. Fan accounts don’t have team stats.</>
+              ) : account?.status !== "active" ? (
+                <>Your player account is waiting for approval. Once approved, an admin links it to your roster entry.</>
+              ) : (
+                <>
+                  Your account is not linked to a roster player yet. An admin links you in{" "}
+                  <b>/admin/link-player</b>.
+                </>
+              )}
             </div>
           </div>
         ) : (
@@ -159,10 +202,11 @@ export default function MePage() {
                 Team:{" "}
                 <b className="text-white">{team?.name || "Unassigned"}</b>
               </div>
+              <div className="text-green-400 text-xs">Linked to your account ✅</div>
             </div>
 
             <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
-              <div className="text-xl font-bold mb-3">My Stats</div>
+              <div className="text-xl font-bold mb-3">My Stats • {tournamentLabel(tournament)}</div>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                 <StatBox label="Matches" value={stats?.matches_played ?? 0} />
                 <StatBox label="Goals" value={stats?.goals ?? 0} />
@@ -170,6 +214,24 @@ export default function MePage() {
                 <StatBox label="MOTM" value={stats?.motm ?? 0} />
               </div>
             </div>
+
+            {otherSeasons.length ? (
+              <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-2">
+                <div className="text-xl font-bold mb-1">Other Seasons</div>
+                {otherSeasons.map(({ tournament: tr, stats: s }) => (
+                  <div
+                    key={tr.id}
+                    className="bg-[#0b1530] border border-[#1f2a60] rounded-xl px-4 py-3 flex items-center justify-between gap-3 flex-wrap"
+                  >
+                    <div className="font-bold">{tournamentLabel(tr)}</div>
+                    <div className="text-white/70 text-sm">
+                      {s.matches_played ?? 0} matches • {s.goals ?? 0} goals • {s.assists ?? 0} assists •{" "}
+                      {s.motm ?? 0} MOTM
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : null}
           </>
         )}
       </div>
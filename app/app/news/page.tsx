@@ -1,31 +1,35 @@
 "use client";
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { useTournament } from "@/components/TournamentContext";
 
 type NewsPost = {
   id: string;
   created_at: string;
+  publish_at: string | null;
+  updated_at: string | null;
   title: string | null;
   body: string | null;
   media_url: string | null;
   media_type: "image" | "video" | "none" | null;
 };
 
-const NEWS_TABLE_CANDIDATES = ["news_posts", "news", "posts"];
+// scheduled posts are hidden until publish_at, and nothing fires then: poll for them
+const REFRESH_MS = 60_000;
+
+// "Updated" only when the post was edited after it went live
+function wasUpdated(p: NewsPost) {
+  return !!p.updated_at && new Date(p.updated_at).getTime() > new Date(p.publish_at || p.created_at).getTime();
+}
 
 export default function NewsPage() {
+  const { tournament } = useTournament();
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
   const [posts, setPosts] = useState<NewsPost[]>([]);
-
-  async function getNewsTableName(): Promise<string> {
-    for (const t of NEWS_TABLE_CANDIDATES) {
-      const { error } = await supabase.from(t).select("id").limit(1);
-      if (!error) return t;
-    }
-    return "news_posts";
-  }
+  // newest post shown; a background refresh only marks read when a newer one comes in
+  const newestId = useRef<string | null>(null);
 
   async function markReadNow() {
     const { data: authData } = await supabase.auth.getUser();
@@ -40,15 +44,20 @@ export default function NewsPage() {
     if (error) setErr("Mark read failed: " + error.message);
   }
 
-  async function load() {
-    setLoading(true);
-    setErr("");
+  async function load(background = false) {
+    if (!background) {
+      setLoading(true);
+      setErr("");
+    }
 
-    const table = await getNewsTableName();
+    // drafts and scheduled posts are hidden by RLS too; filter anyway for editors
     const { data, error } = await supabase
-      .from(table)
-      .select("id,created_at,title,body,media_url,media_type")
-      .order("created_at", { ascending: false });
+      .from("news_posts")
+      .select("id,created_at,publish_at,updated_at,title,body,media_url,media_type")
+      .eq("tournament_id", tournament.id)
+      .eq("status", "published")
+      .lte("publish_at", new Date().toISOString())
+      .order("publish_at", { ascending: false });
 
     if (error) {
       setErr(error.message);
@@ -56,11 +65,14 @@ export default function NewsPage() {
       return;
     }
 
-    setPosts((data as NewsPost[]) || []);
+    const list = (data as NewsPost[]) || [];
+    const fresh = (list[0]?.id ?? null) !== newestId.current;
+    newestId.current = list[0]?.id ?? null;
+    setPosts(list);
     setLoading(false);
 
-    // ✅ After load, mark as read
-    await markReadNow();
+    // ✅ After load, mark as read (the unread dot follows the current tournament's news)
+    if (tournament.is_current && (!background || fresh)) await markReadNow();
   }
 
   useEffect(() => {
@@ -69,17 +81,21 @@ export default function NewsPage() {
     (async () => {
       await load();
 
-      const table = await getNewsTableName();
+      // UPDATE too: publishing a draft and editing a post are updates
       channel = supabase
         .channel("news-feed")
-        .on("postgres_changes", { event: "INSERT", schema: "public", table }, () => load())
+        .on("postgres_changes", { event: "*", schema: "public", table: "news_posts" }, () => load())
         .subscribe();
     })();
 
+    const timer = setInterval(() => load(true), REFRESH_MS);
+
     return () => {
+      clearInterval(timer);
       if (channel) supabase.removeChannel(channel);
     };
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournament.id]);
 
   if (loading) return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading…</div>;
 
@@ -103,7 +119,10 @@ export default function NewsPage() {
               <div key={p.id} className="bg-[#111c44] border border-white/10 rounded-2xl p-5 space-y-3">
                 <div>
                   <div className="text-lg font-bold">{p.title || "Update"}</div>
-                  <div className="text-white/50 text-xs">{new Date(p.created_at).toLocaleString()}</div>
+                  <div className="text-white/50 text-xs">
+                    {new Date(p.publish_at || p.created_at).toLocaleString()}
+                    {wasUpdated(p) ? ` • Updated ${new Date(p.updated_at!).toLocaleString()}` : ""}
+                  </div>
                 </div>
 
                 {p.body ? <div className="text-white/80 whitespace-pre-wrap">{p.body}</div> : null}
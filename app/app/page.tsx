@@ -3,6 +3,8 @@
 import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import LiveMatches from "@/components/LiveMatches";
+import { useTournament } from "@/components/TournamentContext";
 
 type Team = {
   id: string;
@@ -56,6 +58,7 @@ function safeName(x: any) {
 }
 
 function statsFrom(pl: any): PlayerStats | null {
+  // player_stats is filtered to the selected tournament, so at most one row
   const raw = pl?.player_stats;
   if (!raw) return null;
   if (Array.isArray(raw)) return raw[0] ?? null;
@@ -64,6 +67,7 @@ function statsFrom(pl: any): PlayerStats | null {
 
 export default function HomePage() {
   const router = useRouter();
+  const { tournament } = useTournament();
 
   const [teams, setTeams] = useState<Team[]>([]);
   const [players, setPlayers] = useState<PlayerRow[]>([]);
@@ -114,6 +118,8 @@ export default function HomePage() {
     const { data: t, error: tErr } = await supabase
       .from("teams")
       .select("id,name")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
       .order("name");
 
     if (tErr) {
@@ -141,7 +147,10 @@ export default function HomePage() {
           )
         )
       `
-      );
+      )
+      .eq("tournament_id", tournament.id)
+      .eq("players.player_stats.tournament_id", tournament.id)
+      .is("archived_at", null);
 
     if (tpErr) {
       setErr(`Team players error: ${tpErr.message}`);
@@ -183,6 +192,8 @@ export default function HomePage() {
         )
       `
       )
+      .eq("player_stats.tournament_id", tournament.id)
+      .is("archived_at", null)
       .order("created_at", { ascending: true });
 
     if (allPErr) {
@@ -218,7 +229,8 @@ export default function HomePage() {
 
   useEffect(() => {
     load();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournament.id]);
 
   const teamNameById = useMemo(() => {
     const m = new Map<string, string>();
@@ -284,6 +296,8 @@ export default function HomePage() {
           </div>
         )}
 
+        <LiveMatches />
+
         {/* Leaderboards */}
         <div className="grid md:grid-cols-2 gap-4">
           <div className="bg-[#111c44]/75 backdrop-blur border border-white/10 rounded-2xl p-5">
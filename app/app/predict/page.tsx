@@ -3,18 +3,31 @@
 import { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { slotPlaceholder } from "@/lib/bracket";
+import { formatScore } from "@/lib/matchResult";
+import { useTournament } from "@/components/TournamentContext";
 
 type MatchRow = {
   id: string;
   stage: "group" | "knockout";
   start_time: string | null;
   status: "scheduled" | "finished";
-  home_team_id: string;
-  away_team_id: string;
+  // null until the source match ("Winner QF1") is finished
+  home_team_id: string | null;
+  away_team_id: string | null;
   home_score: number | null;
   away_score: number | null;
+  et_home_score: number | null;
+  et_away_score: number | null;
+  home_pens: number | null;
+  away_pens: number | null;
   knockout_round: string | null;
+  knockout_order: number | null;
   knockout_label: string | null;
+  home_source_match_id: string | null;
+  home_source: string | null;
+  away_source_match_id: string | null;
+  away_source: string | null;
 };
 
 type Team = { id: string; name: string };
@@ -24,6 +37,8 @@ type MyPred = {
   user_id: string;
   home_pred: number;
   away_pred: number;
+  // set when the match is finalized
+  points: number | null;
 };
 
 type LeaderRow = {
@@ -49,6 +64,7 @@ function prettyRound(code: string | null) {
 
 export default function PredictPage() {
   const router = useRouter();
+  const { tournament } = useTournament();
   const [meId, setMeId] = useState<string | null>(null);
   const [meRole, setMeRole] = useState<string | null>(null);
 
@@ -110,21 +126,29 @@ export default function PredictPage() {
 
     setMeRole(prof?.role ?? null);
 
-    const { data: t } = await supabase.from("teams").select("id,name").order("name");
+    const { data: t } = await supabase
+      .from("teams")
+      .select("id,name")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
+      .order("name");
     setTeams((t as Team[]) || []);
 
     const { data: m } = await supabase
       .from("matches")
       .select(
-        "id,stage,start_time,status,home_team_id,away_team_id,home_score,away_score,knockout_round,knockout_label"
+        "id,stage,start_time,status,home_team_id,away_team_id,home_score,away_score,et_home_score,et_away_score,home_pens,away_pens,knockout_round,knockout_order,knockout_label,home_source_match_id,home_source,away_source_match_id,away_source"
       )
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
       .order("start_time", { ascending: true, nullsFirst: false });
 
     setMatches((m as MatchRow[]) || []);
 
     const { data: mp } = await supabase
       .from("predictions")
-      .select("match_id,user_id,home_pred,away_pred")
+      .select("match_id,user_id,home_pred,away_pred,points")
+      .eq("tournament_id", tournament.id)
       .eq("user_id", user.id);
 
     setMyPreds((mp as MyPred[]) || []);
@@ -132,6 +156,7 @@ export default function PredictPage() {
     const { data: lb } = await supabase
       .from("prediction_leaderboard")
       .select("user_id,name,university,total_points,predictions_count")
+      .eq("tournament_id", tournament.id)
       .limit(50);
 
     setLeaderboard((lb as LeaderRow[]) || []);
@@ -140,11 +165,11 @@ export default function PredictPage() {
     isLoadingRef.current = false;
   }
 
-  // initial load
+  // initial load (and on a season switch)
   useEffect(() => {
     load();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
 
   // ✅ AUTO-REFRESH ONLY HERE: every 60 seconds (silent)
   useEffect(() => {
@@ -158,7 +183,7 @@ export default function PredictPage() {
 
     return () => window.clearInterval(interval);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+  }, [tournament.id]);
 
   async function submitPrediction(matchId: string, home: number, away: number) {
     setErr("");
@@ -259,8 +284,8 @@ export default function PredictPage() {
           ) : (
             <div className="space-y-3">
               {upcoming.map((m) => {
-                const home = teamNameById.get(m.home_team_id) || "Home";
-                const away = teamNameById.get(m.away_team_id) || "Away";
+                const home = (m.home_team_id && teamNameById.get(m.home_team_id)) || slotPlaceholder(m, "home", matches);
+                const away = (m.away_team_id && teamNameById.get(m.away_team_id)) || slotPlaceholder(m, "away", matches);
                 const time = m.start_time ? new Date(m.start_time).toLocaleString() : "TBD";
 
                 const meta =
@@ -279,6 +304,7 @@ export default function PredictPage() {
                     title={`${home} vs ${away}`}
                     meta={`${meta} • ${time}`}
                     canPredict={meRole === "fan"}
+                    teamsKnown={!!m.home_team_id && !!m.away_team_id}
                     existing={existing ? `${existing.home_pred}-${existing.away_pred}` : null}
                     onSubmit={submitPrediction}
                   />
@@ -296,16 +322,16 @@ export default function PredictPage() {
           ) : (
             <div className="space-y-2">
               {finished.slice(0, 10).map((m) => {
-                const home = teamNameById.get(m.home_team_id) || "Home";
-                const away = teamNameById.get(m.away_team_id) || "Away";
-                const score =
-                  m.home_score == null || m.away_score == null ? "—" : `${m.home_score}-${m.away_score}`;
+                const home = (m.home_team_id && teamNameById.get(m.home_team_id)) || slotPlaceholder(m, "home", matches);
+                const away = (m.away_team_id && teamNameById.get(m.away_team_id)) || slotPlaceholder(m, "away", matches);
+                const score = formatScore(m);
                 const meta =
                   m.stage === "knockout"
                     ? m.knockout_label
                       ? `${prettyRound(m.knockout_round)} • ${m.knockout_label}`
                       : `${prettyRound(m.knockout_round)}`
                     : "Group Stage";
+                const mine = myPredByMatch.get(m.id);
                 return (
                   <div
                     key={m.id}
@@ -315,7 +341,16 @@ export default function PredictPage() {
                       <div className="font-bold">
                         {home} <span className="text-white/60 font-normal">vs</span> {away}
                       </div>
-                      <div className="text-white/60 text-xs">{meta}</div>
+                      <div className="text-white/60 text-xs">
+                        {meta}
+                        {mine ? (
+                          <>
+                            {" "}
+                            • You: {mine.home_pred}-{mine.away_pred}
+                            {mine.points != null ? <b className="text-green-300"> +{mine.points}</b> : null}
+                          </>
+                        ) : null}
+                      </div>
                     </div>
                     <div className="text-lg font-bold">{score}</div>
                   </div>
@@ -338,6 +373,7 @@ function UpcomingCard({
   title,
   meta,
   canPredict,
+  teamsKnown,
   existing,
   onSubmit,
 }: {
@@ -345,6 +381,7 @@ function UpcomingCard({
   title: string;
   meta: string;
   canPredict: boolean;
+  teamsKnown: boolean;
   existing: string | null;
   onSubmit: (matchId: string, home: number, away: number) => Promise<void>;
 }) {
@@ -358,6 +395,8 @@ function UpcomingCard({
 
       {existing ? (
         <div className="text-green-300 font-bold">Your prediction: {existing} ✅</div>
+      ) : !teamsKnown ? (
+        <div className="text-white/50 text-xs">Predictions open once both teams are known.</div>
       ) : (
         <div className="flex flex-wrap items-center gap-3">
           <input
@@ -1,116 +1,105 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { SEPARATION_LABELS, SEPARATION_SHORT, StandingsResponse } from "@/lib/standings";
+import { fetchStandings } from "@/lib/standingsApi";
+import { BracketColumn, bracketLayout, slotPlaceholder } from "@/lib/bracket";
+import { finalScore, formatScore, hasPenalties, winnerSide } from "@/lib/matchResult";
+import DisciplineTable from "@/components/DisciplineTable";
+import { useTournament } from "@/components/TournamentContext";
 
 type Team = { id: string; name: string };
-type Group = { id: string; name: string };
 
 type MatchRow = {
   id: string;
   stage: "group" | "knockout";
   group_id: string | null;
-  home_team_id: string;
-  away_team_id: string;
+  home_team_id: string | null;
+  away_team_id: string | null;
   start_time: string | null;
   status: "scheduled" | "finished";
   home_score: number | null;
   away_score: number | null;
+  et_home_score: number | null;
+  et_away_score: number | null;
+  home_pens: number | null;
+  away_pens: number | null;
   knockout_round: string | null;
+  knockout_order: number | null;
+  home_source_match_id: string | null;
+  home_source: string | null;
+  away_source_match_id: string | null;
+  away_source: string | null;
 };
 
-/** Supabase join sometimes returns object OR array depending on FK settings */
-type JoinOne<T> = T | T[] | null;
-
-type TeamGroupRow = {
-  team_id: string;
-  group_id: string;
-  teams: JoinOne<{ id: string; name: string }>;
-  groups: JoinOne<{ id: string; name: string }>;
+const ROUND_NAMES: Record<string, string> = {
+  R16: "Round of 16",
+  QF: "Quarterfinals",
+  SF: "Semifinals",
+  F: "Final",
+  "3P": "3rd Place",
 };
 
-function pickOne<T>(x: JoinOne<T>): T | null {
-  if (!x) return null;
-  return Array.isArray(x) ? x[0] ?? null : x;
-}
-
-function normRoundLabel(x: string | null) {
-  const s = (x || "").trim();
-  return s.length ? s : "Knockout";
-}
-
-// Flexible ordering (works with QF/SF/F, and also full words)
-function roundOrder(label: string) {
-  const x = label.toLowerCase();
-  if (x.includes("round of 16") || x.includes("r16") || x.includes("ro16")) return 1;
-  if (x.includes("quarter") || x === "qf") return 2;
-  if (x.includes("semi") || x === "sf") return 3;
-  if (x.includes("third") || x.includes("3rd") || x.includes("bronze")) return 4;
-  if (x.includes("final") || x === "f") return 5;
-  if (x === "knockout") return 99;
-  return 50; // unknown custom rounds go in the middle
-}
+// bracket geometry: every first-round slot gets one grid row of this height
+const SLOT_HEIGHT = 92;
 
 export default function StandingsPage() {
+  const { tournament } = useTournament();
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState("");
 
   const [teams, setTeams] = useState<Team[]>([]);
-  const [groups, setGroups] = useState<Group[]>([]);
-  const [teamGroups, setTeamGroups] = useState<TeamGroupRow[]>([]);
-  const [groupMatches, setGroupMatches] = useState<MatchRow[]>([]);
+  const [standings, setStandings] = useState<StandingsResponse>({ tiebreakers: [], groups: [] });
   const [knockoutMatches, setKnockoutMatches] = useState<MatchRow[]>([]);
 
+  // several realtime events in a row -> one reload
+  const reloadTimer = useRef<number | null>(null);
+
+  function scheduleReload() {
+    if (reloadTimer.current) window.clearTimeout(reloadTimer.current);
+    reloadTimer.current = window.setTimeout(() => {
+      load(true);
+    }, 250);
+  }
+
   function fail(message: string) {
     setErr(message);
     setLoading(false);
   }
 
-  async function load() {
-    setLoading(true);
+  // quiet: live refresh without the full-page loader
+  async function load(quiet = false) {
+    if (!quiet) setLoading(true);
     setErr("");
 
-    // Teams
-    const { data: t, error: tErr } = await supabase.from("teams").select("id,name").order("name");
+    // Group tables are computed on the server (/api/standings)
+    try {
+      setStandings(await fetchStandings(tournament.id));
+    } catch (e: unknown) {
+      return fail(e instanceof Error ? e.message : "Failed to load standings");
+    }
+
+    // Teams (names for the knockout list)
+    const { data: t, error: tErr } = await supabase
+      .from("teams")
+      .select("id,name")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null)
+      .order("name");
     if (tErr) return fail(tErr.message);
     setTeams((t as Team[]) || []);
 
-    // Groups
-    const { data: g, error: gErr } = await supabase.from("groups").select("id,name").order("name");
-    if (gErr) return fail(gErr.message);
-    setGroups((g as Group[]) || []);
-
-    // Team -> Group mapping (THIS is what makes user see changes instantly)
-    // Using your table: team_groups
-    const { data: tg, error: tgErr } = await supabase
-      .from("team_groups")
-      .select(
-        `
-        team_id,
-        group_id,
-        teams:team_id ( id, name ),
-        groups:group_id ( id, name )
-      `
-      );
-
-    if (tgErr) return fail(tgErr.message);
-    setTeamGroups((((tg as any[]) || []) as TeamGroupRow[]) || []);
-
-    // Group matches
-    const { data: gm, error: gmErr } = await supabase
-      .from("matches")
-      .select("id,stage,group_id,home_team_id,away_team_id,start_time,status,home_score,away_score,knockout_round")
-      .eq("stage", "group")
-      .order("start_time", { ascending: true, nullsFirst: false });
-
-    if (gmErr) return fail(gmErr.message);
-    setGroupMatches((gm as MatchRow[]) || []);
-
     // Knockout matches
     const { data: km, error: kmErr } = await supabase
       .from("matches")
-      .select("id,stage,group_id,home_team_id,away_team_id,start_time,status,home_score,away_score,knockout_round")
+      .select(
+        "id,stage,group_id,home_team_id,away_team_id,start_time,status,home_score,away_score,et_home_score,et_away_score,home_pens,away_pens,knockout_round,knockout_order,home_source_match_id,home_source,away_source_match_id,away_source"
+      )
+      .eq("tournament_id", tournament.id)
       .eq("stage", "knockout")
+      .is("archived_at", null)
       .order("start_time", { ascending: true, nullsFirst: false });
 
     if (kmErr) return fail(kmErr.message);
@@ -121,168 +110,36 @@ export default function StandingsPage() {
 
   useEffect(() => {
     load();
-  }, []);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournament.id]);
+
+  // live: results, bracket slots filling in, team renames
+  useEffect(() => {
+    const channel = supabase
+      .channel("app_standings_live")
+      .on("postgres_changes", { event: "*", schema: "public", table: "matches" }, () => scheduleReload())
+      .on("postgres_changes", { event: "*", schema: "public", table: "teams" }, () => scheduleReload())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+      if (reloadTimer.current) window.clearTimeout(reloadTimer.current);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournament.id]);
 
   const teamName = useMemo(() => {
     const m = new Map<string, string>();
     teams.forEach((t) => m.set(t.id, t.name));
-
-    // fallback: if a team didn't load for any reason but join has it
-    teamGroups.forEach((tg) => {
-      const t = pickOne(tg.teams);
-      if (t?.id && t?.name) m.set(t.id, t.name);
-    });
-
     return m;
-  }, [teams, teamGroups]);
+  }, [teams]);
 
-  const groupName = useMemo(() => {
-    const m = new Map<string, string>();
-    groups.forEach((g) => m.set(g.id, g.name));
+  const bracket = useMemo(() => bracketLayout(knockoutMatches), [knockoutMatches]);
 
-    // fallback join
-    teamGroups.forEach((tg) => {
-      const g = pickOne(tg.groups);
-      if (g?.id && g?.name) m.set(g.id, g.name);
-    });
-
-    return m;
-  }, [groups, teamGroups]);
-
-  /** ✅ teams per group comes from team_groups table (not matches) */
-  const teamsInGroup = useMemo(() => {
-    const map = new Map<string, Set<string>>();
-    teamGroups.forEach((tg) => {
-      if (!tg.group_id || !tg.team_id) return;
-      if (!map.has(tg.group_id)) map.set(tg.group_id, new Set());
-      map.get(tg.group_id)!.add(tg.team_id);
-    });
-    return map;
-  }, [teamGroups]);
-
-  /** Compute standings based on finished GROUP matches */
-  const standingsByGroup = useMemo(() => {
-    const out: { group_id: string; rows: any[] }[] = [];
-
-    for (const g of groups) {
-      const set = teamsInGroup.get(g.id) || new Set<string>();
-      const table = new Map<string, any>();
-
-      // ensure each mapped team has a row even before matches
-      for (const teamId of Array.from(set)) {
-        table.set(teamId, {
-          team_id: teamId,
-          played: 0,
-          won: 0,
-          draw: 0,
-          lost: 0,
-          gf: 0,
-          ga: 0,
-          gd: 0,
-          pts: 0,
-        });
-      }
-
-      // apply finished matches
-      groupMatches.forEach((m) => {
-        if (m.group_id !== g.id) return;
-        if (m.status !== "finished") return;
-        if (m.home_score == null || m.away_score == null) return;
-
-        if (!table.has(m.home_team_id)) {
-          table.set(m.home_team_id, {
-            team_id: m.home_team_id,
-            played: 0,
-            won: 0,
-            draw: 0,
-            lost: 0,
-            gf: 0,
-            ga: 0,
-            gd: 0,
-            pts: 0,
-          });
-        }
-        if (!table.has(m.away_team_id)) {
-          table.set(m.away_team_id, {
-            team_id: m.away_team_id,
-            played: 0,
-            won: 0,
-            draw: 0,
-            lost: 0,
-            gf: 0,
-            ga: 0,
-            gd: 0,
-            pts: 0,
-          });
-        }
-
-        const home = table.get(m.home_team_id);
-        const away = table.get(m.away_team_id);
-
-        home.played++;
-        away.played++;
-
-        home.gf += m.home_score;
-        home.ga += m.away_score;
-        away.gf += m.away_score;
-        away.ga += m.home_score;
-
-        if (m.home_score > m.away_score) {
-          home.won++;
-          away.lost++;
-          home.pts += 3;
-        } else if (m.home_score < m.away_score) {
-          away.won++;
-          home.lost++;
-          away.pts += 3;
-        } else {
-          home.draw++;
-          away.draw++;
-          home.pts += 1;
-          away.pts += 1;
-        }
-
-        home.gd = home.gf - home.ga;
-        away.gd = away.gf - away.ga;
-      });
-
-      const rows = Array.from(table.values());
-      rows.sort((a, b) => {
-        if (b.pts !== a.pts) return b.pts - a.pts;
-        if (b.gd !== a.gd) return b.gd - a.gd;
-        if (b.gf !== a.gf) return b.gf - a.gf;
-        return (teamName.get(a.team_id) || "").localeCompare(teamName.get(b.team_id) || "");
-      });
-
-      out.push({ group_id: g.id, rows });
-    }
-
-    return out;
-  }, [groups, teamsInGroup, groupMatches, teamName]);
-
-  /** Knockout grouped by knockout_round */
-  const knockoutGroups = useMemo(() => {
-    const map = new Map<string, MatchRow[]>();
-    knockoutMatches.forEach((m) => {
-      const label = normRoundLabel(m.knockout_round);
-      if (!map.has(label)) map.set(label, []);
-      map.get(label)!.push(m);
-    });
-
-    const entries = Array.from(map.entries());
-    entries.sort((a, b) => roundOrder(a[0]) - roundOrder(b[0]) || a[0].localeCompare(b[0]));
-
-    // sort matches inside each round by start_time
-    entries.forEach(([k, arr]) => {
-      arr.sort((x, y) => {
-        const tx = x.start_time ? new Date(x.start_time).getTime() : 0;
-        const ty = y.start_time ? new Date(y.start_time).getTime() : 0;
-        return tx - ty;
-      });
-    });
-
-    return entries;
-  }, [knockoutMatches]);
+  function sideName(m: MatchRow, side: "home" | "away") {
+    const id = m[`${side}_team_id`];
+    return (id && teamName.get(id)) || slotPlaceholder(m, side, knockoutMatches);
+  }
 
   if (loading) return <div className="min-h-screen bg-[#0b1530] text-white p-8">Loading…</div>;
 
@@ -296,16 +153,19 @@ export default function StandingsPage() {
           <div className="flex items-center justify-between flex-wrap gap-2">
             <h1 className="text-2xl font-bold">Groups</h1>
             <button
-              onClick={load}
+              onClick={() => load()}
               className="bg-blue-600 hover:bg-blue-500 transition px-4 py-2 rounded-xl font-bold"
             >
               Refresh
             </button>
           </div>
+          <div className="text-white/60 text-xs mt-1">
+            Level on points: {standings.tiebreakers.map((r) => SEPARATION_LABELS[r]).join(" → ") || "team name"}
+          </div>
 
           <div className="grid md:grid-cols-2 gap-4 mt-4">
-            {standingsByGroup.map((g) => {
-              const gName = groupName.get(g.group_id) || "Group";
+            {standings.groups.map((g) => {
+              const gName = g.group_name || "Group";
 
               return (
                 <div key={g.group_id} className="bg-[#0b1530] border border-[#1f2a60] rounded-2xl p-4">
@@ -327,25 +187,38 @@ export default function StandingsPage() {
                             <th className="text-right py-2">L</th>
                             <th className="text-right py-2">GD</th>
                             <th className="text-right py-2">Pts</th>
+                            <th className="text-right py-2 pl-3">Split by</th>
                           </tr>
                         </thead>
                         <tbody>
-                          {g.rows.map((r: any) => (
+                          {g.rows.map((r) => (
                             <tr key={r.team_id} className="border-t border-white/10">
-                              <td className="py-2 font-bold">{teamName.get(r.team_id) || "—"}</td>
+                              <td className="py-2 font-bold">
+                                <span className="text-white/50 font-normal mr-2">{r.position}</span>
+                                {r.team_name || "—"}
+                              </td>
                               <td className="py-2 text-right">{r.played}</td>
                               <td className="py-2 text-right">{r.won}</td>
                               <td className="py-2 text-right">{r.draw}</td>
                               <td className="py-2 text-right">{r.lost}</td>
                               <td className="py-2 text-right">{r.gd}</td>
                               <td className="py-2 text-right font-bold">{r.pts}</td>
+                              <td
+                                className={`py-2 pl-3 text-right text-xs ${
+                                  r.separated_by && r.separated_by !== "points" ? "text-yellow-200" : "text-white/40"
+                                }`}
+                                title={r.separated_by ? `Below the team above on: ${SEPARATION_LABELS[r.separated_by]}` : undefined}
+                              >
+                                {r.separated_by ? SEPARATION_SHORT[r.separated_by] : ""}
+                              </td>
                             </tr>
                           ))}
                         </tbody>
                       </table>
 
                       <div className="text-white/50 text-xs mt-2">
-                        Note: points & GD appear after group matches are marked as finished.
+                        Note: points & GD appear after group matches are marked as finished. “Split by” is the rule
+                        that put a team below the one above it.
                       </div>
                     </div>
                   )}
@@ -358,51 +231,163 @@ export default function StandingsPage() {
         {/* KNOCKOUT */}
         <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
           <h2 className="text-2xl font-bold">Knockout</h2>
-          <p className="text-white/60 text-sm">
-            Admin can set any knockout round label (ex: QF, SF, Final, Round of 16). Empty labels go under “Knockout”.
-          </p>
+          <p className="text-white/60 text-sm">Live • Tap a tie to open the match.</p>
 
           {knockoutMatches.length === 0 ? (
             <div className="text-white/70 mt-4">No knockout matches yet.</div>
           ) : (
             <div className="mt-4 space-y-4">
-              {knockoutGroups.map(([label, arr]) => (
-                <div key={label} className="bg-[#0b1530] border border-[#1f2a60] rounded-2xl p-4">
-                  <div className="font-bold text-lg mb-3">{label}</div>
-
-                  <div className="space-y-2">
-                    {arr.map((m) => {
-                      const home = teamName.get(m.home_team_id) || "TBD";
-                      const away = teamName.get(m.away_team_id) || "TBD";
-                      const kickoff = m.start_time ? new Date(m.start_time).toLocaleString() : "—";
-                      const score =
-                        m.home_score == null || m.away_score == null ? "—" : `${m.home_score} - ${m.away_score}`;
-
-                      return (
-                        <div
-                          key={m.id}
-                          className="bg-[#111c44] border border-white/10 rounded-xl p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
-                        >
-                          <div>
-                            <div className="font-bold">
-                              {home} <span className="text-white/60 font-normal">vs</span> {away}
-                            </div>
-                            <div className="text-white/60 text-xs">
-                              {kickoff} • status: {m.status}
-                            </div>
-                          </div>
-
-                          <div className="font-bold text-lg">{score}</div>
-                        </div>
-                      );
-                    })}
+              {bracket.columns.length ? (
+                <div className="overflow-x-auto pb-2">
+                  <div className="flex w-max">
+                    {bracket.columns.map((col, i) => (
+                      <div key={col.round} className="flex">
+                        <BracketRound col={col} depth={i} rows={bracket.columns[0].slots.length} sideName={sideName} />
+                        {i < bracket.columns.length - 1 ? (
+                          <Connectors depth={i} rows={bracket.columns[0].slots.length} />
+                        ) : null}
+                      </div>
+                    ))}
                   </div>
                 </div>
-              ))}
+              ) : null}
+
+              {bracket.thirdPlace ? (
+                <div className="w-56">
+                  <div className="text-white/60 text-sm font-bold mb-2">{ROUND_NAMES["3P"]}</div>
+                  <Tie m={bracket.thirdPlace} sideName={sideName} />
+                </div>
+              ) : null}
+
+              {bracket.other.length ? (
+                <div className="bg-[#0b1530] border border-[#1f2a60] rounded-2xl p-4 space-y-2">
+                  <div className="font-bold">Other knockout matches</div>
+                  {bracket.other.map((m) => (
+                    <Link
+                      key={m.id}
+                      href={`/app/matches?match=${m.id}`}
+                      className="bg-[#111c44] border border-white/10 rounded-xl p-3 flex items-center justify-between gap-2 hover:border-white/30 transition"
+                    >
+                      <div>
+                        <div className="font-bold">
+                          {sideName(m, "home")} <span className="text-white/60 font-normal">vs</span>{" "}
+                          {sideName(m, "away")}
+                        </div>
+                        <div className="text-white/60 text-xs">
+                          {m.knockout_round ? `${m.knockout_round} • ` : ""}
+                          {m.start_time ? new Date(m.start_time).toLocaleString() : "—"} • status: {m.status}
+                        </div>
+                      </div>
+                      <div className="font-bold text-lg">{formatScore(m, " - ")}</div>
+                    </Link>
+                  ))}
+                </div>
+              ) : null}
             </div>
           )}
         </div>
+
+        <DisciplineTable />
+      </div>
+    </div>
+  );
+}
+
+type SideName = (m: MatchRow, side: "home" | "away") => string;
+
+/** One round: slot j of round `depth` spans 2^depth first-round rows, so ties sit between their feeders. */
+function BracketRound({
+  col,
+  depth,
+  rows,
+  sideName,
+}: {
+  col: BracketColumn<MatchRow>;
+  depth: number;
+  rows: number;
+  sideName: SideName;
+}) {
+  const span = 2 ** depth;
+  return (
+    <div className="w-56 shrink-0">
+      <div className="text-white/60 text-sm font-bold mb-2 h-5">{ROUND_NAMES[col.round]}</div>
+      <div className="grid" style={{ gridTemplateRows: `repeat(${rows}, ${SLOT_HEIGHT}px)` }}>
+        {col.slots.map((m, j) => (
+          <div
+            key={j}
+            className="flex items-center"
+            style={{ gridRow: `${j * span + 1} / span ${span}` }}
+          >
+            {m ? (
+              <Tie m={m} sideName={sideName} />
+            ) : (
+              <div className="w-full rounded-xl border border-dashed border-white/10 p-3 text-white/30 text-sm">
+                {col.round}
+                {j + 1}
+              </div>
+            )}
+          </div>
+        ))}
       </div>
     </div>
   );
 }
+
+/** The ┐┘ lines joining two ties to the one they feed. */
+function Connectors({ depth, rows }: { depth: number; rows: number }) {
+  const span = 2 ** (depth + 1);
+  return (
+    <div className="w-8 shrink-0">
+      <div className="h-5 mb-2" />
+      <div className="grid" style={{ gridTemplateRows: `repeat(${rows}, ${SLOT_HEIGHT}px)` }}>
+        {Array.from({ length: Math.ceil(rows / span) }, (_, k) => (
+          <div key={k} className="relative" style={{ gridRow: `${k * span + 1} / span ${span}` }}>
+            <div className="absolute left-0 w-1/2 top-1/4 bottom-1/4 border-y border-r border-white/20 rounded-r" />
+            <div className="absolute right-0 w-1/2 top-1/2 border-t border-white/20" />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Tie({ m, sideName }: { m: MatchRow; sideName: SideName }) {
+  const winner = m.status === "finished" ? winnerSide(m) : null;
+  const [home, away] = finalScore(m);
+  const known = m.home_team_id && m.away_team_id;
+
+  const line = (side: "home" | "away", goals: number, pens: number | null) => (
+    <div
+      className={`flex items-center justify-between gap-2 ${
+        winner === side ? "text-green-300 font-bold" : winner ? "text-white/50" : ""
+      }`}
+    >
+      <span className="truncate">{sideName(m, side)}</span>
+      <span className="tabular-nums">
+        {known ? goals : ""}
+        {known && hasPenalties(m) ? <span className="text-white/50 text-xs"> ({pens ?? 0})</span> : null}
+      </span>
+    </div>
+  );
+
+  return (
+    <Link
+      href={`/app/matches?match=${m.id}`}
+      className={`block w-full rounded-xl border p-3 text-sm transition hover:border-white/40 ${
+        m.status === "finished" ? "bg-[#111c44] border-white/10" : "bg-[#0b1530] border-[#1f2a60]"
+      }`}
+    >
+      {line("home", home, m.home_pens)}
+      {line("away", away, m.away_pens)}
+      <div className="text-white/40 text-xs mt-1">
+        {m.status === "finished"
+          ? m.et_home_score != null && !hasPenalties(m)
+            ? "a.e.t."
+            : "FT"
+          : m.start_time
+            ? new Date(m.start_time).toLocaleString()
+            : "Time TBD"}
+      </div>
+    </Link>
+  );
+}
@@ -3,11 +3,14 @@
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import type { StandingsTableRow } from "@/lib/standings";
+import { fetchStandings } from "@/lib/standingsApi";
 
-type Team = { id: string; name: string; university: string | null };
+type Team = { id: string; name: string; university: string | null; tournament_id: string };
 type TeamPlayer = { team_id: string; player_id: string };
 type Player = { id: string; display_name: string; university: string | null; position: string | null };
 type PlayerStat = { player_id: string; goals: number; assists: number; motms: number; matches_played: number };
+type GroupStanding = { group_name: string; size: number; row: StandingsTableRow };
 
 export default function TeamPage({ params }: { params: { teamId: string } }) {
   const teamId = params.teamId;
@@ -15,6 +18,7 @@ export default function TeamPage({ params }: { params: { teamId: string } }) {
   const [team, setTeam] = useState<Team | null>(null);
   const [players, setPlayers] = useState<Player[]>([]);
   const [stats, setStats] = useState<PlayerStat[]>([]);
+  const [standing, setStanding] = useState<GroupStanding | null>(null);
   const [loading, setLoading] = useState(true);
 
   const statByPlayerId = useMemo(() => {
@@ -26,10 +30,36 @@ export default function TeamPage({ params }: { params: { teamId: string } }) {
   async function load() {
     setLoading(true);
 
-    const { data: t } = await supabase.from("teams").select("id,name,university").eq("id", teamId).single();
+    const { data: t } = await supabase
+      .from("teams")
+      .select("id,name,university,tournament_id")
+      .eq("id", teamId)
+      .is("archived_at", null)
+      .maybeSingle();
     setTeam((t as Team) || null);
 
-    const { data: tp } = await supabase.from("team_players").select("team_id,player_id").eq("team_id", teamId);
+    if (!t) {
+      setPlayers([]);
+      setStats([]);
+      setLoading(false);
+      return;
+    }
+
+    // Group table position (same numbers as /app/standings), in the team's own tournament
+    try {
+      const { groups } = await fetchStandings(t.tournament_id);
+      const group = groups.find((g) => g.rows.some((r) => r.team_id === teamId));
+      const row = group?.rows.find((r) => r.team_id === teamId);
+      setStanding(group && row ? { group_name: group.group_name, size: group.rows.length, row } : null);
+    } catch {
+      setStanding(null);
+    }
+
+    const { data: tp } = await supabase
+      .from("team_players")
+      .select("team_id,player_id")
+      .eq("team_id", teamId)
+      .is("archived_at", null);
     const ids = ((tp as TeamPlayer[]) || []).map((x) => x.player_id);
 
     if (ids.length === 0) {
@@ -49,6 +79,7 @@ export default function TeamPage({ params }: { params: { teamId: string } }) {
     const { data: s } = await supabase
       .from("player_stats")
       .select("player_id,goals,assists,motms,matches_played")
+      .eq("tournament_id", t.tournament_id)
       .in("player_id", ids);
     setStats((s as PlayerStat[]) || []);
 
@@ -84,6 +115,25 @@ export default function TeamPage({ params }: { params: { teamId: string } }) {
           <div className="text-white/70">{team?.university || "—"}</div>
         </div>
 
+        {standing ? (
+          <Link
+            href="/app/standings"
+            className="block bg-[#111c44] border border-white/10 rounded-2xl p-5 hover:border-white/30 transition"
+          >
+            <div className="text-xl font-bold">
+              {standing.group_name} • {standing.row.position} of {standing.size}
+            </div>
+            <div className="flex flex-wrap gap-3 text-sm mt-3">
+              <StatPill label="P" value={standing.row.played} />
+              <StatPill label="W" value={standing.row.won} />
+              <StatPill label="D" value={standing.row.draw} />
+              <StatPill label="L" value={standing.row.lost} />
+              <StatPill label="GD" value={standing.row.gd} />
+              <StatPill label="Pts" value={standing.row.pts} />
+            </div>
+          </Link>
+        ) : null}
+
         <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
           <div className="text-xl font-bold mb-3">Roster & Stats</div>
 
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import Link from "next/link";
 import { supabase } from "@/lib/supabaseClient";
+import { isStaffRole } from "@/lib/adminRoles";
 
 export default function LoginPage() {
   const router = useRouter();
@@ -31,7 +32,7 @@ export default function LoginPage() {
       return;
     }
 
-    if (prof.role === "admin" && prof.status === "active") {
+    if (isStaffRole(prof.role) && prof.status === "active") {
       router.replace("/admin");
       return;
     }
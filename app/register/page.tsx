@@ -3,6 +3,7 @@
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabaseClient";
+import { isStaffRole } from "@/lib/adminRoles";
 import DawraLikBackground from "@/components/DawraLikBackground";
 
 type Mode = "signup" | "signin";
@@ -65,7 +66,7 @@ export default function RegisterPage() {
       return;
     }
 
-    if (prof.role === "admin" && prof.status === "active") {
+    if (isStaffRole(prof.role) && prof.status === "active") {
       router.replace("/admin");
       return;
     }
@@ -0,0 +1,174 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import {
+  CardEvent,
+  DisciplineMatch,
+  SUSPENSION_REASON_LABELS,
+  computeDiscipline,
+  suspensionRuleOf,
+} from "@/lib/discipline";
+import { useTournament } from "./TournamentContext";
+
+/** Cards per player and who misses which match (standings page). */
+
+type Player = { id: string; full_name: string | null; display_name: string | null };
+
+export default function DisciplineTable() {
+  const { tournament } = useTournament();
+  const [matches, setMatches] = useState<DisciplineMatch[]>([]);
+  const [cards, setCards] = useState<CardEvent[]>([]);
+  const [teamName, setTeamName] = useState<Map<string, string>>(new Map());
+  const [playerName, setPlayerName] = useState<Map<string, string>>(new Map());
+
+  async function load() {
+    const { data: m } = await supabase
+      .from("matches")
+      .select("id,home_team_id,away_team_id,start_time,created_at,status")
+      .eq("tournament_id", tournament.id)
+      .is("archived_at", null);
+    const ms = (m as DisciplineMatch[]) || [];
+
+    const { data: c } = ms.length
+      ? await supabase
+          .from("match_events")
+          .select("match_id,team_id,player_id,kind")
+          .in("match_id", ms.map((x) => x.id))
+          .in("kind", ["yellow_card", "red_card"])
+          .is("archived_at", null)
+      : { data: [] };
+    const cs = (c as CardEvent[]) || [];
+
+    const [{ data: t }, { data: p }] = await Promise.all([
+      supabase.from("teams").select("id,name").eq("tournament_id", tournament.id),
+      cs.length
+        ? supabase
+            .from("players")
+            .select("id,full_name,display_name")
+            .in("id", Array.from(new Set(cs.map((x) => x.player_id))))
+        : Promise.resolve({ data: [] }),
+    ]);
+
+    setTeamName(new Map(((t as { id: string; name: string }[]) || []).map((x) => [x.id, x.name])));
+    setPlayerName(
+      new Map(((p as Player[]) || []).map((x) => [x.id, x.display_name || x.full_name || "Unnamed"]))
+    );
+    setMatches(ms);
+    setCards(cs);
+  }
+
+  useEffect(() => {
+    (async () => {
+      await load();
+    })();
+
+    const channel = supabase
+      .channel("standings_discipline")
+      .on("postgres_changes", { event: "*", schema: "public", table: "match_events" }, () => load())
+      .on("postgres_changes", { event: "*", schema: "public", table: "matches" }, () => load())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournament.id]);
+
+  const rule = useMemo(() => suspensionRuleOf(tournament), [tournament]);
+
+  // most carded first: reds, then yellows
+  const rows = useMemo(
+    () =>
+      computeDiscipline(matches, cards, rule).sort(
+        (a, b) =>
+          b.reds - a.reds ||
+          b.yellows - a.yellows ||
+          (playerName.get(a.player_id) || "").localeCompare(playerName.get(b.player_id) || "")
+      ),
+    [matches, cards, playerName, rule]
+  );
+
+  const matchById = useMemo(() => new Map(matches.map((m) => [m.id, m])), [matches]);
+
+  function opponent(matchId: string, teamId: string) {
+    const m = matchById.get(matchId);
+    if (!m) return "—";
+    const other = m.home_team_id === teamId ? m.away_team_id : m.home_team_id;
+    return `vs ${(other && teamName.get(other)) || "TBD"}`;
+  }
+
+  return (
+    <div className="bg-[#111c44] border border-white/10 rounded-2xl p-5">
+      <h2 className="text-2xl font-bold">Discipline</h2>
+      <p className="text-white/60 text-sm">
+        Sending off: {rule.red_card_ban_matches ? `${rule.red_card_ban_matches}-match ban` : "no ban"} • Yellow
+        cards:{" "}
+        {rule.yellow_card_limit && rule.yellow_card_ban_matches
+          ? `${rule.yellow_card_ban_matches}-match ban after ${rule.yellow_card_limit} matches with one`
+          : "no ban"}
+      </p>
+
+      {rows.length === 0 ? (
+        <div className="text-white/70 mt-4">No cards shown yet.</div>
+      ) : (
+        <div className="overflow-x-auto mt-4">
+          <table className="w-full text-sm">
+            <thead className="text-white/60">
+              <tr>
+                <th className="text-left py-2">Player</th>
+                <th className="text-left py-2">Team</th>
+                <th className="text-right py-2">🟨</th>
+                <th className="text-right py-2">🟥</th>
+                <th className="text-left py-2 pl-4">Suspension</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((d) => {
+                const next = d.suspensions.filter((s) => !s.served);
+                return (
+                  <tr key={`${d.player_id}:${d.team_id}`} className="border-t border-white/10 align-top">
+                    <td className="py-2 font-bold">{playerName.get(d.player_id) || "—"}</td>
+                    <td className="py-2">{teamName.get(d.team_id) || "—"}</td>
+                    <td className="py-2 text-right">{d.yellows}</td>
+                    <td className="py-2 text-right">{d.reds}</td>
+                    <td className="py-2 pl-4">
+                      {next.length ? (
+                        <div className="space-y-0.5">
+                          {next.map((s) => (
+                            <Link
+                              key={s.match_id}
+                              href={`/app/matches?match=${s.match_id}`}
+                              className="block text-red-300 hover:underline"
+                            >
+                              Misses {opponent(s.match_id, s.team_id)} ({SUSPENSION_REASON_LABELS[s.reason]})
+                            </Link>
+                          ))}
+                        </div>
+                      ) : (
+                        <span className="text-white/50">
+                          {d.suspensions.length
+                            ? `Served (${d.suspensions.length} match${d.suspensions.length === 1 ? "" : "es"})`
+                            : "—"}
+                          {rule.yellow_card_limit && d.yellows_towards_ban
+                            ? ` • ${d.yellows_towards_ban}/${rule.yellow_card_limit} yellows`
+                            : ""}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="text-white/50 text-xs mt-2">
+        Two yellows in one match count as a sending off. Bans are served in the team&apos;s next matches, in kick-off
+        order; a ban shows up here once the team&apos;s next match has been created.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,407 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { DrawError, DrawStep, DrawTeam, autoGroupSize, randomSeed, runDraw } from "@/lib/draw";
+
+/** Group draw for /admin/groups: pots, rules, a seeded preview and a full-screen live draw. */
+
+type Group = { id: string; name: string };
+
+const SPEEDS = [
+  { label: "Slow", ms: 4000 },
+  { label: "Normal", ms: 2500 },
+  { label: "Fast", ms: 1000 },
+];
+
+const inputClass = "rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none";
+
+export default function GroupDraw({
+  teams,
+  groups,
+  teamGroups,
+  disabled,
+  onSave,
+}: {
+  teams: DrawTeam[];
+  groups: Group[];
+  /** Current assignments; teams left out of the pots keep theirs. */
+  teamGroups: { team_id: string; group_id: string }[];
+  disabled: boolean;
+  onSave: (steps: DrawStep[]) => Promise<void>;
+}) {
+  const [potCount, setPotCount] = useState("4");
+  // team id -> pot (0 = not in the draw); unset teams start in pot 1 unless they already have a group
+  const [potOf, setPotOf] = useState<Record<string, number>>({});
+  const [groupIds, setGroupIds] = useState<string[] | null>(null);
+  const [separateUniversities, setSeparateUniversities] = useState(true);
+  const [onePerPot, setOnePerPot] = useState(true);
+  const [maxSize, setMaxSize] = useState("");
+  const [seed, setSeed] = useState("");
+
+  const [result, setResult] = useState<{ steps: DrawStep[]; seed: string } | null>(null);
+  const [error, setError] = useState("");
+
+  // live draw
+  const [live, setLive] = useState(false);
+  const [revealed, setRevealed] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(SPEEDS[1].ms);
+
+  const pots = Math.min(8, Math.max(1, Math.floor(Number(potCount)) || 1));
+  const drawGroupIds = groupIds ?? groups.map((g) => g.id);
+  const drawGroups = groups.filter((g) => drawGroupIds.includes(g.id));
+
+  const groupOfTeam = useMemo(() => new Map(teamGroups.map((tg) => [tg.team_id, tg.group_id])), [teamGroups]);
+  const teamById = useMemo(() => new Map(teams.map((t) => [t.id, t])), [teams]);
+  const groupNameById = useMemo(() => new Map(groups.map((g) => [g.id, g.name])), [groups]);
+
+  const potFor = (teamId: string) => Math.min(potOf[teamId] ?? (groupOfTeam.has(teamId) ? 0 : 1), pots);
+
+  const potLists = Array.from({ length: pots }, (_, i) => teams.filter((t) => potFor(t.id) === i + 1).map((t) => t.id));
+  const drawn = new Set(potLists.flat());
+  // teams outside the pots that already sit in a drawn group stay there and count towards the rules
+  const fixed = teamGroups.filter((tg) => !drawn.has(tg.team_id) && drawGroupIds.includes(tg.group_id));
+  const autoSize = autoGroupSize(drawn.size + fixed.length, drawGroups.length);
+
+  const total = result?.steps.length ?? 0;
+  const shown = result ? result.steps.slice(0, live ? revealed : total) : [];
+
+  // edits make the last draw stale
+  function edit(fn: () => void) {
+    fn();
+    setResult(null);
+    setError("");
+  }
+
+  function draw() {
+    setError("");
+    const useSeed = seed.trim() || randomSeed();
+    setSeed(useSeed);
+
+    const limit = maxSize.trim() === "" ? autoSize : Number(maxSize);
+    if (!Number.isInteger(limit) || limit < 1) {
+      setError("Max teams per group must be a whole number from 1.");
+      return null;
+    }
+
+    try {
+      const steps = runDraw(
+        teams,
+        {
+          pots: potLists,
+          group_ids: drawGroups.map((g) => g.id),
+          max_group_size: limit,
+          separate_universities: separateUniversities,
+          one_per_pot: onePerPot,
+          seed: useSeed,
+        },
+        fixed
+      );
+      const next = { steps, seed: useSeed };
+      setResult(next);
+      return next;
+    } catch (e: unknown) {
+      setResult(null);
+      setError(e instanceof DrawError ? e.message : "The draw failed");
+      return null;
+    }
+  }
+
+  function startLive() {
+    if (!(result ?? draw())) return;
+    setRevealed(0);
+    setPlaying(false);
+    setLive(true);
+  }
+
+  async function save() {
+    if (!result) return;
+    await onSave(result.steps);
+    setResult(null);
+  }
+
+  // play: one team every `speed` ms until everything is out
+  useEffect(() => {
+    if (!live || !playing || revealed >= total) return;
+    const timer = window.setTimeout(() => setRevealed((n) => n + 1), speed);
+    return () => window.clearTimeout(timer);
+  }, [live, playing, revealed, total, speed]);
+
+  // keyboard for the ceremony: space / → next, Esc closes
+  useEffect(() => {
+    if (!live) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setLive(false);
+      if (e.key === " " || e.key === "ArrowRight") {
+        e.preventDefault();
+        setRevealed((n) => Math.min(total, n + 1));
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [live, total]);
+
+  function groupCards(big: boolean) {
+    const lastId = live && revealed > 0 ? result?.steps[revealed - 1].team_id : null;
+    return (
+      <div className={`grid gap-3 ${big ? "md:grid-cols-2 xl:grid-cols-4" : "md:grid-cols-2 lg:grid-cols-4"}`}>
+        {drawGroups.map((g) => (
+          <div key={g.id} className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 space-y-1">
+            <div className={`font-bold ${big ? "text-2xl mb-2" : ""}`}>{g.name}</div>
+            {fixed
+              .filter((f) => f.group_id === g.id)
+              .map((f) => (
+                <div key={f.team_id} className={`text-white/50 ${big ? "text-lg" : "text-sm"}`}>
+                  {teamById.get(f.team_id)?.name || "—"}
+                </div>
+              ))}
+            {shown
+              .filter((s) => s.group_id === g.id)
+              .map((s) => (
+                <div
+                  key={s.team_id}
+                  className={`flex items-center justify-between gap-2 rounded-lg ${big ? "text-xl px-2 py-1" : "text-sm"} ${
+                    s.team_id === lastId ? "bg-yellow-500/20 text-yellow-100" : ""
+                  }`}
+                >
+                  <span className="font-bold">{teamById.get(s.team_id)?.name || "—"}</span>
+                  <span className="text-white/50 text-xs">Pot {s.pot}</span>
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const last = live && revealed > 0 ? result?.steps[revealed - 1] : null;
+  const lastTeam = last ? teamById.get(last.team_id) : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-4 gap-2">
+        <label className="space-y-1 text-sm">
+          <div className="text-white/70">Pots</div>
+          <input
+            value={potCount}
+            onChange={(e) => edit(() => setPotCount(e.target.value))}
+            inputMode="numeric"
+            className={`w-full ${inputClass}`}
+          />
+        </label>
+        <label className="space-y-1 text-sm">
+          <div className="text-white/70">Max teams per group</div>
+          <input
+            value={maxSize}
+            onChange={(e) => edit(() => setMaxSize(e.target.value))}
+            inputMode="numeric"
+            placeholder={`Auto (${autoSize})`}
+            className={`w-full ${inputClass}`}
+          />
+        </label>
+        <label className="space-y-1 text-sm md:col-span-2">
+          <div className="text-white/70">Seed</div>
+          <div className="flex gap-2">
+            <input
+              value={seed}
+              onChange={(e) => edit(() => setSeed(e.target.value.toUpperCase()))}
+              placeholder="Blank = pick one"
+              className={`flex-1 font-mono ${inputClass}`}
+            />
+            <button
+              type="button"
+              onClick={() => edit(() => setSeed(randomSeed()))}
+              className="bg-white/10 hover:bg-white/20 transition px-3 py-2 rounded-xl font-bold"
+            >
+              New seed
+            </button>
+          </div>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={separateUniversities}
+            onChange={(e) => edit(() => setSeparateUniversities(e.target.checked))}
+          />
+          No two teams from the same university in a group
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={onePerPot} onChange={(e) => edit(() => setOnePerPot(e.target.checked))} />
+          At most one team per pot in a group
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {groups.map((g) => (
+          <label key={g.id} className="bg-[#0b1530] border border-[#1f2a60] rounded-xl px-3 py-2 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={drawGroupIds.includes(g.id)}
+              onChange={() =>
+                edit(() =>
+                  setGroupIds(
+                    drawGroupIds.includes(g.id) ? drawGroupIds.filter((id) => id !== g.id) : [...drawGroupIds, g.id]
+                  )
+                )
+              }
+            />
+            <span className="font-bold">{g.name}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-2">
+        {teams.map((t) => (
+          <div
+            key={t.id}
+            className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-2 flex items-center justify-between gap-3"
+          >
+            <div className="min-w-0">
+              <div className="font-bold truncate">{t.name}</div>
+              <div className="text-white/50 text-xs truncate">
+                {t.university || "No university"}
+                {groupOfTeam.has(t.id) ? ` • now in ${groupNameById.get(groupOfTeam.get(t.id) || "") || "a group"}` : ""}
+              </div>
+            </div>
+            <select
+              value={potFor(t.id)}
+              onChange={(e) => edit(() => setPotOf((prev) => ({ ...prev, [t.id]: Number(e.target.value) })))}
+              className={inputClass}
+            >
+              <option value={0}>Not drawn</option>
+              {Array.from({ length: pots }, (_, i) => (
+                <option key={i} value={i + 1}>
+                  Pot {i + 1}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="text-white/50 text-xs">
+        {drawn.size} team(s) in {potLists.filter((p) => p.length).length} pot(s) • {drawGroups.length} group(s)
+        {fixed.length ? ` • ${fixed.length} team(s) already in those groups stay put` : ""}. Pots are drawn in order;
+        each team goes to the first group the rules allow.
+      </div>
+
+      {error && <div className="text-red-400 whitespace-pre-wrap">{error}</div>}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          onClick={() => draw()}
+          disabled={disabled}
+          className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+        >
+          Draw
+        </button>
+        <button
+          onClick={startLive}
+          disabled={disabled}
+          className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+        >
+          Live draw
+        </button>
+        {result ? (
+          <button
+            onClick={save}
+            disabled={disabled}
+            className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+          >
+            Save draw
+          </button>
+        ) : null}
+      </div>
+
+      {result ? (
+        <div className="space-y-2">
+          <div className="font-bold">
+            Preview • seed <span className="font-mono">{result.seed}</span>
+            <span className="text-white/60 font-normal"> (same teams, pots, rules and seed give the same draw)</span>
+          </div>
+          {groupCards(false)}
+        </div>
+      ) : null}
+
+      {live && result ? (
+        <div className="fixed inset-0 z-50 bg-[#0b1530] text-white overflow-y-auto p-8 space-y-6">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="text-4xl font-bold">Group Draw</div>
+              <div className="text-white/60">
+                Seed <span className="font-mono">{result.seed}</span> • {revealed} / {total} drawn
+              </div>
+            </div>
+            <button
+              onClick={() => setLive(false)}
+              className="bg-white/10 hover:bg-white/20 transition px-4 py-2 rounded-xl font-bold"
+            >
+              Close
+            </button>
+          </div>
+
+          <div className="bg-[#111c44] border border-white/10 rounded-2xl p-8 text-center min-h-[10rem] flex flex-col justify-center">
+            {last && lastTeam ? (
+              <div key={last.team_id} className="space-y-2 draw-reveal">
+                <div className="text-white/60 text-lg">Pot {last.pot}</div>
+                <div className="text-5xl font-bold">{lastTeam.name}</div>
+                {lastTeam.university ? <div className="text-white/70 text-xl">{lastTeam.university}</div> : null}
+                <div className="text-3xl text-yellow-200 font-bold">→ {groupNameById.get(last.group_id)}</div>
+              </div>
+            ) : (
+              <div className="text-3xl text-white/60">
+                {total ? `${total} teams, ${drawGroups.length} groups` : "Nothing to draw"}
+              </div>
+            )}
+          </div>
+
+          {groupCards(true)}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={() => setPlaying(!playing)}
+              disabled={revealed >= total}
+              className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+            >
+              {playing && revealed < total ? "Pause" : "Play"}
+            </button>
+            <button
+              onClick={() => setRevealed(Math.min(total, revealed + 1))}
+              disabled={revealed >= total}
+              className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+            >
+              Next
+            </button>
+            <button
+              onClick={() => setRevealed(total)}
+              disabled={revealed >= total}
+              className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-5 py-3 rounded-xl font-bold"
+            >
+              Show all
+            </button>
+            <button
+              onClick={() => {
+                setPlaying(false);
+                setRevealed(0);
+              }}
+              className="bg-white/10 hover:bg-white/20 transition px-5 py-3 rounded-xl font-bold"
+            >
+              Restart
+            </button>
+            <select value={speed} onChange={(e) => setSpeed(Number(e.target.value))} className={inputClass}>
+              {SPEEDS.map((s) => (
+                <option key={s.ms} value={s.ms}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <span className="text-white/50 text-xs">Space / → reveals the next team • Esc closes</span>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { MatchPatch } from "@/lib/adminActions";
+import { MatchScore, finalScore, formatScore } from "@/lib/matchResult";
+
+/** Extra time + penalty shootout for a knockout match (/admin/knockout and /admin/matches). */
+
+export type PenaltyKick = { team_id: string; player_id: string | null; scored: boolean };
+
+// stable "no kicks" value for matches without a shootout (the editor resets its draft when `kicks` changes)
+export const NO_KICKS: PenaltyKick[] = [];
+
+type Side = "home" | "away";
+
+const inputClass = "w-16 text-center rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none";
+
+function numOrNull(v: string) {
+  if (v.trim() === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.max(0, Math.floor(n)) : null;
+}
+
+function str(v: number | null | undefined) {
+  return v == null ? "" : String(v);
+}
+
+export default function KnockoutResultEditor({
+  match,
+  homeName,
+  awayName,
+  kicks,
+  players,
+  disabled,
+  onUpdateMatch,
+  onSaveKicks,
+}: {
+  match: MatchScore & { id: string; home_team_id: string | null; away_team_id: string | null };
+  homeName: string;
+  awayName: string;
+  /** Recorded kicks, in order. */
+  kicks: PenaltyKick[];
+  /** Optional kick takers per side. */
+  players?: Record<Side, { id: string; name: string }[]>;
+  disabled: boolean;
+  onUpdateMatch: (patch: MatchPatch) => Promise<void>;
+  onSaveKicks: (kicks: PenaltyKick[]) => Promise<void>;
+}) {
+  const [etHome, setEtHome] = useState(str(match.et_home_score));
+  const [etAway, setEtAway] = useState(str(match.et_away_score));
+  const [pensHome, setPensHome] = useState(str(match.home_pens));
+  const [pensAway, setPensAway] = useState(str(match.away_pens));
+  const [draft, setDraft] = useState<PenaltyKick[]>(kicks);
+
+  useEffect(() => {
+    setEtHome(str(match.et_home_score));
+    setEtAway(str(match.et_away_score));
+    setPensHome(str(match.home_pens));
+    setPensAway(str(match.away_pens));
+  }, [match.id, match.et_home_score, match.et_away_score, match.home_pens, match.away_pens]);
+
+  useEffect(() => {
+    setDraft(kicks);
+  }, [kicks]);
+
+  const teamOf: Record<Side, string | null> = { home: match.home_team_id, away: match.away_team_id };
+  const name: Record<Side, string> = { home: homeName, away: awayName };
+  const sideOf = (k: PenaltyKick): Side => (k.team_id === match.home_team_id ? "home" : "away");
+
+  const [regHome, regAway] = [match.home_score ?? 0, match.away_score ?? 0];
+  const [totalHome, totalAway] = finalScore(match);
+  const levelAfterRegular = regHome === regAway;
+  const level = totalHome === totalAway;
+
+  const tally = (side: Side) => draft.filter((k) => sideOf(k) === side && k.scored).length;
+  const kicksDirty = JSON.stringify(draft) !== JSON.stringify(kicks);
+
+  function addKick(side: Side, scored: boolean) {
+    const team = teamOf[side];
+    if (!team) return;
+    setDraft((prev) => [...prev, { team_id: team, player_id: null, scored }]);
+  }
+
+  return (
+    <div className="bg-[#111c44] border border-white/10 rounded-2xl p-4 space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="font-bold">Extra Time & Penalties</div>
+        <div className="text-white/60 text-sm">
+          Result: <b className="text-white">{formatScore(match)}</b>
+        </div>
+      </div>
+
+      {/* Extra time (goals scored in extra time only) */}
+      <div className="space-y-2">
+        <div className="text-white/70 text-sm">
+          Extra time goals {levelAfterRegular ? "" : "(only after a draw in regular time)"}
+        </div>
+        <div className="flex items-center gap-3 flex-wrap">
+          <span className="text-sm">{homeName}</span>
+          <input
+            disabled={disabled || !levelAfterRegular}
+            value={etHome}
+            onChange={(e) => setEtHome(e.target.value)}
+            className={inputClass}
+            placeholder="—"
+          />
+          <span className="text-white/70 font-bold">-</span>
+          <input
+            disabled={disabled || !levelAfterRegular}
+            value={etAway}
+            onChange={(e) => setEtAway(e.target.value)}
+            className={inputClass}
+            placeholder="—"
+          />
+          <span className="text-sm">{awayName}</span>
+          <button
+            disabled={disabled || !levelAfterRegular}
+            onClick={() => onUpdateMatch({ et_home_score: numOrNull(etHome), et_away_score: numOrNull(etAway) })}
+            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+          >
+            Save Extra Time
+          </button>
+          {match.et_home_score != null || match.et_away_score != null ? (
+            <button
+              disabled={disabled}
+              onClick={() => onUpdateMatch({ et_home_score: null, et_away_score: null })}
+              className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+            >
+              Clear
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      {/* Shootout totals (derived from the kicks once any are recorded) */}
+      <div className="space-y-2">
+        <div className="text-white/70 text-sm">
+          Penalty shootout {level ? "" : "(only when the match is level)"}
+        </div>
+        <div className="flex items-center gap-3 flex-wrap">
+          <input
+            disabled={disabled || !level || kicks.length > 0}
+            value={pensHome}
+            onChange={(e) => setPensHome(e.target.value)}
+            className={inputClass}
+            placeholder="—"
+          />
+          <span className="text-white/70 font-bold">-</span>
+          <input
+            disabled={disabled || !level || kicks.length > 0}
+            value={pensAway}
+            onChange={(e) => setPensAway(e.target.value)}
+            className={inputClass}
+            placeholder="—"
+          />
+          <button
+            disabled={disabled || !level || kicks.length > 0}
+            onClick={() => onUpdateMatch({ home_pens: numOrNull(pensHome), away_pens: numOrNull(pensAway) })}
+            className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+          >
+            Save Shootout Score
+          </button>
+          {kicks.length === 0 && (match.home_pens != null || match.away_pens != null) ? (
+            <button
+              disabled={disabled}
+              onClick={() => onUpdateMatch({ home_pens: null, away_pens: null })}
+              className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+            >
+              Clear
+            </button>
+          ) : null}
+        </div>
+        {kicks.length > 0 ? (
+          <div className="text-white/50 text-xs">The score comes from the kicks below.</div>
+        ) : null}
+      </div>
+
+      {/* Kick by kick */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between flex-wrap gap-2">
+          <div className="text-white/70 text-sm">Kick by kick</div>
+          <div className="text-sm">
+            {homeName} <b>{tally("home")}</b> - <b>{tally("away")}</b> {awayName}
+          </div>
+        </div>
+
+        {draft.length === 0 ? (
+          <div className="text-white/50 text-sm">No kicks recorded.</div>
+        ) : (
+          <div className="space-y-1">
+            {draft.map((k, i) => {
+              const side = sideOf(k);
+              return (
+                <div
+                  key={i}
+                  className="bg-[#0b1530] border border-[#1f2a60] rounded-xl px-3 py-2 flex items-center gap-3 flex-wrap"
+                >
+                  <span className="text-white/50 text-xs w-6">#{i + 1}</span>
+                  <span className="font-bold">{name[side]}</span>
+                  <span>{k.scored ? "✅ scored" : "❌ missed"}</span>
+                  {players ? (
+                    <select
+                      disabled={disabled}
+                      value={k.player_id || ""}
+                      onChange={(e) =>
+                        setDraft((prev) =>
+                          prev.map((x, j) => (j === i ? { ...x, player_id: e.target.value || null } : x))
+                        )
+                      }
+                      className="rounded-lg bg-[#111c44] border border-white/10 p-1 text-sm outline-none"
+                    >
+                      <option value="">(Taker)</option>
+                      {players[side].map((p) => (
+                        <option key={p.id} value={p.id}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
+                  ) : null}
+                  <button
+                    disabled={disabled}
+                    onClick={() => setDraft((prev) => prev.filter((_, j) => j !== i))}
+                    className="ml-auto text-red-300 hover:text-red-200 text-sm disabled:opacity-60"
+                  >
+                    Remove
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {(["home", "away"] as const).map((side) => (
+            <div key={side} className="flex gap-1">
+              <button
+                disabled={disabled || !level}
+                onClick={() => addKick(side, true)}
+                className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-3 py-2 rounded-xl text-sm font-bold"
+              >
+                {name[side]} ✅
+              </button>
+              <button
+                disabled={disabled || !level}
+                onClick={() => addKick(side, false)}
+                className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-3 py-2 rounded-xl text-sm font-bold"
+              >
+                {name[side]} ❌
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            disabled={disabled || !kicksDirty}
+            onClick={() => onSaveKicks(draft)}
+            className="bg-green-600 hover:bg-green-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+          >
+            Save Kicks
+          </button>
+          {kicksDirty ? (
+            <button
+              disabled={disabled}
+              onClick={() => setDraft(kicks)}
+              className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+            >
+              Discard
+            </button>
+          ) : null}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import { useState } from "react";
+import type { LineupRole } from "@/lib/adminActions";
+
+/** Starters, substitutes and shirt numbers of both teams, picked from their rosters (/admin/matches). */
+
+export type LineupEntry = { team_id: string; player_id: string; role: LineupRole; shirt_number: number | null };
+
+type LineupTeam = { id: string; name: string; players: { id: string; name: string }[] };
+
+// what the inputs hold for one roster player ("" = not in the lineup / no number)
+type Line = { role: LineupRole | ""; shirt: string };
+
+const inputClass = "rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none";
+
+export default function LineupEditor({
+  teams,
+  lineup,
+  suspended,
+  disabled,
+  onSave,
+}: {
+  teams: LineupTeam[];
+  lineup: LineupEntry[];
+  /** Players suspended for this match (lib/discipline.ts); flagged, not blocked. */
+  suspended: Set<string>;
+  disabled: boolean;
+  onSave: (teamId: string, players: Omit<LineupEntry, "team_id">[]) => Promise<void>;
+}) {
+  return (
+    <div className="bg-[#111c44] border border-white/10 rounded-2xl p-4 space-y-3">
+      <div className="font-bold">Lineups</div>
+
+      <div className="grid md:grid-cols-2 gap-3">
+        {teams.map((team) => {
+          const saved = lineup.filter((l) => l.team_id === team.id);
+          // remount (fresh draft) whenever the saved lineup changes
+          return (
+            <TeamLineup
+              key={`${team.id}:${JSON.stringify(saved)}`}
+              team={team}
+              saved={saved}
+              suspended={suspended}
+              disabled={disabled}
+              onSave={(players) => onSave(team.id, players)}
+            />
+          );
+        })}
+      </div>
+
+      <div className="text-white/50 text-xs">
+        Starters count as an appearance; substitutes once a substitution brings them on. With a lineup saved, the
+        event form only offers players in it.
+      </div>
+    </div>
+  );
+}
+
+function TeamLineup({
+  team,
+  saved,
+  suspended,
+  disabled,
+  onSave,
+}: {
+  team: LineupTeam;
+  saved: LineupEntry[];
+  suspended: Set<string>;
+  disabled: boolean;
+  onSave: (players: Omit<LineupEntry, "team_id">[]) => Promise<void>;
+}) {
+  const [lines, setLines] = useState<Record<string, Line>>(() => {
+    const out: Record<string, Line> = {};
+    for (const p of team.players) {
+      const l = saved.find((x) => x.player_id === p.id);
+      out[p.id] = { role: l?.role || "", shirt: l?.shirt_number != null ? String(l.shirt_number) : "" };
+    }
+    return out;
+  });
+
+  const picked = team.players.filter((p) => lines[p.id]?.role);
+  const starters = picked.filter((p) => lines[p.id].role === "starter").length;
+  const banned = picked.filter((p) => suspended.has(p.id));
+
+  function set(playerId: string, patch: Partial<Line>) {
+    setLines((prev) => ({ ...prev, [playerId]: { ...prev[playerId], ...patch } }));
+  }
+
+  async function save() {
+    await onSave(
+      picked.map((p) => {
+        const n = Math.floor(Number(lines[p.id].shirt));
+        return {
+          player_id: p.id,
+          role: lines[p.id].role as LineupRole,
+          shirt_number: lines[p.id].shirt.trim() !== "" && Number.isFinite(n) ? n : null,
+        };
+      })
+    );
+  }
+
+  return (
+    <div className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-bold">{team.name}</div>
+        <div className="text-white/60 text-xs">
+          {starters} starting • {picked.length - starters} on the bench
+        </div>
+      </div>
+
+      {team.players.length === 0 ? (
+        <div className="text-white/60 text-sm">No roster players linked to this team yet.</div>
+      ) : (
+        <div className="space-y-1">
+          {team.players.map((p) => (
+            <div key={p.id} className="flex items-center gap-2">
+              <div className="flex-1 text-sm truncate">
+                {p.name}
+                {suspended.has(p.id) ? (
+                  <span className="ml-2 text-xs font-bold text-red-300 bg-red-500/10 rounded-full px-2 py-0.5">
+                    Suspended
+                  </span>
+                ) : null}
+              </div>
+              <select
+                disabled={disabled}
+                className={`${inputClass} text-sm`}
+                value={lines[p.id]?.role || ""}
+                onChange={(e) => set(p.id, { role: e.target.value as Line["role"] })}
+              >
+                <option value="">—</option>
+                <option value="starter">Starter</option>
+                <option value="substitute">Sub</option>
+              </select>
+              <input
+                type="number"
+                min={0}
+                max={99}
+                disabled={disabled || !lines[p.id]?.role}
+                placeholder="#"
+                className={`${inputClass} w-16 text-center text-sm`}
+                value={lines[p.id]?.shirt || ""}
+                onChange={(e) => set(p.id, { shirt: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {banned.length ? (
+        <div className="text-yellow-200 text-xs">
+          ⚠️ Suspended for this match: {banned.map((p) => p.name).join(", ")}
+        </div>
+      ) : null}
+
+      <button
+        disabled={disabled}
+        onClick={save}
+        className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+      >
+        Save {team.name} lineup
+      </button>
+    </div>
+  );
+}
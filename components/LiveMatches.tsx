@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import type { LivePhase } from "@/lib/adminActions";
+import { formatScore } from "@/lib/matchResult";
+import MatchClock from "./MatchClock";
+import { useTournament } from "./TournamentContext";
+
+/** Matches being played right now, with their running clock (home page). Renders nothing when none are live. */
+
+type LiveMatch = {
+  id: string;
+  home_team_id: string | null;
+  away_team_id: string | null;
+  home_score: number | null;
+  away_score: number | null;
+  et_home_score: number | null;
+  et_away_score: number | null;
+  home_pens: number | null;
+  away_pens: number | null;
+  live_phase: LivePhase | null;
+  clock_started_at: string | null;
+  clock_seconds: number;
+};
+
+export default function LiveMatches() {
+  const { tournament } = useTournament();
+  const [matches, setMatches] = useState<LiveMatch[]>([]);
+  const [teamName, setTeamName] = useState<Map<string, string>>(new Map());
+
+  async function load() {
+    const { data: m } = await supabase
+      .from("matches")
+      .select(
+        "id,home_team_id,away_team_id,home_score,away_score,et_home_score,et_away_score,home_pens,away_pens,live_phase,clock_started_at,clock_seconds"
+      )
+      .eq("tournament_id", tournament.id)
+      .eq("status", "scheduled")
+      .not("live_phase", "is", null)
+      .is("archived_at", null)
+      .order("kicked_off_at", { ascending: true });
+    const live = (m as LiveMatch[]) || [];
+
+    const ids = live.flatMap((x) => [x.home_team_id, x.away_team_id]).filter((id): id is string => id != null);
+    const { data: t } = ids.length ? await supabase.from("teams").select("id,name").in("id", ids) : { data: [] };
+
+    setTeamName(new Map(((t as { id: string; name: string }[]) || []).map((x) => [x.id, x.name])));
+    setMatches(live);
+  }
+
+  useEffect(() => {
+    (async () => {
+      await load();
+    })();
+
+    const channel = supabase
+      .channel("home_live_matches")
+      .on("postgres_changes", { event: "*", schema: "public", table: "matches" }, () => load())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tournament.id]);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="bg-[#111c44]/75 backdrop-blur border border-white/10 rounded-2xl p-5">
+      <div className="text-xl font-bold mb-3">Live Now</div>
+      <div className="space-y-2">
+        {matches.map((m) => (
+          <Link
+            key={m.id}
+            href={`/app/matches?match=${m.id}`}
+            className="bg-[#0b1530]/65 border border-[#1f2a60]/70 rounded-xl p-3 flex items-center justify-between gap-3 hover:border-white/30 transition"
+          >
+            <div className="font-bold">
+              {(m.home_team_id && teamName.get(m.home_team_id)) || "TBD"}{" "}
+              <span className="text-white/60 font-normal">vs</span>{" "}
+              {(m.away_team_id && teamName.get(m.away_team_id)) || "TBD"}
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="font-bold text-lg">{formatScore(m, " - ")}</div>
+              <MatchClock match={m} lengths={tournament} />
+            </div>
+          </Link>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { MatchClockState, MatchLengths, clockLabel, isRunningPhase } from "@/lib/matchClock";
+
+/** Running minute of a live match (23', 45+2', HT…); ticks by itself while the clock runs. */
+
+export function useNow(active: boolean) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [active]);
+
+  return now;
+}
+
+export default function MatchClock({
+  match,
+  lengths,
+  className,
+}: {
+  match: MatchClockState;
+  lengths: MatchLengths;
+  className?: string;
+}) {
+  const ticking = isRunningPhase(match.live_phase) && match.clock_started_at != null;
+  const now = useNow(ticking);
+  if (!match.live_phase) return null;
+
+  const paused = isRunningPhase(match.live_phase) && !ticking;
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-bold ${
+        ticking ? "bg-red-500/20 text-red-200" : "bg-white/10 text-white/80"
+      } ${className || ""}`}
+    >
+      {ticking ? <span className="h-1.5 w-1.5 rounded-full bg-red-400 animate-pulse" /> : null}
+      {clockLabel(match, lengths, now)}
+      {paused ? <span className="font-normal text-white/60">(paused)</span> : null}
+    </span>
+  );
+}
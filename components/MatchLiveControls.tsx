@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import type { LivePhase } from "@/lib/adminActions";
+import {
+  LIVE_PHASE_LABELS,
+  MatchClockState,
+  MatchLengths,
+  clockMinute,
+  isRunningPhase,
+} from "@/lib/matchClock";
+import MatchClock, { useNow } from "./MatchClock";
+
+/** Kick-off, half-time, second half… and the pause / resume clock of a match being played (/admin/matches). */
+
+type Step = { phase: LivePhase; label: string };
+
+// what can come next from each phase (extra time and penalties: knockout only)
+function nextSteps(phase: LivePhase | null, knockout: boolean): Step[] {
+  const step = (p: LivePhase, label: string): Step => ({ phase: p, label });
+  switch (phase) {
+    case null:
+      return [step("first_half", "Kick off")];
+    case "first_half":
+      return [step("half_time", "Half-time")];
+    case "half_time":
+      return [step("second_half", "Start 2nd half")];
+    case "second_half":
+      return knockout
+        ? [step("full_time", "Full time"), step("extra_time", "Extra time"), step("penalties", "Penalties")]
+        : [step("full_time", "Full time")];
+    case "extra_time":
+      return [step("full_time", "Full time"), step("penalties", "Penalties")];
+    case "penalties":
+      return [step("full_time", "Full time")];
+    case "full_time":
+      return [];
+  }
+}
+
+export default function MatchLiveControls({
+  match,
+  lengths,
+  knockout,
+  disabled,
+  onSetPhase,
+  onSetClock,
+}: {
+  match: MatchClockState;
+  lengths: MatchLengths;
+  knockout: boolean;
+  disabled: boolean;
+  onSetPhase: (phase: LivePhase | null) => Promise<void>;
+  onSetClock: (running: boolean, minute?: number) => Promise<void>;
+}) {
+  const [minuteStr, setMinuteStr] = useState("");
+
+  const running = isRunningPhase(match.live_phase);
+  const ticking = running && match.clock_started_at != null;
+  const now = useNow(ticking);
+  const minute = clockMinute(match, now);
+
+  async function setMinute() {
+    const n = Math.floor(Number(minuteStr));
+    if (!Number.isFinite(n) || n < 1) return;
+    await onSetClock(ticking, n);
+    setMinuteStr("");
+  }
+
+  return (
+    <div className="bg-[#111c44] border border-white/10 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <div className="font-bold">Live</div>
+        <div className="flex items-center gap-2 text-sm text-white/60">
+          {match.live_phase ? LIVE_PHASE_LABELS[match.live_phase] : "Not kicked off"}
+          <MatchClock match={match} lengths={lengths} />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        {nextSteps(match.live_phase, knockout).map((s) => (
+          <button
+            key={s.phase}
+            disabled={disabled}
+            onClick={() => onSetPhase(s.phase)}
+            className={`${
+              s.phase === "first_half" ? "bg-green-600 hover:bg-green-500" : "bg-blue-600 hover:bg-blue-500"
+            } disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold`}
+          >
+            {s.label}
+          </button>
+        ))}
+
+        {running ? (
+          <button
+            disabled={disabled}
+            onClick={() => onSetClock(!ticking)}
+            className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+          >
+            {ticking ? "Pause clock" : "Resume clock"}
+          </button>
+        ) : null}
+
+        {match.live_phase ? (
+          <button
+            disabled={disabled}
+            onClick={() => {
+              if (confirm("Reset the live state? The match goes back to not kicked off.")) onSetPhase(null);
+            }}
+            className="bg-red-600 hover:bg-red-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+          >
+            Reset
+          </button>
+        ) : null}
+      </div>
+
+      {running ? (
+        <div className="flex items-center gap-2 flex-wrap">
+          <input
+            type="number"
+            min={1}
+            max={200}
+            disabled={disabled}
+            value={minuteStr}
+            onChange={(e) => setMinuteStr(e.target.value)}
+            placeholder={minute != null ? String(minute) : "Minute"}
+            className="w-24 text-center rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none"
+          />
+          <button
+            disabled={disabled || !minuteStr.trim()}
+            onClick={setMinute}
+            className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+          >
+            Set minute
+          </button>
+        </div>
+      ) : null}
+
+      <div className="text-white/50 text-xs">
+        Fans see the clock run from kick-off. Each half restarts it at its own minute ({lengths.half_minutes}&apos; halves
+        {knockout ? `, ${lengths.extra_time_minutes}' extra time` : ""}); past that it shows stoppage time. Set minute
+        corrects a clock that drifted. Finalize stops it at full time.
+      </div>
+    </div>
+  );
+}
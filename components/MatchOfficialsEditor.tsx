@@ -0,0 +1,121 @@
+"use client";
+
+import { useState } from "react";
+import { MatchOfficial, Official, sameUniversity } from "@/lib/officials";
+
+/** Referee and assistants of a match, picked from the tournament's officials (/admin/matches). */
+
+const inputClass = "w-full rounded-xl bg-[#0b1530] border border-[#1f2a60] p-3 outline-none";
+
+export default function MatchOfficialsEditor({
+  officials,
+  assigned,
+  universities,
+  clashes,
+  disabled,
+  onSave,
+}: {
+  officials: Official[];
+  assigned: MatchOfficial[];
+  /** Universities of the two teams (an official from one of them is flagged). */
+  universities: (string | null)[];
+  /** Clashes of the saved assignment, as text. */
+  clashes: string[];
+  disabled: boolean;
+  onSave: (refereeId: string | null, assistantIds: string[]) => Promise<void>;
+}) {
+  return (
+    <div className="bg-[#111c44] border border-white/10 rounded-2xl p-4 space-y-3">
+      <div className="font-bold">Officials</div>
+
+      {officials.length === 0 ? (
+        <div className="text-white/70 text-sm">
+          No officials for this tournament yet. (Admin: add them in <b>/admin/officials</b>)
+        </div>
+      ) : (
+        // remount (fresh picks) whenever the saved assignment changes
+        <OfficialPicks
+          key={JSON.stringify(assigned)}
+          officials={officials}
+          assigned={assigned}
+          universities={universities}
+          disabled={disabled}
+          onSave={onSave}
+        />
+      )}
+
+      {clashes.map((c) => (
+        <div key={c} className="text-red-300 text-sm">
+          ⚠️ {c}
+        </div>
+      ))}
+
+      <div className="text-white/50 text-xs">
+        An official can&apos;t take two matches at once or a team from their own university; saving such a pick is
+        refused.
+      </div>
+    </div>
+  );
+}
+
+function OfficialPicks({
+  officials,
+  assigned,
+  universities,
+  disabled,
+  onSave,
+}: {
+  officials: Official[];
+  assigned: MatchOfficial[];
+  universities: (string | null)[];
+  disabled: boolean;
+  onSave: (refereeId: string | null, assistantIds: string[]) => Promise<void>;
+}) {
+  const assistants = assigned.filter((a) => a.role === "assistant").map((a) => a.official_id);
+  const [refereeId, setRefereeId] = useState(assigned.find((a) => a.role === "referee")?.official_id || "");
+  const [assistant1, setAssistant1] = useState(assistants[0] || "");
+  const [assistant2, setAssistant2] = useState(assistants[1] || "");
+
+  function options() {
+    return officials.map((o) => {
+      const own = universities.some((u) => sameUniversity(o.university, u));
+      return (
+        <option key={o.id} value={o.id}>
+          {o.full_name}
+          {o.university ? ` • ${o.university}` : ""}
+          {own ? " (same university)" : ""}
+        </option>
+      );
+    });
+  }
+
+  const picks: [string, string, (v: string) => void][] = [
+    ["Referee", refereeId, setRefereeId],
+    ["Assistant 1", assistant1, setAssistant1],
+    ["Assistant 2", assistant2, setAssistant2],
+  ];
+
+  return (
+    <div className="space-y-3">
+      <div className="grid md:grid-cols-3 gap-2">
+        {picks.map(([label, value, set]) => (
+          <div key={label} className="space-y-1">
+            <div className="text-white/70 text-sm">{label}</div>
+            <select disabled={disabled} className={inputClass} value={value} onChange={(e) => set(e.target.value)}>
+              <option value="">(None)</option>
+              {options()}
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <button
+        disabled={disabled}
+        onClick={() => onSave(refereeId || null, [assistant1, assistant2].filter(Boolean))}
+        className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+      >
+        Save officials
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+"use client";
+
+import { useState } from "react";
+import { REPORT_INCIDENT_KINDS, ReportIncident, ReportIncidentKind } from "@/lib/adminActions";
+import { REPORT_INCIDENT_LABELS } from "@/lib/officials";
+
+/** The referee's post-match report: incidents plus free notes (/admin/matches). */
+
+export type RefereeReport = {
+  match_id: string;
+  official_id: string | null;
+  incidents: ReportIncident[];
+  notes: string | null;
+  filed_at: string;
+};
+
+// what the inputs hold for one incident ("" = no minute / no team)
+type IncidentDraft = { minute: string; kind: ReportIncidentKind; team_id: string; description: string };
+
+const NEW_INCIDENT: IncidentDraft = { minute: "", kind: "misconduct", team_id: "", description: "" };
+
+const inputClass = "rounded-xl bg-[#0b1530] border border-[#1f2a60] p-2 outline-none";
+
+export default function RefereeReportForm({
+  report,
+  refereeName,
+  teams,
+  disabled,
+  onSave,
+}: {
+  report: RefereeReport | null;
+  /** null = no referee assigned (the report can't be filed). */
+  refereeName: string | null;
+  teams: { id: string; name: string }[];
+  disabled: boolean;
+  onSave: (incidents: ReportIncident[], notes: string | null) => Promise<void>;
+}) {
+  return (
+    <div className="bg-[#111c44] border border-white/10 rounded-2xl p-4 space-y-3">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="font-bold">Referee Report</div>
+        <div className="text-white/60 text-xs">
+          {report ? `Filed ${new Date(report.filed_at).toLocaleString()}` : "Not filed yet"}
+          {refereeName ? ` • ${refereeName}` : ""}
+        </div>
+      </div>
+
+      {refereeName ? (
+        // remount (fresh draft) whenever the saved report changes
+        <ReportDraft
+          key={JSON.stringify(report)}
+          report={report}
+          teams={teams}
+          disabled={disabled}
+          onSave={onSave}
+        />
+      ) : (
+        <div className="text-white/70 text-sm">Assign the referee first; the report is filed in their name.</div>
+      )}
+    </div>
+  );
+}
+
+function ReportDraft({
+  report,
+  teams,
+  disabled,
+  onSave,
+}: {
+  report: RefereeReport | null;
+  teams: { id: string; name: string }[];
+  disabled: boolean;
+  onSave: (incidents: ReportIncident[], notes: string | null) => Promise<void>;
+}) {
+  const [incidents, setIncidents] = useState<IncidentDraft[]>(() =>
+    (report?.incidents || []).map((i) => ({
+      minute: i.minute != null ? String(i.minute) : "",
+      kind: i.kind,
+      team_id: i.team_id || "",
+      description: i.description,
+    }))
+  );
+  const [notes, setNotes] = useState(report?.notes || "");
+
+  function set(index: number, patch: Partial<IncidentDraft>) {
+    setIncidents((prev) => prev.map((x, i) => (i === index ? { ...x, ...patch } : x)));
+  }
+
+  async function save() {
+    await onSave(
+      incidents
+        .filter((i) => i.description.trim())
+        .map((i) => {
+          const n = Math.floor(Number(i.minute));
+          return {
+            minute: i.minute.trim() !== "" && Number.isFinite(n) ? n : null,
+            kind: i.kind,
+            team_id: i.team_id || null,
+            description: i.description.trim(),
+          };
+        }),
+      notes.trim() || null
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {incidents.length === 0 ? (
+        <div className="text-white/60 text-sm">No incidents.</div>
+      ) : (
+        <div className="space-y-2">
+          {incidents.map((i, index) => (
+            <div key={index} className="bg-[#0b1530] border border-[#1f2a60] rounded-xl p-2 space-y-2">
+              <div className="flex gap-2 flex-wrap">
+                <input
+                  type="number"
+                  min={0}
+                  max={200}
+                  placeholder="Min"
+                  disabled={disabled}
+                  className={`${inputClass} w-20`}
+                  value={i.minute}
+                  onChange={(e) => set(index, { minute: e.target.value })}
+                />
+                <select
+                  disabled={disabled}
+                  className={inputClass}
+                  value={i.kind}
+                  onChange={(e) => set(index, { kind: e.target.value as ReportIncidentKind })}
+                >
+                  {REPORT_INCIDENT_KINDS.map((k) => (
+                    <option key={k} value={k}>
+                      {REPORT_INCIDENT_LABELS[k]}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  disabled={disabled}
+                  className={`${inputClass} flex-1 min-w-[140px]`}
+                  value={i.team_id}
+                  onChange={(e) => set(index, { team_id: e.target.value })}
+                >
+                  <option value="">(No team)</option>
+                  {teams.map((t) => (
+                    <option key={t.id} value={t.id}>
+                      {t.name}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  disabled={disabled}
+                  onClick={() => setIncidents((prev) => prev.filter((_, x) => x !== index))}
+                  className="bg-red-600 hover:bg-red-500 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+                >
+                  Remove
+                </button>
+              </div>
+              <input
+                disabled={disabled}
+                placeholder="What happened"
+                className={`${inputClass} w-full`}
+                value={i.description}
+                onChange={(e) => set(index, { description: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        disabled={disabled || incidents.length >= 30}
+        onClick={() => setIncidents((prev) => [...prev, NEW_INCIDENT])}
+        className="bg-white/10 hover:bg-white/20 disabled:opacity-60 transition px-3 py-2 rounded-xl font-bold"
+      >
+        + Incident
+      </button>
+
+      <textarea
+        disabled={disabled}
+        placeholder="Notes (conditions, anything else to report)"
+        className={`${inputClass} w-full min-h-[80px]`}
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+      />
+
+      <button
+        disabled={disabled}
+        onClick={save}
+        className="bg-blue-600 hover:bg-blue-500 disabled:opacity-60 transition px-4 py-2 rounded-xl font-bold"
+      >
+        {report ? "Update report" : "File report"}
+      </button>
+
+      <div className="text-white/50 text-xs">Incidents without a description are left out. Only staff see reports.</div>
+    </div>
+  );
+}
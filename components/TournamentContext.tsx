@@ -0,0 +1,132 @@
+"use client";
+
+import { ReactNode, createContext, useCallback, useContext, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import type { TournamentStatus } from "@/lib/adminActions";
+
+/**
+ * The tournament (season) every /app and /admin page shows. Defaults to the
+ * current one; a pick in the switcher is remembered on this device.
+ */
+
+export type Tournament = {
+  id: string;
+  name: string;
+  season: string | null;
+  status: TournamentStatus;
+  is_current: boolean;
+  created_at: string;
+  /** Period lengths for the live match clock. */
+  half_minutes: number;
+  extra_time_minutes: number;
+  /** Suspension rule (lib/discipline.ts). */
+  red_card_ban_matches: number;
+  yellow_card_limit: number;
+  yellow_card_ban_matches: number;
+};
+
+type TournamentState = {
+  tournaments: Tournament[];
+  tournament: Tournament;
+  /** Archived seasons are read only. */
+  readOnly: boolean;
+  setTournamentId: (id: string) => void;
+  reload: () => Promise<void>;
+};
+
+const STORAGE_KEY = "tournament_id";
+
+const TournamentContext = createContext<TournamentState | null>(null);
+
+export function tournamentLabel(t: Pick<Tournament, "name" | "season">) {
+  return t.season ? `${t.name} ${t.season}` : t.name;
+}
+
+export function TournamentProvider({ children }: { children: ReactNode }) {
+  const [tournaments, setTournaments] = useState<Tournament[]>([]);
+  // (read on the client only; nothing is rendered from it until the list has loaded)
+  const [selectedId, setSelectedId] = useState<string | null>(() =>
+    typeof window === "undefined" ? null : window.localStorage.getItem(STORAGE_KEY)
+  );
+  const [err, setErr] = useState("");
+
+  async function reload() {
+    const { data, error } = await supabase
+      .from("tournaments")
+      .select(
+        "id,name,season,status,is_current,created_at,half_minutes,extra_time_minutes,red_card_ban_matches,yellow_card_limit,yellow_card_ban_matches"
+      )
+      .order("created_at", { ascending: false });
+
+    if (error) {
+      setErr(error.message);
+      return;
+    }
+    setErr("");
+    setTournaments((data as Tournament[]) || []);
+  }
+
+  useEffect(() => {
+    (async () => {
+      await reload();
+    })();
+
+    const channel = supabase
+      .channel("tournaments_live")
+      .on("postgres_changes", { event: "*", schema: "public", table: "tournaments" }, () => reload())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const setTournamentId = useCallback((id: string) => {
+    window.localStorage.setItem(STORAGE_KEY, id);
+    setSelectedId(id);
+  }, []);
+
+  // remembered pick, else the current tournament, else the newest
+  const tournament =
+    tournaments.find((t) => t.id === selectedId) || tournaments.find((t) => t.is_current) || tournaments[0] || null;
+
+  if (err) return <div className="p-8 text-red-300">Could not load tournaments: {err}</div>;
+  if (!tournament) return <div className="p-8">Loading…</div>;
+
+  return (
+    <TournamentContext.Provider
+      value={{ tournaments, tournament, readOnly: tournament.status === "archived", setTournamentId, reload }}
+    >
+      {children}
+    </TournamentContext.Provider>
+  );
+}
+
+export function useTournament() {
+  const ctx = useContext(TournamentContext);
+  if (!ctx) throw new Error("useTournament must be used inside <TournamentProvider>");
+  return ctx;
+}
+
+/** Season picker for the layouts; archived seasons are marked. */
+export function TournamentSwitcher() {
+  const { tournaments, tournament, setTournamentId } = useTournament();
+
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="text-white/60">Season</span>
+      <select
+        value={tournament.id}
+        onChange={(e) => setTournamentId(e.target.value)}
+        className="rounded-xl bg-[#0b1530] border border-[#1f2a60] px-3 py-2 outline-none"
+      >
+        {tournaments.map((t) => (
+          <option key={t.id} value={t.id}>
+            {tournamentLabel(t)}
+            {t.is_current ? " (current)" : t.status === "archived" ? " (archived)" : ""}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
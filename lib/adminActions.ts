@@ -0,0 +1,609 @@
+/**
+ * Admin action registry shared by the API route (/api/admin/action) and the
+ * browser helper in lib/adminApi.ts.
+ *
+ * Every action has a payload schema (validated on the server) and a typed
+ * result, so callers get compile-time checking and the route never forwards
+ * unknown fields to Supabase.
+ */
+
+import type { AdminScope } from "./adminRoles";
+import { TIEBREAKERS } from "./standings";
+
+/* ---------- Shared row values ---------- */
+
+export const PROFILE_STATUSES = ["active", "pending", "disabled"] as const;
+export type ProfileStatus = (typeof PROFILE_STATUSES)[number];
+
+export const MATCH_STAGES = ["group", "knockout"] as const;
+export type MatchStage = (typeof MATCH_STAGES)[number];
+
+export const MATCH_STATUSES = ["scheduled", "finished"] as const;
+export type MatchStatus = (typeof MATCH_STATUSES)[number];
+
+/** Where a match is while it is being played (null = not kicked off); see lib/matchClock.ts. */
+export const LIVE_PHASES = ["first_half", "half_time", "second_half", "extra_time", "penalties", "full_time"] as const;
+export type LivePhase = (typeof LIVE_PHASES)[number];
+
+/** Timeline entries of a match; see lib/matchEvents.ts for what each one counts towards. */
+export const MATCH_EVENT_KINDS = [
+  "goal",
+  "penalty_goal",
+  "own_goal",
+  "penalty_missed",
+  "yellow_card",
+  "red_card",
+  "substitution",
+  "injury",
+] as const;
+export type MatchEventKind = (typeof MATCH_EVENT_KINDS)[number];
+
+/** starter = in the first eleven; substitute = on the bench (an appearance once subbed on). */
+export const LINEUP_ROLES = ["starter", "substitute"] as const;
+export type LineupRole = (typeof LINEUP_ROLES)[number];
+
+/** referee = in charge of the match; assistants (at most two) run the lines. See lib/officials.ts. */
+export const OFFICIAL_ROLES = ["referee", "assistant"] as const;
+export type OfficialRole = (typeof OFFICIAL_ROLES)[number];
+
+/** What an incident in a referee report is about. */
+export const REPORT_INCIDENT_KINDS = ["misconduct", "injury", "crowd", "facilities", "other"] as const;
+export type ReportIncidentKind = (typeof REPORT_INCIDENT_KINDS)[number];
+
+/** Things that go to the recycle bin instead of being deleted. */
+export const ARCHIVE_KINDS = ["team", "player", "group", "match"] as const;
+export type ArchiveKind = (typeof ARCHIVE_KINDS)[number];
+
+/** Drafts are only visible to news editors; published posts go live at publish_at. */
+export const NEWS_STATUSES = ["draft", "published"] as const;
+export type NewsStatus = (typeof NEWS_STATUSES)[number];
+
+export const NEWS_MEDIA_TYPES = ["none", "image", "video"] as const;
+export type NewsMediaType = (typeof NEWS_MEDIA_TYPES)[number];
+
+export const KNOCKOUT_ROUNDS = ["R16", "QF", "SF", "F", "3P"] as const;
+export type KnockoutRound = (typeof KNOCKOUT_ROUNDS)[number];
+
+/** Where a knockout slot's team comes from once that match is finished. */
+export const BRACKET_SOURCES = ["winner", "loser"] as const;
+export type BracketSource = (typeof BRACKET_SOURCES)[number];
+
+/** Archived tournaments (past seasons) stay readable but can't be changed. */
+export const TOURNAMENT_STATUSES = ["active", "archived"] as const;
+export type TournamentStatus = (typeof TOURNAMENT_STATUSES)[number];
+
+/* ---------- Tiny schema helpers ---------- */
+
+export class PayloadError extends Error {}
+
+export type Schema<T> = (value: unknown, path: string) => T;
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+// s.optional() keys become optional properties
+type OptionalKeys<S extends Shape> = { [K in keyof S]: undefined extends Infer<S[K]> ? K : never }[keyof S];
+type Flatten<T> = { [K in keyof T]: T[K] };
+type ShapeOf<S extends Shape> = Flatten<
+  { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> }
+>;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export const s = {
+  string(opts?: { min?: number; max?: number }): Schema<string> {
+    return (value, path) => {
+      if (typeof value !== "string") throw new PayloadError(`${path} must be a string`);
+      const v = value.trim();
+      if (v.length < (opts?.min ?? 0)) throw new PayloadError(`${path} is required`);
+      if (opts?.max != null && v.length > opts.max) {
+        throw new PayloadError(`${path} must be at most ${opts.max} characters`);
+      }
+      return v;
+    };
+  },
+
+  /** Row id (uuid / bigint as string). */
+  id(): Schema<string> {
+    return (value, path) => {
+      if (typeof value === "number" && Number.isFinite(value)) return String(value);
+      if (typeof value !== "string" || !value.trim()) throw new PayloadError(`${path} is required`);
+      return value.trim();
+    };
+  },
+
+  int(opts?: { min?: number; max?: number }): Schema<number> {
+    return (value, path) => {
+      const n = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+      if (typeof n !== "number" || !Number.isInteger(n)) throw new PayloadError(`${path} must be a whole number`);
+      if (opts?.min != null && n < opts.min) throw new PayloadError(`${path} must be ≥ ${opts.min}`);
+      if (opts?.max != null && n > opts.max) throw new PayloadError(`${path} must be ≤ ${opts.max}`);
+      return n;
+    };
+  },
+
+  boolean(): Schema<boolean> {
+    return (value, path) => {
+      if (typeof value !== "boolean") throw new PayloadError(`${path} must be true or false`);
+      return value;
+    };
+  },
+
+  /** ISO timestamp string. */
+  isoDate(): Schema<string> {
+    return (value, path) => {
+      if (typeof value !== "string" || Number.isNaN(new Date(value).getTime())) {
+        throw new PayloadError(`${path} must be a date`);
+      }
+      return new Date(value).toISOString();
+    };
+  },
+
+  oneOf<const T extends readonly string[]>(values: T): Schema<T[number]> {
+    return (value, path) => {
+      if (typeof value !== "string" || !values.includes(value)) {
+        throw new PayloadError(`${path} must be one of: ${values.join(", ")}`);
+      }
+      return value as T[number];
+    };
+  },
+
+  /** Passed through untouched (validated later, e.g. batch step payloads). */
+  unknown(): Schema<unknown> {
+    return (value) => value;
+  },
+
+  /** Accepts null/undefined/"" as null. */
+  nullable<T>(inner: Schema<T>): Schema<T | null> {
+    return (value, path) => (value == null || value === "" ? null : inner(value, path));
+  },
+
+  /** Accepts a missing key; keeps it missing. */
+  optional<T>(inner: Schema<T>): Schema<T | undefined> {
+    return (value, path) => (value === undefined ? undefined : inner(value, path));
+  },
+
+  array<T>(inner: Schema<T>, opts?: { min?: number; max?: number }): Schema<T[]> {
+    return (value, path) => {
+      if (!Array.isArray(value)) throw new PayloadError(`${path} must be a list`);
+      if (value.length < (opts?.min ?? 0)) throw new PayloadError(`${path} needs at least ${opts?.min} item(s)`);
+      if (opts?.max != null && value.length > opts.max) {
+        throw new PayloadError(`${path} allows at most ${opts.max} item(s)`);
+      }
+      return value.map((item, i) => inner(item, `${path}[${i}]`));
+    };
+  },
+
+  /** Object with exactly these keys (unknown keys are rejected). */
+  object<S extends Shape>(shape: S): Schema<ShapeOf<S>> {
+    return (value, path) => {
+      if (!isRecord(value)) throw new PayloadError(`${path} must be an object`);
+      for (const key of Object.keys(value)) {
+        if (!(key in shape)) throw new PayloadError(`${path}.${key} is not allowed`);
+      }
+      const out: Record<string, unknown> = {};
+      for (const key of Object.keys(shape)) {
+        const v = shape[key](value[key], `${path}.${key}`);
+        if (v !== undefined) out[key] = v;
+      }
+      return out as ShapeOf<S>;
+    };
+  },
+
+  /**
+   * Partial update: only whitelisted keys, at least one of them.
+   * Used for the `patch` of update actions so nothing else reaches the DB.
+   */
+  patch<S extends Shape>(shape: S): Schema<Partial<ShapeOf<S>>> {
+    return (value, path) => {
+      if (!isRecord(value)) throw new PayloadError(`${path} must be an object`);
+      const keys = Object.keys(value);
+      if (keys.length === 0) throw new PayloadError(`${path} is empty`);
+      const out: Record<string, unknown> = {};
+      for (const key of keys) {
+        if (!(key in shape)) throw new PayloadError(`${path}.${key} cannot be edited`);
+        out[key] = shape[key](value[key], `${path}.${key}`);
+      }
+      return out as Partial<ShapeOf<S>>;
+    };
+  },
+};
+
+/* ---------- Row fields that admins may write ---------- */
+
+// half / extra time lengths drive the live clock (second half starts at half_minutes)
+const tournamentFields = {
+  name: s.string({ min: 1, max: 80 }),
+  season: s.nullable(s.string({ max: 40 })),
+  half_minutes: s.optional(s.int({ min: 1, max: 90 })),
+  extra_time_minutes: s.optional(s.int({ min: 0, max: 60 })),
+  // suspension rule (lib/discipline.ts); 0 = off
+  red_card_ban_matches: s.optional(s.int({ min: 0, max: 10 })),
+  yellow_card_limit: s.optional(s.int({ min: 0, max: 10 })),
+  yellow_card_ban_matches: s.optional(s.int({ min: 0, max: 10 })),
+};
+
+// status is not editable: it only moves through finalizeMatch / reopenMatch
+// teams may be null in knockout slots that wait for a source match (winner / loser of …)
+const matchFields = {
+  stage: s.oneOf(MATCH_STAGES),
+  group_id: s.nullable(s.id()),
+  home_team_id: s.nullable(s.id()),
+  away_team_id: s.nullable(s.id()),
+  start_time: s.nullable(s.isoDate()),
+  home_score: s.int({ min: 0 }),
+  away_score: s.int({ min: 0 }),
+  // knockout only: goals in extra time and the shootout (lib/matchResult.ts)
+  et_home_score: s.optional(s.nullable(s.int({ min: 0 }))),
+  et_away_score: s.optional(s.nullable(s.int({ min: 0 }))),
+  home_pens: s.optional(s.nullable(s.int({ min: 0 }))),
+  away_pens: s.optional(s.nullable(s.int({ min: 0 }))),
+  knockout_round: s.nullable(s.oneOf(KNOCKOUT_ROUNDS)),
+  knockout_order: s.nullable(s.int({ min: 1 })),
+  knockout_label: s.nullable(s.string({ max: 80 })),
+  motm_player_id: s.nullable(s.id()),
+  home_source_match_id: s.optional(s.nullable(s.id())),
+  home_source: s.optional(s.nullable(s.oneOf(BRACKET_SOURCES))),
+  away_source_match_id: s.optional(s.nullable(s.id())),
+  away_source: s.optional(s.nullable(s.oneOf(BRACKET_SOURCES))),
+};
+
+// team_id: the team the event is for (goals: the team the goal counts for, even an own goal)
+// related_player_id: the assist of a goal, or the player coming on in a substitution
+const matchEventFields = {
+  match_id: s.id(),
+  kind: s.oneOf(MATCH_EVENT_KINDS),
+  team_id: s.id(),
+  player_id: s.id(),
+  related_player_id: s.nullable(s.id()),
+  // null = the minute on the live clock (stays null when the clock isn't running)
+  minute: s.nullable(s.int({ min: 0, max: 200 })),
+  note: s.nullable(s.string({ max: 300 })),
+};
+
+// university: keeps the official away from matches of that university's teams
+const officialFields = {
+  full_name: s.string({ min: 1, max: 120 }),
+  university: s.nullable(s.string({ max: 80 })),
+  phone: s.nullable(s.string({ max: 40 })),
+};
+
+// one line of a referee report; team_id = the team involved, if any
+const reportIncidentFields = {
+  minute: s.nullable(s.int({ min: 0, max: 200 })),
+  kind: s.oneOf(REPORT_INCIDENT_KINDS),
+  team_id: s.nullable(s.id()),
+  description: s.string({ min: 1, max: 500 }),
+};
+
+// Manual overrides on top of the derived player_stats; null = back to automatic
+const statOverrideFields = {
+  matches_played: s.nullable(s.int({ min: 0 })),
+  goals: s.nullable(s.int({ min: 0 })),
+  assists: s.nullable(s.int({ min: 0 })),
+  motm: s.nullable(s.int({ min: 0 })),
+};
+
+// publish_at null = "now" when the post is published
+const newsFields = {
+  title: s.nullable(s.string({ max: 200 })),
+  body: s.string({ min: 1, max: 10000 }),
+  media_type: s.oneOf(NEWS_MEDIA_TYPES),
+  media_url: s.nullable(s.string({ max: 1000 })),
+  publish_at: s.nullable(s.isoDate()),
+};
+
+export type MatchInsert = ShapeOf<typeof matchFields>;
+export type MatchPatch = Partial<MatchInsert>;
+
+/** Something off about a match result: errors block finalizing, warnings need a confirm. */
+export type MatchIssue = { level: "error" | "warning"; message: string };
+export type MatchEventInput = ShapeOf<typeof matchEventFields>;
+export type OfficialInput = ShapeOf<typeof officialFields>;
+export type ReportIncident = ShapeOf<typeof reportIncidentFields>;
+export type PlayerStatOverrides = Partial<ShapeOf<typeof statOverrideFields>>;
+export type NewsPostInput = ShapeOf<typeof newsFields>;
+
+/* ---------- Registry ---------- */
+
+export const adminActionSchemas = {
+  // PROFILES (FANS)
+  setProfileStatus: s.object({ id: s.id(), status: s.oneOf(PROFILE_STATUSES) }),
+
+  // TOURNAMENTS (SEASONS)
+  // copy_teams_from: start with the teams and rosters of an earlier season
+  createTournament: s.object({
+    tournament: s.object(tournamentFields),
+    make_current: s.boolean(),
+    copy_teams_from: s.nullable(s.id()),
+  }),
+  updateTournament: s.object({ id: s.id(), patch: s.patch(tournamentFields) }),
+  // the one the app and admin open by default
+  setCurrentTournament: s.object({ id: s.id() }),
+  archiveTournament: s.object({ id: s.id() }),
+  reopenTournament: s.object({ id: s.id() }),
+
+  // TEAMS
+  // university: used by the group draw to keep teams of one university apart
+  createTeam: s.object({
+    tournament_id: s.id(),
+    name: s.string({ min: 1, max: 80 }),
+    university: s.optional(s.nullable(s.string({ max: 80 }))),
+  }),
+  updateTeam: s.object({
+    id: s.id(),
+    patch: s.patch({ name: s.string({ min: 1, max: 80 }), university: s.nullable(s.string({ max: 80 })) }),
+  }),
+  deleteTeam: s.object({ id: s.id() }),
+
+  // GROUPS
+  createGroup: s.object({ tournament_id: s.id(), name: s.string({ min: 1, max: 40 }) }),
+  deleteGroup: s.object({ id: s.id() }),
+  // groupId can be null to remove assignment
+  assignTeamGroup: s.object({ teamId: s.id(), groupId: s.nullable(s.id()) }),
+  // order in which level teams are separated (lib/standings.ts)
+  setTiebreakers: s.object({
+    tournament_id: s.id(),
+    tiebreakers: s.array(s.oneOf(TIEBREAKERS), { max: TIEBREAKERS.length }),
+  }),
+  // drawing of lots: team_ids best first; [] clears it
+  setGroupLots: s.object({ group_id: s.id(), team_ids: s.array(s.id()) }),
+  // round-robin group matches (lib/fixtures.ts); existing pairings are skipped
+  generateFixtures: s.object({
+    group_ids: s.array(s.id(), { min: 1 }),
+    double_round: s.boolean(),
+    slots: s.array(s.isoDate(), { max: 500 }),
+  }),
+
+  // SCHEDULING (pitches, time slots and team constraints; lib/schedule.ts)
+  createVenue: s.object({ tournament_id: s.id(), name: s.string({ min: 1, max: 80 }) }),
+  updateVenue: s.object({ id: s.id(), patch: s.patch({ name: s.string({ min: 1, max: 80 }) }) }),
+  // its slots go with it; matches on it lose their pitch (not their time)
+  deleteVenue: s.object({ id: s.id() }),
+  // every start time at every venue; slots that already exist are skipped
+  addScheduleSlots: s.object({
+    venue_ids: s.array(s.id(), { min: 1, max: 20 }),
+    starts_at: s.array(s.isoDate(), { min: 1, max: 200 }),
+    duration_minutes: s.int({ min: 10, max: 300 }),
+  }),
+  deleteScheduleSlots: s.object({ ids: s.array(s.id(), { min: 1, max: 500 }) }),
+  // min_rest_minutes null = no minimum; blackouts replace the team's current ones
+  setTeamScheduleRules: s.object({
+    team_id: s.id(),
+    min_rest_minutes: s.nullable(s.int({ min: 0, max: 10080 })),
+    blackouts: s.array(
+      s.object({ starts_at: s.isoDate(), ends_at: s.isoDate(), note: s.nullable(s.string({ max: 120 })) }),
+      { max: 50 }
+    ),
+  }),
+  // placing a match by hand; a locked match is left alone by runScheduler
+  setMatchSchedule: s.object({
+    id: s.id(),
+    patch: s.patch({ venue_id: s.nullable(s.id()), start_time: s.nullable(s.isoDate()), schedule_locked: s.boolean() }),
+  }),
+  // re-places every unlocked, unplayed match; keep_scheduled only places matches without a time
+  runScheduler: s.object({ tournament_id: s.id(), keep_scheduled: s.boolean() }),
+
+  // OFFICIALS (referees and assistants of a tournament; lib/officials.ts)
+  createOfficial: s.object({ tournament_id: s.id(), official: s.object(officialFields) }),
+  updateOfficial: s.object({ id: s.id(), patch: s.patch(officialFields) }),
+  deleteOfficial: s.object({ id: s.id() }),
+
+  // TEAM PLAYERS (ROSTER LINKS)
+  addTeamPlayer: s.object({ team_id: s.id(), player_id: s.id() }),
+  // removes the player from one team and adds them to another in one transaction
+  moveTeamPlayer: s.object({ player_id: s.id(), from_team_id: s.id(), to_team_id: s.id() }),
+  removeTeamPlayer: s.object({ team_id: s.id(), player_id: s.id() }),
+
+  // PLAYERS + PLAYER_STATS
+  createPlayerWithStats: s.object({
+    full_name: s.string({ min: 1, max: 120 }),
+    university: s.nullable(s.string({ max: 80 })),
+    position: s.nullable(s.string({ max: 20 })),
+  }),
+  deletePlayer: s.object({ id: s.id() }),
+  // one roster player <-> one active player account
+  linkPlayerProfile: s.object({ player_id: s.id(), profile_id: s.id() }),
+  unlinkPlayerProfile: s.object({ player_id: s.id() }),
+  // stats are kept per tournament
+  overridePlayerStats: s.object({ player_id: s.id(), tournament_id: s.id(), patch: s.patch(statOverrideFields) }),
+  // recompute every player's stats from match data (fixes drift)
+  rebuildPlayerStats: s.object({}),
+
+  // MATCHES + GOALS
+  createMatch: s.object({ tournament_id: s.id(), match: s.object(matchFields) }),
+  updateMatch: s.object({ id: s.id(), patch: s.patch(matchFields) }),
+  deleteMatch: s.object({ id: s.id() }),
+  // a whole knockout round at once (pairings in knockout_order, see lib/bracket.ts);
+  // later_rounds also creates the rest of the bracket as "Winner QF1"-style slots
+  createKnockoutRound: s.object({
+    tournament_id: s.id(),
+    round: s.oneOf(KNOCKOUT_ROUNDS),
+    pairings: s.array(
+      s.object({ home_team_id: s.id(), away_team_id: s.id(), start_time: s.nullable(s.isoDate()) }),
+      { min: 1, max: 8 }
+    ),
+    later_rounds: s.optional(s.boolean()),
+    third_place: s.optional(s.boolean()),
+  }),
+  // live match: each phase moves the clock (kick-off, half-time, second half…); null = back to not started
+  setMatchPhase: s.object({ id: s.id(), phase: s.nullable(s.oneOf(LIVE_PHASES)) }),
+  // pause / resume the running clock; minute corrects it (the minute being played now)
+  setMatchClock: s.object({ id: s.id(), running: s.boolean(), minute: s.optional(s.int({ min: 1, max: 200 })) }),
+  // checks the result, marks it finished (frozen) and scores predictions
+  finalizeMatch: s.object({ id: s.id(), acknowledge_warnings: s.optional(s.boolean()) }),
+  reopenMatch: s.object({ id: s.id(), reason: s.string({ min: 3, max: 300 }) }),
+  // goals, cards, substitutions… (goal events must add up to the score when finalizing)
+  addMatchEvent: s.object({ event: s.object(matchEventFields) }),
+  deleteMatchEvent: s.object({ id: s.id() }),
+  // replaces one team's lineup for the match ([] clears it); players come from the team's roster
+  setMatchLineup: s.object({
+    match_id: s.id(),
+    team_id: s.id(),
+    players: s.array(
+      s.object({
+        player_id: s.id(),
+        role: s.oneOf(LINEUP_ROLES),
+        shirt_number: s.nullable(s.int({ min: 0, max: 99 })),
+      }),
+      { max: 40 }
+    ),
+  }),
+  // replaces the match's officials (null / [] clears them); refused when an official clashes
+  setMatchOfficials: s.object({
+    match_id: s.id(),
+    referee_id: s.nullable(s.id()),
+    assistant_ids: s.array(s.id(), { max: 2 }),
+  }),
+  // the referee's post-match report (one per match, saved again to edit it)
+  saveRefereeReport: s.object({
+    match_id: s.id(),
+    incidents: s.array(s.object(reportIncidentFields), { max: 30 }),
+    notes: s.nullable(s.string({ max: 2000 })),
+  }),
+  // kick by kick, in order; replaces the shootout and sets home_pens / away_pens ([] clears it)
+  setPenaltyShootout: s.object({
+    match_id: s.id(),
+    kicks: s.array(s.object({ team_id: s.id(), player_id: s.nullable(s.id()), scored: s.boolean() }), { max: 60 }),
+  }),
+
+  // RECYCLE BIN (delete* actions archive; these undo or finish the job)
+  restoreArchived: s.object({ kind: s.oneOf(ARCHIVE_KINDS), id: s.id() }),
+  purgeArchived: s.object({ kind: s.oneOf(ARCHIVE_KINDS), id: s.id() }),
+
+  // NEWS (every edit keeps the previous version in news_post_revisions)
+  createNewsPost: s.object({ tournament_id: s.id(), post: s.object(newsFields), status: s.oneOf(NEWS_STATUSES) }),
+  updateNewsPost: s.object({ id: s.id(), patch: s.patch(newsFields) }),
+  publishNewsPost: s.object({ id: s.id(), publish_at: s.nullable(s.isoDate()) }),
+  unpublishNewsPost: s.object({ id: s.id() }),
+  deleteNewsPost: s.object({ id: s.id() }),
+
+  // BATCH: runs the steps in order; any failure undoes all of them. Bulk edits
+  // (assignTeamGroup, overridePlayerStats, setTeamScheduleRules) share one
+  // transaction; other steps are undone with compensating writes.
+  batch: s.object({
+    steps: s.array(s.object({ type: s.string({ min: 1 }), payload: s.unknown() }), { min: 1, max: 100 }),
+  }),
+};
+
+export type AdminActionType = keyof typeof adminActionSchemas;
+
+/**
+ * Scope a staff role needs to run each action (see lib/adminRoles.ts).
+ * A batch needs the scopes of all of its steps.
+ */
+export const adminActionScopes: Record<Exclude<AdminActionType, "batch">, AdminScope> = {
+  setProfileStatus: "people",
+  linkPlayerProfile: "people",
+  unlinkPlayerProfile: "people",
+
+  createTournament: "tournament",
+  updateTournament: "tournament",
+  setCurrentTournament: "tournament",
+  archiveTournament: "tournament",
+  reopenTournament: "tournament",
+
+  createTeam: "tournament",
+  updateTeam: "tournament",
+  deleteTeam: "tournament",
+  createGroup: "tournament",
+  deleteGroup: "tournament",
+  assignTeamGroup: "tournament",
+  setTiebreakers: "tournament",
+  setGroupLots: "tournament",
+  generateFixtures: "tournament",
+  createMatch: "tournament",
+  deleteMatch: "tournament",
+  createKnockoutRound: "tournament",
+  createVenue: "tournament",
+  updateVenue: "tournament",
+  deleteVenue: "tournament",
+  addScheduleSlots: "tournament",
+  deleteScheduleSlots: "tournament",
+  setTeamScheduleRules: "tournament",
+  setMatchSchedule: "tournament",
+  runScheduler: "tournament",
+  createOfficial: "tournament",
+  updateOfficial: "tournament",
+  deleteOfficial: "tournament",
+
+  addTeamPlayer: "roster",
+  moveTeamPlayer: "roster",
+  removeTeamPlayer: "roster",
+  createPlayerWithStats: "roster",
+  deletePlayer: "roster",
+  overridePlayerStats: "roster",
+  rebuildPlayerStats: "roster",
+
+  updateMatch: "scores",
+  setMatchPhase: "scores",
+  setMatchClock: "scores",
+  finalizeMatch: "scores",
+  reopenMatch: "tournament",
+  addMatchEvent: "scores",
+  deleteMatchEvent: "scores",
+  setMatchLineup: "scores",
+  setMatchOfficials: "tournament",
+  saveRefereeReport: "scores",
+  setPenaltyShootout: "scores",
+
+  createNewsPost: "news",
+  updateNewsPost: "news",
+  publishNewsPost: "news",
+  unpublishNewsPost: "news",
+  deleteNewsPost: "news",
+
+  restoreArchived: "oversight",
+  purgeArchived: "oversight",
+};
+
+export type AdminActionPayload<T extends AdminActionType> = Infer<(typeof adminActionSchemas)[T]>;
+
+type Ok<Extra = object> = { ok: true } & Extra;
+
+export type BatchStepResult = { type: string; ok: true; result: unknown } | { type: string; ok: false; error: string };
+
+/** Results that carry more than `{ ok: true }`. */
+type ResultOverrides = {
+  // teams = how many were copied from copy_teams_from
+  createTournament: Ok<{ tournament_id: string; teams: number }>;
+  createPlayerWithStats: Ok<{ player_id: string }>;
+  // dependent rows left in the bin (another parent is still archived, or the player moved on)
+  restoreArchived: Ok<{ skipped: number }>;
+  rebuildPlayerStats: Ok<{ updated: number }>;
+  // skipped = pairings that already had a match; unscheduled = created without a start time
+  generateFixtures: Ok<{ created: number; skipped: number; unscheduled: number }>;
+  // skipped = venue + start time pairs that already had a slot
+  addScheduleSlots: Ok<{ created: number; skipped: number }>;
+  // scheduled = matches given a pitch and time; unplaced = left without a time (no slot fits)
+  runScheduler: Ok<{ scheduled: number; unplaced: number }>;
+  // advanced = bracket slots filled with this match's winner / loser
+  finalizeMatch: Ok<{ issues: MatchIssue[]; predictions_scored: number; advanced: number }>;
+  createNewsPost: Ok<{ post_id: string }>;
+  batch: Ok<{ steps: BatchStepResult[] }>;
+};
+
+export type AdminActionResult<T extends AdminActionType> = T extends keyof ResultOverrides
+  ? ResultOverrides[T]
+  : Ok;
+
+export type BatchStep = AdminActionPayload<"batch">["steps"][number];
+
+/** Typed batch step: `adminAction("batch", { steps: [batchStep("addTeamPlayer", {...})] })`. */
+export function batchStep<T extends Exclude<AdminActionType, "batch">>(
+  type: T,
+  payload: AdminActionPayload<T>
+): BatchStep {
+  return { type, payload };
+}
+
+export function isAdminActionType(type: unknown): type is AdminActionType {
+  return typeof type === "string" && Object.prototype.hasOwnProperty.call(adminActionSchemas, type);
+}
+
+/** Validates a raw request payload against the action's schema (throws PayloadError). */
+export function parseAdminPayload<T extends AdminActionType>(type: T, payload: unknown): AdminActionPayload<T> {
+  const schema = adminActionSchemas[type] as Schema<AdminActionPayload<T>>;
+  return schema(payload, "payload");
+}
@@ -1,8 +1,19 @@
 "use client";
 
 import { supabase } from "@/lib/supabaseClient";
+import type { AdminActionPayload, AdminActionResult, AdminActionType } from "@/lib/adminActions";
 
-export async function adminAction(type: string, payload: any) {
+/** Failed admin action; `details` carries extra fields from the server (e.g. `issues`). */
+export class AdminActionError extends Error {
+  constructor(message: string, public status: number, public details: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+export async function adminAction<T extends AdminActionType>(
+  type: T,
+  payload: AdminActionPayload<T>
+): Promise<AdminActionResult<T>> {
   // Get session token so API can verify you are admin
   const { data: sess, error: sessErr } = await supabase.auth.getSession();
   if (sessErr) throw new Error(sessErr.message);
@@ -22,8 +33,9 @@ export async function adminAction(type: string, payload: any) {
 
   if (!res.ok) {
     // show server error message if present
-    throw new Error(json?.error || `Admin action failed (${res.status})`);
+    const { error, ...details } = json ?? {};
+    throw new AdminActionError(error || `Admin action failed (${res.status})`, res.status, details);
   }
 
-  return json;
+  return json as AdminActionResult<T>;
 }
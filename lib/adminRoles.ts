@@ -0,0 +1,74 @@
+/**
+ * Staff roles and what they may touch. Used by the API route (per action),
+ * the admin layout (per page) and the admin home nav.
+ */
+
+export const STAFF_ROLES = ["admin", "tournament_manager", "scorekeeper", "content_editor"] as const;
+export type StaffRole = (typeof STAFF_ROLES)[number];
+
+/**
+ * scores     – match results, goals, MOTM
+ * tournament – tournaments (seasons), teams, groups, fixtures, knockout bracket
+ * roster     – roster players, stats, team rosters
+ * news       – news posts
+ * people     – approving players, fans, linking accounts
+ * oversight  – audit log, recycle bin
+ */
+export const ADMIN_SCOPES = ["scores", "tournament", "roster", "news", "people", "oversight"] as const;
+export type AdminScope = (typeof ADMIN_SCOPES)[number];
+
+export const ROLE_SCOPES: Record<StaffRole, readonly AdminScope[]> = {
+  admin: ADMIN_SCOPES,
+  tournament_manager: ["scores", "tournament", "roster"],
+  scorekeeper: ["scores"],
+  content_editor: ["news"],
+};
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  admin: "Super admin",
+  tournament_manager: "Tournament manager",
+  scorekeeper: "Scorekeeper",
+  content_editor: "Content editor",
+};
+
+// Admin pages -> scope needed to open them ("/admin" itself is open to all staff)
+export const ADMIN_PAGE_SCOPES: Record<string, AdminScope> = {
+  "/admin/approve-players": "people",
+  "/admin/fans": "people",
+  "/admin/link-player": "people",
+  "/admin/players": "roster",
+  "/admin/team-players": "roster",
+  "/admin/tournaments": "tournament",
+  "/admin/teams": "tournament",
+  "/admin/groups": "tournament",
+  "/admin/schedule": "tournament",
+  "/admin/officials": "tournament",
+  "/admin/knockout": "tournament",
+  "/admin/matches": "scores",
+  "/admin/news": "news",
+  "/admin/audit": "oversight",
+  "/admin/recycle-bin": "oversight",
+};
+
+export function isStaffRole(role: unknown): role is StaffRole {
+  return typeof role === "string" && (STAFF_ROLES as readonly string[]).includes(role);
+}
+
+export function hasScope(role: unknown, scope: AdminScope) {
+  return isStaffRole(role) && ROLE_SCOPES[role].includes(scope);
+}
+
+/** Scope needed for an /admin path, or null when any staff role may open it. */
+export function adminPageScope(pathname: string): AdminScope | null {
+  for (const [prefix, scope] of Object.entries(ADMIN_PAGE_SCOPES)) {
+    if (pathname === prefix || pathname.startsWith(`${prefix}/`)) return scope;
+  }
+  return null;
+}
+
+/** Active staff member allowed to open this admin path. */
+export function canOpenAdminPage(profile: { role?: unknown; status?: unknown } | null, pathname: string) {
+  if (!profile || !isStaffRole(profile.role) || profile.status !== "active") return false;
+  const scope = adminPageScope(pathname);
+  return scope == null || hasScope(profile.role, scope);
+}
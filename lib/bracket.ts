@@ -0,0 +1,213 @@
+/**
+ * First knockout round from the group tables (/api/standings).
+ *
+ * Qualification: the top N of every group, plus optionally the best teams
+ * finishing N+1 (compared across groups on points, goal difference, goals
+ * scored, wins). Seeding: with two qualifiers per group and an even number
+ * of groups, the usual cross-over (A1–B2, C1–D2 | B1–A2, D1–C2) so teams
+ * from one group can only meet again in the final. Otherwise the strongest
+ * seed meets the weakest one from another group.
+ */
+
+import type { KnockoutRound } from "./adminActions";
+import type { GroupStandings, StandingsTableRow } from "./standings";
+
+/** Bracket size -> first round. */
+export const FIRST_ROUND_BY_SIZE: Record<number, KnockoutRound> = { 16: "R16", 8: "QF", 4: "SF", 2: "F" };
+
+export type QualificationRule = {
+  per_group: number;
+  /** How many of the teams finishing per_group + 1 also go through. */
+  best_next: number;
+};
+
+export type Qualifier = {
+  team_id: string;
+  team_name: string;
+  group_id: string;
+  /** Seed label, e.g. "A1". */
+  label: string;
+  place: number;
+  row: StandingsTableRow;
+};
+
+export type Pairing = { home: Qualifier; away: Qualifier };
+
+/** "Group A" -> "A"; anything else stays as it is. */
+export function groupCode(name: string) {
+  const m = name.trim().match(/^group\s+(\S+)$/i);
+  return m ? m[1] : name.trim();
+}
+
+function compareAcrossGroups(a: Qualifier, b: Qualifier) {
+  return (
+    b.row.pts - a.row.pts ||
+    b.row.gd - a.row.gd ||
+    b.row.gf - a.row.gf ||
+    b.row.won - a.row.won ||
+    a.team_name.localeCompare(b.team_name)
+  );
+}
+
+/** Qualified teams, strongest seed first (winners, runners-up, …, best next-placed). */
+export function qualifiers(groups: GroupStandings[], rule: QualificationRule): Qualifier[] {
+  const at = (place: number) =>
+    groups.flatMap((g) => {
+      const row = g.rows[place - 1];
+      if (!row) return [];
+      return [
+        {
+          team_id: row.team_id,
+          team_name: row.team_name,
+          group_id: g.group_id,
+          label: `${groupCode(g.group_name)}${place}`,
+          place,
+          row,
+        },
+      ];
+    });
+
+  const out: Qualifier[] = [];
+  for (let place = 1; place <= rule.per_group; place++) out.push(...at(place));
+
+  if (rule.best_next > 0) {
+    out.push(...at(rule.per_group + 1).sort(compareAcrossGroups).slice(0, rule.best_next));
+  }
+  return out;
+}
+
+/** Standard bracket slots: seeds 1..n in the order they appear top to bottom (1, 8, 4, 5, 2, 7, 3, 6). */
+function bracketOrder(n: number): number[] {
+  let order = [1];
+  while (order.length < n) {
+    const size = order.length * 2;
+    order = order.flatMap((s) => [s, size + 1 - s]);
+  }
+  return order;
+}
+
+/**
+ * First-round pairings in knockout_order. Throws when the number of
+ * qualifiers is not a bracket size (2, 4, 8, 16).
+ */
+export function seedFirstRound(qualified: Qualifier[]): Pairing[] {
+  const n = qualified.length;
+  if (!FIRST_ROUND_BY_SIZE[n]) {
+    throw new Error(`${n} qualified team(s): a bracket needs 2, 4, 8 or 16`);
+  }
+
+  const winners = qualified.filter((q) => q.place === 1);
+  const runnersUp = qualified.filter((q) => q.place === 2);
+
+  // cross-over: pair groups (A,B), (C,D), …; winners of a pair land in opposite halves
+  if (winners.length === runnersUp.length && winners.length === n / 2 && winners.length % 2 === 0) {
+    const runnerUpOf = new Map(runnersUp.map((q) => [q.group_id, q]));
+    const top: Pairing[] = [];
+    const bottom: Pairing[] = [];
+    for (let i = 0; i < winners.length; i += 2) {
+      const x = winners[i];
+      const y = winners[i + 1];
+      top.push({ home: x, away: runnerUpOf.get(y.group_id)! });
+      bottom.push({ home: y, away: runnerUpOf.get(x.group_id)! });
+    }
+    if (top.every((p) => p.away) && bottom.every((p) => p.away)) return [...top, ...bottom];
+  }
+
+  // strongest vs weakest remaining from another group (same group only if nothing else is left)
+  const pool = qualified.slice();
+  const pairs: Pairing[] = [];
+  while (pool.length) {
+    const home = pool.shift()!;
+    let j = pool.length - 1;
+    while (j > 0 && pool[j].group_id === home.group_id) j--;
+    const [away] = pool.splice(j, 1);
+    pairs.push({ home, away });
+  }
+
+  // pairs are in seed order (1v8, 2v7, …); spread them like a seeded bracket
+  return bracketOrder(n)
+    .filter((_, i) => i % 2 === 0)
+    .map((seed) => pairs[seed - 1]);
+}
+
+/** The bits of a match a bracket placeholder needs. */
+export type SlotMatch = {
+  id: string;
+  knockout_round: string | null;
+  knockout_order: number | null;
+  home_source_match_id?: string | null;
+  home_source?: string | null;
+  away_source_match_id?: string | null;
+  away_source?: string | null;
+};
+
+/** "QF1" for a knockout match, "" when it has no round. */
+export function slotCode(m: Pick<SlotMatch, "knockout_round" | "knockout_order">) {
+  return m.knockout_round ? `${m.knockout_round}${m.knockout_order ?? ""}` : "";
+}
+
+/**
+ * What to show for a side whose team isn't known yet: "Winner QF1" /
+ * "Loser SF2" when it comes from another match, otherwise "TBD".
+ */
+export function slotPlaceholder(m: SlotMatch, side: "home" | "away", matches: SlotMatch[]) {
+  const sourceId = m[`${side}_source_match_id`];
+  const source = sourceId ? matches.find((x) => x.id === sourceId) : null;
+  if (!source || !slotCode(source)) return "TBD";
+  return `${m[`${side}_source`] === "loser" ? "Loser" : "Winner"} ${slotCode(source)}`;
+}
+
+/** Main bracket rounds, left to right (3P is drawn under the final). */
+export const BRACKET_ROUNDS = ["R16", "QF", "SF", "F"] as const;
+
+export type BracketColumn<M> = {
+  round: (typeof BRACKET_ROUNDS)[number];
+  /** One entry per slot, top to bottom (index = knockout_order - 1); null = no match there yet. */
+  slots: (M | null)[];
+};
+
+export type BracketLayout<M> = {
+  columns: BracketColumn<M>[];
+  thirdPlace: M | null;
+  /** Knockout matches without a bracket round / order (listed separately). */
+  other: M[];
+};
+
+/**
+ * Places knockout matches in bracket columns by knockout_round and
+ * knockout_order: the first round present sets the height, every later
+ * round has half the slots of the one before.
+ */
+export function bracketLayout<M extends Pick<SlotMatch, "knockout_round" | "knockout_order">>(
+  matches: M[]
+): BracketLayout<M> {
+  const placed = new Set<M>();
+  const inRound = (round: string) => matches.filter((m) => m.knockout_round === round && m.knockout_order);
+
+  const first = BRACKET_ROUNDS.findIndex((r) => inRound(r).length > 0);
+  const columns: BracketColumn<M>[] = [];
+
+  if (first >= 0) {
+    const firstMatches = inRound(BRACKET_ROUNDS[first]);
+    const fromRound = BRACKET_ROUNDS.length - 1 - first; // F = 1 slot, SF = 2, QF = 4, R16 = 8
+    let size = Math.max(2 ** fromRound, ...firstMatches.map((m) => m.knockout_order!));
+
+    for (const round of BRACKET_ROUNDS.slice(first)) {
+      const slots: (M | null)[] = Array.from({ length: size }, () => null);
+      for (const m of inRound(round)) {
+        const i = m.knockout_order! - 1;
+        if (i < size && !slots[i]) {
+          slots[i] = m;
+          placed.add(m);
+        }
+      }
+      columns.push({ round, slots });
+      size = Math.max(1, Math.ceil(size / 2));
+    }
+  }
+
+  const thirdPlace = matches.find((m) => m.knockout_round === "3P") || null;
+  if (thirdPlace) placed.add(thirdPlace);
+
+  return { columns, thirdPlace, other: matches.filter((m) => !placed.has(m)) };
+}
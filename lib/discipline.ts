@@ -0,0 +1,194 @@
+/**
+ * Cards and suspensions.
+ *
+ * Cards are match events (yellow_card / red_card). A player sent off (a red
+ * card, or two yellows in one match) misses the next red_card_ban_matches
+ * matches of their team; every yellow_card_limit-th match with a single
+ * yellow adds a yellow_card_ban_matches ban. Bans are served in the team's
+ * following matches in playing order, one after the other. A rule set to 0
+ * is off.
+ *
+ * Pure, so /admin/matches (lineup and goal warnings), the finalize checks and
+ * the fans' discipline table on the standings page (components/DisciplineTable.tsx)
+ * all agree on who is suspended for which match.
+ */
+
+export type SuspensionRule = {
+  red_card_ban_matches: number;
+  yellow_card_limit: number;
+  yellow_card_ban_matches: number;
+};
+
+export const DEFAULT_SUSPENSION_RULE: SuspensionRule = {
+  red_card_ban_matches: 1,
+  yellow_card_limit: 2,
+  yellow_card_ban_matches: 1,
+};
+
+export type DisciplineMatch = {
+  id: string;
+  home_team_id: string | null;
+  away_team_id: string | null;
+  start_time: string | null;
+  created_at: string;
+  status: string;
+};
+
+export type CardEvent = { match_id: string; team_id: string; player_id: string; kind: string };
+
+export type SuspensionReason = "sent_off" | "yellow_cards";
+
+export const SUSPENSION_REASON_LABELS: Record<SuspensionReason, string> = {
+  sent_off: "Sent off",
+  yellow_cards: "Yellow cards",
+};
+
+export type Suspension = {
+  player_id: string;
+  team_id: string;
+  /** The match the player misses. */
+  match_id: string;
+  reason: SuspensionReason;
+  /** The match the card(s) came in. */
+  earned_in: string;
+  /** The match has been played (finished). */
+  served: boolean;
+};
+
+export type PlayerDiscipline = {
+  player_id: string;
+  team_id: string;
+  yellows: number;
+  reds: number;
+  /** Single-yellow matches since the last yellow-card ban (towards yellow_card_limit). */
+  yellows_towards_ban: number;
+  suspensions: Suspension[];
+};
+
+/** Playing order: kick-off time (unscheduled last), then creation. */
+export function playingOrder<M extends Pick<DisciplineMatch, "id" | "start_time" | "created_at">>(matches: M[]) {
+  const time = (m: M) => (m.start_time ? new Date(m.start_time).getTime() : Infinity);
+  const text = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+  return matches
+    .slice()
+    .sort(
+      (a, b) =>
+        (time(a) === time(b) ? 0 : time(a) < time(b) ? -1 : 1) ||
+        text(a.created_at, b.created_at) ||
+        text(a.id, b.id)
+    );
+}
+
+export function computeDiscipline(
+  matches: DisciplineMatch[],
+  cards: CardEvent[],
+  rule: SuspensionRule
+): PlayerDiscipline[] {
+  const ordered = playingOrder(matches);
+  const out: PlayerDiscipline[] = [];
+
+  // cards by player + team (a player's cards only ever ban them from that team's matches)
+  const byPlayer = new Map<string, CardEvent[]>();
+  for (const c of cards) {
+    if (c.kind !== "yellow_card" && c.kind !== "red_card") continue;
+    const key = `${c.player_id}|${c.team_id}`;
+    byPlayer.set(key, [...(byPlayer.get(key) || []), c]);
+  }
+
+  for (const [key, playerCards] of byPlayer) {
+    const [player_id, team_id] = key.split("|");
+    const entry: PlayerDiscipline = {
+      player_id,
+      team_id,
+      yellows: playerCards.filter((c) => c.kind === "yellow_card").length,
+      reds: playerCards.filter((c) => c.kind === "red_card").length,
+      yellows_towards_ban: 0,
+      suspensions: [],
+    };
+
+    // bans waiting to be served, in the order they were earned
+    const pending: { reason: SuspensionReason; earned_in: string; left: number }[] = [];
+    let singleYellows = 0;
+
+    for (const m of ordered) {
+      if (m.home_team_id !== team_id && m.away_team_id !== team_id) continue;
+
+      if (pending.length) {
+        const ban = pending[0];
+        entry.suspensions.push({
+          player_id,
+          team_id,
+          match_id: m.id,
+          reason: ban.reason,
+          earned_in: ban.earned_in,
+          served: m.status === "finished",
+        });
+        if (--ban.left === 0) pending.shift();
+      }
+
+      const inMatch = playerCards.filter((c) => c.match_id === m.id);
+      const yellows = inMatch.filter((c) => c.kind === "yellow_card").length;
+      const reds = inMatch.length - yellows;
+
+      if (reds > 0 || yellows >= 2) {
+        if (rule.red_card_ban_matches > 0) {
+          pending.push({ reason: "sent_off", earned_in: m.id, left: rule.red_card_ban_matches });
+        }
+      } else if (yellows === 1 && rule.yellow_card_limit > 0) {
+        singleYellows++;
+        if (singleYellows === rule.yellow_card_limit) {
+          singleYellows = 0;
+          if (rule.yellow_card_ban_matches > 0) {
+            pending.push({ reason: "yellow_cards", earned_in: m.id, left: rule.yellow_card_ban_matches });
+          }
+        }
+      }
+    }
+
+    entry.yellows_towards_ban = singleYellows;
+    out.push(entry);
+  }
+
+  return out;
+}
+
+/** Players suspended for a match. */
+export function suspendedFor(discipline: PlayerDiscipline[], matchId: string) {
+  return new Set(
+    discipline.flatMap((d) => d.suspensions.filter((s) => s.match_id === matchId).map((s) => s.player_id))
+  );
+}
+
+/**
+ * Fair-play penalty points per team (the "fair_play" tiebreaker in
+ * lib/standings.ts, lower is better), counted per player per match: a yellow
+ * is 1, a second yellow 3, a straight red 4, a yellow and a straight red 5.
+ */
+export function fairPlayPoints(cards: CardEvent[]): Record<string, number> {
+  const byPlayerMatch = new Map<string, CardEvent[]>();
+  for (const c of cards) {
+    if (c.kind !== "yellow_card" && c.kind !== "red_card") continue;
+    const key = `${c.player_id}|${c.team_id}|${c.match_id}`;
+    byPlayerMatch.set(key, [...(byPlayerMatch.get(key) || []), c]);
+  }
+
+  const out: Record<string, number> = {};
+  for (const playerCards of byPlayerMatch.values()) {
+    const yellows = playerCards.filter((c) => c.kind === "yellow_card").length;
+    const reds = playerCards.length - yellows;
+    const points = reds > 0 ? (yellows > 0 ? 5 : 4) : yellows >= 2 ? 3 : yellows;
+    const teamId = playerCards[0].team_id;
+    out[teamId] = (out[teamId] || 0) + points;
+  }
+  return out;
+}
+
+/** The tournament's rule (tournaments.red_card_ban_matches etc.), defaults for missing values. */
+export function suspensionRuleOf(t: Partial<Record<keyof SuspensionRule, unknown>>): SuspensionRule {
+  const n = (v: unknown, fallback: number) => (v == null || Number.isNaN(Number(v)) ? fallback : Number(v));
+  return {
+    red_card_ban_matches: n(t.red_card_ban_matches, DEFAULT_SUSPENSION_RULE.red_card_ban_matches),
+    yellow_card_limit: n(t.yellow_card_limit, DEFAULT_SUSPENSION_RULE.yellow_card_limit),
+    yellow_card_ban_matches: n(t.yellow_card_ban_matches, DEFAULT_SUSPENSION_RULE.yellow_card_ban_matches),
+  };
+}
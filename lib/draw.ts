@@ -0,0 +1,185 @@
+/**
+ * Group draw with seeding pots and constraints.
+ *
+ * Pot by pot, the teams come out in a random order; each one goes to the
+ * first group (in order) that the rules allow and that still leaves a
+ * complete draw possible, the way a draw ceremony's "first available group"
+ * works. Pure and seeded: the same teams, rules and seed give the same draw,
+ * so /admin/groups can replay it step by step for the live draw.
+ */
+
+export type DrawTeam = { id: string; name: string; university: string | null };
+
+export type DrawRules = {
+  /** Team ids per pot, drawn pot 1 first. */
+  pots: string[][];
+  /** Groups that receive teams, in order (A, B, C…). */
+  group_ids: string[];
+  /** Most teams in a group, counting the ones already there. */
+  max_group_size: number;
+  /** No two teams from the same university in a group. */
+  separate_universities: boolean;
+  /** At most one team from each pot in a group. */
+  one_per_pot: boolean;
+  seed: string;
+};
+
+/** A team that is already in one of the groups and stays there. */
+export type FixedTeam = { team_id: string; group_id: string };
+
+export type DrawStep = { team_id: string; group_id: string; pot: number };
+
+export class DrawError extends Error {}
+
+// the feasibility search gives up after this many placements
+const SEARCH_BUDGET = 200_000;
+
+/** Seed text -> 32-bit number (FNV-1a). */
+function hashSeed(seed: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** Small seeded PRNG (mulberry32) returning [0, 1). */
+export function seededRandom(seed: string) {
+  let a = hashSeed(seed);
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Short seed that is easy to read out at the ceremony (e.g. "K7Q2XM"). */
+export function randomSeed() {
+  const chars = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+  let seed = "";
+  for (let i = 0; i < 6; i++) seed += chars[Math.floor(Math.random() * chars.length)];
+  return seed;
+}
+
+function shuffle<T>(items: T[], rand: () => number) {
+  const out = items.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/** Smallest size that fits every team (used when no maximum is given). */
+export function autoGroupSize(teamCount: number, groupCount: number) {
+  return groupCount > 0 ? Math.max(1, Math.ceil(teamCount / groupCount)) : 0;
+}
+
+function universityKey(u: string | null | undefined) {
+  const key = (u || "").trim().toLowerCase();
+  return key || null;
+}
+
+type Slot = { team_id: string; pot: number; university: string | null };
+type GroupState = { size: number; universities: Map<string, number>; pots: Map<number, number> };
+
+/**
+ * The whole draw, in the order it happens. Throws DrawError when the rules
+ * can't be met (too little room, too many teams of one university…).
+ */
+export function runDraw(teams: DrawTeam[], rules: DrawRules, fixed: FixedTeam[] = []): DrawStep[] {
+  if (rules.group_ids.length === 0) throw new DrawError("Pick at least one group to draw into");
+
+  const byId = new Map(teams.map((t) => [t.id, t]));
+  const seen = new Set<string>();
+  for (const id of rules.pots.flat()) {
+    if (!byId.has(id)) throw new DrawError("A team in the pots was not found");
+    if (seen.has(id)) throw new DrawError(`${byId.get(id)?.name} is in more than one pot`);
+    seen.add(id);
+  }
+  if (seen.size === 0) throw new DrawError("Put at least one team in a pot");
+  if (rules.one_per_pot) {
+    rules.pots.forEach((pot, i) => {
+      if (pot.length > rules.group_ids.length) {
+        throw new DrawError(
+          `Pot ${i + 1} has ${pot.length} teams but there are ${rules.group_ids.length} groups (one per pot per group)`
+        );
+      }
+    });
+  }
+
+  const groups = new Map<string, GroupState>(
+    rules.group_ids.map((id) => [id, { size: 0, universities: new Map(), pots: new Map() }])
+  );
+  const place = (g: GroupState, s: Slot, by: 1 | -1) => {
+    g.size += by;
+    if (s.university) g.universities.set(s.university, (g.universities.get(s.university) || 0) + by);
+    if (s.pot > 0) g.pots.set(s.pot, (g.pots.get(s.pot) || 0) + by);
+  };
+
+  // teams already sitting in these groups count towards every rule (pot 0 = no pot)
+  for (const f of fixed) {
+    const g = groups.get(f.group_id);
+    if (!g || seen.has(f.team_id)) continue;
+    place(g, { team_id: f.team_id, pot: 0, university: universityKey(byId.get(f.team_id)?.university) }, 1);
+  }
+
+  const taken = Array.from(groups.values()).reduce((n, g) => n + g.size, 0);
+  const room = Math.max(0, rules.group_ids.length * rules.max_group_size - taken);
+  if (seen.size > room) {
+    throw new DrawError(
+      `${seen.size} teams don't fit: there is room for ${room} with at most ${rules.max_group_size} per group`
+    );
+  }
+
+  const allowed = (g: GroupState, s: Slot) =>
+    g.size < rules.max_group_size &&
+    !(rules.separate_universities && s.university && g.universities.get(s.university)) &&
+    !(rules.one_per_pot && g.pots.get(s.pot));
+
+  // the order the balls come out: pot by pot, shuffled within the pot
+  const rand = seededRandom(rules.seed);
+  const order: Slot[] = rules.pots.flatMap((pot, i) =>
+    shuffle(pot, rand).map((id) => ({ team_id: id, pot: i + 1, university: universityKey(byId.get(id)?.university) }))
+  );
+
+  let budget = SEARCH_BUDGET;
+  // can order[from…] still all be placed? (depth-first, undoing as it goes)
+  const solvable = (from: number): boolean => {
+    if (from === order.length) return true;
+    if (--budget < 0) throw new DrawError("These rules are too tight to check; loosen them or use fewer pots");
+    const s = order[from];
+    for (const g of groups.values()) {
+      if (!allowed(g, s)) continue;
+      place(g, s, 1);
+      const ok = solvable(from + 1);
+      place(g, s, -1);
+      if (ok) return true;
+    }
+    return false;
+  };
+
+  if (!solvable(0)) throw new DrawError("No draw can satisfy these rules; loosen them or change the pots");
+
+  const steps: DrawStep[] = [];
+  for (const [i, s] of order.entries()) {
+    let placed = false;
+    for (const [groupId, g] of groups) {
+      if (!allowed(g, s)) continue;
+      place(g, s, 1);
+      budget = SEARCH_BUDGET;
+      if (solvable(i + 1)) {
+        steps.push({ team_id: s.team_id, group_id: groupId, pot: s.pot });
+        placed = true;
+        break;
+      }
+      place(g, s, -1);
+    }
+    // can't happen after solvable(0), but never return a half draw
+    if (!placed) throw new DrawError("The draw got stuck; try another seed");
+  }
+
+  return steps;
+}
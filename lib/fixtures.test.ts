@@ -0,0 +1,32 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { ExistingFixture, planFixtures } from "./fixtures";
+
+const at = (hhmm: string) => new Date(`2026-10-20T${hhmm}:00.000Z`).toISOString();
+
+function plan(existing: ExistingFixture[]) {
+  const { fixtures } = planFixtures({
+    groups: [{ group_id: "g1", team_ids: ["a", "b", "c", "d"] }],
+    existing,
+    double: false,
+    // 18:00 listed twice: two pitches
+    slots: [at("18:00"), at("18:00"), at("19:00"), at("20:00"), at("21:00"), at("22:00")],
+  });
+  return fixtures.filter((f) => f.round === 1).map((f) => [`${f.home_team_id}-${f.away_team_id}`, f.start_time]);
+}
+
+test("an existing match takes one of two slots at the same time", () => {
+  const other: ExistingFixture = { group_id: "g2", home_team_id: "x", away_team_id: "y", start_time: at("18:00") };
+  assert.deepEqual(plan([other]), [
+    ["a-d", at("18:00")],
+    ["c-b", at("19:00")],
+  ]);
+});
+
+test("a team with an existing match at that time waits for a later slot", () => {
+  const own: ExistingFixture = { group_id: "g2", home_team_id: "a", away_team_id: "y", start_time: at("18:00") };
+  assert.deepEqual(plan([own]), [
+    ["a-d", at("19:00")],
+    ["c-b", at("18:00")],
+  ]);
+});
@@ -0,0 +1,158 @@
+/**
+ * Round-robin group fixtures (circle method).
+ *
+ * Pure, so /admin/groups can preview exactly what the generateFixtures
+ * action will insert: same teams + same existing matches + same slots give
+ * the same plan on both sides.
+ */
+
+export type FixtureGroup = { group_id: string; team_ids: string[] };
+
+/**
+ * A match that already exists (any status, any stage). Group matches are
+ * left out of the plan; every match's time is taken for the slot and its teams.
+ */
+export type ExistingFixture = {
+  group_id: string | null;
+  home_team_id: string;
+  away_team_id: string;
+  start_time: string | null;
+};
+
+export type PlannedFixture = {
+  group_id: string;
+  round: number;
+  home_team_id: string;
+  away_team_id: string;
+  /** null when the slots ran out. */
+  start_time: string | null;
+};
+
+export type FixturePlan = {
+  fixtures: PlannedFixture[];
+  /** Pairings left out because the match already exists. */
+  existing: PlannedFixture[];
+};
+
+type Pairing = { round: number; home: string; away: string };
+
+/**
+ * Every pairing once (or twice: second half mirrors the first with home and
+ * away swapped). Home games are handed to whoever has had fewer so far.
+ */
+export function roundRobin(teamIds: string[], double: boolean): Pairing[] {
+  const teams: (string | null)[] = [...teamIds];
+  if (teams.length < 2) return [];
+  if (teams.length % 2) teams.push(null); // bye
+
+  const n = teams.length;
+  const homes = new Map<string, number>();
+  const aways = new Map<string, number>();
+  const first: Pairing[] = [];
+
+  let order = teams.slice();
+  for (let r = 0; r < n - 1; r++) {
+    for (let i = 0; i < n / 2; i++) {
+      const a = order[i];
+      const b = order[n - 1 - i];
+      if (!a || !b) continue;
+
+      // fewer home games hosts; on a tie, more away games; else alternate by round
+      const balance = (id: string) => (homes.get(id) || 0) - (aways.get(id) || 0);
+      const aHosts = balance(a) !== balance(b) ? balance(a) < balance(b) : (r + i) % 2 === 0;
+      const home = aHosts ? a : b;
+      const away = aHosts ? b : a;
+
+      homes.set(home, (homes.get(home) || 0) + 1);
+      aways.set(away, (aways.get(away) || 0) + 1);
+      first.push({ round: r + 1, home, away });
+    }
+
+    // keep the first team fixed, rotate the rest clockwise
+    order = [order[0], order[n - 1], ...order.slice(1, n - 1)];
+  }
+
+  if (!double) return first;
+  return [...first, ...first.map((p) => ({ round: p.round + n - 1, home: p.away, away: p.home }))];
+}
+
+function pairKey(a: string, b: string) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Fixtures for the given groups, minus matches that already exist, spread
+ * over the slots. Rounds are interleaved across groups (round 1 of every
+ * group first). A fixture takes the earliest free slot that is later than
+ * both teams' previous fixture, so nobody plays twice at the same time. An
+ * existing match holds one of the slots at its kick-off time (the same time
+ * listed twice = two pitches), and its teams can't play another then.
+ */
+export function planFixtures(input: {
+  groups: FixtureGroup[];
+  existing: ExistingFixture[];
+  double: boolean;
+  slots: string[];
+}): FixturePlan {
+  const all: PlannedFixture[] = [];
+  for (const g of input.groups) {
+    for (const p of roundRobin(g.team_ids, input.double)) {
+      all.push({ group_id: g.group_id, round: p.round, home_team_id: p.home, away_team_id: p.away, start_time: null });
+    }
+  }
+  all.sort((a, b) => a.round - b.round);
+
+  // existing matches per group + pairing; same home/away claims first, then (single round) either way
+  const left = new Map<string, ExistingFixture[]>();
+  for (const m of input.existing) {
+    const key = `${m.group_id}|${pairKey(m.home_team_id, m.away_team_id)}`;
+    left.set(key, [...(left.get(key) || []), m]);
+  }
+
+  const claim = (f: PlannedFixture, sameWayOnly: boolean) => {
+    const list = left.get(`${f.group_id}|${pairKey(f.home_team_id, f.away_team_id)}`) || [];
+    const i = list.findIndex((m) => !sameWayOnly || m.home_team_id === f.home_team_id);
+    if (i < 0) return false;
+    list.splice(i, 1);
+    return true;
+  };
+
+  const existing = new Set<PlannedFixture>();
+  for (const f of all) if (claim(f, true)) existing.add(f);
+  for (const f of all) if (!existing.has(f) && claim(f, input.double)) existing.add(f);
+
+  const fixtures = all.filter((f) => !existing.has(f));
+
+  // slots: earliest free one after both teams' last fixture
+  const slots = input.slots
+    .map((iso) => ({ t: new Date(iso).getTime() }))
+    .filter((s) => !Number.isNaN(s.t))
+    .sort((a, b) => a.t - b.t);
+  const used = new Set<number>();
+  const busy = new Set<string>(); // team|time of existing matches
+  for (const m of input.existing) {
+    const t = m.start_time ? new Date(m.start_time).getTime() : NaN;
+    if (Number.isNaN(t)) continue;
+    const held = slots.findIndex((s, idx) => !used.has(idx) && s.t === t);
+    if (held >= 0) used.add(held);
+    busy.add(`${m.home_team_id}|${t}`);
+    busy.add(`${m.away_team_id}|${t}`);
+  }
+  const free = (t: number, f: PlannedFixture) =>
+    !busy.has(`${f.home_team_id}|${t}`) && !busy.has(`${f.away_team_id}|${t}`);
+
+  const lastPlayed = new Map<string, number>();
+
+  for (const f of fixtures) {
+    const after = Math.max(lastPlayed.get(f.home_team_id) ?? -Infinity, lastPlayed.get(f.away_team_id) ?? -Infinity);
+    const i = slots.findIndex((s, idx) => !used.has(idx) && s.t > after && free(s.t, f));
+    if (i < 0) continue;
+
+    used.add(i);
+    f.start_time = new Date(slots[i].t).toISOString();
+    lastPlayed.set(f.home_team_id, slots[i].t);
+    lastPlayed.set(f.away_team_id, slots[i].t);
+  }
+
+  return { fixtures, existing: all.filter((f) => existing.has(f)) };
+}
@@ -0,0 +1,113 @@
+/**
+ * Live match clock.
+ *
+ * A match stores its phase, how many seconds the clock had counted when it
+ * last stopped (clock_seconds) and when it was last started (clock_started_at,
+ * null while paused or between periods). Everyone works the running minute
+ * out from those, so nothing has to tick on the server.
+ */
+
+import type { LivePhase } from "./adminActions";
+
+export type MatchClockState = {
+  live_phase: LivePhase | null;
+  clock_started_at: string | null;
+  clock_seconds: number;
+};
+
+/** Period lengths of the tournament (tournaments.half_minutes / extra_time_minutes). */
+export type MatchLengths = { half_minutes: number; extra_time_minutes: number };
+
+/** Phases in which the clock runs (it can still be paused). */
+export const RUNNING_PHASES: readonly LivePhase[] = ["first_half", "second_half", "extra_time"];
+
+export const LIVE_PHASE_LABELS: Record<LivePhase, string> = {
+  first_half: "1st half",
+  half_time: "Half-time",
+  second_half: "2nd half",
+  extra_time: "Extra time",
+  penalties: "Penalties",
+  full_time: "Full time",
+};
+
+const STOPPED_LABELS: Partial<Record<LivePhase, string>> = { half_time: "HT", penalties: "PENS", full_time: "FT" };
+
+export function isRunningPhase(phase: LivePhase | null): boolean {
+  return phase != null && RUNNING_PHASES.includes(phase);
+}
+
+/** Kicked off and not finished yet (full time still counts until the result is finalized). */
+export function isLive(m: MatchClockState & { status: string }) {
+  return m.live_phase != null && m.status !== "finished";
+}
+
+/** Clock reading at the start of a period: the second half starts at 45:00, extra time at 90:00. */
+function periodStartSeconds(phase: LivePhase, lengths: MatchLengths) {
+  if (phase === "second_half") return lengths.half_minutes * 60;
+  if (phase === "extra_time") return lengths.half_minutes * 2 * 60;
+  return 0;
+}
+
+/** Last regular minute of a period; anything after it is stoppage time (45+2'). */
+function periodEndMinute(phase: LivePhase, lengths: MatchLengths) {
+  if (phase === "first_half") return lengths.half_minutes;
+  if (phase === "second_half") return lengths.half_minutes * 2;
+  return lengths.half_minutes * 2 + lengths.extra_time_minutes;
+}
+
+export function elapsedSeconds(m: MatchClockState, now: number) {
+  const running = m.clock_started_at ? Math.max(0, now - new Date(m.clock_started_at).getTime()) : 0;
+  return m.clock_seconds + Math.floor(running / 1000);
+}
+
+/** The minute being played (0:00–0:59 is the 1st), or null when the clock isn't in a running phase. */
+export function clockMinute(m: MatchClockState, now: number) {
+  if (!isRunningPhase(m.live_phase)) return null;
+  return Math.floor(elapsedSeconds(m, now) / 60) + 1;
+}
+
+/** What fans see: 23', 45+2', HT, PENS, FT ("" before kick-off). */
+export function clockLabel(m: MatchClockState, lengths: MatchLengths, now: number) {
+  if (!m.live_phase) return "";
+  const minute = clockMinute(m, now);
+  if (minute == null) return STOPPED_LABELS[m.live_phase] || LIVE_PHASE_LABELS[m.live_phase];
+
+  const end = periodEndMinute(m.live_phase, lengths);
+  return minute > end ? `${end}+${minute - end}'` : `${minute}'`;
+}
+
+/**
+ * The clock columns after moving to a phase. Running phases start their
+ * period's clock now; the others stop it where it is. null resets the match
+ * to "not kicked off".
+ */
+export function clockForPhase(
+  m: MatchClockState,
+  phase: LivePhase | null,
+  lengths: MatchLengths,
+  now: number
+): MatchClockState {
+  if (phase == null) return { live_phase: null, clock_started_at: null, clock_seconds: 0 };
+  if (isRunningPhase(phase)) {
+    return {
+      live_phase: phase,
+      clock_started_at: new Date(now).toISOString(),
+      clock_seconds: periodStartSeconds(phase, lengths),
+    };
+  }
+  return { live_phase: phase, clock_started_at: null, clock_seconds: elapsedSeconds(m, now) };
+}
+
+/** Pause or resume; with a minute, the clock is also set to the start of that minute. */
+export function clockWith(
+  m: MatchClockState,
+  running: boolean,
+  minute: number | undefined,
+  now: number
+): MatchClockState {
+  return {
+    live_phase: m.live_phase,
+    clock_seconds: minute != null ? (minute - 1) * 60 : elapsedSeconds(m, now),
+    clock_started_at: running ? new Date(now).toISOString() : null,
+  };
+}
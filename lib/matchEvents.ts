@@ -0,0 +1,90 @@
+/**
+ * Match events: the timeline of a match (goals, cards, substitutions…).
+ *
+ * team_id is the team an event is for. For goals that is the team the goal
+ * counts for, so an own goal's player is on the other team; for everything
+ * else it is the player's own team. related_player_id is the assist of a
+ * goal or the player coming on in a substitution.
+ */
+
+import type { MatchEventKind } from "./adminActions";
+
+export type MatchEvent = {
+  id: string;
+  match_id: string;
+  kind: MatchEventKind;
+  team_id: string;
+  player_id: string;
+  related_player_id: string | null;
+  minute: number | null;
+  note: string | null;
+  created_at: string;
+};
+
+export const MATCH_EVENT_LABELS: Record<MatchEventKind, string> = {
+  goal: "Goal",
+  penalty_goal: "Penalty goal",
+  own_goal: "Own goal",
+  penalty_missed: "Missed penalty",
+  yellow_card: "Yellow card",
+  red_card: "Red card",
+  substitution: "Substitution",
+  injury: "Injury",
+};
+
+export const MATCH_EVENT_ICONS: Record<MatchEventKind, string> = {
+  goal: "⚽",
+  penalty_goal: "⚽",
+  own_goal: "⚽",
+  penalty_missed: "❌",
+  yellow_card: "🟨",
+  red_card: "🟥",
+  substitution: "🔁",
+  injury: "🩹",
+};
+
+/** Events that change the score (for team_id). */
+export const GOAL_KINDS: readonly MatchEventKind[] = ["goal", "penalty_goal", "own_goal"];
+
+/** Goals that count in the player's own tally (own goals don't). */
+export const SCORER_KINDS: readonly MatchEventKind[] = ["goal", "penalty_goal"];
+
+/** What related_player_id means for a kind; null = the kind has none. */
+export function relatedPlayerRole(kind: MatchEventKind): "assist" | "coming_on" | null {
+  if (kind === "goal") return "assist";
+  if (kind === "substitution") return "coming_on";
+  return null;
+}
+
+export function isGoal(e: Pick<MatchEvent, "kind">) {
+  return GOAL_KINDS.includes(e.kind);
+}
+
+/** The team the event's player plays for (own goal: the other side). */
+export function playerTeamOf(
+  e: Pick<MatchEvent, "kind" | "team_id">,
+  match: { home_team_id: string | null; away_team_id: string | null }
+) {
+  if (e.kind !== "own_goal") return e.team_id;
+  return e.team_id === match.home_team_id ? match.away_team_id : match.home_team_id;
+}
+
+/** How the event's player is shown on a timeline: own goals get "(OG)". */
+export function eventPlayerLabel(e: Pick<MatchEvent, "kind">, name: string) {
+  return e.kind === "own_goal" ? `${name} (OG)` : name;
+}
+
+/** Goals credited to a team. */
+export function goalsFor(events: Pick<MatchEvent, "kind" | "team_id">[], teamId: string | null) {
+  return events.filter((e) => isGoal(e) && e.team_id === teamId).length;
+}
+
+/** Chronological: by minute (events without one last), then in the order they were entered. */
+export function sortTimeline<E extends Pick<MatchEvent, "minute" | "created_at">>(events: E[]) {
+  return events.slice().sort((a, b) => {
+    const ma = a.minute ?? 10_000;
+    const mb = b.minute ?? 10_000;
+    if (ma !== mb) return ma - mb;
+    return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+  });
+}
@@ -0,0 +1,50 @@
+/**
+ * Reading a match result: regular time (home_score / away_score), goals in
+ * extra time (et_*) and the penalty shootout (*_pens). Pure, shared by the
+ * pages and /api/admin/action.
+ */
+
+export type MatchScore = {
+  home_score: number | null;
+  away_score: number | null;
+  et_home_score?: number | null;
+  et_away_score?: number | null;
+  home_pens?: number | null;
+  away_pens?: number | null;
+};
+
+export function hasExtraTime(m: MatchScore) {
+  return m.et_home_score != null || m.et_away_score != null;
+}
+
+export function hasPenalties(m: MatchScore) {
+  return m.home_pens != null || m.away_pens != null;
+}
+
+/** Score after extra time (the one goals add up to and predictions are scored on). */
+export function finalScore(m: MatchScore): [number, number] {
+  return [
+    Number(m.home_score ?? 0) + Number(m.et_home_score ?? 0),
+    Number(m.away_score ?? 0) + Number(m.et_away_score ?? 0),
+  ];
+}
+
+/** Who went through: on the score, then on penalties. null while level. */
+export function winnerSide(m: MatchScore): "home" | "away" | null {
+  const [home, away] = finalScore(m);
+  if (home !== away) return home > away ? "home" : "away";
+  const hp = Number(m.home_pens ?? 0);
+  const ap = Number(m.away_pens ?? 0);
+  if (!hasPenalties(m) || hp === ap) return null;
+  return hp > ap ? "home" : "away";
+}
+
+/** "2-1", "2-1 (a.e.t.)", "1-1 (4-3 pens)"; "—" without a score. */
+export function formatScore(m: MatchScore, sep = "-") {
+  if (m.home_score == null || m.away_score == null) return "—";
+  const [home, away] = finalScore(m);
+  const base = `${home}${sep}${away}`;
+  if (hasPenalties(m)) return `${base} (${m.home_pens ?? 0}-${m.away_pens ?? 0} pens)`;
+  if (hasExtraTime(m)) return `${base} (a.e.t.)`;
+  return base;
+}
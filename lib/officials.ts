@@ -0,0 +1,108 @@
+/**
+ * Match officials: a referee and up to two assistants per match, picked from
+ * the tournament's registry (/admin/officials).
+ *
+ * An official can't be at two matches at once (match times as in
+ * lib/schedule.ts) or take a match of a team from their own university.
+ * Pure, so /admin/matches and /admin/officials flag the same clashes the
+ * setMatchOfficials action refuses; a clash that appears later (a match is
+ * moved, a university edited) is only flagged.
+ */
+
+import type { OfficialRole, ReportIncidentKind } from "./adminActions";
+import { ScheduleSlot, matchWindows } from "./schedule";
+
+export type Official = { id: string; full_name: string; university: string | null; phone: string | null };
+
+export type MatchOfficial = { match_id: string; official_id: string; role: OfficialRole };
+
+export const OFFICIAL_ROLE_LABELS: Record<OfficialRole, string> = {
+  referee: "Referee",
+  assistant: "Assistant referee",
+};
+
+export const REPORT_INCIDENT_LABELS: Record<ReportIncidentKind, string> = {
+  misconduct: "Misconduct",
+  injury: "Injury",
+  crowd: "Crowd",
+  facilities: "Pitch / facilities",
+  other: "Other",
+};
+
+export const OFFICIAL_CONFLICT_KINDS = ["double_booked", "own_university"] as const;
+export type OfficialConflictKind = (typeof OFFICIAL_CONFLICT_KINDS)[number];
+
+export const OFFICIAL_CONFLICT_LABELS: Record<OfficialConflictKind, string> = {
+  double_booked: "In two matches at once",
+  own_university: "Team from their own university",
+};
+
+export type OfficialConflict = {
+  kind: OfficialConflictKind;
+  official_id: string;
+  match_ids: string[];
+  /** own_university: the team in question. */
+  team_id: string | null;
+};
+
+type OfficialsMatch = {
+  id: string;
+  start_time: string | null;
+  venue_id: string | null;
+  home_team_id: string | null;
+  away_team_id: string | null;
+};
+
+/** Same university, ignoring case and spaces around it (blank = none). */
+export function sameUniversity(a: string | null | undefined, b: string | null | undefined) {
+  const norm = (u: string | null | undefined) => (u || "").trim().toLowerCase();
+  return norm(a) !== "" && norm(a) === norm(b);
+}
+
+/** Every clash in the assignments as they stand. */
+export function findOfficialConflicts(input: {
+  matches: OfficialsMatch[];
+  slots: ScheduleSlot[];
+  teams: { id: string; university: string | null }[];
+  officials: Pick<Official, "id" | "university">[];
+  assignments: MatchOfficial[];
+}): OfficialConflict[] {
+  const out: OfficialConflict[] = [];
+  const matchById = new Map(input.matches.map((m) => [m.id, m]));
+  const officialById = new Map(input.officials.map((o) => [o.id, o]));
+  const universityOf = new Map(input.teams.map((t) => [t.id, t.university]));
+
+  for (const a of input.assignments) {
+    const m = matchById.get(a.match_id);
+    const o = officialById.get(a.official_id);
+    if (!m || !o) continue;
+    for (const teamId of [m.home_team_id, m.away_team_id]) {
+      if (teamId && sameUniversity(o.university, universityOf.get(teamId))) {
+        out.push({ kind: "own_university", official_id: o.id, match_ids: [m.id], team_id: teamId });
+      }
+    }
+  }
+
+  // only matches with a time can clash
+  const when = matchWindows(input.matches, input.slots);
+  const matchesOf = new Map<string, string[]>();
+  for (const a of input.assignments) {
+    if (!matchById.has(a.match_id)) continue;
+    const ids = matchesOf.get(a.official_id) || [];
+    if (!ids.includes(a.match_id)) matchesOf.set(a.official_id, [...ids, a.match_id]);
+  }
+
+  for (const [officialId, ids] of matchesOf) {
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const a = when.get(ids[i]);
+        const b = when.get(ids[j]);
+        if (a && b && a.start < b.end && b.start < a.end) {
+          out.push({ kind: "double_booked", official_id: officialId, match_ids: [ids[i], ids[j]], team_id: null });
+        }
+      }
+    }
+  }
+
+  return out;
+}
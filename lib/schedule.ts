@@ -0,0 +1,285 @@
+/**
+ * Match scheduling on pitches (venues) and time slots.
+ *
+ * Pure, so /admin/schedule can preview exactly what the runScheduler action
+ * will write, and flag conflicts in the schedule as it stands. A match lasts
+ * as long as the slot it sits in (DEFAULT_MATCH_MINUTES for times typed in
+ * by hand that don't match a slot).
+ */
+
+export const DEFAULT_MATCH_MINUTES = 60;
+
+// knockout rounds in the order they are played (3P before the final)
+const ROUND_ORDER = ["R16", "QF", "SF", "3P", "F"];
+
+export type ScheduleSlot = { id: string; venue_id: string; starts_at: string; duration_minutes: number };
+
+export type ScheduleMatch = {
+  id: string;
+  stage: string;
+  knockout_round: string | null;
+  knockout_order: number | null;
+  home_team_id: string | null;
+  away_team_id: string | null;
+  start_time: string | null;
+  venue_id: string | null;
+  created_at: string;
+  /** Stays where it is: locked by an admin, being played or already played. */
+  fixed: boolean;
+  /** Bracket sources; this match can only start once they are over. */
+  source_match_ids: string[];
+};
+
+export type Blackout = { starts_at: string; ends_at: string };
+
+export type TeamScheduleRule = { team_id: string; min_rest_minutes: number; blackouts: Blackout[] };
+
+export const CONFLICT_KINDS = ["team_overlap", "venue_overlap", "rest", "blackout", "bracket_order"] as const;
+export type ConflictKind = (typeof CONFLICT_KINDS)[number];
+
+export const CONFLICT_LABELS: Record<ConflictKind, string> = {
+  team_overlap: "Team plays twice at once",
+  venue_overlap: "Pitch double-booked",
+  rest: "Not enough rest",
+  blackout: "During a team blackout",
+  bracket_order: "Before the match it depends on",
+};
+
+export type ScheduleConflict = {
+  kind: ConflictKind;
+  match_ids: string[];
+  team_id: string | null;
+  venue_id: string | null;
+};
+
+export type ScheduleAssignment = { match_id: string; venue_id: string; start_time: string };
+
+export type SchedulePlan = {
+  assignments: ScheduleAssignment[];
+  /** Matches the scheduler could not fit anywhere (they end up without a time). */
+  unplaced: string[];
+};
+
+type Window = { start: number; end: number };
+
+/** A matches row as both /admin/schedule and the runScheduler action read it. */
+export function toScheduleMatch(row: {
+  id: string;
+  stage: string;
+  status: string;
+  knockout_round: string | null;
+  knockout_order: number | null;
+  home_team_id: string | null;
+  away_team_id: string | null;
+  start_time: string | null;
+  venue_id: string | null;
+  schedule_locked: boolean;
+  live_phase: string | null;
+  created_at: string;
+  home_source_match_id?: string | null;
+  away_source_match_id?: string | null;
+}): ScheduleMatch {
+  return {
+    id: row.id,
+    stage: row.stage,
+    knockout_round: row.knockout_round,
+    knockout_order: row.knockout_order,
+    home_team_id: row.home_team_id,
+    away_team_id: row.away_team_id,
+    start_time: row.start_time,
+    venue_id: row.venue_id,
+    created_at: row.created_at,
+    fixed: row.schedule_locked || row.status !== "scheduled" || row.live_phase != null,
+    source_match_ids: [row.home_source_match_id, row.away_source_match_id].filter((id): id is string => id != null),
+  };
+}
+
+/** When each timed match starts and ends (ms), by match id. Also used for officials' clashes (lib/officials.ts). */
+export function matchWindows(matches: Pick<ScheduleMatch, "id" | "start_time" | "venue_id">[], slots: ScheduleSlot[]) {
+  const slotMinutes = new Map(slots.map((s) => [`${s.venue_id}|${new Date(s.starts_at).getTime()}`, s.duration_minutes]));
+  const out = new Map<string, Window>();
+  for (const m of matches) {
+    if (!m.start_time) continue;
+    const start = new Date(m.start_time).getTime();
+    if (Number.isNaN(start)) continue;
+    const minutes = slotMinutes.get(`${m.venue_id}|${start}`) ?? DEFAULT_MATCH_MINUTES;
+    out.set(m.id, { start, end: start + minutes * 60000 });
+  }
+  return out;
+}
+
+function teamsOf(m: Pick<ScheduleMatch, "home_team_id" | "away_team_id">) {
+  return [m.home_team_id, m.away_team_id].filter((id): id is string => id != null);
+}
+
+function overlaps(a: Window, b: Window) {
+  return a.start < b.end && b.start < a.end;
+}
+
+function ruleLookup(rules: TeamScheduleRule[]) {
+  const byTeam = new Map(rules.map((r) => [r.team_id, r]));
+  return {
+    restMs: (teamId: string) => (byTeam.get(teamId)?.min_rest_minutes || 0) * 60000,
+    blackouts: (teamId: string): Window[] =>
+      (byTeam.get(teamId)?.blackouts || []).map((b) => ({
+        start: new Date(b.starts_at).getTime(),
+        end: new Date(b.ends_at).getTime(),
+      })),
+  };
+}
+
+/** Everything wrong with the schedule as it stands. */
+export function findConflicts(
+  matches: ScheduleMatch[],
+  slots: ScheduleSlot[],
+  rules: TeamScheduleRule[]
+): ScheduleConflict[] {
+  const when = matchWindows(matches, slots);
+  const rule = ruleLookup(rules);
+  const timed = matches.filter((m) => when.has(m.id));
+  const out: ScheduleConflict[] = [];
+
+  for (let i = 0; i < timed.length; i++) {
+    const a = timed[i];
+    const wa = when.get(a.id)!;
+
+    for (let j = i + 1; j < timed.length; j++) {
+      const b = timed[j];
+      const wb = when.get(b.id)!;
+      const pair = [a.id, b.id];
+
+      if (a.venue_id && a.venue_id === b.venue_id && overlaps(wa, wb)) {
+        out.push({ kind: "venue_overlap", match_ids: pair, team_id: null, venue_id: a.venue_id });
+      }
+
+      for (const team of new Set(teamsOf(a).filter((t) => teamsOf(b).includes(t)))) {
+        if (overlaps(wa, wb)) {
+          out.push({ kind: "team_overlap", match_ids: pair, team_id: team, venue_id: null });
+        } else {
+          const gap = wa.start < wb.start ? wb.start - wa.end : wa.start - wb.end;
+          if (gap < rule.restMs(team)) out.push({ kind: "rest", match_ids: pair, team_id: team, venue_id: null });
+        }
+      }
+    }
+
+    for (const team of teamsOf(a)) {
+      if (rule.blackouts(team).some((b) => overlaps(wa, b))) {
+        out.push({ kind: "blackout", match_ids: [a.id], team_id: team, venue_id: null });
+      }
+    }
+
+    for (const sourceId of a.source_match_ids) {
+      const ws = when.get(sourceId);
+      if (ws && wa.start < ws.end) {
+        out.push({ kind: "bracket_order", match_ids: [sourceId, a.id], team_id: null, venue_id: null });
+      }
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Group matches first, then the knockout rounds in playing order; within
+ * that, the current running order (start time, then creation). Only row
+ * values are used, so the preview and the action agree on the order.
+ */
+function planningOrder(matches: ScheduleMatch[]) {
+  const rank = (m: ScheduleMatch) => {
+    if (m.stage !== "knockout") return 0;
+    const i = ROUND_ORDER.indexOf(m.knockout_round || "");
+    return 1 + (i < 0 ? ROUND_ORDER.length : i);
+  };
+  const time = (m: ScheduleMatch) => (m.start_time ? new Date(m.start_time).getTime() : Infinity);
+  const text = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+  return matches
+    .slice()
+    .sort(
+      (a, b) =>
+        rank(a) - rank(b) ||
+        (a.knockout_order ?? 0) - (b.knockout_order ?? 0) ||
+        (time(a) === time(b) ? 0 : time(a) < time(b) ? -1 : 1) ||
+        text(a.created_at, b.created_at) ||
+        text(a.id, b.id)
+    );
+}
+
+/**
+ * Places every match that isn't fixed (and, with keep_scheduled, every
+ * match that already has a time stays put too). Each match takes the
+ * earliest slot where its pitch is free, neither team is playing, resting
+ * or blacked out, and its bracket sources are over.
+ */
+export function planSchedule(input: {
+  matches: ScheduleMatch[];
+  slots: ScheduleSlot[];
+  rules: TeamScheduleRule[];
+  keep_scheduled: boolean;
+}): SchedulePlan {
+  const stays = (m: ScheduleMatch) => m.fixed || (input.keep_scheduled && m.start_time != null);
+  const rule = ruleLookup(input.rules);
+
+  // what is already taken: [match, pitch, time, teams]
+  const fixedWindows = matchWindows(input.matches.filter(stays), input.slots);
+  type Booking = Window & { match_id: string; venue_id: string | null; teams: string[] };
+  const booked: Booking[] = input.matches
+    .filter((m) => fixedWindows.has(m.id))
+    .map((m) => ({ ...fixedWindows.get(m.id)!, match_id: m.id, venue_id: m.venue_id, teams: teamsOf(m) }));
+
+  const slots = input.slots
+    .map((s, i) => {
+      const start = new Date(s.starts_at).getTime();
+      return { slot: s, i, start, end: start + s.duration_minutes * 60000 };
+    })
+    .filter((s) => !Number.isNaN(s.start))
+    .sort((a, b) => a.start - b.start || a.i - b.i);
+
+  const fits = (m: ScheduleMatch, w: Window & { venue_id: string }) => {
+    if (booked.some((b) => b.venue_id === w.venue_id && overlaps(b, w))) return false;
+
+    for (const team of teamsOf(m)) {
+      const rest = rule.restMs(team);
+      // widen by the rest time on both sides: touching windows are fine when rest is 0
+      if (booked.some((b) => b.teams.includes(team) && w.start < b.end + rest && b.start < w.end + rest)) return false;
+      if (rule.blackouts(team).some((b) => overlaps(w, b))) return false;
+    }
+
+    return m.source_match_ids.every((id) => {
+      const source = booked.find((b) => b.match_id === id);
+      return !source || w.start >= source.end;
+    });
+  };
+
+  const assignments: ScheduleAssignment[] = [];
+  const unplaced: string[] = [];
+
+  for (const m of planningOrder(input.matches.filter((m) => !stays(m)))) {
+    const pick = slots.find((s) => fits(m, { start: s.start, end: s.end, venue_id: s.slot.venue_id }));
+    if (!pick) {
+      unplaced.push(m.id);
+      continue;
+    }
+
+    booked.push({ start: pick.start, end: pick.end, match_id: m.id, venue_id: pick.slot.venue_id, teams: teamsOf(m) });
+    assignments.push({
+      match_id: m.id,
+      venue_id: pick.slot.venue_id,
+      start_time: new Date(pick.start).toISOString(),
+    });
+  }
+
+  return { assignments, unplaced };
+}
+
+/** The matches as they would be after the plan (for previewing its conflicts). */
+export function applyPlan(matches: ScheduleMatch[], plan: SchedulePlan): ScheduleMatch[] {
+  const placed = new Map(plan.assignments.map((a) => [a.match_id, a]));
+  const cleared = new Set(plan.unplaced);
+  return matches.map((m) => {
+    const a = placed.get(m.id);
+    if (a) return { ...m, start_time: a.start_time, venue_id: a.venue_id };
+    if (cleared.has(m.id)) return { ...m, start_time: null, venue_id: null };
+    return m;
+  });
+}
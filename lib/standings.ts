@@ -0,0 +1,259 @@
+/**
+ * Group standings with an ordered, configurable list of tiebreakers.
+ *
+ * Teams are ranked by points first. Teams level on points are separated by
+ * the tiebreakers in order; head-to-head rules only look at the matches
+ * between the teams still tied, and start over for any smaller set they
+ * leave level (the usual UEFA reading). Every row records the rule that put
+ * it below the team above, so the table can show how each pair was decided.
+ *
+ * Pure functions; lib/standingsData.ts feeds them from the DB for /api/standings.
+ */
+
+export const WIN_POINTS = 3;
+export const DRAW_POINTS = 1;
+
+export const TIEBREAKERS = [
+  "h2h_points",
+  "h2h_goal_difference",
+  "h2h_goals_for",
+  "goal_difference",
+  "goals_for",
+  "wins",
+  "fair_play",
+  "lots",
+] as const;
+export type Tiebreaker = (typeof TIEBREAKERS)[number];
+
+/** Used until an admin saves another order on /admin/groups. */
+export const DEFAULT_TIEBREAKERS: readonly Tiebreaker[] = TIEBREAKERS;
+
+/** What put a row below the one above it; "unresolved" = still level after every rule. */
+export type Separation = "points" | Tiebreaker | "unresolved";
+
+export const SEPARATION_LABELS: Record<Separation, string> = {
+  points: "Points",
+  h2h_points: "Head-to-head points",
+  h2h_goal_difference: "Head-to-head goal difference",
+  h2h_goals_for: "Head-to-head goals scored",
+  goal_difference: "Goal difference",
+  goals_for: "Goals scored",
+  wins: "Wins",
+  fair_play: "Fair play",
+  lots: "Drawing of lots",
+  unresolved: "Level (drawing of lots needed)",
+};
+
+/** Short form for table cells. */
+export const SEPARATION_SHORT: Record<Separation, string> = {
+  points: "Pts",
+  h2h_points: "H2H Pts",
+  h2h_goal_difference: "H2H GD",
+  h2h_goals_for: "H2H GF",
+  goal_difference: "GD",
+  goals_for: "GF",
+  wins: "W",
+  fair_play: "FP",
+  lots: "Lots",
+  unresolved: "Level",
+};
+
+const HEAD_TO_HEAD: ReadonlySet<Tiebreaker> = new Set(["h2h_points", "h2h_goal_difference", "h2h_goals_for"]);
+
+/** A finished match that counts for the table. */
+export type StandingsMatch = {
+  home_team_id: string;
+  away_team_id: string;
+  home_score: number;
+  away_score: number;
+};
+
+export type StandingsRow = {
+  team_id: string;
+  position: number;
+  played: number;
+  won: number;
+  draw: number;
+  lost: number;
+  gf: number;
+  ga: number;
+  gd: number;
+  pts: number;
+  /** Fair-play penalty points (lower is better). */
+  fair_play: number;
+  /** Why this team is below the previous row (null for the leader). */
+  separated_by: Separation | null;
+};
+
+export type StandingsOptions = {
+  tiebreakers?: readonly Tiebreaker[];
+  /** Fair-play penalty points per team (missing = 0). */
+  fairPlay?: Record<string, number>;
+  /** Drawing of lots: position per team, 1 = best (missing = not drawn). */
+  lots?: Record<string, number>;
+  /** Final, display-only order for teams that stay level. */
+  teamName?: (teamId: string) => string;
+};
+
+/** A table row as served by /api/standings. */
+export type StandingsTableRow = StandingsRow & { team_name: string };
+
+export type GroupStandings = {
+  group_id: string;
+  group_name: string;
+  rows: StandingsTableRow[];
+};
+
+/** GET /api/standings (optionally ?group_id=…). */
+export type StandingsResponse = {
+  tiebreakers: Tiebreaker[];
+  groups: GroupStandings[];
+};
+
+type Totals = Omit<StandingsRow, "team_id" | "position" | "separated_by" | "fair_play">;
+
+function emptyTotals(): Totals {
+  return { played: 0, won: 0, draw: 0, lost: 0, gf: 0, ga: 0, gd: 0, pts: 0 };
+}
+
+/** Adds up results for the given teams (matches with other teams are ignored). */
+function tally(teamIds: Iterable<string>, matches: StandingsMatch[]) {
+  const table = new Map<string, Totals>();
+  for (const id of teamIds) table.set(id, emptyTotals());
+
+  for (const m of matches) {
+    const home = table.get(m.home_team_id);
+    const away = table.get(m.away_team_id);
+    if (!home || !away) continue;
+
+    home.played++;
+    away.played++;
+    home.gf += m.home_score;
+    home.ga += m.away_score;
+    away.gf += m.away_score;
+    away.ga += m.home_score;
+
+    if (m.home_score > m.away_score) {
+      home.won++;
+      away.lost++;
+      home.pts += WIN_POINTS;
+    } else if (m.home_score < m.away_score) {
+      away.won++;
+      home.lost++;
+      away.pts += WIN_POINTS;
+    } else {
+      home.draw++;
+      away.draw++;
+      home.pts += DRAW_POINTS;
+      away.pts += DRAW_POINTS;
+    }
+  }
+
+  table.forEach((t) => (t.gd = t.gf - t.ga));
+  return table;
+}
+
+/**
+ * Ranks every team in `teamIds` (teams without matches still get a row).
+ * Only pass finished matches between teams of the same group.
+ */
+export function computeStandings(
+  teamIds: string[],
+  matches: StandingsMatch[],
+  opts: StandingsOptions = {}
+): StandingsRow[] {
+  const rules = opts.tiebreakers ?? DEFAULT_TIEBREAKERS;
+  const overall = tally(teamIds, matches);
+  const separatedBy = new Map<string, Separation>();
+
+  // higher value = better place
+  function values(rule: Tiebreaker | "points", tied: string[]) {
+    const mini = HEAD_TO_HEAD.has(rule as Tiebreaker)
+      ? tally(
+          tied,
+          matches.filter((m) => tied.includes(m.home_team_id) && tied.includes(m.away_team_id))
+        )
+      : overall;
+
+    return new Map(
+      tied.map((id) => {
+        const t = mini.get(id)!;
+        switch (rule) {
+          case "points":
+          case "h2h_points":
+            return [id, t.pts];
+          case "goal_difference":
+          case "h2h_goal_difference":
+            return [id, t.gd];
+          case "goals_for":
+          case "h2h_goals_for":
+            return [id, t.gf];
+          case "wins":
+            return [id, t.won];
+          case "fair_play":
+            return [id, -(opts.fairPlay?.[id] ?? 0)];
+          case "lots":
+            return [id, opts.lots?.[id] != null ? -opts.lots[id] : Number.NEGATIVE_INFINITY];
+        }
+      })
+    );
+  }
+
+  function byName(ids: string[]) {
+    const name = opts.teamName ?? ((id: string) => id);
+    return ids.slice().sort((a, b) => name(a).localeCompare(name(b)));
+  }
+
+  /** Buckets by the rule's value (best first), each ranked on its own from rules[next]. */
+  function split(tied: string[], rule: Tiebreaker | "points", next: number): string[] | null {
+    const value = values(rule, tied);
+    const distinct = Array.from(new Set(value.values())).sort((a, b) => b - a);
+    if (distinct.length < 2) return null;
+
+    const out: string[] = [];
+    for (const [b, v] of distinct.entries()) {
+      const ranked = rank(
+        tied.filter((id) => value.get(id) === v),
+        next
+      );
+      if (b > 0) separatedBy.set(ranked[0], rule);
+      out.push(...ranked);
+    }
+    return out;
+  }
+
+  /** Orders teams level on points using rules[from..]. */
+  function rank(tied: string[], from: number): string[] {
+    if (tied.length < 2) return tied;
+
+    for (let i = from; i < rules.length; i++) {
+      // head-to-head starts the list over for the smaller set; overall rules carry on
+      const out = split(tied, rules[i], HEAD_TO_HEAD.has(rules[i]) ? 0 : i + 1);
+      if (out) return out;
+    }
+
+    const level = byName(tied);
+    level.slice(1).forEach((id) => separatedBy.set(id, "unresolved"));
+    return level;
+  }
+
+  const order = split(teamIds, "points", 0) ?? rank(teamIds, 0);
+
+  return order.map((team_id, i) => ({
+    team_id,
+    position: i + 1,
+    ...overall.get(team_id)!,
+    fair_play: opts.fairPlay?.[team_id] ?? 0,
+    separated_by: i === 0 ? null : separatedBy.get(team_id) ?? null,
+  }));
+}
+
+/** Keeps known rules, in order, without repeats (for settings read from the DB). */
+export function normalizeTiebreakers(value: unknown): Tiebreaker[] {
+  if (!Array.isArray(value)) return [...DEFAULT_TIEBREAKERS];
+  const out: Tiebreaker[] = [];
+  for (const v of value) {
+    if ((TIEBREAKERS as readonly unknown[]).includes(v) && !out.includes(v as Tiebreaker)) out.push(v as Tiebreaker);
+  }
+  return out;
+}
@@ -0,0 +1,14 @@
+"use client";
+
+import type { StandingsResponse } from "@/lib/standings";
+
+/** Group tables of a tournament from /api/standings (all groups, or one). */
+export async function fetchStandings(tournamentId: string, groupId?: string): Promise<StandingsResponse> {
+  const params = new URLSearchParams({ tournament_id: tournamentId });
+  if (groupId) params.set("group_id", groupId);
+  const res = await fetch(`/api/standings?${params}`, { cache: "no-store" });
+  const json = await res.json().catch(() => ({}));
+
+  if (!res.ok) throw new Error(json?.error || `Failed to load standings (${res.status})`);
+  return json as StandingsResponse;
+}
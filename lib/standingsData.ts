@@ -0,0 +1,148 @@
+import { CardEvent, fairPlayPoints } from "./discipline";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { GroupStandings, StandingsResponse, computeStandings, normalizeTiebreakers } from "./standings";
+
+/**
+ * Loads everything the group tables need and ranks them (lib/standings.ts).
+ * SERVER ONLY: served by /api/standings, which every page reads from.
+ */
+
+type Named = { id: string; name: string };
+type TeamGroup = { team_id: string; group_id: string };
+type Lot = { group_id: string; team_id: string; position: number };
+type FinishedMatch = {
+  id: string;
+  group_id: string | null;
+  home_team_id: string;
+  away_team_id: string;
+  home_score: number | null;
+  away_score: number | null;
+};
+
+export class StandingsNotFound extends Error {}
+
+function rowsOf<T>(what: string, res: { data: unknown; error: { message: string } | null }): T[] {
+  if (res.error) throw new Error(`${what}: ${res.error.message}`);
+  return (res.data as T[]) || [];
+}
+
+/** The given tournament, or the current one. */
+async function tournamentIdFor(id: string | null | undefined) {
+  if (id) return id;
+  const { data, error } = await supabaseAdmin.from("tournaments").select("id").eq("is_current", true).maybeSingle();
+  if (error) throw new Error(`tournaments: ${error.message}`);
+  if (!data) throw new StandingsNotFound("No current tournament");
+  return String(data.id);
+}
+
+/**
+ * Every live group of a tournament (default: the current one), or just one
+ * group (throws StandingsNotFound for an unknown / deleted group).
+ */
+export async function loadStandings(
+  opts: { tournamentId?: string | null; groupId?: string | null } = {}
+): Promise<StandingsResponse> {
+  const tournamentId = await tournamentIdFor(opts.tournamentId);
+
+  let groupsQuery = supabaseAdmin
+    .from("groups")
+    .select("id,name")
+    .eq("tournament_id", tournamentId)
+    .is("archived_at", null)
+    .order("name");
+  if (opts.groupId) groupsQuery = groupsQuery.eq("id", opts.groupId);
+  const groups = rowsOf<Named>("groups", await groupsQuery);
+  if (opts.groupId && groups.length === 0) throw new StandingsNotFound("Group not found");
+
+  const groupIds = groups.map((g) => g.id);
+  if (groupIds.length === 0) return { tiebreakers: normalizeTiebreakers(null), groups: [] };
+
+  const teams = rowsOf<Named>(
+    "teams",
+    await supabaseAdmin.from("teams").select("id,name").eq("tournament_id", tournamentId).is("archived_at", null)
+  );
+
+  const teamGroups = rowsOf<TeamGroup>(
+    "team_groups",
+    await supabaseAdmin.from("team_groups").select("team_id,group_id").in("group_id", groupIds).is("archived_at", null)
+  );
+
+  const matches = rowsOf<FinishedMatch>(
+    "matches",
+    await supabaseAdmin
+      .from("matches")
+      .select("id,group_id,home_team_id,away_team_id,home_score,away_score")
+      .eq("stage", "group")
+      .eq("status", "finished")
+      .in("group_id", groupIds)
+      .is("archived_at", null)
+  );
+
+  const { data: settings, error: sErr } = await supabaseAdmin
+    .from("standings_settings")
+    .select("tiebreakers")
+    .eq("tournament_id", tournamentId)
+    .maybeSingle();
+  if (sErr) throw new Error(`standings_settings: ${sErr.message}`);
+  const tiebreakers = normalizeTiebreakers(settings?.tiebreakers);
+
+  const lots = rowsOf<Lot>(
+    "group_lots",
+    await supabaseAdmin.from("group_lots").select("group_id,team_id,position").in("group_id", groupIds)
+  );
+
+  // fair play counts the cards of the group matches played so far
+  const matchIds = matches.map((m) => m.id);
+  const cards = matchIds.length
+    ? rowsOf<CardEvent>(
+        "match_events",
+        await supabaseAdmin
+          .from("match_events")
+          .select("match_id,team_id,player_id,kind")
+          .in("match_id", matchIds)
+          .in("kind", ["yellow_card", "red_card"])
+          .is("archived_at", null)
+      )
+    : [];
+
+  const teamName = new Map(teams.map((t) => [t.id, t.name]));
+  const nameOf = (id: string) => teamName.get(id) || "";
+
+  const out: GroupStandings[] = groups.map((g) => {
+    const finished = matches.filter((m) => m.group_id === g.id && m.home_score != null && m.away_score != null);
+
+    // assigned teams get a row even before matches; teams from matches are kept too
+    const ids = new Set(teamGroups.filter((tg) => tg.group_id === g.id).map((tg) => tg.team_id));
+    finished.forEach((m) => {
+      ids.add(m.home_team_id);
+      ids.add(m.away_team_id);
+    });
+
+    const groupLots: Record<string, number> = {};
+    lots.forEach((l) => {
+      if (l.group_id === g.id) groupLots[l.team_id] = l.position;
+    });
+
+    const finishedIds = new Set(finished.map((m) => m.id));
+    const fairPlay = fairPlayPoints(cards.filter((c) => finishedIds.has(c.match_id)));
+
+    const rows = computeStandings(
+      Array.from(ids).filter((id) => teamName.has(id)),
+      finished.map((m) => ({
+        home_team_id: m.home_team_id,
+        away_team_id: m.away_team_id,
+        home_score: m.home_score ?? 0,
+        away_score: m.away_score ?? 0,
+      })),
+      { tiebreakers, fairPlay, lots: groupLots, teamName: nameOf }
+    );
+
+    return {
+      group_id: g.id,
+      group_name: g.name,
+      rows: rows.map((r) => ({ ...r, team_name: nameOf(r.team_id) })),
+    };
+  });
+
+  return { tiebreakers, groups: out };
+}
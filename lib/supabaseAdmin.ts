@@ -0,0 +1,10 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service-role client. SERVER ONLY (route handlers) — it bypasses RLS,
+ * so never import this from a "use client" file.
+ */
+export const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.SUPABASE_SERVICE_ROLE_KEY!
+);
@@ -0,0 +1,39 @@
+-- Audit trail for every write made through /api/admin/action.
+-- Rows are written by the service-role API route only; admins can read them.
+
+create or replace function public.is_active_admin()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid() and p.role = 'admin' and p.status = 'active'
+  );
+$$;
+
+create table if not exists public.admin_audit_log (
+  id bigint generated always as identity primary key,
+  created_at timestamptz not null default now(),
+  admin_id uuid references public.profiles (id) on delete set null,
+  action_type text not null,
+  payload jsonb not null default '{}'::jsonb,
+  -- [{ table, op, before: [row], after: [row] }]
+  changes jsonb not null default '[]'::jsonb,
+  -- every id / *_id value found in the changed rows (for "what touched this match?")
+  entity_ids text[] not null default '{}',
+  error text
+);
+
+create index if not exists admin_audit_log_created_at_idx on public.admin_audit_log (created_at desc);
+create index if not exists admin_audit_log_action_type_idx on public.admin_audit_log (action_type);
+create index if not exists admin_audit_log_admin_id_idx on public.admin_audit_log (admin_id);
+create index if not exists admin_audit_log_entity_ids_idx on public.admin_audit_log using gin (entity_ids);
+
+alter table public.admin_audit_log enable row level security;
+
+drop policy if exists "admins read audit log" on public.admin_audit_log;
+create policy "admins read audit log" on public.admin_audit_log
+  for select using (public.is_active_admin());
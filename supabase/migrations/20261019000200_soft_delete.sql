@@ -0,0 +1,23 @@
+-- Recycle bin: admin "delete" now stamps archived_at instead of removing rows.
+-- The entity and its dependent rows share one timestamp so a restore can bring
+-- back exactly that set (see app/api/admin/action/archive.ts).
+
+alter table public.teams        add column if not exists archived_at timestamptz;
+alter table public.players      add column if not exists archived_at timestamptz;
+alter table public.groups       add column if not exists archived_at timestamptz;
+alter table public.matches      add column if not exists archived_at timestamptz;
+alter table public.match_goals  add column if not exists archived_at timestamptz;
+alter table public.team_groups  add column if not exists archived_at timestamptz;
+alter table public.team_players add column if not exists archived_at timestamptz;
+
+-- Recycle bin listing
+create index if not exists teams_archived_at_idx on public.teams (archived_at) where archived_at is not null;
+create index if not exists players_archived_at_idx on public.players (archived_at) where archived_at is not null;
+create index if not exists groups_archived_at_idx on public.groups (archived_at) where archived_at is not null;
+create index if not exists matches_archived_at_idx on public.matches (archived_at) where archived_at is not null;
+
+-- Restore / purge look dependents up by parent
+create index if not exists match_goals_match_id_idx on public.match_goals (match_id);
+create index if not exists matches_home_team_id_idx on public.matches (home_team_id);
+create index if not exists matches_away_team_id_idx on public.matches (away_team_id);
+create index if not exists matches_group_id_idx on public.matches (group_id);
@@ -0,0 +1,44 @@
+-- Staff roles with permission scopes (mirrors lib/adminRoles.ts).
+--   admin              – everything (super admin)
+--   tournament_manager – scores, tournament, roster
+--   scorekeeper        – scores
+--   content_editor     – news
+-- Roles are assigned by hand in profiles.role, like admin was.
+
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles add constraint profiles_role_check
+  check (role in ('fan', 'player', 'admin', 'tournament_manager', 'scorekeeper', 'content_editor'));
+
+create or replace function public.has_admin_scope(scope text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.profiles p
+    where p.id = auth.uid()
+      and p.status = 'active'
+      and (
+        p.role = 'admin'
+        or (p.role = 'tournament_manager' and scope in ('scores', 'tournament', 'roster'))
+        or (p.role = 'scorekeeper' and scope = 'scores')
+        or (p.role = 'content_editor' and scope = 'news')
+      )
+  );
+$$;
+
+-- News is written from the browser (app/admin/news), so editors need RLS access
+-- on top of the existing admin policies.
+drop policy if exists "news editors insert posts" on public.news_posts;
+create policy "news editors insert posts" on public.news_posts
+  for insert with check (public.has_admin_scope('news'));
+
+drop policy if exists "news editors delete posts" on public.news_posts;
+create policy "news editors delete posts" on public.news_posts
+  for delete using (public.has_admin_scope('news'));
+
+drop policy if exists "news editors upload media" on storage.objects;
+create policy "news editors upload media" on storage.objects
+  for insert with check (bucket_id = 'news' and public.has_admin_scope('news'));
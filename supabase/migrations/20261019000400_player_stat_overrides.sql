@@ -0,0 +1,25 @@
+-- player_stats is now derived from match_goals / matches on every admin action
+-- (app/api/admin/action/stats.ts). Hand-entered numbers live here instead and
+-- win over the derived value; a null column means "use the derived value".
+
+create table if not exists public.player_stat_overrides (
+  player_id uuid primary key references public.players (id) on delete cascade,
+  matches_played int check (matches_played >= 0),
+  goals int check (goals >= 0),
+  assists int check (assists >= 0),
+  motm int check (motm >= 0),
+  updated_by uuid references public.profiles (id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.player_stat_overrides enable row level security;
+
+-- written by the service-role API route only
+drop policy if exists "roster staff read stat overrides" on public.player_stat_overrides;
+create policy "roster staff read stat overrides" on public.player_stat_overrides
+  for select using (public.has_admin_scope('roster'));
+
+-- Lookups used when recomputing
+create index if not exists match_goals_scorer_player_id_idx on public.match_goals (scorer_player_id);
+create index if not exists match_goals_assist_player_id_idx on public.match_goals (assist_player_id);
+create index if not exists matches_motm_player_id_idx on public.matches (motm_player_id);
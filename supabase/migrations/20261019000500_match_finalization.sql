@@ -0,0 +1,32 @@
+-- Match finalization: finalizeMatch / reopenMatch in /api/admin/action.
+-- A finished match is frozen; reopening needs a reason (also in the audit log).
+
+alter table public.matches add column if not exists finalized_at timestamptz;
+alter table public.matches add column if not exists finalized_by uuid references public.profiles (id) on delete set null;
+alter table public.matches add column if not exists reopened_at timestamptz;
+alter table public.matches add column if not exists reopened_by uuid references public.profiles (id) on delete set null;
+alter table public.matches add column if not exists reopen_reason text;
+
+-- Prediction points are written when a match is finalized (+3 exact, +1 outcome,
+-- 0 otherwise) and cleared again on reopen. null = not scored yet.
+alter table public.predictions add column if not exists points int;
+alter table public.predictions add column if not exists scored_at timestamptz;
+
+create index if not exists predictions_match_id_idx on public.predictions (match_id);
+
+-- Leaderboard sums the stored points (archived matches don't count)
+drop view if exists public.prediction_leaderboard;
+create view public.prediction_leaderboard as
+select
+  p.id as user_id,
+  p.name,
+  p.university,
+  coalesce(sum(pr.points), 0)::int as total_points,
+  count(pr.*)::int as predictions_count
+from public.predictions pr
+join public.profiles p on p.id = pr.user_id
+join public.matches m on m.id = pr.match_id and m.archived_at is null
+group by p.id, p.name, p.university
+order by total_points desc, predictions_count desc, p.name;
+
+grant select on public.prediction_leaderboard to anon, authenticated;
@@ -0,0 +1,19 @@
+-- One roster player per account. Links are written by linkPlayerProfile /
+-- unlinkPlayerProfile in /api/admin/action (service role).
+--
+-- Existing duplicates must be cleaned up first (/admin/link-player shows them,
+-- /app/me tells the player); until then the index is skipped with a notice.
+
+do $$
+begin
+  if exists (
+    select linked_profile_id from public.players
+    where linked_profile_id is not null
+    group by linked_profile_id having count(*) > 1
+  ) then
+    raise notice 'players_linked_profile_id_key not created: some accounts are linked to several roster players';
+  else
+    create unique index if not exists players_linked_profile_id_key
+      on public.players (linked_profile_id) where linked_profile_id is not null;
+  end if;
+end $$;
@@ -0,0 +1,52 @@
+-- News publishing: drafts, scheduled posts and edit history.
+-- Posts are written through /api/admin/action (createNewsPost, updateNewsPost, ...),
+-- so the browser write policies from 20261019000300 go away.
+-- Readers only see published posts whose publish_at has passed.
+
+alter table public.news_posts add column if not exists status text not null default 'published';
+alter table public.news_posts drop constraint if exists news_posts_status_check;
+alter table public.news_posts add constraint news_posts_status_check check (status in ('draft', 'published'));
+
+-- Existing posts were live as soon as they were inserted
+alter table public.news_posts add column if not exists publish_at timestamptz;
+update public.news_posts set publish_at = created_at where publish_at is null and status = 'published';
+
+-- Set on every edit; readers show "Updated" when it is later than publish_at
+alter table public.news_posts add column if not exists updated_at timestamptz;
+alter table public.news_posts add column if not exists updated_by uuid references public.profiles (id) on delete set null;
+
+create index if not exists news_posts_publish_at_idx on public.news_posts (publish_at desc) where status = 'published';
+
+-- One row per edit, holding the post as it was before the edit
+create table if not exists public.news_post_revisions (
+  id uuid primary key default gen_random_uuid(),
+  post_id uuid not null references public.news_posts (id) on delete cascade,
+  title text,
+  body text,
+  media_type text,
+  media_url text,
+  status text,
+  publish_at timestamptz,
+  edited_by uuid references public.profiles (id) on delete set null,
+  edited_at timestamptz not null default now()
+);
+
+create index if not exists news_post_revisions_post_id_idx on public.news_post_revisions (post_id, edited_at desc);
+
+alter table public.news_post_revisions enable row level security;
+
+drop policy if exists "news editors read revisions" on public.news_post_revisions;
+create policy "news editors read revisions" on public.news_post_revisions
+  for select using (public.has_admin_scope('news'));
+
+drop policy if exists "news editors insert posts" on public.news_posts;
+drop policy if exists "news editors delete posts" on public.news_posts;
+
+-- Restrictive: applies on top of whatever select policy news_posts already has
+drop policy if exists "readers see published news" on public.news_posts;
+create policy "readers see published news" on public.news_posts
+  as restrictive
+  for select using (
+    (status = 'published' and publish_at <= now())
+    or public.has_admin_scope('news')
+  );
@@ -0,0 +1,33 @@
+-- Standings tiebreakers (lib/standings.ts). The order is set on /admin/groups
+-- through setTiebreakers; a drawing of lots is entered per group through
+-- setGroupLots. Both are read by everyone (they shape the public table).
+
+-- Single row (id is always true)
+create table if not exists public.standings_settings (
+  id boolean primary key default true check (id),
+  tiebreakers text[] not null,
+  updated_by uuid references public.profiles (id) on delete set null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.standings_settings enable row level security;
+
+drop policy if exists "everyone reads standings settings" on public.standings_settings;
+create policy "everyone reads standings settings" on public.standings_settings
+  for select using (true);
+
+-- Result of a drawing of lots between teams that stay level (1 = best)
+create table if not exists public.group_lots (
+  group_id uuid not null references public.groups (id) on delete cascade,
+  team_id uuid not null references public.teams (id) on delete cascade,
+  position int not null check (position >= 1),
+  drawn_by uuid references public.profiles (id) on delete set null,
+  drawn_at timestamptz not null default now(),
+  primary key (group_id, team_id)
+);
+
+alter table public.group_lots enable row level security;
+
+drop policy if exists "everyone reads group lots" on public.group_lots;
+create policy "everyone reads group lots" on public.group_lots
+  for select using (true);
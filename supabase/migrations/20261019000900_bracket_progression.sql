@@ -0,0 +1,23 @@
+-- Bracket progression: a knockout slot can be "winner of match X" or
+-- "loser of match X" (3rd place). Finalizing X fills the slot
+-- (app/api/admin/action/bracket.ts); until then the team is null and the
+-- app shows a placeholder such as "Winner QF1".
+
+alter table public.matches alter column home_team_id drop not null;
+alter table public.matches alter column away_team_id drop not null;
+
+alter table public.matches add column if not exists home_source_match_id uuid references public.matches (id) on delete set null;
+alter table public.matches add column if not exists home_source text;
+alter table public.matches add column if not exists away_source_match_id uuid references public.matches (id) on delete set null;
+alter table public.matches add column if not exists away_source text;
+
+alter table public.matches drop constraint if exists matches_home_source_check;
+alter table public.matches add constraint matches_home_source_check
+  check (home_source in ('winner', 'loser') and home_source_match_id is not null or home_source is null);
+
+alter table public.matches drop constraint if exists matches_away_source_check;
+alter table public.matches add constraint matches_away_source_check
+  check (away_source in ('winner', 'loser') and away_source_match_id is not null or away_source is null);
+
+create index if not exists matches_home_source_match_id_idx on public.matches (home_source_match_id);
+create index if not exists matches_away_source_match_id_idx on public.matches (away_source_match_id);
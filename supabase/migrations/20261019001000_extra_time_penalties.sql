@@ -0,0 +1,28 @@
+-- Extra time and penalty shootouts for knockout matches (lib/matchResult.ts).
+-- home_score / away_score stay the score after regular time; et_* hold the
+-- goals scored in extra time, *_pens the shootout result. null = not played.
+-- A knockout match can only be finalized once it has a winner.
+
+alter table public.matches add column if not exists et_home_score int check (et_home_score >= 0);
+alter table public.matches add column if not exists et_away_score int check (et_away_score >= 0);
+alter table public.matches add column if not exists home_pens int check (home_pens >= 0);
+alter table public.matches add column if not exists away_pens int check (away_pens >= 0);
+
+-- Kick-by-kick shootout (setPenaltyShootout replaces the whole list and
+-- writes the totals into home_pens / away_pens)
+create table if not exists public.match_penalty_kicks (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.matches (id) on delete cascade,
+  kick_order int not null check (kick_order >= 1),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  player_id uuid references public.players (id) on delete set null,
+  scored boolean not null,
+  created_at timestamptz not null default now(),
+  unique (match_id, kick_order)
+);
+
+alter table public.match_penalty_kicks enable row level security;
+
+drop policy if exists "everyone reads penalty kicks" on public.match_penalty_kicks;
+create policy "everyone reads penalty kicks" on public.match_penalty_kicks
+  for select using (true);
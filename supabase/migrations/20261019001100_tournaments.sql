@@ -0,0 +1,141 @@
+-- Tournaments / seasons. Teams, groups, matches, roster links, predictions,
+-- news and stats belong to one tournament; players (and the accounts linked
+-- to them) are shared, so they carry over from season to season.
+-- An archived tournament stays readable but can't be changed.
+
+create table if not exists public.tournaments (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  season text,
+  status text not null default 'active' check (status in ('active', 'archived')),
+  -- the one the app opens by default
+  is_current boolean not null default false,
+  created_by uuid references public.profiles (id) on delete set null,
+  created_at timestamptz not null default now(),
+  archived_at timestamptz
+);
+
+create unique index if not exists tournaments_one_current on public.tournaments (is_current) where is_current;
+
+alter table public.tournaments enable row level security;
+
+drop policy if exists "everyone reads tournaments" on public.tournaments;
+create policy "everyone reads tournaments" on public.tournaments
+  for select using (true);
+
+-- Everything that exists today becomes the first tournament
+insert into public.tournaments (name, season, is_current)
+select 'Tournament', to_char(now(), 'YYYY'), true
+where not exists (select 1 from public.tournaments);
+
+do $$
+declare
+  t text;
+  first_id uuid := (select id from public.tournaments order by is_current desc, created_at limit 1);
+begin
+  foreach t in array array['teams', 'groups', 'matches', 'news_posts', 'player_stat_overrides', 'player_stats', 'standings_settings'] loop
+    execute format('alter table public.%I add column if not exists tournament_id uuid references public.tournaments (id)', t);
+    execute format('update public.%I set tournament_id = %L where tournament_id is null', t, first_id);
+    execute format('alter table public.%I alter column tournament_id set not null', t);
+    execute format('create index if not exists %I on public.%I (tournament_id)', t || '_tournament_id_idx', t);
+  end loop;
+end $$;
+
+-- Roster links and predictions follow their team / match
+alter table public.team_players add column if not exists tournament_id uuid references public.tournaments (id);
+update public.team_players tp set tournament_id = t.tournament_id from public.teams t where t.id = tp.team_id and tp.tournament_id is null;
+alter table public.team_players alter column tournament_id set not null;
+create index if not exists team_players_tournament_id_idx on public.team_players (tournament_id);
+
+alter table public.predictions add column if not exists tournament_id uuid references public.tournaments (id);
+update public.predictions p set tournament_id = m.tournament_id from public.matches m where m.id = p.match_id and p.tournament_id is null;
+alter table public.predictions alter column tournament_id set not null;
+create index if not exists predictions_tournament_id_idx on public.predictions (tournament_id);
+
+-- fans insert predictions directly: take the tournament from the match
+create or replace function public.predictions_set_tournament()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select m.tournament_id into new.tournament_id from public.matches m where m.id = new.match_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists predictions_set_tournament on public.predictions;
+create trigger predictions_set_tournament before insert or update of match_id on public.predictions
+  for each row execute function public.predictions_set_tournament();
+
+-- One team per player per tournament (was: one team per player)
+alter table public.team_players drop constraint if exists team_players_player_id_key;
+drop index if exists public.team_players_player_id_key;
+create unique index if not exists team_players_player_tournament_key
+  on public.team_players (player_id, tournament_id) where archived_at is null;
+
+-- Stats and overrides are kept per tournament
+alter table public.player_stats drop constraint if exists player_stats_pkey;
+alter table public.player_stats add primary key (player_id, tournament_id);
+
+alter table public.player_stat_overrides drop constraint if exists player_stat_overrides_pkey;
+alter table public.player_stat_overrides add primary key (player_id, tournament_id);
+
+-- Tiebreakers per tournament (was a single row)
+alter table public.standings_settings drop constraint if exists standings_settings_pkey;
+alter table public.standings_settings drop column if exists id;
+alter table public.standings_settings add primary key (tournament_id);
+
+-- Archived tournaments are read only
+create or replace function public.assert_tournament_open()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if exists (
+    select 1 from public.tournaments t
+    where t.status = 'archived'
+      and t.id in (
+        case when tg_op = 'DELETE' then null else new.tournament_id end,
+        case when tg_op = 'INSERT' then null else old.tournament_id end
+      )
+  ) then
+    raise exception 'This tournament is archived (read only)';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['teams', 'groups', 'matches', 'news_posts', 'team_players', 'predictions'] loop
+    execute format('drop trigger if exists %I on public.%I', t || '_tournament_open', t);
+    execute format(
+      'create trigger %I before insert or update or delete on public.%I for each row execute function public.assert_tournament_open()',
+      t || '_tournament_open',
+      t
+    );
+  end loop;
+end $$;
+
+-- Leaderboard per tournament
+drop view if exists public.prediction_leaderboard;
+create view public.prediction_leaderboard as
+select
+  pr.tournament_id,
+  p.id as user_id,
+  p.name,
+  p.university,
+  coalesce(sum(pr.points), 0)::int as total_points,
+  count(pr.*)::int as predictions_count
+from public.predictions pr
+join public.profiles p on p.id = pr.user_id
+join public.matches m on m.id = pr.match_id and m.archived_at is null
+group by pr.tournament_id, p.id, p.name, p.university
+order by total_points desc, predictions_count desc, p.name;
+
+grant select on public.prediction_leaderboard to anon, authenticated;
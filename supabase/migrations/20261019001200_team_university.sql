@@ -0,0 +1,3 @@
+-- The university a team represents. The group draw can keep teams of the
+-- same university apart.
+alter table public.teams add column if not exists university text;
@@ -0,0 +1,62 @@
+-- Pitch + time-slot scheduling (lib/schedule.ts, /admin/schedule).
+-- Venues (campus pitches) offer slots; the scheduler puts matches into them
+-- while respecting each team's minimum rest and blackout times. Admins can
+-- lock a match's time and pitch so a re-run leaves it alone.
+
+create table if not exists public.venues (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments (id),
+  name text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists venues_tournament_id_idx on public.venues (tournament_id);
+
+-- A time a venue is available for one match
+create table if not exists public.schedule_slots (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments (id),
+  venue_id uuid not null references public.venues (id) on delete cascade,
+  starts_at timestamptz not null,
+  duration_minutes int not null default 60 check (duration_minutes > 0),
+  unique (venue_id, starts_at)
+);
+
+create index if not exists schedule_slots_tournament_id_idx on public.schedule_slots (tournament_id);
+
+-- Per-team constraints: minimum rest between matches (null = none) and times the team can't play
+alter table public.teams add column if not exists min_rest_minutes int check (min_rest_minutes >= 0);
+
+create table if not exists public.team_blackouts (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments (id),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  starts_at timestamptz not null,
+  ends_at timestamptz not null,
+  note text,
+  check (ends_at > starts_at)
+);
+
+create index if not exists team_blackouts_team_id_idx on public.team_blackouts (team_id);
+
+-- Where a match is played, and whether the scheduler may move it
+alter table public.matches add column if not exists venue_id uuid references public.venues (id);
+alter table public.matches add column if not exists schedule_locked boolean not null default false;
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['venues', 'schedule_slots', 'team_blackouts'] loop
+    execute format('alter table public.%I enable row level security', t);
+    execute format('drop policy if exists %I on public.%I', 'everyone reads ' || t, t);
+    execute format('create policy %I on public.%I for select using (true)', 'everyone reads ' || t, t);
+
+    execute format('drop trigger if exists %I on public.%I', t || '_tournament_open', t);
+    execute format(
+      'create trigger %I before insert or update or delete on public.%I for each row execute function public.assert_tournament_open()',
+      t || '_tournament_open',
+      t
+    );
+  end loop;
+end $$;
@@ -0,0 +1,15 @@
+-- Live match state (lib/matchClock.ts). While a match is being played it has
+-- a phase; the running minute is worked out from clock_seconds (what the clock
+-- showed when it last stopped) plus the time since clock_started_at (null
+-- while paused or between periods).
+
+alter table public.matches add column if not exists live_phase text
+  check (live_phase in ('first_half', 'half_time', 'second_half', 'extra_time', 'penalties', 'full_time'));
+alter table public.matches add column if not exists clock_started_at timestamptz;
+alter table public.matches add column if not exists clock_seconds int not null default 0 check (clock_seconds >= 0);
+alter table public.matches add column if not exists kicked_off_at timestamptz;
+
+-- Period lengths, so the clock knows when stoppage time starts (45+2')
+alter table public.tournaments add column if not exists half_minutes int not null default 45 check (half_minutes > 0);
+alter table public.tournaments add column if not exists extra_time_minutes int not null default 30
+  check (extra_time_minutes >= 0);
@@ -0,0 +1,52 @@
+-- Match events (lib/matchEvents.ts): one timeline per match for goals,
+-- penalty goals, own goals, missed penalties, cards, substitutions and
+-- injuries. Replaces match_goals; its rows move over as "goal" events with
+-- the same ids.
+--
+-- team_id is the team the event belongs to: for goals the team the goal
+-- counts for (an own goal's player is on the other team), otherwise the
+-- player's team. related_player_id is the assist (goal) or the player coming
+-- on (substitution).
+
+create table if not exists public.match_events (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.matches (id) on delete cascade,
+  kind text not null check (
+    kind in ('goal', 'penalty_goal', 'own_goal', 'penalty_missed', 'yellow_card', 'red_card', 'substitution', 'injury')
+  ),
+  team_id uuid not null references public.teams (id) on delete cascade,
+  player_id uuid not null references public.players (id) on delete cascade,
+  related_player_id uuid references public.players (id) on delete set null,
+  minute int check (minute >= 0),
+  note text,
+  created_at timestamptz not null default now(),
+  archived_at timestamptz
+);
+
+create index if not exists match_events_match_id_idx on public.match_events (match_id);
+create index if not exists match_events_player_id_idx on public.match_events (player_id);
+create index if not exists match_events_related_player_id_idx on public.match_events (related_player_id);
+
+alter table public.match_events enable row level security;
+
+drop policy if exists "everyone reads match events" on public.match_events;
+create policy "everyone reads match events" on public.match_events
+  for select using (true);
+
+do $$
+begin
+  if to_regclass('public.match_goals') is not null then
+    insert into public.match_events
+      (id, match_id, kind, team_id, player_id, related_player_id, minute, created_at, archived_at)
+    select id, match_id, 'goal', scoring_team_id, scorer_player_id, assist_player_id, minute, created_at, archived_at
+    from public.match_goals
+    on conflict (id) do nothing;
+
+    drop table public.match_goals;
+  end if;
+
+  -- fans' match pages follow the timeline live
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    alter publication supabase_realtime add table public.match_events;
+  end if;
+end $$;
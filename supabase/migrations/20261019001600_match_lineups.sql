@@ -0,0 +1,35 @@
+-- Match lineups: who played for each team in a match, picked from the team's
+-- roster (team_players). Starters count as an appearance, substitutes once
+-- a substitution event brings them on (app/api/admin/action/stats.ts).
+
+create table if not exists public.match_lineups (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.matches (id) on delete cascade,
+  team_id uuid not null references public.teams (id) on delete cascade,
+  player_id uuid not null references public.players (id) on delete cascade,
+  role text not null check (role in ('starter', 'substitute')),
+  shirt_number int check (shirt_number between 0 and 99),
+  created_at timestamptz not null default now(),
+  archived_at timestamptz
+);
+
+-- one line per player per match (while live); shirt numbers unique within a team's lineup
+create unique index if not exists match_lineups_match_player_key
+  on public.match_lineups (match_id, player_id) where archived_at is null;
+create unique index if not exists match_lineups_match_team_shirt_key
+  on public.match_lineups (match_id, team_id, shirt_number) where archived_at is null and shirt_number is not null;
+create index if not exists match_lineups_player_id_idx on public.match_lineups (player_id);
+
+alter table public.match_lineups enable row level security;
+
+drop policy if exists "everyone reads match lineups" on public.match_lineups;
+create policy "everyone reads match lineups" on public.match_lineups
+  for select using (true);
+
+do $$
+begin
+  -- fans' match pages pick up a lineup as soon as it is saved
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    alter publication supabase_realtime add table public.match_lineups;
+  end if;
+end $$;
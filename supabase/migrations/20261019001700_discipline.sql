@@ -0,0 +1,12 @@
+-- Suspension rule per tournament (lib/discipline.ts). Cards themselves are
+-- match events; who is suspended for which match is worked out from them.
+-- 0 turns a part of the rule off.
+
+alter table public.tournaments add column if not exists red_card_ban_matches int not null default 1
+  check (red_card_ban_matches >= 0);
+alter table public.tournaments add column if not exists yellow_card_limit int not null default 2
+  check (yellow_card_limit >= 0);
+alter table public.tournaments add column if not exists yellow_card_ban_matches int not null default 1
+  check (yellow_card_ban_matches >= 0);
+
+create index if not exists match_events_kind_idx on public.match_events (kind);
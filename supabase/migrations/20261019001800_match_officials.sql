@@ -0,0 +1,71 @@
+-- Match officials (lib/officials.ts, /admin/officials): a registry of referees
+-- per tournament, who is assigned to which match (one referee, up to two
+-- assistants), and the referee's post-match report on incidents.
+
+create table if not exists public.officials (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments (id),
+  full_name text not null,
+  -- an official can't take matches of teams from the same university
+  university text,
+  phone text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists officials_tournament_id_idx on public.officials (tournament_id);
+
+create table if not exists public.match_officials (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.matches (id) on delete cascade,
+  official_id uuid not null references public.officials (id) on delete cascade,
+  role text not null check (role in ('referee', 'assistant')),
+  created_at timestamptz not null default now(),
+  unique (match_id, official_id)
+);
+
+-- one referee per match (assistants: at most two, checked by setMatchOfficials)
+create unique index if not exists match_officials_one_referee_key
+  on public.match_officials (match_id) where role = 'referee';
+create index if not exists match_officials_official_id_idx on public.match_officials (official_id);
+
+-- incidents: [{ minute, kind, team_id, description }] as entered on /admin/matches
+create table if not exists public.referee_reports (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null unique references public.matches (id) on delete cascade,
+  official_id uuid references public.officials (id) on delete set null,
+  incidents jsonb not null default '[]'::jsonb,
+  notes text,
+  filed_by uuid references public.profiles (id) on delete set null,
+  filed_at timestamptz not null default now()
+);
+
+create index if not exists referee_reports_official_id_idx on public.referee_reports (official_id);
+
+alter table public.officials enable row level security;
+alter table public.match_officials enable row level security;
+alter table public.referee_reports enable row level security;
+
+-- written by the service-role API route only; fans see who officiates, reports stay with staff
+drop policy if exists "everyone reads officials" on public.officials;
+create policy "everyone reads officials" on public.officials
+  for select using (true);
+
+drop policy if exists "everyone reads match officials" on public.match_officials;
+create policy "everyone reads match officials" on public.match_officials
+  for select using (true);
+
+drop policy if exists "scorekeepers read referee reports" on public.referee_reports;
+create policy "scorekeepers read referee reports" on public.referee_reports
+  for select using (public.has_admin_scope('scores'));
+
+drop trigger if exists officials_tournament_open on public.officials;
+create trigger officials_tournament_open
+  before insert or update or delete on public.officials
+  for each row execute function public.assert_tournament_open();
+
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    alter publication supabase_realtime add table public.match_officials;
+  end if;
+end $$;
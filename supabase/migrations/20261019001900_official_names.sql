@@ -0,0 +1,14 @@
+-- Officials' phone numbers are for staff only. Fans read who officiates
+-- through official_names (no phone); the officials table itself is staff-only.
+
+drop policy if exists "everyone reads officials" on public.officials;
+drop policy if exists "staff read officials" on public.officials;
+create policy "staff read officials" on public.officials
+  for select using (public.has_admin_scope('scores'));
+
+drop view if exists public.official_names;
+create view public.official_names as
+select id, tournament_id, full_name, university
+from public.officials;
+
+grant select on public.official_names to anon, authenticated;
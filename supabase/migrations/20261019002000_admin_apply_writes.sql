@@ -0,0 +1,105 @@
+-- Applies a list of admin writes in one transaction (ChangeSet.atomic in
+-- app/api/admin/action/changes.ts): either every write lands or none does.
+--
+-- writes: [{ op: 'insert' | 'update' | 'delete' | 'upsert', table, filter?, rows?, patch?, on_conflict? }]
+--   filter: { column: value }; a list means "any of these", null means "is null"
+-- Returns [{ table, op, before, after }] per write that touched rows, for the audit log.
+-- Service role only.
+
+create or replace function public.admin_write_filter(filter jsonb)
+returns text
+language sql
+immutable
+as $$
+  select coalesce(
+    string_agg(
+      case
+        when jsonb_typeof(f.value) = 'null' then format('t.%I is null', f.key)
+        when jsonb_typeof(f.value) = 'array' then
+          format('t.%I::text = any (array(select jsonb_array_elements_text(%L::jsonb)))', f.key, f.value)
+        else format('t.%I = %L', f.key, f.value #>> '{}')
+      end,
+      ' and '
+    ),
+    'true'
+  )
+  from jsonb_each(filter) f;
+$$;
+
+create or replace function public.admin_apply_writes(writes jsonb)
+returns jsonb
+language plpgsql
+set search_path = public
+as $$
+declare
+  w jsonb;
+  tbl text;
+  op text;
+  cond text;
+  cols text;
+  sets text;
+  before jsonb;
+  after jsonb;
+  out jsonb := '[]'::jsonb;
+begin
+  for w in select value from jsonb_array_elements(writes) loop
+    tbl := w->>'table';
+    op := w->>'op';
+    cond := public.admin_write_filter(coalesce(w->'filter', '{}'::jsonb));
+    before := '[]'::jsonb;
+    after := '[]'::jsonb;
+
+    if op in ('insert', 'upsert') then
+      select string_agg(quote_ident(k), ', ') into cols from jsonb_object_keys(w->'rows'->0) k;
+
+      if op = 'upsert' then
+        execute format(
+          'select coalesce(jsonb_agg(to_jsonb(t)), ''[]'') from %I t where (%s) in (select %s from jsonb_populate_recordset(null::%I, $1))',
+          tbl, w->>'on_conflict', w->>'on_conflict', tbl
+        ) into before using w->'rows';
+        select string_agg(format('%I = excluded.%I', k, k), ', ') into sets from jsonb_object_keys(w->'rows'->0) k;
+      end if;
+
+      execute format(
+        'with r as (insert into %I (%s) select %s from jsonb_populate_recordset(null::%I, $1) %s returning *) '
+          || 'select coalesce(jsonb_agg(to_jsonb(r)), ''[]'') from r',
+        tbl, cols, cols, tbl,
+        case when op = 'upsert' then format('on conflict (%s) do update set %s', w->>'on_conflict', sets) else '' end
+      ) into after using w->'rows';
+
+      if op = 'upsert' then
+        op := case when jsonb_array_length(before) > 0 then 'update' else 'insert' end;
+      end if;
+
+    elsif op = 'update' then
+      execute format('select coalesce(jsonb_agg(to_jsonb(t)), ''[]'') from %I t where %s', tbl, cond) into before;
+      if jsonb_array_length(before) > 0 then
+        select string_agg(format('%I = p.%I', k, k), ', ') into sets from jsonb_object_keys(w->'patch') k;
+        execute format(
+          'with r as (update %I t set %s from jsonb_populate_record(null::%I, $1) p where %s returning t.*) '
+            || 'select coalesce(jsonb_agg(to_jsonb(r)), ''[]'') from r',
+          tbl, sets, tbl, cond
+        ) into after using w->'patch';
+      end if;
+
+    elsif op = 'delete' then
+      execute format(
+        'with r as (delete from %I t where %s returning t.*) select coalesce(jsonb_agg(to_jsonb(r)), ''[]'') from r',
+        tbl, cond
+      ) into before;
+
+    else
+      raise exception 'admin_apply_writes: unknown op %', op;
+    end if;
+
+    if jsonb_array_length(before) > 0 or jsonb_array_length(after) > 0 then
+      out := out || jsonb_build_array(jsonb_build_object('table', tbl, 'op', op, 'before', before, 'after', after));
+    end if;
+  end loop;
+
+  return out;
+end;
+$$;
+
+revoke execute on function public.admin_apply_writes(jsonb) from public, anon, authenticated;
+grant execute on function public.admin_apply_writes(jsonb) to service_role;
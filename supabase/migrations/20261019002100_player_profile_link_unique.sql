@@ -0,0 +1,29 @@
+-- One roster player per account, enforced: 20261019000600 skipped the unique
+-- index while duplicate links existed. Keep one link per account (a live
+-- player over one in the recycle bin) and clear the others, then create the
+-- index unconditionally. The cleared links are listed in the migration output.
+
+do $$
+declare
+  r record;
+begin
+  for r in
+    select id, full_name, linked_profile_id
+    from (
+      select p.*, row_number() over (
+        partition by p.linked_profile_id
+        order by (p.archived_at is not null), p.id
+      ) as n
+      from public.players p
+      where p.linked_profile_id is not null
+    ) ranked
+    where n > 1
+  loop
+    raise notice 'unlinking player % (%) from account %: the account is linked to another player',
+      r.id, r.full_name, r.linked_profile_id;
+    update public.players set linked_profile_id = null where id = r.id;
+  end loop;
+end $$;
+
+create unique index if not exists players_linked_profile_id_key
+  on public.players (linked_profile_id) where linked_profile_id is not null;